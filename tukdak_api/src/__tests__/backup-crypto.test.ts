@@ -0,0 +1,54 @@
+import { decryptBackup, encryptBackup, readBackupHeader } from '../utils/backup-crypto';
+import { ValidationError } from '../errors/custom-errors';
+
+// Cheap key derivation keeps the tests fast; the format records the parameters used
+const FAST_KDF = { N: 2 ** 10, r: 8, p: 1 };
+const META = { schema_version: 16, created_at: '2025-11-02T08:00:00.000Z' };
+
+describe('backup encryption', () => {
+  const payload = Buffer.from('SQLite format 3\u0000 សុខ ដារា 50000 KHR'.repeat(50), 'utf8');
+
+  it('should round-trip with the right passphrase', async () => {
+    const encrypted = await encryptBackup(payload, 'ពាក្យសម្ងាត់ 2025', META, FAST_KDF);
+
+    expect(encrypted.includes(Buffer.from('សុខ ដារា'))).toBe(false);
+    const { header, payload: decrypted } = await decryptBackup(encrypted, 'ពាក្យសម្ងាត់ 2025');
+    expect(decrypted.equals(payload)).toBe(true);
+    expect(header).toMatchObject({ cipher: 'aes-256-gcm', kdf: 'scrypt', ...FAST_KDF, ...META });
+  });
+
+  it('should use a fresh salt and IV every time', async () => {
+    const first = readBackupHeader(await encryptBackup(payload, 'correct horse', META, FAST_KDF)).header;
+    const second = readBackupHeader(await encryptBackup(payload, 'correct horse', META, FAST_KDF)).header;
+
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.iv).not.toBe(second.iv);
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const encrypted = await encryptBackup(payload, 'correct horse', META, FAST_KDF);
+
+    await expect(decryptBackup(encrypted, 'correct horse ')).rejects.toThrow(
+      'Wrong passphrase or the backup file has been modified'
+    );
+  });
+
+  it('should detect changes to the ciphertext and to the header', async () => {
+    const encrypted = await encryptBackup(payload, 'correct horse', META, FAST_KDF);
+
+    const flipped = Buffer.from(encrypted);
+    flipped[flipped.length - 40] ^= 1;
+    await expect(decryptBackup(flipped, 'correct horse')).rejects.toThrow(ValidationError);
+
+    const relabelled = Buffer.from(encrypted.toString('latin1').replace('"schema_version":16', '"schema_version":17'), 'latin1');
+    await expect(decryptBackup(relabelled, 'correct horse')).rejects.toThrow(
+      'Wrong passphrase or the backup file has been modified'
+    );
+  });
+
+  it('should refuse files that are not encrypted backups', async () => {
+    await expect(decryptBackup(Buffer.from('SQLite format 3\u0000'), 'correct horse')).rejects.toThrow(
+      'Not an encrypted TukDak backup'
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BackupScheduler } from '../services/backup-scheduler';
+import { DatabaseService } from '../database/database.service';
+import { backupFileName, backupsToPrune, parseBackupFileName, NamedBackup } from '../utils/backup-files';
+
+const at = (day: number, hour: number, minute: number = 0): NamedBackup => {
+  const created_at = new Date(2025, 10, day, hour, minute);
+  return { file_name: backupFileName('automatic', created_at), kind: 'automatic', created_at };
+};
+
+describe('backup files', () => {
+  it('should round-trip the kind and time through the file name', () => {
+    const date = new Date('2025-11-02T08:15:30.250Z');
+
+    expect(backupFileName('pre-restore', date)).toBe('pre-restore_2025-11-02T08-15-30-250Z.db');
+    expect(parseBackupFileName('pre-restore_2025-11-02T08-15-30-250Z.db')).toEqual({
+      file_name: 'pre-restore_2025-11-02T08-15-30-250Z.db',
+      kind: 'pre-restore',
+      created_at: date,
+    });
+    expect(parseBackupFileName('tukdak.db')).toBeNull();
+  });
+
+  it('should keep the newest backup per hour and per day', () => {
+    const backups = [
+      at(3, 10, 5), at(3, 10, 40), at(3, 9, 0),
+      at(2, 20, 0), at(2, 8, 0),
+      at(1, 12, 0),
+    ];
+
+    const pruned = backupsToPrune(backups, 2, 2).map(backup => backup.created_at.getDate() + ' ' + backup.created_at.getHours() + ':' + backup.created_at.getMinutes());
+
+    // Hourly: 3rd 10:40 and 9:00. Daily: 3rd (10:40) and 2nd (20:00).
+    expect(pruned.sort()).toEqual(['1 12:0', '2 8:0', '3 10:5']);
+  });
+
+  it('should always keep the newest backup', () => {
+    expect(backupsToPrune([at(2, 10), at(2, 9)], 0, 0)).toEqual([at(2, 9)]);
+  });
+});
+
+describe('BackupScheduler', () => {
+  let scheduler: BackupScheduler;
+  let backupDir: string;
+  let createBackup: jest.Mock;
+
+  beforeEach(() => {
+    backupDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tukdak-backups-'));
+    createBackup = jest.fn().mockImplementation(async (backupPath: string) => {
+      fs.writeFileSync(backupPath, '');
+      return backupPath;
+    });
+    jest.spyOn(DatabaseService, 'getInstance').mockReturnValue({
+      createBackup,
+      getBackupDirectory: () => backupDir,
+    } as any);
+
+    scheduler = new BackupScheduler();
+  });
+
+  afterEach(async () => {
+    await scheduler.stop();
+    fs.rmSync(backupDir, { recursive: true, force: true });
+  });
+
+  it('should read the schedule from the environment, ignoring bad values', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(BackupScheduler.configFromEnv({ BACKUP_INTERVAL_MINUTES: '0', BACKUP_EVERY_WRITES: 'ten', BACKUP_KEEP_DAILY: '14' }))
+      .toEqual({ interval_minutes: 0, every_writes: 25, keep_hourly: 24, keep_daily: 14 });
+  });
+
+  it('should ignore writes until started', () => {
+    scheduler.recordMoneyWrites(100);
+
+    expect(createBackup).not.toHaveBeenCalled();
+    expect(scheduler.getStatus().writes_since_last_backup).toBe(0);
+  });
+
+  it('should back up after every N money writes and reset the count', async () => {
+    scheduler.start({ interval_minutes: 0, every_writes: 3, keep_hourly: 24, keep_daily: 7 });
+
+    scheduler.recordMoneyWrites();
+    scheduler.recordMoneyWrites();
+    expect(createBackup).not.toHaveBeenCalled();
+
+    scheduler.recordMoneyWrites();
+    const backupPath = await scheduler.runBackup();
+
+    expect(createBackup).toHaveBeenCalledTimes(1);
+    expect(path.dirname(backupPath!)).toBe(backupDir);
+    expect(parseBackupFileName(path.basename(backupPath!))?.kind).toBe('automatic');
+    expect(scheduler.getStatus()).toMatchObject({ running: true, writes_since_last_backup: 0 });
+  });
+
+  it('should prune old automatic backups but leave other files alone', async () => {
+    const oldHour = backupFileName('automatic', new Date(Date.now() - 60 * 1000));
+    const preRestore = backupFileName('pre-restore', new Date(2025, 0, 1));
+    [oldHour, preRestore, 'notes.txt'].forEach(file => fs.writeFileSync(path.join(backupDir, file), ''));
+    scheduler.start({ interval_minutes: 0, every_writes: 0, keep_hourly: 1, keep_daily: 1 });
+
+    const backupPath = await scheduler.runBackup();
+
+    expect(fs.readdirSync(backupDir).sort()).toEqual([path.basename(backupPath!), 'notes.txt', preRestore].sort());
+  });
+
+  it('should log a failed backup instead of throwing', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    createBackup.mockRejectedValue(new Error('disk full'));
+    scheduler.start({ interval_minutes: 0, every_writes: 1, keep_hourly: 24, keep_daily: 7 });
+
+    await expect(scheduler.runBackup()).resolves.toBeNull();
+    expect(scheduler.getStatus().last_backup_at).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+import { BackupService, BACKUP_SCHEMA_VERSION } from '../services/backup-service';
+import { BACKUP_TABLES, BackupRepository } from '../repositories/backup-repository';
+import { DatabaseService } from '../database/database.service';
+import { ValidationError } from '../errors/custom-errors';
+import { BackupSnapshot } from '../types/backup.types';
+
+// Mock repository, keeping the real table list
+jest.mock('../repositories/backup-repository', () => ({
+  BACKUP_TABLES: jest.requireActual('../repositories/backup-repository').BACKUP_TABLES,
+  BackupRepository: jest.fn().mockImplementation(() => ({
+    readTables: jest.fn(),
+    replaceTables: jest.fn(),
+  })),
+}));
+
+const emptyTables = () => Object.fromEntries(BACKUP_TABLES.map(table => [table, []]));
+
+const snapshot = (overrides: Partial<BackupSnapshot> = {}): BackupSnapshot => ({
+  format: 'tukdak-backup',
+  schema_version: BACKUP_SCHEMA_VERSION,
+  created_at: '2025-11-02T08:00:00.000Z',
+  tables: {
+    ...emptyTables(),
+    guestlist: [{ guest_id: 'G001', english_name: 'Sok Dara', khmer_name: 'សុខ ដារា', guest_of: 'Bride' }],
+  },
+  ...overrides,
+});
+
+describe('BackupService', () => {
+  let service: BackupService;
+  let mockRepo: jest.Mocked<BackupRepository>;
+  let mockDbService: { createBackup: jest.Mock; getBackupDirectory: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDbService = {
+      createBackup: jest.fn().mockImplementation(async (backupPath: string) => backupPath),
+      getBackupDirectory: jest.fn().mockReturnValue('/srv/tukdak/data/backups'),
+    };
+    jest.spyOn(DatabaseService, 'getInstance').mockReturnValue(mockDbService as any);
+
+    service = new BackupService();
+    mockRepo = (service as any).backupRepository;
+  });
+
+  describe('createSnapshot', () => {
+    it('should stamp the tables with the format and schema version', async () => {
+      const tables = snapshot().tables;
+      mockRepo.readTables.mockResolvedValue(tables);
+
+      const result = await service.createSnapshot();
+
+      expect(result).toMatchObject({ format: 'tukdak-backup', schema_version: BACKUP_SCHEMA_VERSION, tables });
+      expect(Date.parse(result.created_at)).not.toBeNaN();
+    });
+  });
+
+  describe('createEncryptedBackup', () => {
+    it('should refuse a short passphrase before copying anything', async () => {
+      await expect(service.createEncryptedBackup('/media/usb', 'sok1234')).rejects.toThrow(ValidationError);
+      expect(mockDbService.createBackup).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreSnapshot', () => {
+    it('should take a pre-restore backup before replacing the tables', async () => {
+      const order: string[] = [];
+      mockDbService.createBackup.mockImplementation(async (backupPath: string) => {
+        order.push('backup');
+        return backupPath;
+      });
+      mockRepo.replaceTables.mockImplementation(async () => {
+        order.push('restore');
+        return { guestlist: 1 };
+      });
+
+      const result = await service.restoreSnapshot(snapshot());
+
+      expect(order).toEqual(['backup', 'restore']);
+      expect(result.pre_restore_backup).toMatch(/^\/srv\/tukdak\/data\/backups\/pre-restore_.+\.db$/);
+      expect(result.tables).toEqual({ guestlist: 1 });
+      expect(result.snapshot_created_at).toBe('2025-11-02T08:00:00.000Z');
+    });
+
+    it('should refuse a snapshot from another schema version', async () => {
+      try {
+        await service.restoreSnapshot(snapshot({ schema_version: BACKUP_SCHEMA_VERSION - 1 }));
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).details[0]).toMatchObject({ field: 'schema_version', code: 'INVALID_VALUE' });
+      }
+      expect(mockDbService.createBackup).not.toHaveBeenCalled();
+      expect(mockRepo.replaceTables).not.toHaveBeenCalled();
+    });
+
+    it('should report missing and unknown tables and rows that are not flat objects', async () => {
+      const tables: Record<string, unknown[]> = emptyTables();
+      delete tables.error_logs;
+
+      try {
+        await service.restoreSnapshot({
+          format: 'tukdak-backup',
+          schema_version: BACKUP_SCHEMA_VERSION,
+          created_at: '2025-11-02T08:00:00.000Z',
+          tables: { ...tables, sessions: [], guestlist: [{ guest_id: 'G001', tags: ['vip'] }] },
+        });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).details.map(detail => detail.field)).toEqual([
+          'tables',
+          'tables.guestlist[0]',
+          'tables.error_logs',
+        ]);
+      }
+      expect(mockRepo.replaceTables).not.toHaveBeenCalled();
+    });
+
+    it('should reject anything that is not a snapshot', async () => {
+      await expect(service.restoreSnapshot([])).rejects.toThrow(ValidationError);
+      await expect(service.restoreSnapshot({ format: 'other', tables: {} })).rejects.toThrow(ValidationError);
+    });
+  });
+});
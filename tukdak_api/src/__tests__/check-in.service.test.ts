@@ -0,0 +1,76 @@
+import { CheckInService } from '../services/check-in-service';
+import { CheckInRepository } from '../repositories/check-in-repository';
+import { ValidationError, ConflictError } from '../errors/custom-errors';
+import { CheckIn } from '../types/check-in.types';
+
+// Mock repository
+jest.mock('../repositories/check-in-repository');
+
+describe('CheckInService', () => {
+  let service: CheckInService;
+  let mockRepo: jest.Mocked<CheckInRepository>;
+
+  const mockCheckIn: CheckIn = {
+    id: 1,
+    guest_id: 'TEST001',
+    event_id: null,
+    checked_in_at: '2024-01-01T10:15:00.000Z',
+    device: 'door-ipad-1',
+    is_undone: false,
+    undone_at: null,
+    undo_reason: null,
+    created_at: '2024-01-01T10:15:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new CheckInService();
+    mockRepo = (service as any).checkInRepository;
+  });
+
+  describe('checkIn', () => {
+    it('should check a guest in with the device', async () => {
+      mockRepo.checkIn.mockResolvedValue(mockCheckIn);
+
+      const result = await service.checkIn('TEST001', { device: 'door-ipad-1' });
+
+      expect(mockRepo.checkIn).toHaveBeenCalledWith('TEST001', { device: 'door-ipad-1' });
+      expect(result).toEqual(mockCheckIn);
+    });
+
+    it('should reject an invalid arrival time', async () => {
+      await expect(service.checkIn('TEST001', { checked_in_at: 'soon' })).rejects.toThrow(ValidationError);
+      expect(mockRepo.checkIn).not.toHaveBeenCalled();
+    });
+
+    it('should propagate double check-ins', async () => {
+      mockRepo.checkIn.mockRejectedValue(new ConflictError('Guest TEST001 is already checked in'));
+
+      await expect(service.checkIn('TEST001')).rejects.toThrow('already checked in');
+    });
+  });
+
+  describe('bulkCheckIn', () => {
+    it('should report invalid guest IDs by index', async () => {
+      try {
+        await service.bulkCheckIn({ guest_ids: ['TEST001', ''] });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual(
+          expect.arrayContaining([expect.objectContaining({ field: 'guest_ids[1]' })])
+        );
+      }
+      expect(mockRepo.bulkCheckIn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('undoCheckIn', () => {
+    it('should pass a trimmed reason', async () => {
+      mockRepo.undoCheckIn.mockResolvedValue({ ...mockCheckIn, is_undone: true, undo_reason: 'Wrong guest' });
+
+      await service.undoCheckIn('TEST001', { reason: ' Wrong guest ' });
+
+      expect(mockRepo.undoCheckIn).toHaveBeenCalledWith('TEST001', { reason: 'Wrong guest' });
+    });
+  });
+});
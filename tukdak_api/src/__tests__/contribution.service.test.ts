@@ -0,0 +1,143 @@
+import { ContributionService } from '../services/contribution-service';
+import { ContributionRepository } from '../repositories/contribution-repository';
+import { ValidationError, NotFoundError } from '../errors/custom-errors';
+import { Contribution } from '../types/contribution.types';
+import { mockPaymentMethodRegistry } from './test-helpers';
+
+// Mock repository
+jest.mock('../repositories/contribution-repository');
+jest.mock('../repositories/payment-method-repository');
+
+describe('ContributionService', () => {
+  let service: ContributionService;
+  let mockRepo: jest.Mocked<ContributionRepository>;
+
+  const mockContribution: Contribution = {
+    id: 1,
+    guest_id: 'TEST001',
+    amount: 100000,
+    currency: 'KHR',
+    payment_method: 'Cash',
+    received_at: '2024-01-01T00:00:00.000Z',
+    note: null,
+    is_voided: false,
+    voided_at: null,
+    void_reason: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPaymentMethodRegistry();
+    service = new ContributionService();
+    mockRepo = (service as any).contributionRepository;
+  });
+
+  describe('createContribution', () => {
+    it('should record a valid contribution', async () => {
+      mockRepo.createContribution.mockResolvedValue(mockContribution);
+
+      const request = { amount: 100000, currency: 'KHR' as const, payment_method: 'Cash' as const };
+      const result = await service.createContribution('TEST001', request);
+
+      expect(mockRepo.createContribution).toHaveBeenCalledWith('TEST001', request);
+      expect(result).toEqual(mockContribution);
+    });
+
+    it('should reject non-positive amounts', async () => {
+      try {
+        await service.createContribution('TEST001', { amount: 0, currency: 'USD', payment_method: 'QR_Code' });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).details).toEqual(
+          expect.arrayContaining([expect.objectContaining({ field: 'amount', code: 'INVALID_VALUE' })])
+        );
+      }
+      expect(mockRepo.createContribution).not.toHaveBeenCalled();
+    });
+
+    it('should require a payment method and a known currency', async () => {
+      try {
+        await service.createContribution('TEST001', { amount: 10, currency: 'EUR' as any } as any);
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ field: 'currency' }),
+            expect.objectContaining({ field: 'payment_method', code: 'REQUIRED' }),
+          ])
+        );
+      }
+    });
+
+    it('should reject payment methods missing from the registry', async () => {
+      await expect(service.createContribution('TEST001', {
+        amount: 10,
+        currency: 'USD',
+        payment_method: 'Bitcoin'
+      })).rejects.toThrow(ValidationError);
+      expect(mockRepo.createContribution).not.toHaveBeenCalled();
+    });
+
+    it('should reject disabled payment methods', async () => {
+      try {
+        await service.createContribution('TEST001', { amount: 1, currency: 'USD', payment_method: 'Gold' });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ field: 'payment_method', message: 'Payment method Gold is disabled' }),
+          ])
+        );
+      }
+    });
+
+    it('should reject an invalid received_at date', async () => {
+      await expect(service.createContribution('TEST001', {
+        amount: 10,
+        currency: 'USD',
+        payment_method: 'Cash',
+        received_at: 'not-a-date'
+      })).rejects.toThrow('Validation failed');
+    });
+
+    it('should validate guest ID', async () => {
+      await expect(service.createContribution('  ', { amount: 10, currency: 'USD', payment_method: 'Cash' }))
+        .rejects.toThrow('Valid guest ID is required');
+    });
+  });
+
+  describe('getContributions', () => {
+    it('should pass filters to the repository', async () => {
+      mockRepo.getContributionsByGuest.mockResolvedValue([mockContribution]);
+
+      const result = await service.getContributions('TEST001', { include_voided: true });
+
+      expect(mockRepo.getContributionsByGuest).toHaveBeenCalledWith('TEST001', { include_voided: true });
+      expect(result).toEqual([mockContribution]);
+    });
+
+    it('should propagate not found errors', async () => {
+      mockRepo.getContributionsByGuest.mockRejectedValue(new NotFoundError('Guest', 'MISSING'));
+
+      await expect(service.getContributions('MISSING')).rejects.toThrow('Guest with id MISSING not found');
+    });
+  });
+
+  describe('voidContribution', () => {
+    it('should void a contribution with a trimmed reason', async () => {
+      const voided = { ...mockContribution, is_voided: true, void_reason: 'Counted twice' };
+      mockRepo.voidContribution.mockResolvedValue(voided);
+
+      const result = await service.voidContribution('TEST001', 1, '  Counted twice ');
+
+      expect(mockRepo.voidContribution).toHaveBeenCalledWith('TEST001', 1, 'Counted twice');
+      expect(result.is_voided).toBe(true);
+    });
+
+    it('should validate contribution ID', async () => {
+      await expect(service.voidContribution('TEST001', 0)).rejects.toThrow('Valid contribution ID is required');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { CustomFieldService } from '../services/custom-field-service';
+import { CustomFieldRepository } from '../repositories/custom-field-repository';
+import { ValidationError } from '../errors/custom-errors';
+import { CustomField } from '../types/custom-field.types';
+
+// Mock repository
+jest.mock('../repositories/custom-field-repository');
+
+describe('CustomFieldService', () => {
+  let service: CustomFieldService;
+  let mockRepo: jest.Mocked<CustomFieldRepository>;
+
+  const field = (overrides: Partial<CustomField>): CustomField => ({
+    id: 1,
+    name: 'village',
+    label: 'Village',
+    field_type: 'text',
+    options: null,
+    guest_count: 0,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+  const definitions = [
+    field({ id: 1, name: 'village' }),
+    field({ id: 2, name: 'age', field_type: 'number' }),
+    field({ id: 3, name: 'met_on', field_type: 'date' }),
+    field({ id: 4, name: 'diet', field_type: 'choice', options: ['Meat', 'Vegetarian'] }),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new CustomFieldService();
+    mockRepo = (service as any).customFieldRepository;
+    mockRepo.findByName.mockImplementation(async (name: string) => definitions.find(def => def.name === name) ?? null);
+  });
+
+  describe('createCustomField', () => {
+    it('should create a choice field', async () => {
+      const created = definitions[3];
+      mockRepo.createCustomField.mockResolvedValue(created);
+
+      const request = { name: 'diet', label: 'Diet', field_type: 'choice' as const, options: ['Meat', 'Vegetarian'] };
+      const result = await service.createCustomField(request);
+
+      expect(mockRepo.createCustomField).toHaveBeenCalledWith(request);
+      expect(result.options).toEqual(['Meat', 'Vegetarian']);
+    });
+
+    it('should require options for choice fields only', async () => {
+      await expect(service.createCustomField({ name: 'diet', label: 'Diet', field_type: 'choice' }))
+        .rejects.toThrow(ValidationError);
+      await expect(service.createCustomField({ name: 'age', label: 'Age', field_type: 'number', options: ['1'] }))
+        .rejects.toThrow(ValidationError);
+      expect(mockRepo.createCustomField).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateGuestValues', () => {
+    it('should accept values matching their field types', async () => {
+      await expect(service.validateGuestValues({
+        village: 'Prek Eng', age: 42, met_on: '2020-01-05', diet: 'Meat'
+      })).resolves.toBeUndefined();
+    });
+
+    it('should allow null to clear a value', async () => {
+      await expect(service.validateGuestValues({ age: null })).resolves.toBeUndefined();
+    });
+
+    it('should report every invalid value', async () => {
+      try {
+        await service.validateGuestValues({ age: '42', met_on: '05/01/2020', diet: 'Fish', unknown: 'x' });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual([
+          expect.objectContaining({ field: 'custom_fields.age', message: 'Must be a number' }),
+          expect.objectContaining({ field: 'custom_fields.met_on' }),
+          expect.objectContaining({ field: 'custom_fields.diet', message: 'Must be one of Meat, Vegetarian' }),
+          expect.objectContaining({ field: 'custom_fields.unknown', message: 'Unknown custom field' }),
+        ]);
+      }
+    });
+  });
+
+  describe('updateCustomField', () => {
+    it('should require at least one field', async () => {
+      await expect(service.updateCustomField(1, {}))
+        .rejects.toThrow('At least one field must be provided');
+    });
+
+    it('should validate field ID', async () => {
+      await expect(service.deleteCustomField(0)).rejects.toThrow('Valid custom field ID is required');
+    });
+  });
+});
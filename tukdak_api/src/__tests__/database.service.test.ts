@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseService } from '../database/database.service';
+import { createBaselineDatabase } from './test-helpers';
+
+describe('DatabaseService - startup', () => {
+  let workDir: string;
+  let dbService: DatabaseService;
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tukdak-startup-'));
+    fs.mkdirSync(path.join(workDir, 'data'));
+    jest.spyOn(process, 'cwd').mockReturnValue(workDir);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    // A new instance, so data/tukdak.db resolves against workDir
+    (DatabaseService as any).instance = undefined;
+    dbService = DatabaseService.getInstance();
+  });
+
+  afterEach(async () => {
+    await dbService.close();
+    jest.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should start on a database the migrations have not upgraded yet', async () => {
+    createBaselineDatabase(path.join(workDir, 'data', 'tukdak.db')).close();
+
+    await expect(dbService.initialize()).resolves.toBeUndefined();
+    const db = dbService.getConnection().getDatabase();
+    expect(db.prepare('SELECT COUNT(*) AS count FROM guestlist').get()).toEqual({ count: 2 });
+  });
+
+  it('should create the full schema for a new database', async () => {
+    await dbService.initialize();
+
+    const db = dbService.getConnection().getDatabase();
+    const tables = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`).pluck().all();
+    expect(tables).toEqual(expect.arrayContaining(['guestlist', 'guest_search', 'guest_suggest', 'contributions']));
+  });
+});
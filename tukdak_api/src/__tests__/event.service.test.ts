@@ -0,0 +1,73 @@
+import { EventService } from '../services/event-service';
+import { EventRepository } from '../repositories/event-repository';
+import { ValidationError, ConflictError } from '../errors/custom-errors';
+import { WeddingEvent } from '../types/event.types';
+
+// Mock repository
+jest.mock('../repositories/event-repository');
+
+describe('EventService', () => {
+  let service: EventService;
+  let mockRepo: jest.Mocked<EventRepository>;
+
+  const mockEvent: WeddingEvent = {
+    id: 1,
+    name: 'Engagement',
+    event_type: 'engagement',
+    event_date: '2024-01-01',
+    venue: null,
+    notes: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new EventService();
+    mockRepo = (service as any).eventRepository;
+  });
+
+  describe('createEvent', () => {
+    it('should create a valid event', async () => {
+      mockRepo.createEvent.mockResolvedValue(mockEvent);
+
+      const request = { name: 'Engagement', event_type: 'engagement' as const, event_date: '2024-01-01' };
+      const result = await service.createEvent(request);
+
+      expect(mockRepo.createEvent).toHaveBeenCalledWith(request);
+      expect(result).toEqual(mockEvent);
+    });
+
+    it('should reject an unknown event type', async () => {
+      await expect(
+        service.createEvent({ name: 'Party', event_type: 'party' as any })
+      ).rejects.toThrow(ValidationError);
+      expect(mockRepo.createEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject a blank name', async () => {
+      await expect(
+        service.createEvent({ name: '  ', event_type: 'reception' })
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('updateEvent', () => {
+    it('should reject an empty update', async () => {
+      await expect(service.updateEvent(1, {})).rejects.toThrow(ValidationError);
+      expect(mockRepo.updateEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid event ID', async () => {
+      await expect(service.updateEvent(0, { name: 'Reception' })).rejects.toThrow('Valid event ID is required');
+    });
+  });
+
+  describe('deleteEvent', () => {
+    it('should propagate conflicts for events with gifts', async () => {
+      mockRepo.deleteEvent.mockRejectedValue(new ConflictError('Event 1 has 2 recorded contributions and cannot be deleted'));
+
+      await expect(service.deleteEvent(1)).rejects.toThrow(ConflictError);
+    });
+  });
+});
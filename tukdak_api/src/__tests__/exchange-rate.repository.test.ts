@@ -0,0 +1,87 @@
+/// <reference types="jest" />
+import Database from 'better-sqlite3';
+import { ExchangeRateRepository } from '../repositories/exchange-rate-repository';
+import { GuestRepository } from '../repositories/guest-repository';
+import { DEFAULT_USD_TO_KHR } from '../types/exchange-rate.types';
+import { useTestDatabase } from './test-helpers';
+
+describe('ExchangeRateRepository', () => {
+  let db: Database.Database;
+  let repository: ExchangeRateRepository;
+  let guestRepository: GuestRepository;
+
+  const addGift = (currency: 'KHR' | 'USD', amount: number, receivedAt: string) =>
+    db.prepare(`
+      INSERT INTO contributions (guest_id, amount, currency, payment_method, received_at)
+      VALUES ('G001', ?, ?, 'Cash', ?)
+    `).run(amount, currency, receivedAt);
+
+  beforeEach(async () => {
+    db = useTestDatabase();
+    repository = new ExchangeRateRepository();
+    guestRepository = new GuestRepository();
+    await guestRepository.createGuest({ guest_id: 'G001', english_name: 'Sok Dara', guest_of: 'Bride' });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('without any recorded rate', () => {
+    it('should fall back to DEFAULT_USD_TO_KHR', async () => {
+      expect(await repository.getRateAt('2025-03-01')).toEqual({ usd_to_khr: DEFAULT_USD_TO_KHR, rate: null });
+    });
+
+    it('should convert dollar gifts at the default rate in the statistics', async () => {
+      addGift('USD', 10, '2025-03-01T10:00:00.000Z');
+
+      const stats = await guestRepository.getGuestStatistics();
+
+      expect(stats.grand_total_khr).toBe(10 * DEFAULT_USD_TO_KHR);
+      expect(stats.grand_total_usd).toBe(10);
+    });
+  });
+
+  describe('with a rate change', () => {
+    beforeEach(async () => {
+      await repository.createRate({ usd_to_khr: 4050, effective_from: '2025-01-01T00:00:00.000Z' });
+      await repository.createRate({ usd_to_khr: 4100, effective_from: '2025-06-01T00:00:00.000Z', note: 'Bank rate' });
+    });
+
+    it('should list the history most recent first', async () => {
+      expect((await repository.getAllRates()).map(rate => rate.usd_to_khr)).toEqual([4100, 4050]);
+    });
+
+    it('should look up the rate in effect at a date', async () => {
+      expect((await repository.getRateAt('2025-03-01')).usd_to_khr).toBe(4050);
+      expect((await repository.getRateAt('2025-06-01T00:00:00.000Z')).usd_to_khr).toBe(4100);
+      expect(await repository.getRateAt('2025-07-01')).toMatchObject({ usd_to_khr: 4100, rate: { note: 'Bank rate' } });
+    });
+
+    it('should use the earliest rate before the first one took effect', async () => {
+      expect((await repository.getRateAt('2024-12-01')).usd_to_khr).toBe(4050);
+    });
+
+    it('should convert each gift at the rate on the day it was received', async () => {
+      addGift('USD', 10, '2025-03-01T10:00:00.000Z');
+      addGift('USD', 10, '2025-07-01T10:00:00.000Z');
+      addGift('KHR', 41000, '2025-07-01T11:00:00.000Z');
+
+      const stats = await guestRepository.getGuestStatistics();
+
+      expect(stats).toMatchObject({ total_khr: 41000, total_usd: 20 });
+      // 10 x 4050 + 10 x 4100 + 41000
+      expect(stats.grand_total_khr).toBe(122500);
+      // 10 + 10 + 41000 / 4100
+      expect(stats.grand_total_usd).toBe(30);
+    });
+
+    it('should leave earlier gifts at their own rate when a new rate is set', async () => {
+      addGift('USD', 10, '2025-07-01T10:00:00.000Z');
+      await repository.createRate({ usd_to_khr: 4200, effective_from: '2025-09-01T00:00:00.000Z' });
+      addGift('USD', 10, '2025-09-02T10:00:00.000Z');
+
+      expect((await guestRepository.getGuestStatistics()).grand_total_khr).toBe(10 * 4100 + 10 * 4200);
+    });
+  });
+});
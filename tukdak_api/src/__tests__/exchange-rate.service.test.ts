@@ -0,0 +1,71 @@
+import { ExchangeRateService } from '../services/exchange-rate-service';
+import { ExchangeRateRepository } from '../repositories/exchange-rate-repository';
+import { ValidationError } from '../errors/custom-errors';
+import { ExchangeRate } from '../types/exchange-rate.types';
+
+// Mock repository
+jest.mock('../repositories/exchange-rate-repository');
+
+describe('ExchangeRateService', () => {
+  let service: ExchangeRateService;
+  let mockRepo: jest.Mocked<ExchangeRateRepository>;
+
+  const mockRate: ExchangeRate = {
+    id: 1,
+    usd_to_khr: 4100,
+    effective_from: '2025-06-01T00:00:00.000Z',
+    note: 'Bank rate',
+    created_at: '2025-06-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ExchangeRateService();
+    mockRepo = (service as any).exchangeRateRepository;
+  });
+
+  describe('setRate', () => {
+    it('should record a valid rate with a trimmed note', async () => {
+      mockRepo.createRate.mockResolvedValue(mockRate);
+
+      const result = await service.setRate({ usd_to_khr: 4100, effective_from: '2025-06-01', note: '  Bank rate ' });
+
+      expect(mockRepo.createRate).toHaveBeenCalledWith({ usd_to_khr: 4100, effective_from: '2025-06-01', note: 'Bank rate' });
+      expect(result).toEqual(mockRate);
+    });
+
+    it('should reject a rate that is not a positive number', async () => {
+      for (const usd_to_khr of [0, -4000, NaN, '4100' as any]) {
+        await expect(service.setRate({ usd_to_khr })).rejects.toThrow(ValidationError);
+      }
+      expect(mockRepo.createRate).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid effective_from date', async () => {
+      try {
+        await service.setRate({ usd_to_khr: 4100, effective_from: 'next week' });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual([
+          expect.objectContaining({ field: 'effective_from', code: 'INVALID_DATE' }),
+        ]);
+      }
+    });
+  });
+
+  describe('getRateAt', () => {
+    it('should look up the rate at the given time', async () => {
+      mockRepo.getRateAt.mockResolvedValue({ usd_to_khr: 4100, rate: mockRate });
+
+      const result = await service.getRateAt('2025-07-01');
+
+      expect(mockRepo.getRateAt).toHaveBeenCalledWith('2025-07-01');
+      expect(result.usd_to_khr).toBe(4100);
+    });
+
+    it('should reject an invalid time', async () => {
+      await expect(service.getRateAt('yesterday-ish')).rejects.toThrow(ValidationError);
+      expect(mockRepo.getRateAt).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { editDistance, nameSimilarity, queryTrigrams } from '../utils/fuzzy-match';
+
+describe('editDistance', () => {
+  it('should count insertions, deletions and substitutions', () => {
+    expect(editDistance('sokha', 'sokha')).toBe(0);
+    expect(editDistance('sokha', 'sokhar')).toBe(1);
+    expect(editDistance('sokha', 'soka')).toBe(1);
+    expect(editDistance('sokha', 'sokhe')).toBe(1);
+    expect(editDistance('', 'dara')).toBe(4);
+  });
+
+  it('should count swapped neighbouring letters as one edit', () => {
+    expect(editDistance('sokha', 'sokah')).toBe(1);
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('should score common romanisation variants highly', () => {
+    expect(nameSimilarity('Sokhar', 'Sokha')).toBe(0.83);
+    expect(nameSimilarity('Sokha', 'Sokah')).toBe(0.8);
+    expect(nameSimilarity('sokah', 'Chea Sokha')).toBe(0.8);
+  });
+
+  it('should give names containing the query full marks', () => {
+    expect(nameSimilarity('sokha', 'Chea Sokha')).toBe(1);
+    expect(nameSimilarity('chea  sokha', 'Chea Sokha')).toBe(1);
+  });
+
+  it('should score unrelated names low', () => {
+    expect(nameSimilarity('Sokha', 'Vannak')).toBeLessThan(0.5);
+    expect(nameSimilarity('', 'Sokha')).toBe(0);
+  });
+});
+
+describe('queryTrigrams', () => {
+  it('should split the normalised query into distinct trigrams', () => {
+    expect(queryTrigrams('Sokah')).toEqual(['sok', 'oka', 'kah']);
+    expect(queryTrigrams('aaaa')).toEqual(['aaa']);
+    expect(queryTrigrams('so')).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { inflateRawSync } from 'zlib';
+import { GuestExportService } from '../services/guest-export-service';
+import { GuestRepository } from '../repositories/guest-repository';
+import { CustomFieldRepository } from '../repositories/custom-field-repository';
+import { mockGuest, mockStats, mockPaymentMethodRegistry } from './test-helpers';
+
+// Mock repositories
+jest.mock('../repositories/guest-repository');
+jest.mock('../repositories/custom-field-repository');
+jest.mock('../repositories/payment-method-repository');
+
+// Entry name → content, read from the local file headers of a ZIP archive
+const unzip = (archive: Buffer): Record<string, string> => {
+  const entries: Record<string, string> = {};
+  let offset = 0;
+
+  while (archive.readUInt32LE(offset) === 0x04034B50) {
+    const compressedSize = archive.readUInt32LE(offset + 18);
+    const nameLength = archive.readUInt16LE(offset + 26);
+    const name = archive.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+
+    entries[name] = inflateRawSync(archive.subarray(start, start + compressedSize)).toString('utf8');
+    offset = start + compressedSize;
+  }
+
+  return entries;
+};
+
+describe('GuestExportService', () => {
+  let service: GuestExportService;
+  let mockGuestRepo: jest.Mocked<GuestRepository>;
+  let mockFieldRepo: jest.Mocked<CustomFieldRepository>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPaymentMethodRegistry();
+    service = new GuestExportService();
+    mockGuestRepo = (service as any).guestService.guestRepository;
+    mockFieldRepo = (service as any).customFieldService.customFieldRepository;
+
+    mockGuestRepo.getAllGuests.mockResolvedValue([{
+      ...mockGuest,
+      english_name: 'Dara & Sok',
+      khmer_name: 'ដារ៉ា សុខ',
+      phones: ['+85512345678', '+85597123456'],
+      tags: ['family', 'VIP'],
+      custom_fields: { village: 'Prek Eng' },
+    }]);
+    mockGuestRepo.getGuestStatistics.mockResolvedValue(mockStats);
+    mockFieldRepo.getAllCustomFields.mockResolvedValue([{
+      id: 1, name: 'village', label: 'Village of origin', field_type: 'text', options: null, guest_count: 1,
+      created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z',
+    }]);
+  });
+
+  it('should build guest, side and payment method sheets', async () => {
+    const files = unzip(await service.exportWorkbook({ guest_of: 'Bride', event_id: 2 }));
+
+    expect(mockGuestRepo.getAllGuests).toHaveBeenCalledWith({ guest_of: 'Bride', event_id: 2 });
+    expect(mockGuestRepo.getGuestStatistics).toHaveBeenCalledWith(2);
+
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Guests" sheetId="1" r:id="rId1"/>');
+    expect(files['xl/workbook.xml']).toContain('<sheet name="By side" sheetId="2" r:id="rId2"/>');
+    expect(files['xl/workbook.xml']).toContain('<sheet name="By payment method" sheetId="3" r:id="rId3"/>');
+
+    const guests = files['xl/worksheets/sheet1.xml'];
+    expect(guests).toContain('<t xml:space="preserve">Village of origin</t>');
+    expect(guests).toContain('<t xml:space="preserve">ដារ៉ា សុខ</t>');
+    expect(guests).toContain('<t xml:space="preserve">Dara &amp; Sok</t>');
+    expect(guests).toContain('<t xml:space="preserve">+85512345678; +85597123456</t>');
+    expect(guests).toContain('<t xml:space="preserve">Prek Eng</t>');
+    expect(guests).toContain('<c r="E2"><v>500000</v></c>');
+
+    const sides = files['xl/worksheets/sheet2.xml'];
+    expect(sides).toContain(`<t xml:space="preserve">Groom's parents</t>`);
+    expect(sides).toContain('<row r="6"><c r="A6" t="inlineStr"><is><t xml:space="preserve">Total</t></is></c><c r="B6"><v>2</v></c>');
+
+    expect(files['xl/worksheets/sheet3.xml']).toContain('<t xml:space="preserve">QR Code</t>');
+  });
+});
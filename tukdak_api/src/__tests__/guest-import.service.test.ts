@@ -0,0 +1,116 @@
+import { GuestImportService } from '../services/guest-import-service';
+import { GuestRepository } from '../repositories/guest-repository';
+import { ImportProfileRepository } from '../repositories/import-profile-repository';
+import { ValidationError } from '../errors/custom-errors';
+import { mockPaymentMethodRegistry } from './test-helpers';
+
+// Mock repositories
+jest.mock('../repositories/guest-repository');
+jest.mock('../repositories/payment-method-repository');
+jest.mock('../repositories/import-profile-repository');
+
+describe('GuestImportService', () => {
+  let service: GuestImportService;
+  let mockRepo: jest.Mocked<GuestRepository>;
+  let mockProfileRepo: jest.Mocked<ImportProfileRepository>;
+
+  const HEADER = 'guest_id,english_name,khmer_name,amount_khr,amount_usd,payment_method,guest_of';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPaymentMethodRegistry();
+    service = new GuestImportService();
+    mockRepo = (service as any).guestRepository;
+    mockRepo.findExistingGuestIds.mockResolvedValue([]);
+    mockProfileRepo = (service as any).importProfileService.importProfileRepository;
+  });
+
+  it('should import every row in one call when all rows are valid', async () => {
+    mockRepo.importGuests.mockResolvedValue(2);
+    const csv = `\uFEFF${HEADER}\r\nG001,Dara Sok,"ដារ៉ា, សុខ",100000,0,Cash,Bride\r\nG002,Vanna Chan,វណ្ណា,0,0,,Groom_Parents\r\n`;
+
+    const report = await service.importGuests(csv);
+
+    expect(mockRepo.importGuests).toHaveBeenCalledWith([
+      { guest_id: 'G001', english_name: 'Dara Sok', khmer_name: 'ដារ៉ា, សុខ', guest_of: 'Bride', amount_khr: 100000, amount_usd: 0, payment_method: 'Cash' },
+      { guest_id: 'G002', english_name: 'Vanna Chan', khmer_name: 'វណ្ណា', guest_of: 'Groom_Parents', amount_khr: 0, amount_usd: 0 },
+    ]);
+    expect(report).toEqual(expect.objectContaining({ dry_run: false, total_rows: 2, valid_rows: 2, imported: 2, errors: [] }));
+  });
+
+  it('should report per-row errors on a dry run without importing', async () => {
+    mockRepo.findExistingGuestIds.mockResolvedValue(['G009']);
+    const csv = [
+      HEADER,
+      'G001,Dara,ដារ៉ា,100000,0,,Bride',
+      'G002,Sok,សុខ,0,0,,Cousin',
+      'G001,Dara again,ដារ៉ា,0,0,,Bride',
+      'G009,Existing,ក,0,0,,Groom',
+      'G010,Vanna,វណ្ណា,0,25,Cash,Groom',
+    ].join('\n');
+
+    const report = await service.importGuests(csv, true);
+
+    expect(report.valid_rows).toBe(1);
+    expect(report.invalid_rows).toBe(4);
+    expect(report.errors).toEqual([
+      expect.objectContaining({ row: 2, field: 'payment_method', message: 'Payment method is required when amount is provided' }),
+      expect.objectContaining({ row: 3, field: 'guest_of' }),
+      expect.objectContaining({ row: 4, field: 'guest_id', message: 'Duplicate guest_id, first used on row 2' }),
+      expect.objectContaining({ row: 5, field: 'guest_id', message: 'Guest ID already exists' }),
+    ]);
+    expect(mockRepo.importGuests).not.toHaveBeenCalled();
+  });
+
+  it('should import nothing when committing a file with invalid rows', async () => {
+    const csv = `${HEADER}\nG001,Dara,ដារ៉ា,abc,0,Cash,Bride\nG002,Sok,សុខ,0,0,,Bride`;
+
+    await expect(service.importGuests(csv)).rejects.toThrow('Import has 1 invalid rows; nothing was imported');
+    expect(mockRepo.importGuests).not.toHaveBeenCalled();
+  });
+
+  it('should reject a file missing required columns', async () => {
+    try {
+      await service.importGuests('guest_id,english_name\nG001,Dara');
+      fail('Should have thrown ValidationError');
+    } catch (error) {
+      expect((error as ValidationError).details.map(detail => detail.field)).toEqual(['khmer_name', 'guest_of']);
+    }
+  });
+
+  describe('with an import profile', () => {
+    beforeEach(() => {
+      mockProfileRepo.getProfileById.mockResolvedValue({
+        id: 1,
+        name: 'Aunt Sophea list',
+        column_map: { 'ឈ្មោះ': 'khmer_name', 'Name': 'english_name', 'Side': 'guest_of', 'Riel': 'amount_khr', 'Paid by': 'payment_method' },
+        value_map: { guest_of: { 'ខាងស្រី': 'Bride', 'ខាងប្រុស': 'Groom' } },
+        id_prefix: 'S',
+        created_at: '2025-11-01T00:00:00Z',
+        updated_at: '2025-11-01T00:00:00Z',
+      });
+      mockRepo.getHighestGuestNumber.mockResolvedValue(12);
+    });
+
+    it('should map headers and values and generate guest IDs after the highest existing one', async () => {
+      const csv = 'ឈ្មោះ,NAME,Side,Riel,Paid by,Table\nដារ៉ា,Dara,ខាងស្រី,50000,Cash,3\nសុខ,Sok,ខាងប្រុស,,,4';
+
+      const report = await service.importGuests(csv, true, 1);
+
+      expect(mockRepo.getHighestGuestNumber).toHaveBeenCalledWith('S');
+      expect(report).toEqual(expect.objectContaining({ valid_rows: 2, ignored_columns: ['Table'], errors: [] }));
+
+      await service.importGuests(csv, false, 1);
+      expect(mockRepo.importGuests).toHaveBeenCalledWith([
+        { guest_id: 'S013', english_name: 'Dara', khmer_name: 'ដារ៉ា', guest_of: 'Bride', amount_khr: 50000, payment_method: 'Cash' },
+        { guest_id: 'S014', english_name: 'Sok', khmer_name: 'សុខ', guest_of: 'Groom' },
+      ]);
+    });
+
+    it('should report unmapped values against the guest field', async () => {
+      const report = await service.importGuests('ឈ្មោះ,Name,Side\nដារ៉ា,Dara,ខាងម្ដាយ', true, 1);
+
+      expect(report.errors).toEqual([expect.objectContaining({ row: 2, guest_id: 'S013', field: 'guest_of' })]);
+    });
+  });
+});
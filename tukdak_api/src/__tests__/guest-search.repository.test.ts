@@ -0,0 +1,227 @@
+/// <reference types="jest" />
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { splitSqlStatements } from '../database/migrations';
+import { GuestRepository } from '../repositories/guest-repository';
+import { CreateGuestRequest } from '../types/guest.types';
+import { useTestDatabase } from './test-helpers';
+
+describe('GuestRepository - guest_search index', () => {
+  let db: Database.Database;
+  let repository: GuestRepository;
+
+  const indexedRows = () => db.prepare(`
+    SELECT g.guest_id, s.english_name, s.khmer_name
+    FROM guest_search s JOIN guestlist g ON g.rowid = s.rowid
+    ORDER BY g.guest_id
+  `).all();
+
+  const foundIds = async (query: string, searchType: 'english_name' | 'khmer_name' | 'all') =>
+    (await repository.searchGuests(query, searchType)).guests.map(guest => guest.guest_id);
+
+  beforeEach(async () => {
+    db = useTestDatabase();
+    repository = new GuestRepository();
+    await repository.createGuest({ guest_id: 'G001', english_name: 'Sok Dara', khmer_name: 'សុខ ដារា', guest_of: 'Bride' });
+    await repository.createGuest({ guest_id: 'G002', english_name: 'Chan Sokha', khmer_name: 'ចាន់ សុខា', guest_of: 'Groom' });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should index a guest when it is created', async () => {
+    expect(indexedRows()).toEqual([
+      { guest_id: 'G001', english_name: 'Sok Dara', khmer_name: 'សុខដារា' },
+      { guest_id: 'G002', english_name: 'Chan Sokha', khmer_name: 'ចាន់សុខា' },
+    ]);
+    expect(await foundIds('dara', 'english_name')).toEqual(['G001']);
+  });
+
+  it('should reindex a guest when its names change', async () => {
+    await repository.updateGuest('G001', { english_name: 'Sok Vanna', khmer_name: 'សុខ វណ្ណា' });
+
+    expect(indexedRows()).toContainEqual({ guest_id: 'G001', english_name: 'Sok Vanna', khmer_name: 'សុខវណ្ណា' });
+    expect(await foundIds('dara', 'english_name')).toEqual([]);
+    expect(await foundIds('vanna', 'english_name')).toEqual(['G001']);
+    expect(await foundIds('វណ្ណា', 'khmer_name')).toEqual(['G001']);
+  });
+
+  it('should drop a guest from the index when it is deleted', async () => {
+    await repository.deleteGuest('G001', false);
+
+    expect(indexedRows()).toEqual([
+      { guest_id: 'G002', english_name: 'Chan Sokha', khmer_name: 'ចាន់សុខា' },
+    ]);
+    expect(await foundIds('sok', 'english_name')).toEqual(['G002']);
+  });
+
+  it('should search queries shorter than a trigram without the index', async () => {
+    // "ok" is in both names; "ha" only in Sokha
+    expect((await foundIds('ok', 'english_name')).sort()).toEqual(['G001', 'G002']);
+    expect(await foundIds('ha', 'english_name')).toEqual(['G002']);
+    expect(await foundIds('ចា', 'khmer_name')).toEqual(['G002']);
+    expect(await foundIds('da', 'all')).toEqual(['G001']);
+  });
+
+  it('should rebuild the index from guestlist when migration 021 runs', () => {
+    const migration = fs.readFileSync(
+      path.join(__dirname, '../database/migrations/021_key_guest_search_by_rowid.sql'), 'utf8'
+    );
+    splitSqlStatements(migration).forEach(statement => db.exec(statement));
+
+    expect(indexedRows()).toHaveLength(2);
+    db.prepare(`UPDATE guestlist SET english_name = 'Sok Vanna' WHERE guest_id = 'G001'`).run();
+    db.prepare(`DELETE FROM guestlist WHERE guest_id = 'G002'`).run();
+    expect(indexedRows()).toEqual([
+      { guest_id: 'G001', english_name: 'Sok Vanna', khmer_name: 'សុខដារា' },
+    ]);
+  });
+});
+
+describe('GuestRepository - guest_suggest index', () => {
+  let db: Database.Database;
+  let repository: GuestRepository;
+
+  const suggestedIds = async (query: string) =>
+    (await repository.suggestGuests(query, 10)).map(guest => guest.guest_id);
+
+  beforeEach(async () => {
+    db = useTestDatabase();
+    repository = new GuestRepository();
+    await repository.createGuest({ guest_id: 'G001', english_name: 'Dara Sok', khmer_name: 'ដារា សុខ', guest_of: 'Bride' });
+    await repository.createGuest({ guest_id: 'G002', english_name: 'Sokha Chan', khmer_name: 'សុខា ចាន់', guest_of: 'Groom' });
+    await repository.createGuest({ guest_id: 'G003', english_name: 'Vanna Kim', khmer_name: 'វណ្ណា គីម', guest_of: 'Groom' });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should suggest guests with a word starting with each word of the query', async () => {
+    expect((await suggestedIds('so')).sort()).toEqual(['G001', 'G002']);
+    expect(await suggestedIds('sok ch')).toEqual(['G002']);
+    expect(await suggestedIds('សុខ')).toEqual(expect.arrayContaining(['G001', 'G002']));
+    expect(await suggestedIds('g003')).toEqual(['G003']);
+    expect(await suggestedIds('ok')).toEqual([]);
+  });
+
+  it('should rank names starting with the query first', async () => {
+    // Both have a word starting "sok"; only Sokha Chan starts with it
+    expect(await suggestedIds('sok')).toEqual(['G002', 'G001']);
+    expect(await suggestedIds('ដារា')).toEqual(['G001']);
+  });
+
+  it('should treat FTS5 syntax in the query as text', async () => {
+    // Unquoted, OR would match either word and a lone quote would be a syntax error
+    expect(await suggestedIds('vanna OR sok')).toEqual([]);
+    expect(await suggestedIds('sok NOT')).toEqual([]);
+    expect(await suggestedIds('"')).toEqual([]);
+    expect(await suggestedIds('"van')).toEqual(['G003']);
+    expect(await suggestedIds('kim*')).toEqual(['G003']);
+  });
+
+  it('should follow renames and deletes of guests', async () => {
+    await repository.updateGuest('G003', { english_name: 'Sophea Kim' });
+    await repository.deleteGuest('G001', false);
+
+    expect(await suggestedIds('vanna')).toEqual([]);
+    expect((await suggestedIds('so')).sort()).toEqual(['G002', 'G003']);
+    expect(db.prepare('SELECT COUNT(*) AS count FROM guest_suggest').get()).toEqual({ count: 2 });
+  });
+
+  it('should suggest only the guests of the given event', async () => {
+    const addEvent = db.prepare(`INSERT INTO events (name, event_type) VALUES (?, ?)`);
+    const engagement = Number(addEvent.run('Engagement', 'engagement').lastInsertRowid);
+    const reception = Number(addEvent.run('Reception', 'reception').lastInsertRowid);
+    db.prepare(`UPDATE guestlist SET event_id = ? WHERE guest_id = 'G001'`).run(engagement);
+    db.prepare(`UPDATE guestlist SET event_id = ? WHERE guest_id = 'G002'`).run(reception);
+
+    expect((await repository.suggestGuests('so', 10, engagement)).map(guest => guest.guest_id)).toEqual(['G001']);
+    expect((await repository.suggestGuests('so', 10, reception)).map(guest => guest.guest_id)).toEqual(['G002']);
+    expect((await suggestedIds('so')).sort()).toEqual(['G001', 'G002']);
+  });
+
+  it('should rekey the index by rowid when migration 022 runs', async () => {
+    const migration = fs.readFileSync(
+      path.join(__dirname, '../database/migrations/022_key_guest_suggest_by_rowid.sql'), 'utf8'
+    );
+    splitSqlStatements(migration).forEach(statement => db.exec(statement));
+
+    expect(db.prepare(`
+      SELECT COUNT(*) AS count FROM guest_suggest s JOIN guestlist g ON g.rowid = s.rowid AND g.guest_id = s.guest_id
+    `).get()).toEqual({ count: 3 });
+    await repository.deleteGuest('G002', false);
+    expect(await suggestedIds('so')).toEqual(['G001']);
+  });
+});
+
+describe('GuestRepository - name indexes at 10,000 guests', () => {
+  const FAMILY_NAMES = ['Sok', 'Chan', 'Kim', 'Heng', 'Ly', 'Meas', 'Pich', 'Nhem', 'Keo', 'Chea'];
+  const GIVEN_NAMES = ['Dara', 'Sokha', 'Vanna', 'Sophea', 'Rithy', 'Bopha', 'Chenda', 'Piseth', 'Sreymom', 'Visal'];
+
+  let db: Database.Database;
+  let repository: GuestRepository;
+
+  // Best of a few rounds, so a garbage collection pause does not fail the check
+  const fastestMs = async (run: (round: number) => unknown, rounds = 5) => {
+    let fastest = Infinity;
+    for (let round = 0; round < rounds; round++) {
+      const start = performance.now();
+      await run(round);
+      fastest = Math.min(fastest, performance.now() - start);
+    }
+    return fastest;
+  };
+
+  beforeAll(async () => {
+    // Each search logs its activity; jest's console.error, which formats a
+    // stack trace when that log fails, is not part of the search being timed
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    db = useTestDatabase();
+    repository = new GuestRepository();
+    const guests: CreateGuestRequest[] = Array.from({ length: 10000 }, (_, i) => ({
+      guest_id: `G${String(i + 1).padStart(5, '0')}`,
+      english_name: `${FAMILY_NAMES[i % 10]} ${GIVEN_NAMES[Math.floor(i / 10) % 10]} ${i}`,
+      guest_of: 'Bride',
+    }));
+    await repository.importGuests(guests);
+  }, 60000);
+
+  afterAll(() => {
+    db.close();
+  });
+
+  it('should answer a name search in a few milliseconds', async () => {
+    const result = await repository.searchGuests('Piseth', 'english_name');
+
+    expect(result.total_count).toBe(1000);
+    expect(await fastestMs(() => repository.searchGuests('Piseth', 'english_name'))).toBeLessThan(10);
+  });
+
+  it('should answer a typeahead query in a few milliseconds', async () => {
+    expect(await repository.suggestGuests('pis', 10)).toHaveLength(10);
+    expect(await fastestMs(() => repository.suggestGuests('pis', 10))).toBeLessThan(10);
+  });
+
+  it('should reindex renames and deletes without scanning either index', async () => {
+    const rename = db.prepare('UPDATE guestlist SET english_name = ? WHERE guest_id = ?');
+    const renames = await fastestMs(round => {
+      for (let i = 1; i <= 100; i++) {
+        rename.run(`Renamed ${round} ${i}`, `G${String(i).padStart(5, '0')}`);
+      }
+    });
+    // G00100 to G00599, a hundred guests a round
+    const deletes = await fastestMs(round => {
+      db.prepare('DELETE FROM guestlist WHERE guest_id LIKE ?').run(`G00${round + 1}%`);
+    });
+
+    expect((await repository.searchGuests('Renamed', 'english_name')).total_count).toBe(99);
+    expect(await repository.suggestGuests('renamed 4 10', 10)).toEqual([
+      expect.objectContaining({ guest_id: 'G00010' }),
+    ]);
+    expect(renames).toBeLessThan(100);
+    expect(deletes).toBeLessThan(100);
+  });
+});
@@ -2,11 +2,12 @@
 import { GuestService } from '../services/guest-service';
 import { GuestRepository } from '../repositories/guest-repository';
 import { ValidationError, NotFoundError } from '../errors/custom-errors';
-import { mockGuest, createMockRepository, validCreateRequest, validCreateRequestWithPayment } from './test-helpers';
+import { mockGuest, createMockRepository, mockPaymentMethodRegistry, validCreateRequest, validCreateRequestWithPayment } from './test-helpers';
 import { SearchType } from '../types/database.types';
 
 // Mock repository
 jest.mock('../repositories/guest-repository');
+jest.mock('../repositories/payment-method-repository');
 
 describe('GuestService - Search Functionality', () => {
   let service: GuestService;
@@ -37,9 +38,11 @@ describe('GuestService - Search Functionality', () => {
     jest.clearAllMocks();
     const repo = {
       searchGuests: jest.fn(),
+      suggestGuests: jest.fn(),
     } as unknown as jest.Mocked<GuestRepository>;
     
     (GuestRepository as jest.MockedClass<typeof GuestRepository>).mockImplementation(() => repo);
+    mockPaymentMethodRegistry();
     service = new GuestService();
     mockRepo = (service as unknown as { guestRepository: jest.Mocked<GuestRepository> }).guestRepository;
   });
@@ -53,7 +56,7 @@ describe('GuestService - Search Functionality', () => {
         searchType: 'english_name'
       });
 
-      expect(mockRepo.searchGuests).toHaveBeenCalledWith('john', 'english_name', 50, 0);
+      expect(mockRepo.searchGuests).toHaveBeenCalledWith('john', 'english_name', 50, 0, { fuzzy: false });
       expect(result).toEqual(mockSearchResult);
     });
 
@@ -147,7 +150,7 @@ describe('GuestService - Search Functionality', () => {
         searchType: 'guest_id'
       });
 
-      expect(mockRepo.searchGuests).toHaveBeenCalledWith('WED001', 'guest_id', 50, 0);
+      expect(mockRepo.searchGuests).toHaveBeenCalledWith('WED001', 'guest_id', 50, 0, { fuzzy: false });
     });
 
     it('should support english_name search', async () => {
@@ -158,7 +161,7 @@ describe('GuestService - Search Functionality', () => {
         searchType: 'english_name'
       });
 
-      expect(mockRepo.searchGuests).toHaveBeenCalledWith('john', 'english_name', 50, 0);
+      expect(mockRepo.searchGuests).toHaveBeenCalledWith('john', 'english_name', 50, 0, { fuzzy: false });
     });
 
     it('should support khmer_name search', async () => {
@@ -170,7 +173,119 @@ describe('GuestService - Search Functionality', () => {
         searchType: 'khmer_name'
       });
 
-      expect(mockRepo.searchGuests).toHaveBeenCalledWith('ជន', 'khmer_name', 50, 0);
+      expect(mockRepo.searchGuests).toHaveBeenCalledWith('ជន', 'khmer_name', 50, 0, { fuzzy: false });
+    });
+
+    it('should support all fields search and keep the highlights', async () => {
+      const highlights = [{ field: 'english_name' as const, value: 'John Doe', ranges: [{ start: 0, end: 4 }] }];
+      mockRepo.searchGuests.mockResolvedValue({
+        ...mockSearchResult,
+        guests: [{ ...mockSearchResult.guests[0], highlights }],
+        search_type: 'all' as SearchType
+      });
+
+      const result = await service.searchGuests({
+        query: 'john',
+        searchType: 'all'
+      });
+
+      expect(mockRepo.searchGuests).toHaveBeenCalledWith('john', 'all', 50, 0, { fuzzy: false });
+      expect(result.guests[0].highlights).toEqual(highlights);
+    });
+  });
+
+  describe('fuzzy search', () => {
+    afterEach(() => {
+      delete process.env.FUZZY_MIN_SIMILARITY;
+    });
+
+    it('should pass fuzzy mode with the default threshold', async () => {
+      mockRepo.searchGuests.mockResolvedValue({ ...mockSearchResult, min_similarity: 0.7 });
+
+      const result = await service.searchGuests({
+        query: 'Sokah',
+        searchType: 'english_name',
+        fuzzy: true
+      });
+
+      expect(mockRepo.searchGuests).toHaveBeenCalledWith('Sokah', 'english_name', 50, 0, { fuzzy: true, min_similarity: 0.7 });
+      expect(result.min_similarity).toBe(0.7);
+    });
+
+    it('should take the threshold from the request, then the environment', async () => {
+      mockRepo.searchGuests.mockResolvedValue(mockSearchResult);
+      process.env.FUZZY_MIN_SIMILARITY = '0.6';
+
+      await service.searchGuests({ query: 'Sokah', searchType: 'english_name', fuzzy: true });
+      await service.searchGuests({ query: 'Sokah', searchType: 'english_name', fuzzy: true, min_similarity: 0.9 });
+
+      expect(mockRepo.searchGuests).toHaveBeenNthCalledWith(1, 'Sokah', 'english_name', 50, 0, { fuzzy: true, min_similarity: 0.6 });
+      expect(mockRepo.searchGuests).toHaveBeenNthCalledWith(2, 'Sokah', 'english_name', 50, 0, { fuzzy: true, min_similarity: 0.9 });
+    });
+
+    it('should only allow fuzzy matching of English names', async () => {
+      await expect(service.searchGuests({
+        query: 'សុខា',
+        searchType: 'khmer_name',
+        fuzzy: true
+      })).rejects.toThrow('Validation failed');
+      expect(mockRepo.searchGuests).not.toHaveBeenCalled();
+    });
+
+    it('should apply the threshold to any_script searches', async () => {
+      mockRepo.searchGuests.mockResolvedValue({ ...mockSearchResult, search_type: 'any_script' as SearchType });
+
+      await service.searchGuests({ query: 'sokha chan', searchType: 'any_script' });
+
+      expect(mockRepo.searchGuests).toHaveBeenCalledWith('sokha chan', 'any_script', 50, 0, { fuzzy: false, min_similarity: 0.7 });
+    });
+
+    it('should validate the threshold', async () => {
+      for (const min_similarity of [0, 1.5, '0.8' as unknown as number]) {
+        await expect(service.searchGuests({
+          query: 'Sokah',
+          searchType: 'english_name',
+          fuzzy: true,
+          min_similarity
+        })).rejects.toThrow('Validation failed');
+      }
+    });
+  });
+
+  describe('suggestGuests', () => {
+    const suggestion = { guest_id: 'WED001', english_name: 'John Doe', khmer_name: 'ជន ដូ', guest_of: 'Bride' as const };
+
+    it('should return suggestions for the trimmed query', async () => {
+      mockRepo.suggestGuests.mockResolvedValue([suggestion]);
+
+      const result = await service.suggestGuests('  jo ');
+
+      expect(mockRepo.suggestGuests).toHaveBeenCalledWith('jo', 8, undefined);
+      expect(result.suggestions).toEqual([suggestion]);
+      expect(result.query_used).toBe('jo');
+    });
+
+    it('should pass the event scope to the repository', async () => {
+      mockRepo.suggestGuests.mockResolvedValue([suggestion]);
+
+      await service.suggestGuests('jo', 5, 2);
+
+      expect(mockRepo.suggestGuests).toHaveBeenCalledWith('jo', 5, 2);
+    });
+
+    it('should suggest nothing for a blank query', async () => {
+      const result = await service.suggestGuests('   ', 5);
+
+      expect(result.suggestions).toEqual([]);
+      expect(mockRepo.suggestGuests).not.toHaveBeenCalled();
+    });
+
+    it('should validate the limit and event', async () => {
+      for (const limit of [0, 21, 2.5]) {
+        await expect(service.suggestGuests('jo', limit)).rejects.toThrow('Validation failed');
+      }
+      await expect(service.suggestGuests('jo', 5, 0)).rejects.toThrow('Valid event ID is required');
+      expect(mockRepo.suggestGuests).not.toHaveBeenCalled();
     });
   });
 
@@ -185,7 +300,7 @@ describe('GuestService - Search Functionality', () => {
         offset: 20
       });
 
-      expect(mockRepo.searchGuests).toHaveBeenCalledWith('john', 'english_name', 10, 20);
+      expect(mockRepo.searchGuests).toHaveBeenCalledWith('john', 'english_name', 10, 20, { fuzzy: false });
     });
 
     it('should use default pagination values', async () => {
@@ -196,7 +311,7 @@ describe('GuestService - Search Functionality', () => {
         searchType: 'english_name'
       });
 
-      expect(mockRepo.searchGuests).toHaveBeenCalledWith('john', 'english_name', 50, 0);
+      expect(mockRepo.searchGuests).toHaveBeenCalledWith('john', 'english_name', 50, 0, { fuzzy: false });
     });
   });
 });
@@ -209,6 +324,7 @@ describe('GuestService', () => {
     jest.clearAllMocks();
     const repo = createMockRepository();
     (GuestRepository as jest.MockedClass<typeof GuestRepository>).mockImplementation(() => repo as any);
+    mockPaymentMethodRegistry();
     service = new GuestService();
     mockRepo = (service as any).guestRepository;
   });
@@ -318,7 +434,7 @@ describe('GuestService', () => {
 
       const result = await service.getGuestById('TEST001');
 
-      expect(mockRepo.getGuestById).toHaveBeenCalledWith('TEST001');
+      expect(mockRepo.getGuestById).toHaveBeenCalledWith('TEST001', undefined);
       expect(result).toEqual(mockGuest);
     });
 
@@ -369,7 +485,7 @@ describe('GuestService', () => {
 
       const result = await service.updateGuest('TEST001', { amount_khr: 600000 });
 
-      expect(mockRepo.updateGuest).toHaveBeenCalledWith('TEST001', { amount_khr: 600000 });
+      expect(mockRepo.updateGuest).toHaveBeenCalledWith('TEST001', { amount_khr: 600000 }, undefined);
       expect(result).toEqual(updatedGuest);
     });
 
@@ -433,10 +549,17 @@ describe('GuestService', () => {
         total_guests: 5,
         total_khr: 1000000,
         total_usd: 250,
+        grand_total_khr: 2000000,
+        grand_total_usd: 500,
+        total_contributions: 4,
         paid_guests: 3,
         pending_guests: 2,
         duplicates: 1,
         payment_methods: { qr_code: 2, cash: 1, pending: 2 },
+        by_payment_method: [],
+        by_side: [],
+        in_kind_gifts: { total_gifts: 0, guests: 0, estimated_khr: 0, estimated_usd: 0, unvalued_gifts: 0, must_return: 0 },
+        attendance: { invited: 5, arrived: 0, not_arrived: 5, arrival_rate: 0, by_side: [], arrivals_per_hour: [] },
         guest_distribution: { bride: 2, groom: 2, bride_parents: 1, groom_parents: 0 },
       };
       mockRepo.getGuestStatistics.mockResolvedValue(mockStats);
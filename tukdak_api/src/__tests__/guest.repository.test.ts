@@ -0,0 +1,130 @@
+/// <reference types="jest" />
+import Database from 'better-sqlite3';
+import { ValidationError } from '../errors/custom-errors';
+import { GuestRepository } from '../repositories/guest-repository';
+import { useTestDatabase } from './test-helpers';
+
+describe('GuestRepository - contributions ledger', () => {
+  let db: Database.Database;
+  let repository: GuestRepository;
+
+  const addGift = (currency: 'KHR' | 'USD', amount: number, paymentMethod: string, receivedAt: string) =>
+    db.prepare(`
+      INSERT INTO contributions (guest_id, amount, currency, payment_method, received_at)
+      VALUES ('G001', ?, ?, ?, ?)
+    `).run(amount, currency, paymentMethod, receivedAt).lastInsertRowid;
+
+  const activeGifts = () => db.prepare(`
+    SELECT id, amount, currency, payment_method, received_at
+    FROM contributions WHERE guest_id = 'G001' AND is_voided = 0 ORDER BY currency
+  `).all() as { id: number; amount: number; currency: string; payment_method: string; received_at: string }[];
+
+  beforeEach(async () => {
+    db = useTestDatabase();
+    repository = new GuestRepository();
+    await repository.createGuest({ guest_id: 'G001', english_name: 'Sok Dara', khmer_name: 'សុខ ដារា', guest_of: 'Bride' });
+    // Cash in riel first, then a QR payment in dollars - the guest's latest method is QR_Code
+    addGift('KHR', 100000, 'Cash', '2025-01-01T10:00:00.000Z');
+    addGift('USD', 50, 'QR_Code', '2025-01-01T11:00:00.000Z');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should keep the replaced gift\'s own method when only an amount changes', async () => {
+    const guest = await repository.updateGuest('G001', { amount_khr: 200000 });
+
+    expect(activeGifts().map(gift => [gift.currency, gift.amount, gift.payment_method])).toEqual([
+      ['KHR', 200000, 'Cash'],
+      ['USD', 50, 'QR_Code'],
+    ]);
+    expect(guest.amount_khr).toBe(200000);
+  });
+
+  it('should apply a requested method only to the gift it replaces', async () => {
+    await repository.updateGuest('G001', { amount_usd: 60, payment_method: 'Cash' });
+    await repository.updateGuest('G001', { amount_khr: 150000, payment_method: 'QR_Code' });
+
+    expect(activeGifts().map(gift => [gift.currency, gift.amount, gift.payment_method])).toEqual([
+      ['KHR', 150000, 'QR_Code'],
+      ['USD', 60, 'Cash'],
+    ]);
+  });
+
+  it('should correct only the most recent gift when just the method is sent', async () => {
+    const [khrBefore] = activeGifts();
+
+    const guest = await repository.updateGuest('G001', { payment_method: 'Cash' });
+
+    const [khr, usd] = activeGifts();
+    // The earlier riel gift is untouched
+    expect(khr).toEqual(khrBefore);
+    // The dollar gift is superseded by one with the same amount and date
+    expect(usd).toMatchObject({ amount: 50, payment_method: 'Cash', received_at: '2025-01-01T11:00:00.000Z' });
+    expect(db.prepare(`
+      SELECT payment_method FROM contributions WHERE guest_id = 'G001' AND currency = 'USD' AND is_voided = 1
+    `).all()).toEqual([{ payment_method: 'QR_Code' }]);
+    expect(guest.payment_method).toBe('Cash');
+  });
+
+  describe('with gifts at two events', () => {
+    let engagement: number;
+    let reception: number;
+
+    const rielByEvent = () => db.prepare(`
+      SELECT event_id, amount FROM contributions
+      WHERE guest_id = 'G001' AND currency = 'KHR' AND is_voided = 0 ORDER BY event_id
+    `).all();
+
+    beforeEach(() => {
+      const addEvent = db.prepare(`INSERT INTO events (name, event_type) VALUES (?, ?)`);
+      engagement = Number(addEvent.run('Engagement', 'engagement').lastInsertRowid);
+      reception = Number(addEvent.run('Reception', 'reception').lastInsertRowid);
+      db.prepare(`UPDATE contributions SET event_id = ? WHERE guest_id = 'G001'`).run(engagement);
+      db.prepare(`
+        INSERT INTO contributions (guest_id, event_id, amount, currency, payment_method, received_at)
+        VALUES ('G001', ?, 40000, 'KHR', 'Cash', '2025-02-01T10:00:00.000Z')
+      `).run(reception);
+    });
+
+    it('should reject a new riel total without an event_id', async () => {
+      try {
+        await repository.updateGuest('G001', { amount_khr: 200000 });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).details).toEqual([expect.objectContaining({ field: 'event_id', code: 'REQUIRED' })]);
+      }
+
+      expect(rielByEvent()).toEqual([
+        { event_id: engagement, amount: 100000 },
+        { event_id: reception, amount: 40000 },
+      ]);
+    });
+
+    it('should change only the given event\'s total', async () => {
+      await repository.updateGuest('G001', { amount_khr: 60000 }, reception);
+
+      expect(rielByEvent()).toEqual([
+        { event_id: engagement, amount: 100000 },
+        { event_id: reception, amount: 60000 },
+      ]);
+    });
+
+    it('should keep a currency given at only one event at that event', async () => {
+      await repository.updateGuest('G001', { amount_usd: 70 });
+
+      expect(db.prepare(`
+        SELECT event_id, amount FROM contributions WHERE guest_id = 'G001' AND currency = 'USD' AND is_voided = 0
+      `).all()).toEqual([{ event_id: engagement, amount: 70 }]);
+    });
+  });
+
+  it('should take any registry method, not only QR_Code or Cash', async () => {
+    const guest = await repository.updateGuest('G001', { amount_usd: 80, payment_method: 'ABA' });
+
+    expect(guest.payment_method).toBe('ABA');
+    expect(activeGifts().map(gift => gift.payment_method)).toEqual(['Cash', 'ABA']);
+  });
+});
@@ -1,10 +1,11 @@
 import { GuestService } from '../services/guest-service';
 import { GuestRepository } from '../repositories/guest-repository';
 import { ValidationError } from '../errors/custom-errors';
-import { mockGuest } from './test-helpers';
+import { mockGuest, mockPaymentMethodRegistry } from './test-helpers';
 
 // Mock repository
 jest.mock('../repositories/guest-repository');
+jest.mock('../repositories/payment-method-repository');
 
 describe('GuestService', () => {
   let service: GuestService;
@@ -12,6 +13,7 @@ describe('GuestService', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    mockPaymentMethodRegistry();
     service = new GuestService();
     mockRepo = (service as any).guestRepository;
   });
@@ -49,6 +51,30 @@ describe('GuestService', () => {
 
       expect(result).toEqual(mockGuest);
     });
+
+    it('should report errors for nested in-kind gifts by index', async () => {
+      try {
+        await service.createGuest({
+          guest_id: 'TEST001',
+          english_name: 'Test Guest',
+          khmer_name: 'នេន និង',
+          guest_of: 'Bride',
+          in_kind_gifts: [
+            { description: 'Gold necklace', quantity: 2, unit: 'chi', estimated_value: 300, estimated_currency: 'USD' },
+            { description: '', estimated_value: 100 }
+          ]
+        });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ field: 'in_kind_gifts[1].description', code: 'REQUIRED' }),
+            expect.objectContaining({ field: 'in_kind_gifts[1].estimated_currency', code: 'REQUIRED' }),
+          ])
+        );
+      }
+      expect(mockRepo.createGuest).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateGuest', () => {
@@ -62,5 +88,24 @@ describe('GuestService', () => {
       await expect(service.updateGuest('TEST001', {}))
         .rejects.toThrow('At least one field must be provided');
     });
+
+    it('should reject phone numbers with an unknown carrier prefix', async () => {
+      try {
+        await service.updateGuest('TEST001', { phones: ['012 345 678', '023 123 456'] });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual([
+          expect.objectContaining({ field: 'phones[1]', code: 'INVALID_VALUE' }),
+        ]);
+      }
+      expect(mockRepo.updateGuest).not.toHaveBeenCalled();
+    });
+
+    it('should reject blank tags', async () => {
+      await expect(service.updateGuest('TEST001', {
+        tags: ['VIP', ' ']
+      })).rejects.toThrow(ValidationError);
+      expect(mockRepo.updateGuest).not.toHaveBeenCalled();
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { HouseholdService } from '../services/household-service';
+import { HouseholdRepository } from '../repositories/household-repository';
+import { ValidationError } from '../errors/custom-errors';
+import { HouseholdDetail } from '../types/household.types';
+import { Guest } from '../types/guest.types';
+import { mockGuest } from './test-helpers';
+
+// Mock repository
+jest.mock('../repositories/household-repository');
+
+describe('HouseholdService', () => {
+  let service: HouseholdService;
+  let mockRepo: jest.Mocked<HouseholdRepository>;
+
+  const mockHousehold: HouseholdDetail = {
+    id: 1,
+    name: 'Sok family',
+    head_guest_id: 'TEST001',
+    notes: null,
+    head_english_name: null,
+    head_khmer_name: null,
+    member_count: 1,
+    total_khr: 500000,
+    total_usd: 125,
+    grand_total_khr: 1000000,
+    given_value_khr: 0,
+    outstanding_khr: 1000000,
+    members: [{ ...mockGuest, household_id: 1, household_name: 'Sok family' } as Guest],
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new HouseholdService();
+    mockRepo = (service as any).householdRepository;
+  });
+
+  describe('createHousehold', () => {
+    it('should create a household with a head', async () => {
+      mockRepo.createHousehold.mockResolvedValue(mockHousehold);
+
+      const request = { name: 'Sok family', head_guest_id: 'TEST001' };
+      const result = await service.createHousehold(request);
+
+      expect(mockRepo.createHousehold).toHaveBeenCalledWith(request);
+      expect(result.members).toHaveLength(1);
+    });
+
+    it('should report invalid member IDs by index', async () => {
+      try {
+        await service.createHousehold({ name: ' ', member_ids: ['TEST001', ''] });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ field: 'name', code: 'REQUIRED' }),
+            expect.objectContaining({ field: 'member_ids[1]' }),
+          ])
+        );
+      }
+      expect(mockRepo.createHousehold).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateHousehold', () => {
+    it('should allow clearing the head', async () => {
+      mockRepo.updateHousehold.mockResolvedValue({ ...mockHousehold, head_guest_id: null });
+
+      const result = await service.updateHousehold(1, { head_guest_id: null });
+
+      expect(mockRepo.updateHousehold).toHaveBeenCalledWith(1, { head_guest_id: null });
+      expect(result.head_guest_id).toBeNull();
+    });
+
+    it('should require at least one field', async () => {
+      await expect(service.updateHousehold(1, {}))
+        .rejects.toThrow('At least one field must be provided');
+    });
+  });
+
+  describe('members', () => {
+    it('should require at least one guest to add', async () => {
+      await expect(service.addMembers(1, [])).rejects.toThrow(ValidationError);
+      expect(mockRepo.addMembers).not.toHaveBeenCalled();
+    });
+
+    it('should validate household ID', async () => {
+      await expect(service.removeMember(0, 'TEST001')).rejects.toThrow('Valid household ID is required');
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { ImportProfileService } from '../services/import-profile-service';
+import { ImportProfileRepository } from '../repositories/import-profile-repository';
+import { ValidationError } from '../errors/custom-errors';
+import { CreateImportProfileRequest } from '../types/guest-import.types';
+
+// Mock repository
+jest.mock('../repositories/import-profile-repository');
+
+describe('ImportProfileService', () => {
+  let service: ImportProfileService;
+  let mockRepo: jest.Mocked<ImportProfileRepository>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new ImportProfileService();
+    mockRepo = (service as any).importProfileRepository;
+  });
+
+  describe('createProfile', () => {
+    it('should create a profile mapping Khmer headers and values', async () => {
+      const request: CreateImportProfileRequest = {
+        name: 'Aunt Sophea list',
+        column_map: { 'ឈ្មោះ': 'khmer_name', 'Side': 'guest_of' },
+        value_map: { guest_of: { 'ខាងស្រី': 'Bride' } },
+        id_prefix: 'S',
+      };
+      mockRepo.createProfile.mockResolvedValue({ id: 1, ...request, id_prefix: 'S', value_map: request.value_map!, created_at: '', updated_at: '' });
+
+      await service.createProfile(request);
+
+      expect(mockRepo.createProfile).toHaveBeenCalledWith(request);
+    });
+
+    it('should reject unknown targets, fields filled twice and a bad prefix', async () => {
+      try {
+        await service.createProfile({
+          name: 'Bad',
+          column_map: { 'Name': 'english_name', 'Full name': 'english_name', 'Table': 'table' as any },
+          value_map: { side: { 'ខាងស្រី': 'Bride' } } as any,
+          id_prefix: 'S 1',
+        });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ValidationError);
+        expect((error as ValidationError).details.map(detail => detail.field)).toEqual([
+          'column_map.Full name',
+          'column_map.Table',
+          'value_map.side',
+          'id_prefix',
+        ]);
+      }
+      expect(mockRepo.createProfile).not.toHaveBeenCalled();
+    });
+
+    it('should require a non-empty column map', async () => {
+      await expect(service.createProfile({ name: 'Empty', column_map: {} })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('updateProfile', () => {
+    it('should require at least one field', async () => {
+      await expect(service.updateProfile(1, {})).rejects.toThrow('At least one field must be provided for update');
+    });
+
+    it('should allow clearing the ID prefix', async () => {
+      await service.updateProfile(1, { id_prefix: null });
+      expect(mockRepo.updateProfile).toHaveBeenCalledWith(1, { id_prefix: null });
+    });
+  });
+});
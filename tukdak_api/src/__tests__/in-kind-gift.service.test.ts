@@ -0,0 +1,163 @@
+import Database from 'better-sqlite3';
+import { InKindGiftService } from '../services/in-kind-gift-service';
+import { InKindGiftRepository } from '../repositories/in-kind-gift-repository';
+import { GuestRepository } from '../repositories/guest-repository';
+import { ValidationError, ConflictError } from '../errors/custom-errors';
+import { InKindGift } from '../types/in-kind-gift.types';
+import { useTestDatabase } from './test-helpers';
+
+// Mock repository
+jest.mock('../repositories/in-kind-gift-repository');
+
+describe('InKindGiftService', () => {
+  let service: InKindGiftService;
+  let mockRepo: jest.Mocked<InKindGiftRepository>;
+
+  const mockGift: InKindGift = {
+    id: 1,
+    guest_id: 'TEST001',
+    event_id: null,
+    description: 'Gold necklace',
+    quantity: 2,
+    unit: 'chi',
+    estimated_value: 500,
+    estimated_currency: 'USD',
+    must_return: true,
+    return_by: '2026-01-01',
+    received_at: '2024-01-01T00:00:00.000Z',
+    note: null,
+    is_voided: false,
+    voided_at: null,
+    void_reason: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new InKindGiftService();
+    mockRepo = (service as any).inKindGiftRepository;
+  });
+
+  describe('createInKindGift', () => {
+    it('should record a valid gift', async () => {
+      mockRepo.createInKindGift.mockResolvedValue(mockGift);
+
+      const request = {
+        description: 'Gold necklace', quantity: 2, unit: 'chi',
+        estimated_value: 500, estimated_currency: 'USD' as const, must_return: true, return_by: '2026-01-01',
+      };
+      const result = await service.createInKindGift('TEST001', request);
+
+      expect(mockRepo.createInKindGift).toHaveBeenCalledWith('TEST001', request);
+      expect(result).toEqual(mockGift);
+    });
+
+    it('should report every invalid field', async () => {
+      try {
+        await service.createInKindGift('TEST001', {
+          description: ' ', quantity: 0, estimated_value: -1, return_by: '2026-01-01',
+        });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details.map(detail => detail.field)).toEqual([
+          'description', 'quantity', 'estimated_value', 'estimated_currency', 'return_by',
+        ]);
+      }
+      expect(mockRepo.createInKindGift).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown currency', async () => {
+      await expect(service.createInKindGift('TEST001', {
+        description: 'Rice', estimated_value: 20, estimated_currency: 'EUR' as any,
+      })).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a blank guest ID', async () => {
+      await expect(service.createInKindGift('  ', { description: 'Rice' })).rejects.toThrow('Valid guest ID is required');
+    });
+  });
+
+  describe('getInKindGifts', () => {
+    it('should pass the filters to the repository', async () => {
+      mockRepo.getInKindGiftsByGuest.mockResolvedValue([mockGift]);
+
+      const result = await service.getInKindGifts('TEST001', { include_voided: true, event_id: 2 });
+
+      expect(mockRepo.getInKindGiftsByGuest).toHaveBeenCalledWith('TEST001', { include_voided: true, event_id: 2 });
+      expect(result).toEqual([mockGift]);
+    });
+
+    it('should reject an invalid event ID', async () => {
+      await expect(service.getInKindGifts('TEST001', { event_id: 0 })).rejects.toThrow('Valid event ID is required');
+      expect(mockRepo.getInKindGiftsByGuest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('voidInKindGift', () => {
+    it('should void with a trimmed reason', async () => {
+      mockRepo.voidInKindGift.mockResolvedValue({ ...mockGift, is_voided: true, void_reason: 'Duplicate' });
+
+      await service.voidInKindGift('TEST001', 1, '  Duplicate ');
+
+      expect(mockRepo.voidInKindGift).toHaveBeenCalledWith('TEST001', 1, 'Duplicate');
+    });
+
+    it('should reject an invalid gift ID', async () => {
+      await expect(service.voidInKindGift('TEST001', 1.5)).rejects.toThrow('Valid gift ID is required');
+    });
+
+    it('should propagate conflicts for gifts already voided', async () => {
+      mockRepo.voidInKindGift.mockRejectedValue(new ConflictError('In-kind gift 1 is already voided'));
+
+      await expect(service.voidInKindGift('TEST001', 1)).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('in the guest statistics', () => {
+    let db: Database.Database;
+    let guestRepository: GuestRepository;
+
+    beforeEach(async () => {
+      db = useTestDatabase();
+      const { InKindGiftRepository: Repository } =
+        jest.requireActual<typeof import('../repositories/in-kind-gift-repository')>('../repositories/in-kind-gift-repository');
+      (service as any).inKindGiftRepository = new Repository();
+      guestRepository = new GuestRepository();
+      await guestRepository.createGuest({ guest_id: 'G001', english_name: 'Sok Dara', guest_of: 'Bride' });
+      await guestRepository.createGuest({ guest_id: 'G002', english_name: 'Chan Sokha', guest_of: 'Groom' });
+    });
+
+    afterEach(() => {
+      db.close();
+    });
+
+    it('should be counted apart from the money totals', async () => {
+      await service.createInKindGift('G001', {
+        description: 'Gold necklace', quantity: 2, unit: 'chi', estimated_value: 500, estimated_currency: 'USD', must_return: true,
+      });
+      await service.createInKindGift('G001', { description: 'Rice', estimated_value: 200000, estimated_currency: 'KHR' });
+      await service.createInKindGift('G002', { description: 'Fruit basket' });
+      const voided = await service.createInKindGift('G002', { description: 'Wine', estimated_value: 30, estimated_currency: 'USD' });
+      await service.voidInKindGift('G002', voided.id, 'Recorded twice');
+
+      const stats = await guestRepository.getGuestStatistics();
+
+      expect(stats.in_kind_gifts).toEqual({
+        total_gifts: 3,
+        guests: 2,
+        estimated_khr: 200000,
+        estimated_usd: 500,
+        unvalued_gifts: 1,
+        must_return: 1,
+      });
+      expect(stats).toMatchObject({ total_khr: 0, total_usd: 0, grand_total_khr: 0, paid_guests: 0, pending_guests: 2 });
+    });
+
+    it('should leave out gifts of guests marked as duplicates', async () => {
+      await service.createInKindGift('G002', { description: 'Fruit basket' });
+      await guestRepository.deleteGuest('G002');
+
+      expect((await guestRepository.getGuestStatistics()).in_kind_gifts.total_gifts).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { InvitationService } from '../services/invitation-service';
+import { InvitationRepository } from '../repositories/invitation-repository';
+import { ValidationError } from '../errors/custom-errors';
+import { Invitation } from '../types/invitation.types';
+
+// Mock repository
+jest.mock('../repositories/invitation-repository');
+
+describe('InvitationService', () => {
+  let service: InvitationService;
+  let mockRepo: jest.Mocked<InvitationRepository>;
+
+  const mockInvitation: Invitation = {
+    id: 1,
+    guest_id: 'TEST001',
+    delivered_by: 'Aunt Srey',
+    delivered_at: '2024-01-01',
+    rsvp_status: 'pending',
+    party_size: 2,
+    rsvp_at: null,
+    note: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new InvitationService();
+    mockRepo = (service as any).invitationRepository;
+  });
+
+  describe('createInvitation', () => {
+    it('should record an invitation', async () => {
+      mockRepo.createInvitation.mockResolvedValue(mockInvitation);
+
+      const request = { delivered_by: 'Aunt Srey', delivered_at: '2024-01-01', party_size: 2 };
+      const result = await service.createInvitation('TEST001', request);
+
+      expect(mockRepo.createInvitation).toHaveBeenCalledWith('TEST001', request);
+      expect(result).toEqual(mockInvitation);
+    });
+
+    it('should reject an unknown RSVP status and a zero party size', async () => {
+      try {
+        await service.createInvitation('TEST001', { rsvp_status: 'yes' as any, party_size: 0 });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ field: 'rsvp_status', code: 'INVALID_VALUE' }),
+            expect.objectContaining({ field: 'party_size', code: 'INVALID_VALUE' }),
+          ])
+        );
+      }
+      expect(mockRepo.createInvitation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateInvitation', () => {
+    it('should record an RSVP', async () => {
+      mockRepo.updateInvitation.mockResolvedValue({ ...mockInvitation, rsvp_status: 'attending' });
+
+      const result = await service.updateInvitation('TEST001', { rsvp_status: 'attending' });
+
+      expect(mockRepo.updateInvitation).toHaveBeenCalledWith('TEST001', { rsvp_status: 'attending' });
+      expect(result.rsvp_status).toBe('attending');
+    });
+
+    it('should require at least one field', async () => {
+      await expect(service.updateInvitation('TEST001', {}))
+        .rejects.toThrow('At least one field must be provided');
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { normalizeKhmer } from '../utils/khmer-text';
+
+describe('normalizeKhmer', () => {
+  it('should drop zero-width characters and spaces between Khmer words', () => {
+    expect(normalizeKhmer('សុខ\u200Bដារា')).toBe('សុខដារា');
+    expect(normalizeKhmer('  \uFEFFសុខ   ដារា ')).toBe('សុខដារា');
+    expect(normalizeKhmer('Sok សុខ')).toBe('Sok សុខ');
+  });
+
+  it('should put subscripts before the vowel and coeng RO last', () => {
+    // ក + ា + ្ស typed vowel-first
+    expect(normalizeKhmer('កា្ស')).toBe('ក្សា');
+    // ស្ត្រី with coeng RO typed before coeng TA
+    expect(normalizeKhmer('ស្រ្តី')).toBe('ស្ត្រី');
+  });
+
+  it('should put the register shifter before the vowel', () => {
+    expect(normalizeKhmer('មែ៉')).toBe('ម៉ែ');
+  });
+
+  it('should compose two-part vowels typed as halves', () => {
+    expect(normalizeKhmer('ងេីប')).toBe('ងើប');
+    expect(normalizeKhmer('កេា')).toBe('កោ');
+  });
+
+  it('should treat the look-alike coeng DA as coeng TA', () => {
+    expect(normalizeKhmer('ក្ដ')).toBe(normalizeKhmer('ក្ត'));
+  });
+
+  it('should leave already normal and non-Khmer text alone', () => {
+    expect(normalizeKhmer('ចាន់សុភា')).toBe('ចាន់សុភា');
+    expect(normalizeKhmer('ស្ត្រី')).toBe('ស្ត្រី');
+    expect(normalizeKhmer('John  Doe')).toBe('John Doe');
+  });
+});
@@ -0,0 +1,75 @@
+import { LedgerReportService } from '../services/ledger-report-service';
+import { GuestRepository } from '../repositories/guest-repository';
+import { EventRepository } from '../repositories/event-repository';
+import { Guest } from '../types/database.types';
+import { mockGuest, mockStats, mockPaymentMethodRegistry } from './test-helpers';
+
+// Mock repositories
+jest.mock('../repositories/guest-repository');
+jest.mock('../repositories/event-repository');
+jest.mock('../repositories/payment-method-repository');
+
+describe('LedgerReportService', () => {
+  let service: LedgerReportService;
+  let mockGuestRepo: jest.Mocked<GuestRepository>;
+  let mockEventRepo: jest.Mocked<EventRepository>;
+
+  const guest = (overrides: Partial<Guest>): Guest => ({ ...mockGuest, amount_khr: 0, amount_usd: 0, ...overrides });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPaymentMethodRegistry();
+    service = new LedgerReportService();
+    mockGuestRepo = (service as any).guestService.guestRepository;
+    mockEventRepo = (service as any).eventService.eventRepository;
+
+    mockGuestRepo.getAllGuests.mockResolvedValue([
+      guest({ guest_id: 'G010', guest_of: 'Bride', khmer_name: 'ស្រីពៅ ម៉ៅ', amount_khr: 100000, payment_method: 'Cash' }),
+      guest({ guest_id: 'G002', guest_of: 'Bride', khmer_name: 'ដារ៉ា', amount_usd: 25.5, payment_method: 'QR_Code' }),
+      guest({ guest_id: 'G003', guest_of: 'Groom_Parents', amount_khr: 50000, amount_usd: 10.25, payment_method: 'Cash' }),
+      guest({ guest_id: 'G009', guest_of: 'Bride', amount_khr: 200000, amount_usd: 4.5, payment_method: 'Cash' }),
+    ]);
+    mockGuestRepo.getGuestStatistics.mockResolvedValue(mockStats);
+  });
+
+  describe('getLedger', () => {
+    it('should group givers by side in guest ID order with running totals', async () => {
+      const ledger = await service.getLedger();
+
+      expect(mockGuestRepo.getAllGuests).toHaveBeenCalledWith({ has_payment: true, is_duplicate: false, event_id: undefined });
+      expect(ledger.sections.map(section => section.guest_of)).toEqual(['Bride', 'Groom_Parents']);
+
+      const [bride] = ledger.sections;
+      expect(bride.entries.map(entry => [entry.guest_id, entry.running_khr, entry.running_usd])).toEqual([
+        ['G002', 0, 25.5],
+        ['G009', 200000, 30],
+        ['G010', 300000, 30],
+      ]);
+      expect(bride.entries[0].payment_method).toBe('QR Code');
+      expect(bride).toEqual(expect.objectContaining({ total_khr: 300000, total_usd: 30 }));
+      expect(ledger.summary.by_side).toBe(mockStats.by_side);
+    });
+
+    it('should scope the ledger to an event', async () => {
+      mockEventRepo.getEventById.mockResolvedValue({
+        id: 2, name: 'Reception', event_type: 'reception', created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z',
+      });
+
+      const ledger = await service.getLedger(2);
+
+      expect(mockGuestRepo.getGuestStatistics).toHaveBeenCalledWith(2);
+      expect(ledger).toEqual(expect.objectContaining({ event_id: 2, event_name: 'Reception' }));
+    });
+  });
+
+  describe('generateLedgerPdf', () => {
+    it('should render the sides and a summary page with Khmer text', async () => {
+      const pdf = await service.generateLedgerPdf();
+
+      expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+      // Two side pages plus the summary page
+      expect(pdf.toString('latin1')).toMatch(/\/Type \/Pages\s+\/Count 3/);
+      expect(pdf.toString('latin1')).toContain('/FontFile2');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseService } from '../database/database.service';
+import { MigrationRunner, splitSqlStatements } from '../database/migrations';
+import { GuestRepository } from '../repositories/guest-repository';
+import { createBaselineDatabase } from './test-helpers';
+
+describe('splitSqlStatements', () => {
+  it('should split on semicolons and drop comment lines', () => {
+    const sql = `-- Migration: Example
+-- Description: two statements
+
+CREATE TABLE a (id INTEGER);
+-- Fill it
+INSERT INTO a VALUES (1);
+`;
+
+    expect(splitSqlStatements(sql)).toEqual([
+      'CREATE TABLE a (id INTEGER)',
+      'INSERT INTO a VALUES (1)',
+    ]);
+  });
+
+  it('should keep a trigger body together until its END', () => {
+    const sql = `CREATE TRIGGER t AFTER INSERT ON a
+FOR EACH ROW
+BEGIN
+  INSERT INTO b VALUES (NEW.id);
+  DELETE FROM c WHERE id = NEW.id;
+END;
+DROP TABLE d;`;
+
+    const statements = splitSqlStatements(sql);
+
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toMatch(/^CREATE TRIGGER t[\s\S]*DELETE FROM c WHERE id = NEW\.id;\nEND$/);
+    expect(statements[1]).toBe('DROP TABLE d');
+  });
+});
+
+describe('MigrationRunner', () => {
+  let workDir: string;
+  let dbPath: string;
+  let runner: MigrationRunner;
+
+  const migrationFiles = fs.readdirSync(path.join(__dirname, '../database/migrations')).filter(file => file.endsWith('.sql'));
+
+  const recordedMigrations = () => DatabaseService.getInstance().getConnection().getDatabase()
+    .prepare('SELECT filename FROM migrations ORDER BY id').pluck().all();
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tukdak-migrate-'));
+    fs.mkdirSync(path.join(workDir, 'data'));
+    dbPath = path.join(workDir, 'data', 'tukdak.db');
+    jest.spyOn(process, 'cwd').mockReturnValue(workDir);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    // A new instance, so data/tukdak.db resolves against workDir
+    (DatabaseService as any).instance = undefined;
+    runner = new MigrationRunner();
+  });
+
+  afterEach(async () => {
+    await runner.cleanup();
+    jest.restoreAllMocks();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('should upgrade a database created by the first release', async () => {
+    createBaselineDatabase(dbPath).close();
+
+    await runner.runMigrations();
+
+    expect(recordedMigrations()).toEqual(migrationFiles);
+    // Restart the way the API does, on the upgraded file
+    await runner.cleanup();
+    await DatabaseService.getInstance().initialize();
+    expect(DatabaseService.getInstance().awaitsMigrations()).toBe(false);
+
+    const repository = new GuestRepository();
+    const guest = await repository.getGuestById('G001');
+    expect(guest).toEqual(expect.objectContaining({
+      english_name: 'Sok Dara', khmer_name: 'សុខ ដារា', amount_khr: 200000, amount_usd: 50, payment_method: 'Cash',
+    }));
+    expect(DatabaseService.getInstance().getConnection().getDatabase()
+      .prepare(`SELECT khmer_name_normalized FROM guestlist WHERE guest_id = 'G001'`).pluck().get()).toBe('សុខដារា');
+    expect((await repository.searchGuests('dara', 'english_name')).guests.map(g => g.guest_id)).toEqual(['G001']);
+    expect((await repository.searchGuests('សុខា', 'khmer_name')).guests.map(g => g.guest_id)).toEqual(['G002']);
+    expect((await repository.suggestGuests('chan', 10)).map(g => g.guest_id)).toEqual(['G002']);
+  });
+
+  it('should leave a database it has just created as it is', async () => {
+    await runner.runMigrations();
+
+    expect(recordedMigrations()).toEqual(migrationFiles);
+    const db = DatabaseService.getInstance().getConnection().getDatabase();
+    expect(db.prepare('SELECT COUNT(*) AS count FROM guestlist').get()).toEqual({ count: 0 });
+  });
+});
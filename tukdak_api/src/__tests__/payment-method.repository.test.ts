@@ -0,0 +1,46 @@
+/// <reference types="jest" />
+import Database from 'better-sqlite3';
+import { PaymentMethodRepository } from '../repositories/payment-method-repository';
+import { ConflictError, NotFoundError } from '../errors/custom-errors';
+import { useTestDatabase } from './test-helpers';
+
+describe('PaymentMethodRepository', () => {
+  let db: Database.Database;
+  let repository: PaymentMethodRepository;
+
+  beforeEach(() => {
+    db = useTestDatabase();
+    repository = new PaymentMethodRepository();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should list the seeded methods in sort order', async () => {
+    const methods = await repository.getAllPaymentMethods();
+
+    expect(methods.map(method => method.code)).toEqual(['QR_Code', 'Cash', 'ABA', 'ACLEDA', 'Wing', 'Bank_Transfer', 'Gold']);
+    expect(methods[0]).toMatchObject({ label: 'QR Code', is_active: true });
+  });
+
+  it('should add a new method at the end of the list', async () => {
+    const method = await repository.createPaymentMethod({ code: 'Pi_Pay', label: ' Pi Pay ' });
+
+    expect(method).toMatchObject({ code: 'Pi_Pay', label: 'Pi Pay', is_active: true, sort_order: 80 });
+    await expect(repository.createPaymentMethod({ code: 'Pi_Pay', label: 'Pi Pay' })).rejects.toThrow(ConflictError);
+  });
+
+  it('should hide disabled methods unless asked for them', async () => {
+    await repository.updatePaymentMethod('Gold', { is_active: false, label: 'Gold leaf' });
+
+    expect((await repository.getAllPaymentMethods()).map(method => method.code)).not.toContain('Gold');
+    expect(await repository.findByCode('Gold')).toMatchObject({ label: 'Gold leaf', is_active: false });
+    expect((await repository.getAllPaymentMethods(true)).map(method => method.code)).toContain('Gold');
+  });
+
+  it('should report an unknown method', async () => {
+    expect(await repository.findByCode('Venmo')).toBeNull();
+    await expect(repository.updatePaymentMethod('Venmo', { label: 'Venmo' })).rejects.toThrow(NotFoundError);
+  });
+});
@@ -0,0 +1,97 @@
+import { PaymentMethodService } from '../services/payment-method-service';
+import { PaymentMethodRepository } from '../repositories/payment-method-repository';
+import { ValidationError } from '../errors/custom-errors';
+import { PaymentMethod } from '../types/payment-method.types';
+
+// Mock repository
+jest.mock('../repositories/payment-method-repository');
+
+describe('PaymentMethodService', () => {
+  let service: PaymentMethodService;
+  let mockRepo: jest.Mocked<PaymentMethodRepository>;
+
+  const mockMethod: PaymentMethod = {
+    code: 'ABA',
+    label: 'ABA Bank',
+    is_active: true,
+    sort_order: 30,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new PaymentMethodService();
+    mockRepo = (service as any).paymentMethodRepository;
+  });
+
+  describe('createPaymentMethod', () => {
+    it('should create a valid payment method', async () => {
+      mockRepo.createPaymentMethod.mockResolvedValue(mockMethod);
+
+      const request = { code: 'ABA', label: 'ABA Bank' };
+      const result = await service.createPaymentMethod(request);
+
+      expect(mockRepo.createPaymentMethod).toHaveBeenCalledWith(request);
+      expect(result).toEqual(mockMethod);
+    });
+
+    it('should reject codes that are not short identifiers', async () => {
+      for (const code of ['1Pay', 'A', 'Bank Transfer', 'QR-Code']) {
+        await expect(service.createPaymentMethod({ code, label: 'Label' })).rejects.toThrow(ValidationError);
+      }
+      expect(mockRepo.createPaymentMethod).not.toHaveBeenCalled();
+    });
+
+    it('should report every invalid field at once', async () => {
+      try {
+        await service.createPaymentMethod({ code: '', label: ' ', sort_order: 1.5 });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details.map(detail => detail.field)).toEqual(['code', 'label', 'sort_order']);
+      }
+    });
+  });
+
+  describe('updatePaymentMethod', () => {
+    it('should reject an empty update', async () => {
+      await expect(service.updatePaymentMethod('ABA', {})).rejects.toThrow(ValidationError);
+      expect(mockRepo.updatePaymentMethod).not.toHaveBeenCalled();
+    });
+
+    it('should reject a non-boolean is_active', async () => {
+      await expect(service.updatePaymentMethod('ABA', { is_active: 'no' as any })).rejects.toThrow(ValidationError);
+    });
+
+    it('should pass a valid update to the repository', async () => {
+      mockRepo.updatePaymentMethod.mockResolvedValue({ ...mockMethod, is_active: false });
+
+      const result = await service.updatePaymentMethod('ABA', { is_active: false });
+
+      expect(mockRepo.updatePaymentMethod).toHaveBeenCalledWith('ABA', { is_active: false });
+      expect(result.is_active).toBe(false);
+    });
+  });
+
+  describe('assertUsable', () => {
+    it('should accept an active method', async () => {
+      mockRepo.findByCode.mockResolvedValue(mockMethod);
+
+      await expect(service.assertUsable('ABA')).resolves.toBeUndefined();
+    });
+
+    it('should reject an unknown method', async () => {
+      mockRepo.findByCode.mockResolvedValue(null);
+
+      await expect(service.assertUsable('Venmo')).rejects.toThrow(ValidationError);
+    });
+
+    it('should reject a disabled method', async () => {
+      mockRepo.findByCode.mockResolvedValue({ ...mockMethod, is_active: false });
+
+      await expect(service.assertUsable('ABA')).rejects.toMatchObject({
+        details: [{ field: 'payment_method', message: 'Payment method ABA is disabled' }],
+      });
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { isPhoneQuery, normalizeCambodianPhone, phoneSearchDigits } from '../utils/phone-number';
+
+describe('normalizeCambodianPhone', () => {
+  it('should normalise common formats to +855', () => {
+    expect(normalizeCambodianPhone('012 345 678')).toBe('+85512345678');
+    expect(normalizeCambodianPhone('097-123-4567')).toBe('+855971234567');
+    expect(normalizeCambodianPhone('+855 (0)12 345 678')).toBe('+85512345678');
+    expect(normalizeCambodianPhone('00855 10 222 333')).toBe('+85510222333');
+    expect(normalizeCambodianPhone('855 88 765 4321')).toBe('+855887654321');
+  });
+
+  it('should accept Khmer digits', () => {
+    expect(normalizeCambodianPhone('០១២ ៣៤៥ ៦៧៨')).toBe('+85512345678');
+  });
+
+  it('should reject unknown carrier prefixes and bad lengths', () => {
+    expect(normalizeCambodianPhone('023 123 456')).toBeNull();
+    expect(normalizeCambodianPhone('012 345')).toBeNull();
+    expect(normalizeCambodianPhone('012 345 678 901')).toBeNull();
+    expect(normalizeCambodianPhone('+66 81 234 5678')).toBeNull();
+    expect(normalizeCambodianPhone('012-CALL-ME')).toBeNull();
+  });
+});
+
+describe('phoneSearchDigits', () => {
+  it('should strip the country code and trunk 0', () => {
+    expect(phoneSearchDigits('012 345 678')).toBe('12345678');
+    expect(phoneSearchDigits('+855 12 345')).toBe('12345');
+    expect(phoneSearchDigits('345678')).toBe('345678');
+  });
+});
+
+describe('isPhoneQuery', () => {
+  it('should accept digits and separators only', () => {
+    expect(isPhoneQuery('012 345-678')).toBe(true);
+    expect(isPhoneQuery('+855 (12) 345')).toBe(true);
+    expect(isPhoneQuery('០១២៣៤៥')).toBe(true);
+    expect(isPhoneQuery('G012')).toBe(false);
+    expect(isPhoneQuery('--')).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { ReciprocationService } from '../services/reciprocation-service';
+import { ReciprocationRepository } from '../repositories/reciprocation-repository';
+import { ValidationError } from '../errors/custom-errors';
+import { Reciprocation, ReciprocityReport } from '../types/reciprocation.types';
+import { mockPaymentMethodRegistry } from './test-helpers';
+
+// Mock repository
+jest.mock('../repositories/reciprocation-repository');
+jest.mock('../repositories/payment-method-repository');
+
+describe('ReciprocationService', () => {
+  let service: ReciprocationService;
+  let mockRepo: jest.Mocked<ReciprocationRepository>;
+
+  const mockReciprocation: Reciprocation = {
+    id: 1,
+    guest_id: 'TEST001',
+    amount: 50,
+    currency: 'USD',
+    payment_method: 'Cash',
+    occasion: 'Sokha wedding',
+    given_at: '2024-06-01T00:00:00.000Z',
+    note: null,
+    is_voided: false,
+    voided_at: null,
+    void_reason: null,
+    created_at: '2024-06-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPaymentMethodRegistry();
+    service = new ReciprocationService();
+    mockRepo = (service as any).reciprocationRepository;
+  });
+
+  describe('createReciprocation', () => {
+    it('should record a valid reciprocation without a payment method', async () => {
+      mockRepo.createReciprocation.mockResolvedValue(mockReciprocation);
+
+      const request = { amount: 50, currency: 'USD' as const, occasion: 'Sokha wedding' };
+      const result = await service.createReciprocation('TEST001', request);
+
+      expect(mockRepo.createReciprocation).toHaveBeenCalledWith('TEST001', request);
+      expect(result).toEqual(mockReciprocation);
+    });
+
+    it('should reject non-positive amounts and unknown currencies', async () => {
+      try {
+        await service.createReciprocation('TEST001', { amount: -5, currency: 'EUR' as any });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ field: 'amount', code: 'INVALID_VALUE' }),
+            expect.objectContaining({ field: 'currency' }),
+          ])
+        );
+      }
+      expect(mockRepo.createReciprocation).not.toHaveBeenCalled();
+    });
+
+    it('should reject disabled payment methods', async () => {
+      await expect(service.createReciprocation('TEST001', {
+        amount: 1,
+        currency: 'USD',
+        payment_method: 'Gold'
+      })).rejects.toThrow(ValidationError);
+      expect(mockRepo.createReciprocation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBalances', () => {
+    it('should pass filters to the repository', async () => {
+      const report: ReciprocityReport = { sides: [], guests: [], total_count: 0 };
+      mockRepo.getBalances.mockResolvedValue(report);
+
+      const result = await service.getBalances({ guest_of: 'Groom', outstanding_only: true, limit: 20 });
+
+      expect(mockRepo.getBalances).toHaveBeenCalledWith({ guest_of: 'Groom', outstanding_only: true, limit: 20 });
+      expect(result).toEqual(report);
+    });
+
+    it('should validate guest_of and paging', async () => {
+      try {
+        await service.getBalances({ guest_of: 'Cousin' as any, limit: 0, offset: -1 });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ field: 'guest_of' }),
+            expect.objectContaining({ field: 'limit' }),
+            expect.objectContaining({ field: 'offset' }),
+          ])
+        );
+      }
+    });
+  });
+});
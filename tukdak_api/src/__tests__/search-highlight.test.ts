@@ -0,0 +1,26 @@
+import { findKhmerMatchRanges, findMatchRanges } from '../utils/search-highlight';
+
+describe('findMatchRanges', () => {
+  it('should find every occurrence ignoring case', () => {
+    expect(findMatchRanges('Sok Sokha', 'sok')).toEqual([{ start: 0, end: 3 }, { start: 4, end: 7 }]);
+    expect(findMatchRanges('+85512345678', '12345')).toEqual([{ start: 4, end: 9 }]);
+  });
+
+  it('should return no ranges without a match', () => {
+    expect(findMatchRanges('Dara', 'sok')).toEqual([]);
+    expect(findMatchRanges('Dara', '')).toEqual([]);
+  });
+});
+
+describe('findKhmerMatchRanges', () => {
+  it('should find a normalised query in the name as typed', () => {
+    // Stored with a space and a zero-width space; the query is normalised without them
+    expect(findKhmerMatchRanges('ជា សុខា', 'សុខា')).toEqual([{ start: 3, end: 7 }]);
+    expect(findKhmerMatchRanges('ជា\u200Bសុខា', 'ជាសុខា')).toEqual([{ start: 0, end: 7 }]);
+  });
+
+  it('should match marks typed in another order', () => {
+    // Vowel typed before the register shifter
+    expect(findKhmerMatchRanges('លោក សុ៊ន', 'ស៊ុន')).toEqual([{ start: 4, end: 8 }]);
+  });
+});
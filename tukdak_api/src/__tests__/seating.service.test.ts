@@ -0,0 +1,94 @@
+import { SeatingService } from '../services/seating-service';
+import { SeatingRepository } from '../repositories/seating-repository';
+import { ValidationError } from '../errors/custom-errors';
+import { SeatingTable, TableRoster } from '../types/seating.types';
+
+// Mock repository
+jest.mock('../repositories/seating-repository');
+
+describe('SeatingService', () => {
+  let service: SeatingService;
+  let mockRepo: jest.Mocked<SeatingRepository>;
+
+  const mockTable: SeatingTable = {
+    id: 1,
+    table_number: 5,
+    label: 'Family',
+    capacity: 10,
+    notes: null,
+    seated: 2,
+    available: 8,
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+  };
+
+  const mockRoster: TableRoster = {
+    table: mockTable,
+    guests: [
+      { guest_id: 'TEST001', english_name: 'Sok Dara', guest_of: 'Bride', assigned_at: '2024-01-01T00:00:00.000Z' },
+      { guest_id: 'TEST002', english_name: 'Chan Vanna', guest_of: 'Groom', assigned_at: '2024-01-01T00:00:00.000Z' },
+    ],
+    by_side: { bride: 1, groom: 1, bride_parents: 0, groom_parents: 0 },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    service = new SeatingService();
+    mockRepo = (service as any).seatingRepository;
+  });
+
+  describe('createTable', () => {
+    it('should create a table', async () => {
+      mockRepo.createTable.mockResolvedValue(mockTable);
+
+      const request = { table_number: 5, label: 'Family', capacity: 10 };
+      const result = await service.createTable(request);
+
+      expect(mockRepo.createTable).toHaveBeenCalledWith(request);
+      expect(result.available).toBe(8);
+    });
+
+    it('should reject non-positive table number and capacity', async () => {
+      try {
+        await service.createTable({ table_number: 0, capacity: 2.5 });
+        fail('Should have thrown ValidationError');
+      } catch (error) {
+        expect((error as ValidationError).details).toEqual(
+          expect.arrayContaining([
+            expect.objectContaining({ field: 'table_number', code: 'INVALID_VALUE' }),
+            expect.objectContaining({ field: 'capacity', code: 'INVALID_VALUE' }),
+          ])
+        );
+      }
+      expect(mockRepo.createTable).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assignSeats', () => {
+    it('should seat a household', async () => {
+      mockRepo.assignSeats.mockResolvedValue(mockRoster);
+
+      const result = await service.assignSeats(1, { household_id: 3 });
+
+      expect(mockRepo.assignSeats).toHaveBeenCalledWith(1, { household_id: 3 });
+      expect(result.by_side.bride).toBe(1);
+    });
+
+    it('should require guest_ids or household_id', async () => {
+      await expect(service.assignSeats(1, { guest_ids: [] })).rejects.toThrow(ValidationError);
+      expect(mockRepo.assignSeats).not.toHaveBeenCalled();
+    });
+
+    it('should validate table ID', async () => {
+      await expect(service.unassignSeats(0, { guest_ids: ['TEST001'] }))
+        .rejects.toThrow('Valid table ID is required');
+    });
+  });
+
+  describe('updateTable', () => {
+    it('should require at least one field', async () => {
+      await expect(service.updateTable(1, {}))
+        .rejects.toThrow('At least one field must be provided');
+    });
+  });
+});
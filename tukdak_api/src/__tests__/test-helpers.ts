@@ -1,5 +1,11 @@
 import { Guest } from '../types/database.types';
 import { CreateGuestRequest } from '../types/guest.types';
+import { PaymentMethod } from '../types/payment-method.types';
+import { PaymentMethodRepository } from '../repositories/payment-method-repository';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../database/database.service';
+import { registerSqlFunctions } from '../database/sql-functions';
+import { DATABASE_SCHEMA } from '../schema/database-schema';
 
 export const mockGuest: Guest = {
   guest_id: 'TEST001',
@@ -18,13 +24,131 @@ export const mockStats = {
   total_guests: 2,
   total_khr: 500000,
   total_usd: 125,
+  grand_total_khr: 1000000,
+  grand_total_usd: 250,
+  total_contributions: 2,
   paid_guests: 1,
   pending_guests: 1,
   duplicates: 0,
   payment_methods: { qr_code: 1, cash: 0, pending: 1 },
+  by_payment_method: [
+    { code: 'QR_Code', label: 'QR Code', is_active: true, guests: 1, contributions: 2, total_khr: 500000, total_usd: 125 },
+    { code: 'Cash', label: 'Cash', is_active: true, guests: 0, contributions: 0, total_khr: 0, total_usd: 0 },
+  ],
+  by_side: [
+    { guest_of: 'Bride' as const, guests: 1, paid_guests: 1, total_khr: 500000, total_usd: 125, grand_total_khr: 1000000, grand_total_usd: 250, total_contributions: 2 },
+    { guest_of: 'Groom' as const, guests: 1, paid_guests: 0, total_khr: 0, total_usd: 0, grand_total_khr: 0, grand_total_usd: 0, total_contributions: 0 },
+    { guest_of: 'Bride_Parents' as const, guests: 0, paid_guests: 0, total_khr: 0, total_usd: 0, grand_total_khr: 0, grand_total_usd: 0, total_contributions: 0 },
+    { guest_of: 'Groom_Parents' as const, guests: 0, paid_guests: 0, total_khr: 0, total_usd: 0, grand_total_khr: 0, grand_total_usd: 0, total_contributions: 0 },
+  ],
+  in_kind_gifts: { total_gifts: 1, guests: 1, estimated_khr: 0, estimated_usd: 300, unvalued_gifts: 0, must_return: 0 },
+  attendance: {
+    invited: 2,
+    arrived: 1,
+    not_arrived: 1,
+    arrival_rate: 0.5,
+    by_side: [{ guest_of: 'Bride' as const, invited: 1, arrived: 1 }, { guest_of: 'Groom' as const, invited: 1, arrived: 0 }],
+    arrivals_per_hour: [{ hour: '2024-01-01T10:00:00Z', arrivals: 1 }],
+  },
   guest_distribution: { bride: 1, groom: 1, bride_parents: 0, groom_parents: 0 },
 };
 
+export const mockPaymentMethods: PaymentMethod[] = [
+  { code: 'QR_Code', label: 'QR Code', is_active: true, sort_order: 10, created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' },
+  { code: 'Cash', label: 'Cash', is_active: true, sort_order: 20, created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' },
+  { code: 'Gold', label: 'Gold', is_active: false, sort_order: 70, created_at: '2024-01-01T00:00:00.000Z', updated_at: '2024-01-01T00:00:00.000Z' },
+];
+
+// Back the (jest.mock'ed) payment method registry with mockPaymentMethods
+export const mockPaymentMethodRegistry = () => {
+  (PaymentMethodRepository as jest.MockedClass<typeof PaymentMethodRepository>).mockImplementation(() => ({
+    findByCode: jest.fn(async (code: string) => mockPaymentMethods.find(method => method.code === code) ?? null),
+  }) as unknown as PaymentMethodRepository);
+};
+
+// A fresh in-memory database with the full schema, handed to every repository
+// built afterwards in place of data/tukdak.db; for tests that need the real SQL
+export const useTestDatabase = (): Database.Database => {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  registerSqlFunctions(db);
+
+  const { INDEXES, TRIGGERS, ...statements } = DATABASE_SCHEMA;
+  Object.values(statements).forEach(sql => db.exec(sql));
+  INDEXES.forEach(sql => {
+    try {
+      db.exec(sql);
+    } catch {
+      // As at startup, indexes on columns the schema no longer has are skipped
+    }
+  });
+  TRIGGERS.forEach(sql => db.exec(sql));
+
+  jest.spyOn(DatabaseService, 'getInstance').mockReturnValue({
+    getConnection: () => ({ getDatabase: () => db }),
+  } as unknown as DatabaseService);
+  return db;
+};
+
+// data/tukdak.db as the first release created it, before the migrations
+// directory existed: names and gift amounts on guestlist, no other tables
+export const createBaselineDatabase = (dbPath: string): Database.Database => {
+  const db = new Database(dbPath);
+  db.exec(`
+    CREATE TABLE guestlist (
+      guest_id TEXT PRIMARY KEY,
+      english_name TEXT COLLATE NOCASE,
+      khmer_name TEXT,
+      amount_khr DECIMAL(12,2) DEFAULT 0,
+      amount_usd DECIMAL(10,2) DEFAULT 0,
+      payment_method TEXT CHECK(payment_method IN ('QR_Code', 'Cash')),
+      guest_of TEXT CHECK(guest_of IN ('Bride', 'Groom', 'Bride_Parents', 'Groom_Parents')) NOT NULL,
+      is_duplicate BOOLEAN DEFAULT FALSE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE activity_logs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guest_id TEXT NOT NULL,
+      action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'deleted', 'payment_received', 'duplicate_marked', 'duplicate_resolved', 'searched')),
+      old_amount_khr DECIMAL(12,2),
+      new_amount_khr DECIMAL(12,2),
+      old_amount_usd DECIMAL(10,2),
+      new_amount_usd DECIMAL(10,2),
+      details TEXT,
+      timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+    );
+    CREATE TABLE error_logs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      error_type TEXT NOT NULL,
+      error_message TEXT NOT NULL,
+      stack_trace TEXT,
+      request_path TEXT,
+      request_method TEXT,
+      user_agent TEXT,
+      ip_address TEXT,
+      timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      resolved BOOLEAN DEFAULT FALSE
+    );
+    CREATE INDEX idx_guestlist_english_name ON guestlist(english_name);
+    CREATE INDEX idx_guestlist_payment_method ON guestlist(payment_method);
+    CREATE TRIGGER update_guestlist_timestamp
+    AFTER UPDATE ON guestlist
+    FOR EACH ROW
+    BEGIN
+      UPDATE guestlist SET updated_at = CURRENT_TIMESTAMP WHERE guest_id = NEW.guest_id;
+    END;
+  `);
+  const insert = db.prepare(`
+    INSERT INTO guestlist (guest_id, english_name, khmer_name, amount_khr, amount_usd, payment_method, guest_of)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  insert.run('G001', 'Sok Dara', 'សុខ ដារា', 200000, 50, 'Cash', 'Bride');
+  insert.run('G002', 'Chan Sokha', 'ចាន់ សុខា', 0, 25, 'QR_Code', 'Groom');
+  return db;
+};
+
 interface MockGuestService {
   createGuest: jest.MockedFunction<(data: CreateGuestRequest) => Promise<Guest>>;
   getGuestById: jest.MockedFunction<(id: string) => Promise<Guest>>;
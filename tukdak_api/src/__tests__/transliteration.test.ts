@@ -0,0 +1,44 @@
+import { keySimilarity, nameKey } from '../utils/transliteration';
+
+describe('nameKey', () => {
+  it('should give romanised and Khmer spellings of a name the same key', () => {
+    const pairs: [string, string][] = [
+      ['Sokha Chan', 'សុខា ច័ន្ទ'],
+      ['Dara', 'ដារា'],
+      ['Sophea', 'សុភា'],
+      ['Heng Vanna', 'ហេង វណ្ណា'],
+      ['Sambath', 'សម្បត្តិ'],
+      ['Prum', 'ព្រហ្ម'],
+      ['Nguon', 'ងួន'],
+      ['Bopha', 'បុប្ផា'],
+    ];
+
+    pairs.forEach(([latin, khmer]) => expect(nameKey(latin)).toBe(nameKey(khmer)));
+  });
+
+  it('should fold common romanisation variants together', () => {
+    expect(nameKey('Sokha')).toBe('sk');
+    expect(nameKey('Sokhar')).toBe('sk');
+    expect(nameKey('Sokah')).toBe('sk');
+    expect(nameKey('Chhay')).toBe(nameKey('Jay'));
+  });
+
+  it('should ignore zero-width spaces between Khmer words', () => {
+    expect(nameKey('សុខា​ច័ន្ទ')).toBe('sk cn');
+  });
+});
+
+describe('keySimilarity', () => {
+  it('should match keys across Khmer written with or without spaces', () => {
+    expect(keySimilarity(nameKey('Srey Mom'), nameKey('ស្រីមុំ'))).toBe(1);
+    expect(keySimilarity(nameKey('sokha'), nameKey('សុខា ច័ន្ទ'))).toBe(1);
+    expect(keySimilarity(nameKey('sokha'), nameKey('សុខាច័ន្ទ'))).toBe(0.9);
+  });
+
+  it('should score different names low', () => {
+    expect(keySimilarity(nameKey('Kosal'), nameKey('ដារា'))).toBe(0);
+    expect(keySimilarity(nameKey('Sokha Dara'), nameKey('សុខា ច័ន្ទ'))).toBe(0.5);
+    expect(keySimilarity(nameKey('zzz'), nameKey('សុខា'))).toBe(0);
+    expect(keySimilarity('', nameKey('ដារា'))).toBe(0);
+  });
+});
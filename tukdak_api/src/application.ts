@@ -10,6 +10,7 @@ import {ServiceMixin} from '@loopback/service-proxy';
 import path from 'path';
 import { ErrorHandlingSequence } from './sequence/error-handling-sequence';
 import { DatabaseService } from './database/database.service';
+import { BackupScheduler } from './services/backup-scheduler';
 
 export {ApplicationConfig};
 
@@ -25,9 +26,11 @@ export class TukdakApiApplication extends BootMixin(
       const dbService = DatabaseService.getInstance();
       await dbService.initialize();
       console.log('✅ Database initialized successfully');
+      BackupScheduler.getInstance().start();
     });
 
     this.onStop(async () => {
+      await BackupScheduler.getInstance().stop();
       const dbService = DatabaseService.getInstance();
       await dbService.close();
       console.log('✅ Database connection closed');
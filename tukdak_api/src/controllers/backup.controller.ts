@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import {inject} from '@loopback/core';
+import {
+  get,
+  post,
+  param,
+  requestBody,
+  response,
+  Response,
+  RestBindings,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {BackupService} from '../services/backup-service';
+import {BackupFormat} from '../types/backup.types';
+import {ValidationError} from '../errors/custom-errors';
+
+const RESTORE_RESULT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    schema_version: { type: 'number' },
+    snapshot_created_at: { type: 'string' },
+    restored_at: { type: 'string' },
+    pre_restore_backup: { type: 'string' },
+    tables: { type: 'object', additionalProperties: { type: 'number' as const } }
+  }
+};
+
+const BACKUP_FILE_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    file_name: { type: 'string' },
+    kind: { type: 'string', enum: ['automatic', 'pre-restore', 'manual'] },
+    created_at: { type: 'string' },
+    size_bytes: { type: 'number' },
+    guest_count: { type: 'number', nullable: true }
+  }
+};
+
+export class BackupController extends BaseController {
+  private backupService: BackupService;
+
+  constructor() {
+    super();
+    this.backupService = new BackupService();
+  }
+
+  @get('/admin/backup')
+  @response(200, {
+    description: 'Download a full backup: guests, gifts, activity logs, error logs and every other table. ' +
+      'format=json (default) gives a versioned snapshot that POST /admin/restore accepts; format=sqlite gives a copy of the database file.',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            format: { type: 'string' },
+            schema_version: { type: 'number' },
+            created_at: { type: 'string' },
+            tables: { type: 'object', additionalProperties: { type: 'array', items: { type: 'object' } } }
+          }
+        }
+      },
+      'application/vnd.sqlite3': {
+        schema: { type: 'string', format: 'binary' }
+      }
+    }
+  })
+  async getBackup(
+    @inject(RestBindings.Http.RESPONSE) res: Response,
+    @param.query.string('format') format?: BackupFormat
+  ) {
+    const stamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+
+    if (format === 'sqlite') {
+      const backupPath = await this.backupService.createSqliteBackup();
+
+      res.setHeader('Content-Type', 'application/vnd.sqlite3');
+      res.setHeader('Content-Disposition', `attachment; filename="tukdak-backup-${stamp}.db"`);
+      fs.createReadStream(backupPath)
+        .on('close', () => fs.unlink(backupPath, () => {}))
+        .pipe(res);
+      return res;
+    }
+
+    if (format !== undefined && format !== 'json') {
+      throw new ValidationError('Validation failed', [
+        { field: 'format', message: 'Format must be json or sqlite', value: format, code: 'INVALID_VALUE' }
+      ]);
+    }
+
+    const snapshot = await this.backupService.createSnapshot();
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="tukdak-backup-${stamp}.json"`);
+    res.end(JSON.stringify(snapshot));
+    return res;
+  }
+
+  @get('/admin/backups')
+  @response(200, {
+    description: 'Backup files kept in data/backups, newest first, with their size and guest count, ' +
+      'and the automatic schedule (interval, money writes per backup, rotation).',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                schedule: {
+                  type: 'object',
+                  properties: {
+                    interval_minutes: { type: 'number' },
+                    every_writes: { type: 'number' },
+                    keep_hourly: { type: 'number' },
+                    keep_daily: { type: 'number' },
+                    running: { type: 'boolean' },
+                    writes_since_last_backup: { type: 'number' },
+                    last_backup_at: { type: 'string', nullable: true }
+                  }
+                },
+                backups: { type: 'array', items: BACKUP_FILE_SCHEMA }
+              }
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async listBackups() {
+    const listing = await this.backupService.listBackups();
+    return this.success(listing);
+  }
+
+  @post('/admin/restore')
+  @response(200, {
+    description: 'Replace all data with a JSON snapshot from GET /admin/backup. The snapshot must match the server\'s schema version. ' +
+      'The current database is first saved as data/backups/pre-restore_<timestamp>.db; the restore is all or nothing.',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: RESTORE_RESULT_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async restore(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: { type: 'object' }
+        }
+      }
+    })
+    snapshot: object
+  ) {
+    const result = await this.backupService.restoreSnapshot(snapshot);
+    return this.success(result);
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  post,
+  get,
+  param,
+  requestBody,
+  response,
+  SchemaObject,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {CheckInService} from '../services/check-in-service';
+import {
+  BulkCheckInRequest,
+  CheckInRequest,
+  UndoCheckInRequest
+} from '../types/check-in.types';
+
+const CHECK_IN_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number' },
+    guest_id: { type: 'string' },
+    event_id: { type: 'number', nullable: true },
+    checked_in_at: { type: 'string' },
+    device: { type: 'string', nullable: true },
+    is_undone: { type: 'boolean' },
+    undone_at: { type: 'string', nullable: true },
+    undo_reason: { type: 'string', nullable: true },
+    created_at: { type: 'string' }
+  }
+};
+
+const CHECK_IN_BODY_PROPERTIES: {[property: string]: SchemaObject} = {
+  device: { type: 'string', maxLength: 100 },
+  checked_in_at: { type: 'string', format: 'date-time' },
+  event_id: { type: 'integer', minimum: 1 }
+};
+
+export class CheckInController extends BaseController {
+  private checkInService: CheckInService;
+
+  constructor() {
+    super();
+    this.checkInService = new CheckInService();
+  }
+
+  @post('/guests/{guestId}/check-in')
+  @response(201, {
+    description: 'Check a guest in at the door',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: CHECK_IN_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async checkIn(
+    @param.path.string('guestId') guestId: string,
+    @requestBody({
+      required: false,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: CHECK_IN_BODY_PROPERTIES,
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    body?: CheckInRequest
+  ) {
+    const checkIn = await this.checkInService.checkIn(guestId, body ?? {});
+    return this.success(checkIn);
+  }
+
+  @post('/guests/{guestId}/check-in/undo')
+  @response(200, {
+    description: 'Undo a guest\'s check-in (the record is kept)',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: CHECK_IN_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async undoCheckIn(
+    @param.path.string('guestId') guestId: string,
+    @requestBody({
+      required: false,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              event_id: { type: 'integer', minimum: 1 },
+              reason: { type: 'string', maxLength: 500 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    body?: UndoCheckInRequest
+  ) {
+    const checkIn = await this.checkInService.undoCheckIn(guestId, body ?? {});
+    return this.success(checkIn);
+  }
+
+  @get('/guests/{guestId}/check-ins')
+  @response(200, {
+    description: 'List a guest\'s check-ins',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: CHECK_IN_SCHEMA }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getCheckIns(
+    @param.path.string('guestId') guestId: string,
+    @param.query.boolean('include_undone') include_undone?: boolean
+  ) {
+    const checkIns = await this.checkInService.getCheckIns(guestId, { include_undone });
+    return this.success(checkIns);
+  }
+
+  @post('/check-ins/bulk')
+  @response(200, {
+    description: 'Check in several guests at once; unknown and already checked-in guests are reported',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                checked_in: { type: 'array', items: CHECK_IN_SCHEMA },
+                already_checked_in: { type: 'array', items: { type: 'string' } },
+                not_found: { type: 'array', items: { type: 'string' } }
+              }
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async bulkCheckIn(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['guest_ids'],
+            properties: {
+              guest_ids: { type: 'array', minItems: 1, maxItems: 500, items: { type: 'string', minLength: 1 } },
+              ...CHECK_IN_BODY_PROPERTIES
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    body: BulkCheckInRequest
+  ) {
+    const result = await this.checkInService.bulkCheckIn(body);
+    return this.success(result);
+  }
+}
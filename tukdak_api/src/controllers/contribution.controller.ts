@@ -0,0 +1,150 @@
+import {
+  post,
+  get,
+  param,
+  requestBody,
+  response,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {ContributionService} from '../services/contribution-service';
+import {
+  CreateContributionRequest,
+  VoidContributionRequest
+} from '../types/contribution.types';
+
+const CONTRIBUTION_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number' },
+    guest_id: { type: 'string' },
+    event_id: { type: 'number', nullable: true },
+    amount: { type: 'number' },
+    currency: { type: 'string', enum: ['KHR', 'USD'] },
+    payment_method: { type: 'string', nullable: true },
+    received_at: { type: 'string' },
+    note: { type: 'string', nullable: true },
+    is_voided: { type: 'boolean' },
+    voided_at: { type: 'string', nullable: true },
+    void_reason: { type: 'string', nullable: true },
+    created_at: { type: 'string' }
+  }
+};
+
+export class ContributionController extends BaseController {
+  private contributionService: ContributionService;
+
+  constructor() {
+    super();
+    this.contributionService = new ContributionService();
+  }
+
+  @post('/guests/{guestId}/contributions')
+  @response(201, {
+    description: 'Record a gift for a guest',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: CONTRIBUTION_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async createContribution(
+    @param.path.string('guestId') guestId: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['amount', 'currency', 'payment_method'],
+            properties: {
+              amount: { type: 'number', minimum: 0 },
+              currency: { type: 'string', enum: ['KHR', 'USD'] },
+              payment_method: { type: 'string', minLength: 1, maxLength: 50 },
+              received_at: { type: 'string', format: 'date-time' },
+              note: { type: 'string', maxLength: 500 },
+              event_id: { type: 'integer', minimum: 1 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    contributionData: CreateContributionRequest
+  ) {
+    const contribution = await this.contributionService.createContribution(guestId, contributionData);
+    return this.success(contribution);
+  }
+
+  @get('/guests/{guestId}/contributions')
+  @response(200, {
+    description: 'List the gifts recorded for a guest',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: CONTRIBUTION_SCHEMA
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getContributions(
+    @param.path.string('guestId') guestId: string,
+    @param.query.boolean('include_voided') include_voided?: boolean,
+    @param.query.number('event_id') event_id?: number
+  ) {
+    const contributions = await this.contributionService.getContributions(guestId, { include_voided, event_id });
+    return this.success(contributions);
+  }
+
+  @post('/guests/{guestId}/contributions/{contributionId}/void')
+  @response(200, {
+    description: 'Void a recorded gift (the ledger row is kept)',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: CONTRIBUTION_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async voidContribution(
+    @param.path.string('guestId') guestId: string,
+    @param.path.number('contributionId') contributionId: number,
+    @requestBody({
+      required: false,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              reason: { type: 'string', maxLength: 500 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    body?: VoidContributionRequest
+  ) {
+    const contribution = await this.contributionService.voidContribution(guestId, contributionId, body?.reason);
+    return this.success(contribution);
+  }
+}
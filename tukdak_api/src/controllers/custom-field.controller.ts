@@ -0,0 +1,194 @@
+import {
+  post,
+  get,
+  patch,
+  del,
+  param,
+  requestBody,
+  response,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {CustomFieldService} from '../services/custom-field-service';
+import {
+  CreateCustomFieldRequest,
+  UpdateCustomFieldRequest
+} from '../types/custom-field.types';
+
+const CUSTOM_FIELD_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    label: { type: 'string' },
+    field_type: { type: 'string', enum: ['text', 'number', 'date', 'choice'] },
+    options: { type: 'array', items: { type: 'string' }, nullable: true },
+    guest_count: { type: 'number' },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' }
+  }
+};
+
+export class CustomFieldController extends BaseController {
+  private customFieldService: CustomFieldService;
+
+  constructor() {
+    super();
+    this.customFieldService = new CustomFieldService();
+  }
+
+  @get('/custom-fields')
+  @response(200, {
+    description: 'List the custom guest fields',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: CUSTOM_FIELD_SCHEMA }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getCustomFields() {
+    const fields = await this.customFieldService.getCustomFields();
+    return this.success(fields);
+  }
+
+  @get('/tags')
+  @response(200, {
+    description: 'List the guest tags in use with the number of guests carrying each',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  tag: { type: 'string' },
+                  guest_count: { type: 'number' }
+                }
+              }
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getTags() {
+    const tags = await this.customFieldService.getTags();
+    return this.success(tags);
+  }
+
+  @post('/admin/custom-fields')
+  @response(201, {
+    description: 'Define a new custom guest field',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: CUSTOM_FIELD_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async createCustomField(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['name', 'label', 'field_type'],
+            properties: {
+              name: { type: 'string', minLength: 1, maxLength: 50 },
+              label: { type: 'string', minLength: 1, maxLength: 100 },
+              field_type: { type: 'string', enum: ['text', 'number', 'date', 'choice'] },
+              options: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 100 } }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    fieldData: CreateCustomFieldRequest
+  ) {
+    const field = await this.customFieldService.createCustomField(fieldData);
+    return this.success(field);
+  }
+
+  @patch('/admin/custom-fields/{fieldId}')
+  @response(200, {
+    description: 'Relabel a custom field or change the options of a choice field',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: CUSTOM_FIELD_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async updateCustomField(
+    @param.path.number('fieldId') fieldId: number,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              label: { type: 'string', minLength: 1, maxLength: 100 },
+              options: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 100 } }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    updates: UpdateCustomFieldRequest
+  ) {
+    const field = await this.customFieldService.updateCustomField(fieldId, updates);
+    return this.success(field);
+  }
+
+  @del('/admin/custom-fields/{fieldId}')
+  @response(200, {
+    description: 'Delete a custom field and every guest value stored for it',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                deleted: { type: 'boolean' }
+              },
+              required: ['deleted']
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async deleteCustomField(@param.path.number('fieldId') fieldId: number) {
+    const result = await this.customFieldService.deleteCustomField(fieldId);
+    return this.success({ deleted: result });
+  }
+}
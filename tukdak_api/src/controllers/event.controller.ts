@@ -0,0 +1,188 @@
+import {
+  post,
+  get,
+  patch,
+  del,
+  param,
+  requestBody,
+  response,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {EventService} from '../services/event-service';
+import {CreateEventRequest, UpdateEventRequest} from '../types/event.types';
+
+const EVENT_TYPES = ['engagement', 'hair_cutting', 'blessing', 'reception', 'other'];
+
+const EVENT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    event_type: { type: 'string', enum: EVENT_TYPES },
+    event_date: { type: 'string', nullable: true },
+    venue: { type: 'string', nullable: true },
+    notes: { type: 'string', nullable: true },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' }
+  }
+};
+
+export class EventController extends BaseController {
+  private eventService: EventService;
+
+  constructor() {
+    super();
+    this.eventService = new EventService();
+  }
+
+  @post('/events')
+  @response(201, {
+    description: 'Create a ceremony in the wedding series',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: EVENT_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async createEvent(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['name', 'event_type'],
+            properties: {
+              name: { type: 'string', minLength: 1, maxLength: 200 },
+              event_type: { type: 'string', enum: EVENT_TYPES },
+              event_date: { type: 'string', format: 'date' },
+              venue: { type: 'string' },
+              notes: { type: 'string' }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    eventData: CreateEventRequest
+  ) {
+    const event = await this.eventService.createEvent(eventData);
+    return this.success(event);
+  }
+
+  @get('/events')
+  @response(200, {
+    description: 'List all ceremonies',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: EVENT_SCHEMA }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getAllEvents() {
+    const events = await this.eventService.getAllEvents();
+    return this.success(events);
+  }
+
+  @get('/events/{eventId}')
+  @response(200, {
+    description: 'Get ceremony by ID',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: EVENT_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getEventById(@param.path.number('eventId') eventId: number) {
+    const event = await this.eventService.getEventById(eventId);
+    return this.success(event);
+  }
+
+  @patch('/events/{eventId}')
+  @response(200, {
+    description: 'Update ceremony details',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: EVENT_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async updateEvent(
+    @param.path.number('eventId') eventId: number,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', minLength: 1, maxLength: 200 },
+              event_type: { type: 'string', enum: EVENT_TYPES },
+              event_date: { type: 'string', format: 'date', nullable: true },
+              venue: { type: 'string', nullable: true },
+              notes: { type: 'string', nullable: true }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    updates: UpdateEventRequest
+  ) {
+    const event = await this.eventService.updateEvent(eventId, updates);
+    return this.success(event);
+  }
+
+  @del('/events/{eventId}')
+  @response(200, {
+    description: 'Delete a ceremony that has no recorded gifts',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                deleted: { type: 'boolean' }
+              },
+              required: ['deleted']
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async deleteEvent(@param.path.number('eventId') eventId: number) {
+    const result = await this.eventService.deleteEvent(eventId);
+    return this.success({ deleted: result });
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  post,
+  get,
+  param,
+  requestBody,
+  response,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {ExchangeRateService} from '../services/exchange-rate-service';
+import {CreateExchangeRateRequest} from '../types/exchange-rate.types';
+
+const EXCHANGE_RATE_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number' },
+    usd_to_khr: { type: 'number' },
+    effective_from: { type: 'string' },
+    note: { type: 'string', nullable: true },
+    created_at: { type: 'string' }
+  }
+};
+
+export class ExchangeRateController extends BaseController {
+  private exchangeRateService: ExchangeRateService;
+
+  constructor() {
+    super();
+    this.exchangeRateService = new ExchangeRateService();
+  }
+
+  @post('/exchange-rates')
+  @response(201, {
+    description: 'Set a USD to KHR rate from a point in time (defaults to now)',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: EXCHANGE_RATE_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async setRate(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['usd_to_khr'],
+            properties: {
+              usd_to_khr: { type: 'number', minimum: 0 },
+              effective_from: { type: 'string', format: 'date-time' },
+              note: { type: 'string', maxLength: 500 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    rateData: CreateExchangeRateRequest
+  ) {
+    const rate = await this.exchangeRateService.setRate(rateData);
+    return this.success(rate);
+  }
+
+  @get('/exchange-rates')
+  @response(200, {
+    description: 'List the rate history, most recent first',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: EXCHANGE_RATE_SCHEMA }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getRates() {
+    const rates = await this.exchangeRateService.getRates();
+    return this.success(rates);
+  }
+
+  @get('/exchange-rates/current')
+  @response(200, {
+    description: 'Get the rate in effect now, or at the given time',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                usd_to_khr: { type: 'number' },
+                rate: { ...EXCHANGE_RATE_SCHEMA, nullable: true }
+              }
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getCurrentRate(@param.query.string('at') at?: string) {
+    const rate = await this.exchangeRateService.getRateAt(at);
+    return this.success(rate);
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  post,
+  param,
+  requestBody,
+  response,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {GuestImportService} from '../services/guest-import-service';
+
+const IMPORT_REPORT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    dry_run: { type: 'boolean' },
+    total_rows: { type: 'number' },
+    valid_rows: { type: 'number' },
+    invalid_rows: { type: 'number' },
+    imported: { type: 'number' },
+    ignored_columns: { type: 'array', items: { type: 'string' } },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          row: { type: 'number' },
+          guest_id: { type: 'string', nullable: true },
+          field: { type: 'string', nullable: true },
+          message: { type: 'string' },
+          value: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+export class GuestImportController extends BaseController {
+  private guestImportService: GuestImportService;
+
+  constructor() {
+    super();
+    this.guestImportService = new GuestImportService();
+  }
+
+  @post('/guests/import')
+  @response(200, {
+    description: 'Import guests from CSV (guest_id,english_name,khmer_name,amount_khr,amount_usd,payment_method,guest_of). ' +
+      'With profile_id the file\'s own headers and values are mapped through that import profile. ' +
+      'With dry_run=true the rows are only validated; otherwise all rows are imported in one transaction, or none if any row is invalid.',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: IMPORT_REPORT_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async importGuests(
+    @requestBody({
+      content: {
+        'text/csv': {
+          schema: { type: 'string' },
+          'x-parser': 'text'
+        },
+        'text/plain': {
+          schema: { type: 'string' }
+        }
+      }
+    })
+    csv: string,
+    @param.query.boolean('dry_run') dryRun?: boolean,
+    @param.query.number('profile_id') profileId?: number
+  ) {
+    const report = await this.guestImportService.importGuests(csv, dryRun ?? false, profileId);
+    return this.success(report);
+  }
+}
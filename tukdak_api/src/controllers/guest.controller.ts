@@ -1,3 +1,4 @@
+import {inject} from '@loopback/core';
 import {
   post,
   get,
@@ -7,9 +8,14 @@ import {
   requestBody,
   response,
   getModelSchemaRef,
+  Response,
+  RestBindings,
 } from '@loopback/rest';
 import {BaseController} from './base/base-controller';
-import {GuestService} from '../services/guest-service';
+import {GuestService, MAX_SUGGEST_LIMIT} from '../services/guest-service';
+import {GuestExportService} from '../services/guest-export-service';
+import {XLSX_CONTENT_TYPE} from '../utils/xlsx';
+import {CREATE_IN_KIND_GIFT_BODY_SCHEMA} from './in-kind-gift.controller';
 import { 
   CreateGuestRequest, 
   GuestFilters, 
@@ -30,7 +36,7 @@ const createSchemaFromType = (example: any, required: string[] = []) => ({
     if (typeof value === 'string') type = { type: 'string' };
     else if (typeof value === 'number') type = { type: 'number' };
     else if (typeof value === 'boolean') type = { type: 'boolean' };
-    else if (Array.isArray(value)) type = { type: 'array', items: { type: 'object' } };
+    else if (Array.isArray(value)) type = { type: 'array', items: { type: typeof value[0] === 'string' ? 'string' : 'object' } };
     else if (value && typeof value === 'object') type = { type: 'object' };
     else type = { type: 'string' }; // fallback
     
@@ -50,16 +56,60 @@ const GUEST_RESPONSE_EXAMPLE: Guest = {
   payment_method: 'QR_Code',
   guest_of: 'Bride',
   is_duplicate: false,
+  event_id: 1,
+  household_id: 1,
+  household_name: 'Sok family',
+  phones: ['+85512345678'],
+  address: 'House 12, Street 271',
+  village: 'Prek Eng',
+  province: 'Phnom Penh',
+  tags: ['coworker', 'VIP'],
+  custom_fields: { village: 'Prek Eng', table_preference: 3 },
   created_at: '2024-01-01T00:00:00.000Z',
   updated_at: '2024-01-01T00:00:00.000Z'
 };
 
+// GET /guests query parameters, shared by the JSON list and the XLSX export
+interface GuestListQuery {
+  guest_of?: string;
+  payment_method?: string;
+  has_payment?: boolean;
+  is_duplicate?: boolean;
+  event_id?: number;
+  household_id?: number;
+  invited?: boolean;
+  rsvp_status?: string;
+  delivered_by?: string;
+  tags?: string;
+  custom_fields?: Record<string, string>;
+}
+
+const toGuestFilters = (query: GuestListQuery): GuestFilters => {
+  const filters: GuestFilters = {};
+
+  if (query.guest_of) filters.guest_of = query.guest_of as any;
+  if (query.payment_method) filters.payment_method = query.payment_method as any;
+  if (query.has_payment !== undefined) filters.has_payment = query.has_payment;
+  if (query.is_duplicate !== undefined) filters.is_duplicate = query.is_duplicate;
+  if (query.event_id !== undefined) filters.event_id = query.event_id;
+  if (query.household_id !== undefined) filters.household_id = query.household_id;
+  if (query.invited !== undefined) filters.invited = query.invited;
+  if (query.rsvp_status) filters.rsvp_status = query.rsvp_status as any;
+  if (query.delivered_by) filters.delivered_by = query.delivered_by;
+  if (query.tags) filters.tags = query.tags.split(',').map(tag => tag.trim()).filter(Boolean);
+  if (query.custom_fields && Object.keys(query.custom_fields).length > 0) filters.custom_fields = query.custom_fields;
+
+  return filters;
+};
+
 export class GuestController extends BaseController {
   private guestService: GuestService;
+  private guestExportService: GuestExportService;
 
   constructor() {
     super();
     this.guestService = new GuestService();
+    this.guestExportService = new GuestExportService();
   }
 
   /**
@@ -84,7 +134,8 @@ export class GuestController extends BaseController {
                 total_count: { type: 'number' },
                 search_time_ms: { type: 'number' },
                 query_used: { type: 'string' },
-                search_type: { type: 'string', enum: ['guest_id', 'english_name', 'khmer_name'] }
+                search_type: { type: 'string', enum: ['guest_id', 'english_name', 'khmer_name', 'phone', 'any_script', 'all'] },
+                min_similarity: { type: 'number' }
               }
             }
           }
@@ -103,11 +154,14 @@ export class GuestController extends BaseController {
               query: { type: 'string', minLength: 1, maxLength: 100 },
               searchType: { 
                 type: 'string', 
-                enum: ['guest_id', 'english_name', 'khmer_name'] 
+                enum: ['guest_id', 'english_name', 'khmer_name', 'phone', 'any_script', 'all'] 
               },
               limit: { type: 'number', minimum: 1, maximum: 100 },
               offset: { type: 'number', minimum: 0 },
-              includeDuplicates: { type: 'boolean' }
+              includeDuplicates: { type: 'boolean' },
+              event_id: { type: 'integer', minimum: 1 },
+              fuzzy: { type: 'boolean' },
+              min_similarity: { type: 'number', minimum: 0, maximum: 1 }
             }
           }
         }
@@ -125,6 +179,52 @@ export class GuestController extends BaseController {
     }
   }
 
+  /**
+   * Typeahead suggestions for a partly typed guest ID or name
+   */
+  @get('/guests/suggest')
+  @response(200, {
+    description: 'Up to limit guests whose ID or name words start with the words of q, ' +
+      'with just the fields a dropdown shows',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                suggestions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      guest_id: { type: 'string' },
+                      english_name: { type: 'string', nullable: true },
+                      khmer_name: { type: 'string', nullable: true },
+                      guest_of: { type: 'string', enum: ['Bride', 'Groom', 'Bride_Parents', 'Groom_Parents'] }
+                    }
+                  }
+                },
+                query_used: { type: 'string' },
+                search_time_ms: { type: 'number' }
+              }
+            }
+          }
+        }
+      }
+    }
+  })
+  async suggestGuests(
+    @param.query.string('q') q?: string,
+    @param.query.integer('limit', {schema: {minimum: 1, maximum: MAX_SUGGEST_LIMIT}}) limit?: number,
+    @param.query.number('event_id') event_id?: number
+  ) {
+    const result = await this.guestService.suggestGuests(q ?? '', limit, event_id);
+    return this.success(result);
+  }
+
   @post('/guests')
   @response(201, {
     description: 'Create a new guest',
@@ -154,8 +254,14 @@ export class GuestController extends BaseController {
               khmer_name: { type: 'string' },
               amount_khr: { type: 'number', minimum: 0 },
               amount_usd: { type: 'number', minimum: 0 },
-              payment_method: { type: 'string', enum: ['QR_Code', 'Cash'], nullable: true },
-              guest_of: { type: 'string', enum: ['Bride', 'Groom', 'Bride_Parents', 'Groom_Parents'] }
+              payment_method: { type: 'string', minLength: 1, maxLength: 50, nullable: true },
+              guest_of: { type: 'string', enum: ['Bride', 'Groom', 'Bride_Parents', 'Groom_Parents'] },
+              event_id: { type: 'integer', minimum: 1 },
+              in_kind_gifts: { type: 'array', items: CREATE_IN_KIND_GIFT_BODY_SCHEMA },
+              phones: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 20 } },
+              address: { type: 'string', maxLength: 500 },
+              village: { type: 'string', maxLength: 100 },
+              province: { type: 'string', maxLength: 100 }
             },
             additionalProperties: false
           }
@@ -184,8 +290,11 @@ export class GuestController extends BaseController {
       }
     }
   })
-  async getGuestById(@param.path.string('guestId') guestId: string) {
-    const guest = await this.guestService.getGuestById(guestId);
+  async getGuestById(
+    @param.path.string('guestId') guestId: string,
+    @param.query.number('event_id') event_id?: number
+  ) {
+    const guest = await this.guestService.getGuestById(guestId, event_id);
     return this.success(guest);
   }
 
@@ -212,19 +321,65 @@ export class GuestController extends BaseController {
     @param.query.string('guest_of') guest_of?: string,
     @param.query.string('payment_method') payment_method?: string,
     @param.query.boolean('has_payment') has_payment?: boolean,
-    @param.query.boolean('is_duplicate') is_duplicate?: boolean
+    @param.query.boolean('is_duplicate') is_duplicate?: boolean,
+    @param.query.number('event_id') event_id?: number,
+    @param.query.number('household_id') household_id?: number,
+    @param.query.boolean('invited') invited?: boolean,
+    @param.query.string('rsvp_status') rsvp_status?: string,
+    @param.query.string('delivered_by') delivered_by?: string,
+    @param.query.string('tags', {description: 'Comma-separated; guests must carry every tag'}) tags?: string,
+    @param.query.object('custom_fields', {type: 'object', additionalProperties: {type: 'string'}}, {
+      description: 'Custom field values to match, e.g. custom_fields[village]=Prek Eng',
+    })
+    custom_fields?: Record<string, string>
   ) {
-    const filters: GuestFilters = {};
-    
-    if (guest_of) filters.guest_of = guest_of as any;
-    if (payment_method) filters.payment_method = payment_method as any;
-    if (has_payment !== undefined) filters.has_payment = has_payment;
-    if (is_duplicate !== undefined) filters.is_duplicate = is_duplicate;
+    const filters = toGuestFilters({
+      guest_of, payment_method, has_payment, is_duplicate, event_id, household_id,
+      invited, rsvp_status, delivered_by, tags, custom_fields,
+    });
 
     const guests = await this.guestService.getAllGuests(filters);
     return this.success(guests);
   }
 
+  @get('/guests/export.xlsx')
+  @response(200, {
+    description: 'Download the guest ledger as an Excel workbook: a Guests sheet filtered like GET /guests, ' +
+      'plus By side and By payment method summary sheets (scoped by event_id only)',
+    content: {
+      [XLSX_CONTENT_TYPE]: {
+        schema: { type: 'string', format: 'binary' }
+      }
+    }
+  })
+  async exportGuests(
+    @inject(RestBindings.Http.RESPONSE) res: Response,
+    @param.query.string('guest_of') guest_of?: string,
+    @param.query.string('payment_method') payment_method?: string,
+    @param.query.boolean('has_payment') has_payment?: boolean,
+    @param.query.boolean('is_duplicate') is_duplicate?: boolean,
+    @param.query.number('event_id') event_id?: number,
+    @param.query.number('household_id') household_id?: number,
+    @param.query.boolean('invited') invited?: boolean,
+    @param.query.string('rsvp_status') rsvp_status?: string,
+    @param.query.string('delivered_by') delivered_by?: string,
+    @param.query.string('tags', {description: 'Comma-separated; guests must carry every tag'}) tags?: string,
+    @param.query.object('custom_fields', {type: 'object', additionalProperties: {type: 'string'}}, {
+      description: 'Custom field values to match, e.g. custom_fields[village]=Prek Eng',
+    })
+    custom_fields?: Record<string, string>
+  ) {
+    const workbook = await this.guestExportService.exportWorkbook(toGuestFilters({
+      guest_of, payment_method, has_payment, is_duplicate, event_id, household_id,
+      invited, rsvp_status, delivered_by, tags, custom_fields,
+    }));
+
+    res.setHeader('Content-Type', XLSX_CONTENT_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="guest-ledger-${new Date().toISOString().slice(0, 10)}.xlsx"`);
+    res.end(workbook);
+    return res;
+  }
+
   @patch('/guests/{guestId}')
   @response(200, {
     description: 'Update guest information',
@@ -255,21 +410,43 @@ export class GuestController extends BaseController {
               amount_usd: { type: 'number', minimum: 0 },
               payment_method: { 
                 oneOf: [
-                  { type: 'string', enum: ['QR_Code', 'Cash'] },
+                  { type: 'string', minLength: 1, maxLength: 50 },
                   { type: 'null' }
                 ]
               },
               guest_of: { type: 'string', enum: ['Bride', 'Groom', 'Bride_Parents', 'Groom_Parents'] },
-              is_duplicate: { type: 'boolean' }
+              is_duplicate: { type: 'boolean' },
+              event_id: { type: 'integer', minimum: 1, nullable: true },
+              phones: {
+                type: 'array',
+                items: { type: 'string', minLength: 1, maxLength: 20 },
+                description: 'Replaces the guest\'s phone numbers'
+              },
+              address: { type: 'string', maxLength: 500, nullable: true },
+              village: { type: 'string', maxLength: 100, nullable: true },
+              province: { type: 'string', maxLength: 100, nullable: true },
+              tags: {
+                type: 'array',
+                items: { type: 'string', minLength: 1, maxLength: 50 },
+                description: 'Replaces the guest\'s tags'
+              },
+              custom_fields: {
+                type: 'object',
+                additionalProperties: {
+                  oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'null' }]
+                },
+                description: 'Custom field values keyed by field name; null clears a value'
+              }
             },
             additionalProperties: false
           }
         }
       }
     })
-    updates: UpdateGuestRequest
+    updates: UpdateGuestRequest,
+    @param.query.number('event_id') event_id?: number
   ) {
-    const guest = await this.guestService.updateGuest(guestId, updates);
+    const guest = await this.guestService.updateGuest(guestId, updates, event_id);
     return this.success(guest);
   }
 
@@ -318,15 +495,91 @@ export class GuestController extends BaseController {
                 total_guests: { type: 'number' },
                 total_khr: { type: 'number' },
                 total_usd: { type: 'number' },
+                grand_total_khr: { type: 'number' },
+                grand_total_usd: { type: 'number' },
+                total_contributions: { type: 'number' },
                 paid_guests: { type: 'number' },
                 pending_guests: { type: 'number' },
                 duplicates: { type: 'number' },
                 payment_methods: {
                   type: 'object',
+                  description: 'Paid guests per registry method, keyed by lower-cased code',
                   properties: {
-                    qr_code: { type: 'number' },
-                    cash: { type: 'number' },
                     pending: { type: 'number' }
+                  },
+                  additionalProperties: { type: 'number' }
+                },
+                in_kind_gifts: {
+                  type: 'object',
+                  description: 'In-kind gifts, reported separately from the money totals',
+                  properties: {
+                    total_gifts: { type: 'number' },
+                    guests: { type: 'number' },
+                    estimated_khr: { type: 'number' },
+                    estimated_usd: { type: 'number' },
+                    unvalued_gifts: { type: 'number' },
+                    must_return: { type: 'number' }
+                  }
+                },
+                by_payment_method: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      code: { type: 'string' },
+                      label: { type: 'string' },
+                      is_active: { type: 'boolean' },
+                      guests: { type: 'number' },
+                      contributions: { type: 'number' },
+                      total_khr: { type: 'number' },
+                      total_usd: { type: 'number' }
+                    }
+                  }
+                },
+                by_side: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      guest_of: { type: 'string' },
+                      guests: { type: 'number' },
+                      paid_guests: { type: 'number' },
+                      total_khr: { type: 'number' },
+                      total_usd: { type: 'number' },
+                      grand_total_khr: { type: 'number' },
+                      grand_total_usd: { type: 'number' },
+                      total_contributions: { type: 'number' }
+                    }
+                  }
+                },
+                attendance: {
+                  type: 'object',
+                  properties: {
+                    invited: { type: 'number' },
+                    arrived: { type: 'number' },
+                    not_arrived: { type: 'number' },
+                    arrival_rate: { type: 'number' },
+                    by_side: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          guest_of: { type: 'string' },
+                          invited: { type: 'number' },
+                          arrived: { type: 'number' }
+                        }
+                      }
+                    },
+                    arrivals_per_hour: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          hour: { type: 'string' },
+                          arrivals: { type: 'number' }
+                        }
+                      }
+                    }
                   }
                 },
                 guest_distribution: {
@@ -337,6 +590,23 @@ export class GuestController extends BaseController {
                     bride_parents: { type: 'number' },
                     groom_parents: { type: 'number' }
                   }
+                },
+                event_id: { type: 'number' },
+                by_event: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      event_id: { type: 'number', nullable: true },
+                      event_name: { type: 'string', nullable: true },
+                      total_khr: { type: 'number' },
+                      total_usd: { type: 'number' },
+                      grand_total_khr: { type: 'number' },
+                      grand_total_usd: { type: 'number' },
+                      total_contributions: { type: 'number' },
+                      paid_guests: { type: 'number' }
+                    }
+                  }
                 }
               }
             }
@@ -346,8 +616,8 @@ export class GuestController extends BaseController {
       }
     }
   })
-  async getStatistics() {
-    const stats = await this.guestService.getStatistics();
+  async getStatistics(@param.query.number('event_id') event_id?: number) {
+    const stats = await this.guestService.getStatistics(event_id);
     return this.success(stats);
   }
 }
\ No newline at end of file
@@ -0,0 +1,249 @@
+import {
+  post,
+  get,
+  patch,
+  del,
+  param,
+  requestBody,
+  response,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {HouseholdService} from '../services/household-service';
+import {
+  AddHouseholdMembersRequest,
+  CreateHouseholdRequest,
+  HouseholdFilters,
+  UpdateHouseholdRequest
+} from '../types/household.types';
+
+const HOUSEHOLD_SUMMARY_PROPERTIES = {
+  id: { type: 'number' },
+  name: { type: 'string' },
+  head_guest_id: { type: 'string', nullable: true },
+  head_english_name: { type: 'string', nullable: true },
+  head_khmer_name: { type: 'string', nullable: true },
+  notes: { type: 'string', nullable: true },
+  member_count: { type: 'number' },
+  total_khr: { type: 'number' },
+  total_usd: { type: 'number' },
+  grand_total_khr: { type: 'number' },
+  given_value_khr: { type: 'number' },
+  outstanding_khr: { type: 'number' },
+  created_at: { type: 'string' },
+  updated_at: { type: 'string' }
+};
+
+const HOUSEHOLD_SUMMARY_SCHEMA = {
+  type: 'object' as const,
+  properties: HOUSEHOLD_SUMMARY_PROPERTIES
+};
+
+const HOUSEHOLD_DETAIL_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    ...HOUSEHOLD_SUMMARY_PROPERTIES,
+    members: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          guest_id: { type: 'string' },
+          english_name: { type: 'string', nullable: true },
+          khmer_name: { type: 'string', nullable: true },
+          amount_khr: { type: 'number' },
+          amount_usd: { type: 'number' },
+          payment_method: { type: 'string', nullable: true },
+          guest_of: { type: 'string' },
+          is_duplicate: { type: 'boolean' }
+        }
+      }
+    }
+  }
+};
+
+const HOUSEHOLD_DETAIL_RESPONSE = {
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          data: HOUSEHOLD_DETAIL_SCHEMA
+        },
+        required: ['success', 'data']
+      }
+    }
+  }
+};
+
+export class HouseholdController extends BaseController {
+  private householdService: HouseholdService;
+
+  constructor() {
+    super();
+    this.householdService = new HouseholdService();
+  }
+
+  @post('/households')
+  @response(201, {
+    description: 'Create a household; the head is added as a member',
+    ...HOUSEHOLD_DETAIL_RESPONSE
+  })
+  async createHousehold(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string', minLength: 1, maxLength: 200 },
+              head_guest_id: { type: 'string', minLength: 1 },
+              member_ids: { type: 'array', items: { type: 'string', minLength: 1 } },
+              notes: { type: 'string', maxLength: 500 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    householdData: CreateHouseholdRequest
+  ) {
+    const household = await this.householdService.createHousehold(householdData);
+    return this.success(household);
+  }
+
+  @get('/households')
+  @response(200, {
+    description: 'List households with member totals',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: HOUSEHOLD_SUMMARY_SCHEMA }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getAllHouseholds(
+    @param.query.string('guest_of') guest_of?: string,
+    @param.query.boolean('outstanding_only') outstanding_only?: boolean
+  ) {
+    const filters: HouseholdFilters = {};
+
+    if (guest_of) filters.guest_of = guest_of as any;
+    if (outstanding_only !== undefined) filters.outstanding_only = outstanding_only;
+
+    const households = await this.householdService.getAllHouseholds(filters);
+    return this.success(households);
+  }
+
+  @get('/households/{householdId}')
+  @response(200, {
+    description: 'Get household with its members and totals',
+    ...HOUSEHOLD_DETAIL_RESPONSE
+  })
+  async getHouseholdById(@param.path.number('householdId') householdId: number) {
+    const household = await this.householdService.getHouseholdById(householdId);
+    return this.success(household);
+  }
+
+  @patch('/households/{householdId}')
+  @response(200, {
+    description: 'Update household details or change its head',
+    ...HOUSEHOLD_DETAIL_RESPONSE
+  })
+  async updateHousehold(
+    @param.path.number('householdId') householdId: number,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', minLength: 1, maxLength: 200 },
+              head_guest_id: { type: 'string', minLength: 1, nullable: true },
+              notes: { type: 'string', maxLength: 500, nullable: true }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    updates: UpdateHouseholdRequest
+  ) {
+    const household = await this.householdService.updateHousehold(householdId, updates);
+    return this.success(household);
+  }
+
+  @del('/households/{householdId}')
+  @response(200, {
+    description: 'Delete a household; its members are kept',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                deleted: { type: 'boolean' }
+              },
+              required: ['deleted']
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async deleteHousehold(@param.path.number('householdId') householdId: number) {
+    const result = await this.householdService.deleteHousehold(householdId);
+    return this.success({ deleted: result });
+  }
+
+  @post('/households/{householdId}/members')
+  @response(200, {
+    description: 'Add guests to a household',
+    ...HOUSEHOLD_DETAIL_RESPONSE
+  })
+  async addMembers(
+    @param.path.number('householdId') householdId: number,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['guest_ids'],
+            properties: {
+              guest_ids: { type: 'array', minItems: 1, items: { type: 'string', minLength: 1 } }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    body: AddHouseholdMembersRequest
+  ) {
+    const household = await this.householdService.addMembers(householdId, body.guest_ids);
+    return this.success(household);
+  }
+
+  @del('/households/{householdId}/members/{guestId}')
+  @response(200, {
+    description: 'Remove a guest from a household',
+    ...HOUSEHOLD_DETAIL_RESPONSE
+  })
+  async removeMember(
+    @param.path.number('householdId') householdId: number,
+    @param.path.string('guestId') guestId: string
+  ) {
+    const household = await this.householdService.removeMember(householdId, guestId);
+    return this.success(household);
+  }
+}
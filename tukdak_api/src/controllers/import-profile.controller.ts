@@ -0,0 +1,201 @@
+import {
+  post,
+  get,
+  patch,
+  del,
+  param,
+  requestBody,
+  response,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {ImportProfileService, IMPORT_FIELDS} from '../services/import-profile-service';
+import {
+  CreateImportProfileRequest,
+  UpdateImportProfileRequest
+} from '../types/guest-import.types';
+
+const COLUMN_MAP_SCHEMA = {
+  type: 'object' as const,
+  description: 'Source column header → guest field',
+  additionalProperties: { type: 'string' as const, enum: IMPORT_FIELDS }
+};
+
+const VALUE_MAP_SCHEMA = {
+  type: 'object' as const,
+  description: 'Guest field → (source value → guest value), e.g. { "guest_of": { "ខាងស្រី": "Bride" } }',
+  additionalProperties: {
+    type: 'object' as const,
+    additionalProperties: { type: 'string' as const }
+  }
+};
+
+const IMPORT_PROFILE_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    column_map: COLUMN_MAP_SCHEMA,
+    value_map: VALUE_MAP_SCHEMA,
+    id_prefix: { type: 'string', nullable: true },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' }
+  }
+};
+
+export class ImportProfileController extends BaseController {
+  private importProfileService: ImportProfileService;
+
+  constructor() {
+    super();
+    this.importProfileService = new ImportProfileService();
+  }
+
+  @get('/import-profiles')
+  @response(200, {
+    description: 'List the saved guest import profiles',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: IMPORT_PROFILE_SCHEMA }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getProfiles() {
+    const profiles = await this.importProfileService.getProfiles();
+    return this.success(profiles);
+  }
+
+  @get('/import-profiles/{profileId}')
+  @response(200, {
+    description: 'Get an import profile',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: IMPORT_PROFILE_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getProfile(@param.path.number('profileId') profileId: number) {
+    const profile = await this.importProfileService.getProfile(profileId);
+    return this.success(profile);
+  }
+
+  @post('/admin/import-profiles')
+  @response(201, {
+    description: 'Save a column mapping for importing a recurring spreadsheet layout',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: IMPORT_PROFILE_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async createProfile(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['name', 'column_map'],
+            properties: {
+              name: { type: 'string', minLength: 1, maxLength: 100 },
+              column_map: COLUMN_MAP_SCHEMA,
+              value_map: VALUE_MAP_SCHEMA,
+              id_prefix: { type: 'string', minLength: 1, maxLength: 20 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    profileData: CreateImportProfileRequest
+  ) {
+    const profile = await this.importProfileService.createProfile(profileData);
+    return this.success(profile);
+  }
+
+  @patch('/admin/import-profiles/{profileId}')
+  @response(200, {
+    description: 'Rename an import profile or replace its mappings',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: IMPORT_PROFILE_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async updateProfile(
+    @param.path.number('profileId') profileId: number,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', minLength: 1, maxLength: 100 },
+              column_map: COLUMN_MAP_SCHEMA,
+              value_map: VALUE_MAP_SCHEMA,
+              id_prefix: { type: 'string', minLength: 1, maxLength: 20, nullable: true }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    updates: UpdateImportProfileRequest
+  ) {
+    const profile = await this.importProfileService.updateProfile(profileId, updates);
+    return this.success(profile);
+  }
+
+  @del('/admin/import-profiles/{profileId}')
+  @response(200, {
+    description: 'Delete an import profile',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                deleted: { type: 'boolean' }
+              },
+              required: ['deleted']
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async deleteProfile(@param.path.number('profileId') profileId: number) {
+    const result = await this.importProfileService.deleteProfile(profileId);
+    return this.success({ deleted: result });
+  }
+}
@@ -0,0 +1,162 @@
+import {
+  post,
+  get,
+  param,
+  requestBody,
+  response,
+  SchemaObject,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {InKindGiftService} from '../services/in-kind-gift-service';
+import {
+  CreateInKindGiftRequest,
+  VoidInKindGiftRequest
+} from '../types/in-kind-gift.types';
+
+const IN_KIND_GIFT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number' },
+    guest_id: { type: 'string' },
+    event_id: { type: 'number', nullable: true },
+    description: { type: 'string' },
+    quantity: { type: 'number' },
+    unit: { type: 'string', nullable: true },
+    estimated_value: { type: 'number', nullable: true },
+    estimated_currency: { type: 'string', enum: ['KHR', 'USD'], nullable: true },
+    must_return: { type: 'boolean' },
+    return_by: { type: 'string', nullable: true },
+    received_at: { type: 'string' },
+    note: { type: 'string', nullable: true },
+    is_voided: { type: 'boolean' },
+    voided_at: { type: 'string', nullable: true },
+    void_reason: { type: 'string', nullable: true },
+    created_at: { type: 'string' }
+  }
+};
+
+// Shared with the guest create body, where gifts can be recorded up front
+export const CREATE_IN_KIND_GIFT_BODY_SCHEMA: SchemaObject = {
+  type: 'object',
+  required: ['description'],
+  properties: {
+    description: { type: 'string', minLength: 1, maxLength: 500 },
+    quantity: { type: 'number', minimum: 0 },
+    unit: { type: 'string', maxLength: 50 },
+    estimated_value: { type: 'number', minimum: 0 },
+    estimated_currency: { type: 'string', enum: ['KHR', 'USD'] },
+    must_return: { type: 'boolean' },
+    return_by: { type: 'string', format: 'date' },
+    received_at: { type: 'string', format: 'date-time' },
+    note: { type: 'string', maxLength: 500 },
+    event_id: { type: 'integer', minimum: 1 }
+  },
+  additionalProperties: false
+};
+
+export class InKindGiftController extends BaseController {
+  private inKindGiftService: InKindGiftService;
+
+  constructor() {
+    super();
+    this.inKindGiftService = new InKindGiftService();
+  }
+
+  @post('/guests/{guestId}/in-kind-gifts')
+  @response(201, {
+    description: 'Record an in-kind gift (gold, jewellery, goods) for a guest',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: IN_KIND_GIFT_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async createInKindGift(
+    @param.path.string('guestId') guestId: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: CREATE_IN_KIND_GIFT_BODY_SCHEMA
+        }
+      }
+    })
+    giftData: CreateInKindGiftRequest
+  ) {
+    const gift = await this.inKindGiftService.createInKindGift(guestId, giftData);
+    return this.success(gift);
+  }
+
+  @get('/guests/{guestId}/in-kind-gifts')
+  @response(200, {
+    description: 'List the in-kind gifts recorded for a guest',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'array',
+              items: IN_KIND_GIFT_SCHEMA
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getInKindGifts(
+    @param.path.string('guestId') guestId: string,
+    @param.query.boolean('include_voided') include_voided?: boolean,
+    @param.query.number('event_id') event_id?: number
+  ) {
+    const gifts = await this.inKindGiftService.getInKindGifts(guestId, { include_voided, event_id });
+    return this.success(gifts);
+  }
+
+  @post('/guests/{guestId}/in-kind-gifts/{giftId}/void')
+  @response(200, {
+    description: 'Void a recorded in-kind gift (the row is kept)',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: IN_KIND_GIFT_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async voidInKindGift(
+    @param.path.string('guestId') guestId: string,
+    @param.path.number('giftId') giftId: number,
+    @requestBody({
+      required: false,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              reason: { type: 'string', maxLength: 500 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    body?: VoidInKindGiftRequest
+  ) {
+    const gift = await this.inKindGiftService.voidInKindGift(guestId, giftId, body?.reason);
+    return this.success(gift);
+  }
+}
@@ -0,0 +1,238 @@
+import {
+  post,
+  get,
+  patch,
+  del,
+  param,
+  requestBody,
+  response,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {InvitationService} from '../services/invitation-service';
+import {
+  CreateInvitationRequest,
+  InvitationReportFilters,
+  UpdateInvitationRequest
+} from '../types/invitation.types';
+
+const RSVP_STATUSES = ['pending', 'attending', 'declined', 'maybe'];
+
+const INVITATION_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number' },
+    guest_id: { type: 'string' },
+    delivered_by: { type: 'string', nullable: true },
+    delivered_at: { type: 'string', nullable: true },
+    rsvp_status: { type: 'string', enum: RSVP_STATUSES },
+    party_size: { type: 'number' },
+    rsvp_at: { type: 'string', nullable: true },
+    note: { type: 'string', nullable: true },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' }
+  }
+};
+
+const REPORT_ENTRY_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    guest_id: { type: 'string' },
+    english_name: { type: 'string', nullable: true },
+    khmer_name: { type: 'string', nullable: true },
+    guest_of: { type: 'string' },
+    delivered_by: { type: 'string', nullable: true },
+    rsvp_status: { type: 'string', nullable: true },
+    amount_khr: { type: 'number' },
+    amount_usd: { type: 'number' }
+  }
+};
+
+export class InvitationController extends BaseController {
+  private invitationService: InvitationService;
+
+  constructor() {
+    super();
+    this.invitationService = new InvitationService();
+  }
+
+  @post('/guests/{guestId}/invitation')
+  @response(201, {
+    description: 'Record the invitation card sent to a guest',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: INVITATION_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async createInvitation(
+    @param.path.string('guestId') guestId: string,
+    @requestBody({
+      required: false,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              delivered_by: { type: 'string', maxLength: 100 },
+              delivered_at: { type: 'string', format: 'date' },
+              rsvp_status: { type: 'string', enum: RSVP_STATUSES },
+              party_size: { type: 'integer', minimum: 1 },
+              note: { type: 'string', maxLength: 500 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    invitationData?: CreateInvitationRequest
+  ) {
+    const invitation = await this.invitationService.createInvitation(guestId, invitationData ?? {});
+    return this.success(invitation);
+  }
+
+  @get('/guests/{guestId}/invitation')
+  @response(200, {
+    description: 'Get a guest\'s invitation and RSVP',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: INVITATION_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getInvitation(@param.path.string('guestId') guestId: string) {
+    const invitation = await this.invitationService.getInvitation(guestId);
+    return this.success(invitation);
+  }
+
+  @patch('/guests/{guestId}/invitation')
+  @response(200, {
+    description: 'Update delivery details or record the RSVP',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: INVITATION_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async updateInvitation(
+    @param.path.string('guestId') guestId: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              delivered_by: { type: 'string', maxLength: 100, nullable: true },
+              delivered_at: { type: 'string', format: 'date', nullable: true },
+              rsvp_status: { type: 'string', enum: RSVP_STATUSES },
+              party_size: { type: 'integer', minimum: 1 },
+              note: { type: 'string', maxLength: 500, nullable: true }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    updates: UpdateInvitationRequest
+  ) {
+    const invitation = await this.invitationService.updateInvitation(guestId, updates);
+    return this.success(invitation);
+  }
+
+  @del('/guests/{guestId}/invitation')
+  @response(200, {
+    description: 'Remove a guest\'s invitation',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                deleted: { type: 'boolean' }
+              },
+              required: ['deleted']
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async deleteInvitation(@param.path.string('guestId') guestId: string) {
+    const result = await this.invitationService.deleteInvitation(guestId);
+    return this.success({ deleted: result });
+  }
+
+  @get('/invitations/report')
+  @response(200, {
+    description: 'RSVP summary with invited-but-no-gift and gift-but-not-invited guests',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                summary: {
+                  type: 'object',
+                  properties: {
+                    invited: { type: 'number' },
+                    delivered: { type: 'number' },
+                    rsvp: {
+                      type: 'object',
+                      properties: {
+                        pending: { type: 'number' },
+                        attending: { type: 'number' },
+                        declined: { type: 'number' },
+                        maybe: { type: 'number' }
+                      }
+                    },
+                    expected_attendees: { type: 'number' },
+                    invited_without_gift: { type: 'number' },
+                    gift_without_invitation: { type: 'number' }
+                  }
+                },
+                invited_without_gift: { type: 'array', items: REPORT_ENTRY_SCHEMA },
+                gift_without_invitation: { type: 'array', items: REPORT_ENTRY_SCHEMA }
+              }
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getReport(@param.query.string('guest_of') guest_of?: string) {
+    const filters: InvitationReportFilters = {};
+
+    if (guest_of) filters.guest_of = guest_of as any;
+
+    const report = await this.invitationService.getReport(filters);
+    return this.success(report);
+  }
+}
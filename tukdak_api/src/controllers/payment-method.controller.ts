@@ -0,0 +1,155 @@
+import {
+  post,
+  get,
+  patch,
+  param,
+  requestBody,
+  response,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {PaymentMethodService} from '../services/payment-method-service';
+import {
+  CreatePaymentMethodRequest,
+  UpdatePaymentMethodRequest
+} from '../types/payment-method.types';
+
+const PAYMENT_METHOD_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    code: { type: 'string' },
+    label: { type: 'string' },
+    is_active: { type: 'boolean' },
+    sort_order: { type: 'number' },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' }
+  }
+};
+
+export class PaymentMethodController extends BaseController {
+  private paymentMethodService: PaymentMethodService;
+
+  constructor() {
+    super();
+    this.paymentMethodService = new PaymentMethodService();
+  }
+
+  @get('/payment-methods')
+  @response(200, {
+    description: 'List the payment methods currently accepted',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: PAYMENT_METHOD_SCHEMA }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getActivePaymentMethods() {
+    const methods = await this.paymentMethodService.getPaymentMethods();
+    return this.success(methods);
+  }
+
+  @get('/admin/payment-methods')
+  @response(200, {
+    description: 'List every registered payment method, including disabled ones',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: PAYMENT_METHOD_SCHEMA }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getAllPaymentMethods() {
+    const methods = await this.paymentMethodService.getPaymentMethods(true);
+    return this.success(methods);
+  }
+
+  @post('/admin/payment-methods')
+  @response(201, {
+    description: 'Register a new payment method',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: PAYMENT_METHOD_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async createPaymentMethod(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['code', 'label'],
+            properties: {
+              code: { type: 'string', minLength: 2, maxLength: 50 },
+              label: { type: 'string', minLength: 1, maxLength: 100 },
+              sort_order: { type: 'integer' }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    methodData: CreatePaymentMethodRequest
+  ) {
+    const method = await this.paymentMethodService.createPaymentMethod(methodData);
+    return this.success(method);
+  }
+
+  @patch('/admin/payment-methods/{code}')
+  @response(200, {
+    description: 'Rename, reorder, enable or disable a payment method',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: PAYMENT_METHOD_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async updatePaymentMethod(
+    @param.path.string('code') code: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              label: { type: 'string', minLength: 1, maxLength: 100 },
+              is_active: { type: 'boolean' },
+              sort_order: { type: 'integer' }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    updates: UpdatePaymentMethodRequest
+  ) {
+    const method = await this.paymentMethodService.updatePaymentMethod(code, updates);
+    return this.success(method);
+  }
+}
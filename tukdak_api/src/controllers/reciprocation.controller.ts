@@ -0,0 +1,218 @@
+import {
+  post,
+  get,
+  param,
+  requestBody,
+  response,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {ReciprocationService} from '../services/reciprocation-service';
+import {
+  CreateReciprocationRequest,
+  ReciprocityBalanceFilters,
+  VoidReciprocationRequest
+} from '../types/reciprocation.types';
+
+const RECIPROCATION_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number' },
+    guest_id: { type: 'string' },
+    amount: { type: 'number' },
+    currency: { type: 'string', enum: ['KHR', 'USD'] },
+    payment_method: { type: 'string', nullable: true },
+    occasion: { type: 'string', nullable: true },
+    given_at: { type: 'string' },
+    note: { type: 'string', nullable: true },
+    is_voided: { type: 'boolean' },
+    voided_at: { type: 'string', nullable: true },
+    void_reason: { type: 'string', nullable: true },
+    created_at: { type: 'string' }
+  }
+};
+
+export class ReciprocationController extends BaseController {
+  private reciprocationService: ReciprocationService;
+
+  constructor() {
+    super();
+    this.reciprocationService = new ReciprocationService();
+  }
+
+  @post('/guests/{guestId}/reciprocations')
+  @response(201, {
+    description: 'Record a gift given back at the guest\'s family wedding',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: RECIPROCATION_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async createReciprocation(
+    @param.path.string('guestId') guestId: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['amount', 'currency'],
+            properties: {
+              amount: { type: 'number', minimum: 0 },
+              currency: { type: 'string', enum: ['KHR', 'USD'] },
+              payment_method: { type: 'string', minLength: 1, maxLength: 50 },
+              occasion: { type: 'string', maxLength: 200 },
+              given_at: { type: 'string', format: 'date-time' },
+              note: { type: 'string', maxLength: 500 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    reciprocationData: CreateReciprocationRequest
+  ) {
+    const reciprocation = await this.reciprocationService.createReciprocation(guestId, reciprocationData);
+    return this.success(reciprocation);
+  }
+
+  @get('/guests/{guestId}/reciprocations')
+  @response(200, {
+    description: 'List the gifts given back to a guest',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: RECIPROCATION_SCHEMA }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getReciprocations(
+    @param.path.string('guestId') guestId: string,
+    @param.query.boolean('include_voided') include_voided?: boolean
+  ) {
+    const reciprocations = await this.reciprocationService.getReciprocations(guestId, { include_voided });
+    return this.success(reciprocations);
+  }
+
+  @post('/guests/{guestId}/reciprocations/{reciprocationId}/void')
+  @response(200, {
+    description: 'Void a recorded reciprocation (the row is kept)',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: RECIPROCATION_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async voidReciprocation(
+    @param.path.string('guestId') guestId: string,
+    @param.path.number('reciprocationId') reciprocationId: number,
+    @requestBody({
+      required: false,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              reason: { type: 'string', maxLength: 500 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    body?: VoidReciprocationRequest
+  ) {
+    const reciprocation = await this.reciprocationService.voidReciprocation(guestId, reciprocationId, body?.reason);
+    return this.success(reciprocation);
+  }
+
+  @get('/reciprocity/balances')
+  @response(200, {
+    description: 'Received vs. given back per guest_of side and per guest, largest outstanding obligation first',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                sides: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      guest_of: { type: 'string' },
+                      guests: { type: 'number' },
+                      guests_outstanding: { type: 'number' },
+                      received_value_khr: { type: 'number' },
+                      given_value_khr: { type: 'number' },
+                      outstanding_khr: { type: 'number' }
+                    }
+                  }
+                },
+                guests: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      guest_id: { type: 'string' },
+                      english_name: { type: 'string', nullable: true },
+                      khmer_name: { type: 'string', nullable: true },
+                      guest_of: { type: 'string' },
+                      received_khr: { type: 'number' },
+                      received_usd: { type: 'number' },
+                      given_khr: { type: 'number' },
+                      given_usd: { type: 'number' },
+                      received_value_khr: { type: 'number' },
+                      given_value_khr: { type: 'number' },
+                      outstanding_khr: { type: 'number' }
+                    }
+                  }
+                },
+                total_count: { type: 'number' }
+              }
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getBalances(
+    @param.query.string('guest_of') guest_of?: string,
+    @param.query.boolean('outstanding_only') outstanding_only?: boolean,
+    @param.query.number('limit') limit?: number,
+    @param.query.number('offset') offset?: number
+  ) {
+    const filters: ReciprocityBalanceFilters = {};
+
+    if (guest_of) filters.guest_of = guest_of as any;
+    if (outstanding_only !== undefined) filters.outstanding_only = outstanding_only;
+    if (limit !== undefined) filters.limit = limit;
+    if (offset !== undefined) filters.offset = offset;
+
+    const report = await this.reciprocationService.getBalances(filters);
+    return this.success(report);
+  }
+}
@@ -0,0 +1,41 @@
+import {inject} from '@loopback/core';
+import {
+  get,
+  param,
+  response,
+  Response,
+  RestBindings,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {LedgerReportService} from '../services/ledger-report-service';
+
+export class ReportController extends BaseController {
+  private ledgerReportService: LedgerReportService;
+
+  constructor() {
+    super();
+    this.ledgerReportService = new LedgerReportService();
+  }
+
+  @get('/reports/ledger.pdf')
+  @response(200, {
+    description: 'Printable gift ledger: every giver grouped by side with running KHR / USD subtotals, ' +
+      'numbered pages and a summary page with sign-off lines. With event_id only that ceremony\'s gifts are listed.',
+    content: {
+      'application/pdf': {
+        schema: { type: 'string', format: 'binary' }
+      }
+    }
+  })
+  async getLedgerPdf(
+    @inject(RestBindings.Http.RESPONSE) res: Response,
+    @param.query.number('event_id') event_id?: number
+  ) {
+    const pdf = await this.ledgerReportService.generateLedgerPdf(event_id);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="gift-ledger-${new Date().toISOString().slice(0, 10)}.pdf"`);
+    res.end(pdf);
+    return res;
+  }
+}
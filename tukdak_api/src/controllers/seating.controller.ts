@@ -0,0 +1,293 @@
+import {
+  post,
+  get,
+  patch,
+  del,
+  param,
+  requestBody,
+  response,
+  SchemaObject,
+} from '@loopback/rest';
+import {BaseController} from './base/base-controller';
+import {SeatingService} from '../services/seating-service';
+import {
+  CreateSeatingTableRequest,
+  SeatAssignmentRequest,
+  UpdateSeatingTableRequest
+} from '../types/seating.types';
+
+const TABLE_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    id: { type: 'number' },
+    table_number: { type: 'number' },
+    label: { type: 'string', nullable: true },
+    capacity: { type: 'number' },
+    notes: { type: 'string', nullable: true },
+    seated: { type: 'number' },
+    available: { type: 'number' },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' }
+  }
+};
+
+const ROSTER_RESPONSE = {
+  content: {
+    'application/json': {
+      schema: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean' },
+          data: {
+            type: 'object',
+            properties: {
+              table: TABLE_SCHEMA,
+              guests: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    guest_id: { type: 'string' },
+                    english_name: { type: 'string', nullable: true },
+                    khmer_name: { type: 'string', nullable: true },
+                    guest_of: { type: 'string' },
+                    household_id: { type: 'number', nullable: true },
+                    household_name: { type: 'string', nullable: true },
+                    assigned_at: { type: 'string' }
+                  }
+                }
+              },
+              by_side: {
+                type: 'object',
+                properties: {
+                  bride: { type: 'number' },
+                  groom: { type: 'number' },
+                  bride_parents: { type: 'number' },
+                  groom_parents: { type: 'number' }
+                }
+              }
+            }
+          }
+        },
+        required: ['success', 'data']
+      }
+    }
+  }
+};
+
+const SEAT_ASSIGNMENT_BODY_SCHEMA: SchemaObject = {
+  type: 'object',
+  properties: {
+    guest_ids: { type: 'array', items: { type: 'string', minLength: 1 } },
+    household_id: { type: 'integer', minimum: 1 }
+  },
+  additionalProperties: false
+};
+
+export class SeatingController extends BaseController {
+  private seatingService: SeatingService;
+
+  constructor() {
+    super();
+    this.seatingService = new SeatingService();
+  }
+
+  @post('/tables')
+  @response(201, {
+    description: 'Create a reception table',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: TABLE_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async createTable(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            required: ['table_number'],
+            properties: {
+              table_number: { type: 'integer', minimum: 1 },
+              label: { type: 'string', maxLength: 100 },
+              capacity: { type: 'integer', minimum: 1 },
+              notes: { type: 'string', maxLength: 500 }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    tableData: CreateSeatingTableRequest
+  ) {
+    const table = await this.seatingService.createTable(tableData);
+    return this.success(table);
+  }
+
+  @get('/tables')
+  @response(200, {
+    description: 'List tables with seated and available seats',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: { type: 'array', items: TABLE_SCHEMA }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getAllTables() {
+    const tables = await this.seatingService.getAllTables();
+    return this.success(tables);
+  }
+
+  @get('/tables/{tableId}')
+  @response(200, {
+    description: 'Get table by ID',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: TABLE_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async getTableById(@param.path.number('tableId') tableId: number) {
+    const table = await this.seatingService.getTableById(tableId);
+    return this.success(table);
+  }
+
+  @patch('/tables/{tableId}')
+  @response(200, {
+    description: 'Update a table; capacity cannot drop below the guests already seated',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: TABLE_SCHEMA
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async updateTable(
+    @param.path.number('tableId') tableId: number,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: {
+              table_number: { type: 'integer', minimum: 1 },
+              label: { type: 'string', maxLength: 100, nullable: true },
+              capacity: { type: 'integer', minimum: 1 },
+              notes: { type: 'string', maxLength: 500, nullable: true }
+            },
+            additionalProperties: false
+          }
+        }
+      }
+    })
+    updates: UpdateSeatingTableRequest
+  ) {
+    const table = await this.seatingService.updateTable(tableId, updates);
+    return this.success(table);
+  }
+
+  @del('/tables/{tableId}')
+  @response(200, {
+    description: 'Delete a table; its guests become unseated',
+    content: {
+      'application/json': {
+        schema: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                deleted: { type: 'boolean' }
+              },
+              required: ['deleted']
+            }
+          },
+          required: ['success', 'data']
+        }
+      }
+    }
+  })
+  async deleteTable(@param.path.number('tableId') tableId: number) {
+    const result = await this.seatingService.deleteTable(tableId);
+    return this.success({ deleted: result });
+  }
+
+  @post('/tables/{tableId}/assign')
+  @response(200, {
+    description: 'Seat guests and/or a household at a table (guests seated elsewhere are moved)',
+    ...ROSTER_RESPONSE
+  })
+  async assignSeats(
+    @param.path.number('tableId') tableId: number,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: SEAT_ASSIGNMENT_BODY_SCHEMA
+        }
+      }
+    })
+    request: SeatAssignmentRequest
+  ) {
+    const roster = await this.seatingService.assignSeats(tableId, request);
+    return this.success(roster);
+  }
+
+  @post('/tables/{tableId}/unassign')
+  @response(200, {
+    description: 'Unseat guests and/or a household from a table',
+    ...ROSTER_RESPONSE
+  })
+  async unassignSeats(
+    @param.path.number('tableId') tableId: number,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: SEAT_ASSIGNMENT_BODY_SCHEMA
+        }
+      }
+    })
+    request: SeatAssignmentRequest
+  ) {
+    const roster = await this.seatingService.unassignSeats(tableId, request);
+    return this.success(roster);
+  }
+
+  @get('/tables/{tableId}/roster')
+  @response(200, {
+    description: 'Guests seated at a table with their guest_of side',
+    ...ROSTER_RESPONSE
+  })
+  async getRoster(@param.path.number('tableId') tableId: number) {
+    const roster = await this.seatingService.getRoster(tableId);
+    return this.success(roster);
+  }
+}
@@ -2,6 +2,7 @@ import Database from 'better-sqlite3';
 import * as fs from 'fs';
 import * as path from 'path';
 import {DATABASE_SCHEMA} from '../schema/database-schema';
+import {registerSqlFunctions} from './sql-functions';
 
 export interface DatabaseConfig {
   filePath: string;
@@ -70,6 +71,8 @@ export class DatabaseConnection {
         // Optimize for performance
         this.db.pragma('synchronous = NORMAL');
         this.db.pragma('cache_size = 10000');
+
+        registerSqlFunctions(this.db);
         
         // Test connection
         this.db.prepare('SELECT 1').get();
@@ -114,8 +117,27 @@ export class DatabaseConnection {
     console.log('🔄 Initializing database schema...');
 
     // Create tables
+    this.db.exec(DATABASE_SCHEMA.EVENTS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.HOUSEHOLDS_TABLE);
     this.db.exec(DATABASE_SCHEMA.GUESTLIST_TABLE);
+    this.db.exec(DATABASE_SCHEMA.GUEST_SEARCH_TABLE);
+    this.db.exec(DATABASE_SCHEMA.GUEST_SUGGEST_TABLE);
     this.db.exec(DATABASE_SCHEMA.ACTIVITY_LOGS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.PAYMENT_METHODS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.PAYMENT_METHODS_SEED);
+    this.db.exec(DATABASE_SCHEMA.CONTRIBUTIONS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.IN_KIND_GIFTS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.RECIPROCATIONS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.CHECK_INS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.INVITATIONS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.SEATING_TABLES_TABLE);
+    this.db.exec(DATABASE_SCHEMA.SEAT_ASSIGNMENTS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.GUEST_PHONES_TABLE);
+    this.db.exec(DATABASE_SCHEMA.GUEST_TAGS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.CUSTOM_FIELDS_TABLE);
+    this.db.exec(DATABASE_SCHEMA.GUEST_FIELD_VALUES_TABLE);
+    this.db.exec(DATABASE_SCHEMA.IMPORT_PROFILES_TABLE);
+    this.db.exec(DATABASE_SCHEMA.EXCHANGE_RATES_TABLE);
     this.db.exec(DATABASE_SCHEMA.ERROR_LOGS_TABLE);
 
     // Create indexes
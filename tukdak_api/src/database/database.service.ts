@@ -2,6 +2,8 @@ import Database from 'better-sqlite3';
 import * as path from 'path';
 import * as fs from 'fs';
 import { DATABASE_SCHEMA } from '../schema/database-schema';
+import { registerSqlFunctions } from './sql-functions';
+import { backupFileName } from '../utils/backup-files';
 
 export interface DatabaseHealth {
   connected: boolean;
@@ -63,6 +65,7 @@ export class DatabaseService {
       this.db.pragma('cache_size = 1000');
       this.db.pragma('temp_store = memory');
       this.db.pragma('foreign_keys = ON');
+      registerSqlFunctions(this.db);
       
       console.log(`📊 Database connected: ${this.dbPath}`);
 
@@ -82,10 +85,35 @@ export class DatabaseService {
       throw new Error('Database not initialized');
     }
 
+    // The migrations expect an older database exactly as they left it
+    if (this.awaitsMigrations()) {
+      console.warn('⚠️  Database predates the current schema, run `npm run migrate` to upgrade it');
+      return;
+    }
+
     try {
       // Create tables using the updated schema
+      this.db.exec(DATABASE_SCHEMA.EVENTS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.HOUSEHOLDS_TABLE);
       this.db.exec(DATABASE_SCHEMA.GUESTLIST_TABLE);
+      this.db.exec(DATABASE_SCHEMA.GUEST_SEARCH_TABLE);
+      this.db.exec(DATABASE_SCHEMA.GUEST_SUGGEST_TABLE);
       this.db.exec(DATABASE_SCHEMA.ACTIVITY_LOGS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.PAYMENT_METHODS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.PAYMENT_METHODS_SEED);
+      this.db.exec(DATABASE_SCHEMA.CONTRIBUTIONS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.IN_KIND_GIFTS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.RECIPROCATIONS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.CHECK_INS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.INVITATIONS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.SEATING_TABLES_TABLE);
+      this.db.exec(DATABASE_SCHEMA.SEAT_ASSIGNMENTS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.GUEST_PHONES_TABLE);
+      this.db.exec(DATABASE_SCHEMA.GUEST_TAGS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.CUSTOM_FIELDS_TABLE);
+      this.db.exec(DATABASE_SCHEMA.GUEST_FIELD_VALUES_TABLE);
+      this.db.exec(DATABASE_SCHEMA.IMPORT_PROFILES_TABLE);
+      this.db.exec(DATABASE_SCHEMA.EXCHANGE_RATES_TABLE);
       this.db.exec(DATABASE_SCHEMA.ERROR_LOGS_TABLE);
 
       // Create indexes
@@ -119,6 +147,26 @@ export class DatabaseService {
     }
   }
 
+  // True when guestlist lacks a column of the current schema, i.e. the
+  // database was created by an earlier release and not yet migrated
+  awaitsMigrations(): boolean {
+    const columnsOf = (db: Database.Database) =>
+      db.prepare(`SELECT name FROM pragma_table_info('guestlist')`).pluck().all() as string[];
+
+    const existing = columnsOf(this.getConnection().getDatabase());
+    if (existing.length === 0) {
+      return false;
+    }
+
+    const current = new Database(':memory:');
+    try {
+      current.exec(DATABASE_SCHEMA.GUESTLIST_TABLE);
+      return columnsOf(current).some(column => !existing.includes(column));
+    } finally {
+      current.close();
+    }
+  }
+
   getConnection(): { getDatabase: () => Database.Database } {
     if (!this.db) {
       throw new Error('Database not initialized. Call initialize() first.');
@@ -211,23 +259,36 @@ export class DatabaseService {
     }
   }
 
+  getDataDirectory(): string {
+    return path.dirname(this.dbPath);
+  }
+
+  // Scheduled, pre-restore and manual backups all live in data/backups
+  getBackupDirectory(): string {
+    const backupDir = path.join(this.getDataDirectory(), 'backups');
+    if (!fs.existsSync(backupDir)) {
+      fs.mkdirSync(backupDir, { recursive: true, mode: 0o755 });
+    }
+    return backupDir;
+  }
+
   // Backup functionality
   async createBackup(backupPath?: string): Promise<string> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const defaultBackupPath = path.join(
-      path.dirname(this.dbPath), 
-      `backup_${timestamp}.db`
-    );
-    
-    const finalBackupPath = backupPath || defaultBackupPath;
+    const finalBackupPath = backupPath || path.join(this.getBackupDirectory(), backupFileName('manual'));
 
     try {
       // Use SQLite backup API
-      this.db.backup(finalBackupPath);
+      await this.db.backup(finalBackupPath);
+
+      // The copy inherits WAL mode; switch it back so the backup is one self-contained file
+      const backup = new Database(finalBackupPath);
+      backup.pragma('journal_mode = DELETE');
+      backup.close();
+
       console.log(`💾 Database backup created: ${finalBackupPath}`);
       return finalBackupPath;
     } catch (error) {
@@ -243,15 +304,17 @@ export class DatabaseService {
     }
 
     try {
-      // Properly type the guest statistics query
+      // Money totals are derived from the contributions ledger
       const guestStats = this.db.prepare(`
-        SELECT 
+        SELECT
           COUNT(*) as total_guests,
-          COALESCE(SUM(amount_khr), 0) as total_khr,
-          COALESCE(SUM(amount_usd), 0) as total_usd,
-          COUNT(CASE WHEN amount_khr > 0 OR amount_usd > 0 THEN 1 END) as paid_guests,
+          (SELECT COALESCE(SUM(amount), 0) FROM contributions WHERE currency = 'KHR' AND is_voided = 0) as total_khr,
+          (SELECT COALESCE(SUM(amount), 0) FROM contributions WHERE currency = 'USD' AND is_voided = 0) as total_usd,
+          COUNT(CASE WHEN EXISTS (
+            SELECT 1 FROM contributions c WHERE c.guest_id = g.guest_id AND c.is_voided = 0
+          ) THEN 1 END) as paid_guests,
           COUNT(CASE WHEN is_duplicate = 1 THEN 1 END) as duplicates
-        FROM guestlist
+        FROM guestlist g
       `).get() as GuestStatistics;
 
       // Properly type the activity count query
@@ -8,13 +8,44 @@ interface Migration {
   applied_at: string;
 }
 
+// The first release created this schema at startup, before there was a
+// migrations table; 002 is sample data a real guest list must not get
+const FIRST_RELEASE_MIGRATIONS = ['001_initial_schema.sql', '002_seed_data.sql', '003_add_search_optimization.sql'];
+
+/**
+ * Split a migration file into its statements. Comment lines are dropped first
+ * so a statement preceded by a comment is not skipped. Trigger bodies contain
+ * their own semicolons, so a trigger runs on until its END.
+ */
+const splitSqlStatements = (sql: string): string[] => {
+  const statements: string[] = [];
+  const parts = sql
+    .split('\n')
+    .filter(line => !line.trim().startsWith('--'))
+    .join('\n')
+    .split(';');
+  let pending = '';
+  for (const part of parts) {
+    pending = pending ? `${pending};${part}` : part;
+    if (/^\s*CREATE\s+TRIGGER/i.test(pending) && !/\bEND\s*$/i.test(pending)) {
+      continue;
+    }
+    if (pending.trim().length > 0) {
+      statements.push(pending.trim());
+    }
+    pending = '';
+  }
+  return statements;
+};
+
 class MigrationRunner {
   private dbService: DatabaseService;
   private migrationsDir: string;
 
   constructor() {
     this.dbService = DatabaseService.getInstance();
-    this.migrationsDir = path.join(process.cwd(), 'database', 'migrations');
+    // The .sql files are not compiled, so dist/database reads them from src too
+    this.migrationsDir = path.join(__dirname, '..', '..', 'src', 'database', 'migrations');
   }
 
   async init(): Promise<void> {
@@ -83,8 +114,11 @@ CREATE INDEX IF NOT EXISTS idx_guestlist_payment_method ON guestlist (payment_me
   async runMigrations(): Promise<void> {
     await this.init();
     
-    const appliedMigrations = await this.getAppliedMigrations();
     const migrationFiles = await this.getMigrationFiles();
+    if (!(await this.getAppliedMigrations()).some(m => migrationFiles.includes(m.filename))) {
+      await this.recordExistingSchema(migrationFiles);
+    }
+    const appliedMigrations = await this.getAppliedMigrations();
     const appliedFilenames = appliedMigrations.map(m => m.filename);
 
     console.log('🔄 Starting database migrations...');
@@ -108,6 +142,23 @@ CREATE INDEX IF NOT EXISTS idx_guestlist_payment_method ON guestlist (payment_me
     }
   }
 
+  /**
+   * A database none of the migrations were recorded on was created at startup:
+   * by the first release if it awaits migrations, else with the current
+   * schema. Record what that schema already has as applied, so only the rest
+   * of the migrations run.
+   */
+  async recordExistingSchema(migrationFiles: string[]): Promise<void> {
+    const db = this.dbService.getConnection().getDatabase();
+    const existing = this.dbService.awaitsMigrations()
+      ? migrationFiles.filter(filename => FIRST_RELEASE_MIGRATIONS.includes(filename))
+      : migrationFiles;
+
+    const record = db.prepare('INSERT INTO migrations (filename) VALUES (?)');
+    db.transaction(() => existing.forEach(filename => record.run(filename)))();
+    console.log(`📌 Recorded ${existing.length} migrations the existing schema already has`);
+  }
+
   async runSingleMigration(filename: string): Promise<void> {
     const db = this.dbService.getConnection().getDatabase();
     const migrationPath = path.join(this.migrationsDir, filename);
@@ -116,12 +167,7 @@ CREATE INDEX IF NOT EXISTS idx_guestlist_payment_method ON guestlist (payment_me
       console.log(`🔄 Running migration: ${filename}`);
       
       const sql = fs.readFileSync(migrationPath, 'utf8');
-      
-      // Split SQL into individual statements
-      const statements = sql
-        .split(';')
-        .map(stmt => stmt.trim())
-        .filter(stmt => stmt.length > 0 && !stmt.startsWith('--'));
+      const statements = splitSqlStatements(sql);
 
       const transaction = db.transaction(() => {
         for (const statement of statements) {
@@ -220,4 +266,4 @@ if (require.main === module) {
   main();
 }
 
-export { MigrationRunner };
\ No newline at end of file
+export { MigrationRunner, splitSqlStatements };
\ No newline at end of file
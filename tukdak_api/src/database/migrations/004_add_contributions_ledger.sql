@@ -0,0 +1,35 @@
+-- Migration: Add contributions ledger
+-- Created: 2025-10-20
+-- Description: Moves gift amounts off guestlist into a per-gift contributions table
+
+CREATE TABLE IF NOT EXISTS contributions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  guest_id TEXT NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL CHECK (currency IN ('KHR', 'USD')),
+  payment_method TEXT CHECK(payment_method IN ('QR_Code', 'Cash')),
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  note TEXT,
+  is_voided BOOLEAN DEFAULT FALSE,
+  voided_at TIMESTAMP,
+  void_reason TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_contributions_guest_active ON contributions(guest_id, is_voided);
+CREATE INDEX IF NOT EXISTS idx_contributions_received_at ON contributions(received_at);
+CREATE INDEX IF NOT EXISTS idx_contributions_payment_method ON contributions(payment_method);
+
+-- Backfill one ledger row per currency from the legacy guestlist amounts
+INSERT INTO contributions (guest_id, amount, currency, payment_method, received_at, note)
+SELECT guest_id, amount_khr, 'KHR', payment_method, created_at, 'Migrated from guestlist'
+FROM guestlist g
+WHERE amount_khr > 0
+  AND NOT EXISTS (SELECT 1 FROM contributions c WHERE c.guest_id = g.guest_id);
+
+INSERT INTO contributions (guest_id, amount, currency, payment_method, received_at, note)
+SELECT guest_id, amount_usd, 'USD', payment_method, created_at, 'Migrated from guestlist'
+FROM guestlist g
+WHERE amount_usd > 0
+  AND NOT EXISTS (SELECT 1 FROM contributions c WHERE c.guest_id = g.guest_id AND c.currency = 'USD');
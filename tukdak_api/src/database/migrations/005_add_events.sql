@@ -0,0 +1,21 @@
+-- Migration: Add events
+-- Created: 2025-10-21
+-- Description: Lets one database hold every ceremony of the wedding series
+
+CREATE TABLE IF NOT EXISTS events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK(event_type IN ('engagement', 'hair_cutting', 'blessing', 'reception', 'other')),
+  event_date DATE,
+  venue TEXT,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Scope guests and gifts to an event (NULL = not tied to a specific ceremony)
+ALTER TABLE guestlist ADD COLUMN event_id INTEGER REFERENCES events(id) ON DELETE SET NULL;
+ALTER TABLE contributions ADD COLUMN event_id INTEGER REFERENCES events(id);
+
+CREATE INDEX IF NOT EXISTS idx_guestlist_event_id ON guestlist(event_id);
+CREATE INDEX IF NOT EXISTS idx_contributions_event_id ON contributions(event_id);
@@ -0,0 +1,13 @@
+-- Migration: Add exchange rates
+-- Created: 2025-10-22
+-- Description: USD to KHR rates with an effective time, used to combine gift totals
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  usd_to_khr DECIMAL(10,2) NOT NULL CHECK (usd_to_khr > 0),
+  effective_from TIMESTAMP NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_effective_from ON exchange_rates(effective_from);
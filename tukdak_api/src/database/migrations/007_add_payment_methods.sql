@@ -0,0 +1,51 @@
+-- Migration: Add payment method registry
+-- Created: 2025-10-23
+-- Description: Replaces the hard-coded QR_Code/Cash CHECK with a payment_methods table
+
+CREATE TABLE IF NOT EXISTS payment_methods (
+  code TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+INSERT OR IGNORE INTO payment_methods (code, label, sort_order) VALUES
+  ('QR_Code', 'QR Code', 10),
+  ('Cash', 'Cash', 20),
+  ('ABA', 'ABA Bank', 30),
+  ('ACLEDA', 'ACLEDA Bank', 40),
+  ('Wing', 'Wing', 50),
+  ('Bank_Transfer', 'Bank Transfer', 60),
+  ('Gold', 'Gold', 70);
+
+-- SQLite cannot drop a CHECK constraint, so the ledger table is rebuilt
+CREATE TABLE contributions_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  guest_id TEXT NOT NULL,
+  event_id INTEGER REFERENCES events(id),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL CHECK (currency IN ('KHR', 'USD')),
+  payment_method TEXT REFERENCES payment_methods(code),
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  note TEXT,
+  is_voided BOOLEAN DEFAULT FALSE,
+  voided_at TIMESTAMP,
+  void_reason TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+);
+
+INSERT INTO contributions_new
+  (id, guest_id, event_id, amount, currency, payment_method, received_at, note, is_voided, voided_at, void_reason, created_at)
+SELECT id, guest_id, event_id, amount, currency, payment_method, received_at, note, is_voided, voided_at, void_reason, created_at
+FROM contributions;
+
+DROP TABLE contributions;
+ALTER TABLE contributions_new RENAME TO contributions;
+
+CREATE INDEX IF NOT EXISTS idx_contributions_guest_active ON contributions(guest_id, is_voided);
+CREATE INDEX IF NOT EXISTS idx_contributions_received_at ON contributions(received_at);
+CREATE INDEX IF NOT EXISTS idx_contributions_payment_method ON contributions(payment_method);
+CREATE INDEX IF NOT EXISTS idx_contributions_event_id ON contributions(event_id);
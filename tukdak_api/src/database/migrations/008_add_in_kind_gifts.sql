@@ -0,0 +1,26 @@
+-- Migration: Add in-kind gifts
+-- Created: 2025-10-24
+-- Description: Records gold, jewellery and goods given instead of money, with an estimated value
+
+CREATE TABLE IF NOT EXISTS in_kind_gifts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  guest_id TEXT NOT NULL,
+  event_id INTEGER REFERENCES events(id),
+  description TEXT NOT NULL,
+  quantity DECIMAL(10,3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit TEXT,
+  estimated_value DECIMAL(12,2) CHECK (estimated_value IS NULL OR estimated_value >= 0),
+  estimated_currency TEXT CHECK (estimated_currency IN ('KHR', 'USD')),
+  must_return BOOLEAN DEFAULT FALSE,
+  return_by DATE,
+  received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  note TEXT,
+  is_voided BOOLEAN DEFAULT FALSE,
+  voided_at TIMESTAMP,
+  void_reason TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_in_kind_gifts_guest_active ON in_kind_gifts(guest_id, is_voided);
+CREATE INDEX IF NOT EXISTS idx_in_kind_gifts_event_id ON in_kind_gifts(event_id);
@@ -0,0 +1,21 @@
+-- Migration: Add reciprocations
+-- Created: 2025-10-25
+-- Description: Outgoing gifts given back at guests' own family weddings
+
+CREATE TABLE IF NOT EXISTS reciprocations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  guest_id TEXT NOT NULL,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL CHECK (currency IN ('KHR', 'USD')),
+  payment_method TEXT REFERENCES payment_methods(code),
+  occasion TEXT,
+  given_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  note TEXT,
+  is_voided BOOLEAN DEFAULT FALSE,
+  voided_at TIMESTAMP,
+  void_reason TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_reciprocations_guest_active ON reciprocations(guest_id, is_voided);
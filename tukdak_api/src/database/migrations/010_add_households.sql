@@ -0,0 +1,17 @@
+-- Migration: Add households
+-- Created: 2025-10-26
+-- Description: Group guests into couples / families with a designated head
+
+CREATE TABLE IF NOT EXISTS households (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  head_guest_id TEXT REFERENCES guestlist(guest_id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- NULL = the guest is not part of any household
+ALTER TABLE guestlist ADD COLUMN household_id INTEGER REFERENCES households(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_guestlist_household_id ON guestlist(household_id);
@@ -0,0 +1,19 @@
+-- Migration: Add check-ins
+-- Created: 2025-10-27
+-- Description: Door check-in with arrival time and device, for attendance tracking
+
+CREATE TABLE IF NOT EXISTS check_ins (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  guest_id TEXT NOT NULL,
+  event_id INTEGER REFERENCES events(id),
+  checked_in_at TIMESTAMP NOT NULL,
+  device TEXT,
+  is_undone BOOLEAN DEFAULT FALSE,
+  undone_at TIMESTAMP,
+  undo_reason TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_check_ins_guest_active ON check_ins(guest_id, is_undone);
+CREATE INDEX IF NOT EXISTS idx_check_ins_event_id ON check_ins(event_id);
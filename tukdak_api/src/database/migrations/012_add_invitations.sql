@@ -0,0 +1,19 @@
+-- Migration: Add invitations
+-- Created: 2025-10-28
+-- Description: Invitation card delivery and RSVP per guest
+
+CREATE TABLE IF NOT EXISTS invitations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  guest_id TEXT NOT NULL UNIQUE,
+  delivered_by TEXT,
+  delivered_at DATE,
+  rsvp_status TEXT NOT NULL DEFAULT 'pending' CHECK (rsvp_status IN ('pending', 'attending', 'declined', 'maybe')),
+  party_size INTEGER NOT NULL DEFAULT 1 CHECK (party_size >= 1),
+  rsvp_at TIMESTAMP,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_invitations_rsvp_status ON invitations(rsvp_status);
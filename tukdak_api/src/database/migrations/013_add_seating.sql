@@ -0,0 +1,23 @@
+-- Migration: Add seating
+-- Created: 2025-10-29
+-- Description: Reception tables with capacity and one seat assignment per guest
+
+CREATE TABLE IF NOT EXISTS seating_tables (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  table_number INTEGER NOT NULL UNIQUE CHECK (table_number > 0),
+  label TEXT,
+  capacity INTEGER NOT NULL DEFAULT 10 CHECK (capacity > 0),
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS seat_assignments (
+  guest_id TEXT PRIMARY KEY,
+  table_id INTEGER NOT NULL,
+  assigned_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE,
+  FOREIGN KEY (table_id) REFERENCES seating_tables(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_seat_assignments_table_id ON seat_assignments(table_id);
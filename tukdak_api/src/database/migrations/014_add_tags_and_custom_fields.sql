@@ -0,0 +1,34 @@
+-- Migration: Add tags and custom fields
+-- Created: 2025-10-30
+-- Description: Free-form guest tags and admin-defined custom fields with per-guest values
+
+CREATE TABLE IF NOT EXISTS guest_tags (
+  guest_id TEXT NOT NULL,
+  tag TEXT NOT NULL COLLATE NOCASE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (guest_id, tag),
+  FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS custom_fields (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,
+  label TEXT NOT NULL,
+  field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'choice')),
+  options TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS guest_field_values (
+  guest_id TEXT NOT NULL,
+  field_id INTEGER NOT NULL,
+  value TEXT NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (guest_id, field_id),
+  FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE,
+  FOREIGN KEY (field_id) REFERENCES custom_fields(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_tags_tag ON guest_tags(tag);
+CREATE INDEX IF NOT EXISTS idx_guest_field_values_field ON guest_field_values(field_id, value);
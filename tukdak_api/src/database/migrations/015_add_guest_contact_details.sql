@@ -0,0 +1,18 @@
+-- Migration: Add guest contact details
+-- Created: 2025-10-31
+-- Description: Address / village / province on the guest and any number of +855 phone numbers
+
+ALTER TABLE guestlist ADD COLUMN address TEXT;
+ALTER TABLE guestlist ADD COLUMN village TEXT;
+ALTER TABLE guestlist ADD COLUMN province TEXT;
+
+CREATE TABLE IF NOT EXISTS guest_phones (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  guest_id TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (guest_id, phone),
+  FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_phones_phone ON guest_phones(phone);
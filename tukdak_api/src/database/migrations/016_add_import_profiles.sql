@@ -0,0 +1,13 @@
+-- Migration: Add import profiles
+-- Created: 2025-11-01
+-- Description: Saved column / value mappings for importing guest spreadsheets with their own headers
+
+CREATE TABLE IF NOT EXISTS import_profiles (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  column_map TEXT NOT NULL,
+  value_map TEXT NOT NULL DEFAULT '{}',
+  id_prefix TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,38 @@
+-- Migration: Add full-text guest name search
+-- Created: 2025-11-03
+-- Description: FTS5 trigram index over english_name / khmer_name, kept in sync with guestlist by triggers
+
+CREATE VIRTUAL TABLE IF NOT EXISTS guest_search USING fts5(
+  guest_id UNINDEXED,
+  english_name,
+  khmer_name,
+  tokenize = 'trigram'
+);
+
+INSERT INTO guest_search (guest_id, english_name, khmer_name)
+SELECT guest_id, english_name, khmer_name FROM guestlist
+WHERE NOT EXISTS (SELECT 1 FROM guest_search);
+
+CREATE TRIGGER IF NOT EXISTS guest_search_insert
+AFTER INSERT ON guestlist
+FOR EACH ROW
+BEGIN
+  INSERT INTO guest_search (guest_id, english_name, khmer_name)
+  VALUES (NEW.guest_id, NEW.english_name, NEW.khmer_name);
+END;
+
+CREATE TRIGGER IF NOT EXISTS guest_search_update
+AFTER UPDATE OF guest_id, english_name, khmer_name ON guestlist
+FOR EACH ROW
+BEGIN
+  UPDATE guest_search
+  SET guest_id = NEW.guest_id, english_name = NEW.english_name, khmer_name = NEW.khmer_name
+  WHERE guest_id = OLD.guest_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS guest_search_delete
+AFTER DELETE ON guestlist
+FOR EACH ROW
+BEGIN
+  DELETE FROM guest_search WHERE guest_id = OLD.guest_id;
+END;
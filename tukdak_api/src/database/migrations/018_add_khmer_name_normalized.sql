@@ -0,0 +1,47 @@
+-- Migration: Add normalised Khmer names for search
+-- Created: 2025-11-04
+-- Description: khmer_name_normalized holds khmer_name without zero-width characters and with each syllable in one canonical order; Khmer name search and the guest_search index use it
+
+ALTER TABLE guestlist ADD COLUMN khmer_name_normalized TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_guestlist_khmer_name_normalized ON guestlist(khmer_name_normalized);
+
+-- Backfill with khmer_normalize(), which the application registers on its connection.
+-- The timestamp trigger is set aside meanwhile so no guest's updated_at changes.
+DROP TRIGGER IF EXISTS update_guestlist_timestamp;
+
+UPDATE guestlist SET khmer_name_normalized = khmer_normalize(khmer_name) WHERE khmer_name IS NOT NULL;
+
+CREATE TRIGGER IF NOT EXISTS update_guestlist_timestamp
+AFTER UPDATE ON guestlist
+FOR EACH ROW
+BEGIN
+  UPDATE guestlist SET updated_at = CURRENT_TIMESTAMP WHERE guest_id = NEW.guest_id;
+END;
+
+-- Index the normalised names instead of the raw ones
+DROP TRIGGER IF EXISTS guest_search_insert;
+DROP TRIGGER IF EXISTS guest_search_update;
+
+CREATE TRIGGER IF NOT EXISTS guest_search_insert
+AFTER INSERT ON guestlist
+FOR EACH ROW
+BEGIN
+  INSERT INTO guest_search (guest_id, english_name, khmer_name)
+  VALUES (NEW.guest_id, NEW.english_name, COALESCE(NEW.khmer_name_normalized, NEW.khmer_name));
+END;
+
+CREATE TRIGGER IF NOT EXISTS guest_search_update
+AFTER UPDATE OF guest_id, english_name, khmer_name, khmer_name_normalized ON guestlist
+FOR EACH ROW
+BEGIN
+  UPDATE guest_search
+  SET guest_id = NEW.guest_id, english_name = NEW.english_name,
+      khmer_name = COALESCE(NEW.khmer_name_normalized, NEW.khmer_name)
+  WHERE guest_id = OLD.guest_id;
+END;
+
+DELETE FROM guest_search;
+
+INSERT INTO guest_search (guest_id, english_name, khmer_name)
+SELECT guest_id, english_name, COALESCE(khmer_name_normalized, khmer_name) FROM guestlist;
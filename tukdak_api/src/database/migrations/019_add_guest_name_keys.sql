@@ -0,0 +1,21 @@
+-- Migration: Add consonant keys of guest names for cross-script search
+-- Created: 2025-11-06
+-- Description: english_name_key and khmer_name_key hold each name reduced to its consonants (utils/transliteration), so any_script search can match a romanised query against Khmer names and the other way round
+
+ALTER TABLE guestlist ADD COLUMN english_name_key TEXT;
+ALTER TABLE guestlist ADD COLUMN khmer_name_key TEXT;
+
+-- Backfill with name_key(), which the application registers on its connection.
+-- The timestamp trigger is set aside meanwhile so no guest's updated_at changes.
+DROP TRIGGER IF EXISTS update_guestlist_timestamp;
+
+UPDATE guestlist
+SET english_name_key = name_key(english_name),
+    khmer_name_key = name_key(khmer_name);
+
+CREATE TRIGGER IF NOT EXISTS update_guestlist_timestamp
+AFTER UPDATE ON guestlist
+FOR EACH ROW
+BEGIN
+  UPDATE guestlist SET updated_at = CURRENT_TIMESTAMP WHERE guest_id = NEW.guest_id;
+END;
@@ -0,0 +1,41 @@
+-- Migration: Add the typeahead prefix index
+-- Created: 2025-11-07
+-- Description: FTS5 word-prefix index over guest IDs and names for GET /guests/suggest, kept in sync with guestlist by triggers
+
+CREATE VIRTUAL TABLE IF NOT EXISTS guest_suggest USING fts5(
+  guest_id,
+  english_name,
+  khmer_name,
+  khmer_name_normalized,
+  tokenize = "unicode61 categories 'L* N* Co M*'",
+  prefix = '1 2 3'
+);
+
+INSERT INTO guest_suggest (guest_id, english_name, khmer_name, khmer_name_normalized)
+SELECT guest_id, english_name, khmer_name, khmer_name_normalized FROM guestlist
+WHERE NOT EXISTS (SELECT 1 FROM guest_suggest);
+
+CREATE TRIGGER IF NOT EXISTS guest_suggest_insert
+AFTER INSERT ON guestlist
+FOR EACH ROW
+BEGIN
+  INSERT INTO guest_suggest (guest_id, english_name, khmer_name, khmer_name_normalized)
+  VALUES (NEW.guest_id, NEW.english_name, NEW.khmer_name, NEW.khmer_name_normalized);
+END;
+
+CREATE TRIGGER IF NOT EXISTS guest_suggest_update
+AFTER UPDATE OF guest_id, english_name, khmer_name, khmer_name_normalized ON guestlist
+FOR EACH ROW
+BEGIN
+  UPDATE guest_suggest
+  SET guest_id = NEW.guest_id, english_name = NEW.english_name,
+      khmer_name = NEW.khmer_name, khmer_name_normalized = NEW.khmer_name_normalized
+  WHERE guest_id = OLD.guest_id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS guest_suggest_delete
+AFTER DELETE ON guestlist
+FOR EACH ROW
+BEGIN
+  DELETE FROM guest_suggest WHERE guest_id = OLD.guest_id;
+END;
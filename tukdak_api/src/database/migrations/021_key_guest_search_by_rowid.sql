@@ -0,0 +1,42 @@
+-- Migration: Key the guest search index by guestlist rowid
+-- Created: 2025-11-08
+-- Description: guest_search rows share the rowid of their guestlist row, so the sync triggers update and delete by rowid instead of scanning the unindexed guest_id column
+
+DROP TRIGGER IF EXISTS guest_search_insert;
+DROP TRIGGER IF EXISTS guest_search_update;
+DROP TRIGGER IF EXISTS guest_search_delete;
+
+DROP TABLE IF EXISTS guest_search;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS guest_search USING fts5(
+  english_name,
+  khmer_name,
+  tokenize = 'trigram'
+);
+
+INSERT INTO guest_search (rowid, english_name, khmer_name)
+SELECT rowid, english_name, COALESCE(khmer_name_normalized, khmer_name) FROM guestlist;
+
+CREATE TRIGGER IF NOT EXISTS guest_search_insert
+AFTER INSERT ON guestlist
+FOR EACH ROW
+BEGIN
+  INSERT INTO guest_search (rowid, english_name, khmer_name)
+  VALUES (NEW.rowid, NEW.english_name, COALESCE(NEW.khmer_name_normalized, NEW.khmer_name));
+END;
+
+CREATE TRIGGER IF NOT EXISTS guest_search_update
+AFTER UPDATE OF english_name, khmer_name, khmer_name_normalized ON guestlist
+FOR EACH ROW
+BEGIN
+  UPDATE guest_search
+  SET english_name = NEW.english_name, khmer_name = COALESCE(NEW.khmer_name_normalized, NEW.khmer_name)
+  WHERE rowid = NEW.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS guest_search_delete
+AFTER DELETE ON guestlist
+FOR EACH ROW
+BEGIN
+  DELETE FROM guest_search WHERE rowid = OLD.rowid;
+END;
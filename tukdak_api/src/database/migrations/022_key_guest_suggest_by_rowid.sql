@@ -0,0 +1,37 @@
+-- Migration: Key the typeahead index by guestlist rowid
+-- Created: 2025-11-08
+-- Description: guest_suggest rows share the rowid of their guestlist row, so the sync triggers update and delete by rowid instead of scanning the index for a guest_id
+
+DROP TRIGGER IF EXISTS guest_suggest_insert;
+DROP TRIGGER IF EXISTS guest_suggest_update;
+DROP TRIGGER IF EXISTS guest_suggest_delete;
+
+DELETE FROM guest_suggest;
+
+INSERT INTO guest_suggest (rowid, guest_id, english_name, khmer_name, khmer_name_normalized)
+SELECT rowid, guest_id, english_name, khmer_name, khmer_name_normalized FROM guestlist;
+
+CREATE TRIGGER IF NOT EXISTS guest_suggest_insert
+AFTER INSERT ON guestlist
+FOR EACH ROW
+BEGIN
+  INSERT INTO guest_suggest (rowid, guest_id, english_name, khmer_name, khmer_name_normalized)
+  VALUES (NEW.rowid, NEW.guest_id, NEW.english_name, NEW.khmer_name, NEW.khmer_name_normalized);
+END;
+
+CREATE TRIGGER IF NOT EXISTS guest_suggest_update
+AFTER UPDATE OF guest_id, english_name, khmer_name, khmer_name_normalized ON guestlist
+FOR EACH ROW
+BEGIN
+  UPDATE guest_suggest
+  SET guest_id = NEW.guest_id, english_name = NEW.english_name,
+      khmer_name = NEW.khmer_name, khmer_name_normalized = NEW.khmer_name_normalized
+  WHERE rowid = NEW.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS guest_suggest_delete
+AFTER DELETE ON guestlist
+FOR EACH ROW
+BEGIN
+  DELETE FROM guest_suggest WHERE rowid = OLD.rowid;
+END;
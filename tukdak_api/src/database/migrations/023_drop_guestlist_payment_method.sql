@@ -0,0 +1,7 @@
+-- Migration: Drop the guest payment method column
+-- Created: 2025-11-09
+-- Description: A guest's payment method is read from their latest gift in the contributions ledger; the old guestlist column, still limited to QR_Code/Cash, is no longer written
+
+DROP INDEX IF EXISTS idx_guestlist_payment_method;
+
+ALTER TABLE guestlist DROP COLUMN payment_method;
@@ -0,0 +1,16 @@
+import Database from 'better-sqlite3';
+import {normalizeKhmer} from '../utils/khmer-text';
+import {nameKey} from '../utils/transliteration';
+
+/**
+ * Application functions callable from SQL. Registered on every connection so
+ * migrations can backfill columns the repositories derive in code.
+ */
+export const registerSqlFunctions = (db: Database.Database): void => {
+  db.function('khmer_normalize', {deterministic: true}, (value: unknown) =>
+    typeof value === 'string' ? normalizeKhmer(value) : value
+  );
+  db.function('name_key', {deterministic: true}, (value: unknown) =>
+    typeof value === 'string' ? nameKey(value) : value
+  );
+};
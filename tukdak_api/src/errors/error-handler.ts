@@ -1,5 +1,5 @@
 import {HttpErrors, Request, Response} from '@loopback/rest';
-import {ValidationError, NotFoundError, ErrorResponse} from './custom-errors';
+import {ValidationError, NotFoundError, ConflictError, ErrorResponse} from './custom-errors';
 
 export class ErrorHandler {
   static formatError(error: Error, request?: Request): ErrorResponse {
@@ -20,8 +20,8 @@ export class ErrorHandler {
       };
     }
 
-    // Handle custom not found errors
-    if (error instanceof NotFoundError) {
+    // Handle custom not found and conflict errors
+    if (error instanceof NotFoundError || error instanceof ConflictError) {
       return {
         error: {
           statusCode: error.statusCode,
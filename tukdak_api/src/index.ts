@@ -26,6 +26,10 @@ if (require.main === module) {
       // upon stop, set its value to `0`.
       // See https://www.npmjs.com/package/stoppable
       gracePeriodForClose: 5000, // 5 seconds
+      // Backup snapshots posted to /admin/restore are far larger than the default 1MB
+      requestBodyParser: {
+        json: {limit: '50mb'},
+      },
       openApiSpec: {
         // useful when used with OpenAPI-to-GraphQL to locate your application
         setServersFromRequest: true,
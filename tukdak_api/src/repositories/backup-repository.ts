@@ -0,0 +1,135 @@
+import Database from 'better-sqlite3';
+import {BaseRepository} from './base/base-repository';
+import {BackupTables} from '../types/backup.types';
+import {ValidationError, ValidationErrorDetail} from '../errors/custom-errors';
+
+// Every data table, parents before children. households and guestlist point
+// at each other, so foreign keys are only checked once the restore is complete.
+export const BACKUP_TABLES = [
+  'events',
+  'households',
+  'guestlist',
+  'activity_logs',
+  'payment_methods',
+  'contributions',
+  'in_kind_gifts',
+  'reciprocations',
+  'check_ins',
+  'invitations',
+  'seating_tables',
+  'seat_assignments',
+  'guest_phones',
+  'guest_tags',
+  'custom_fields',
+  'guest_field_values',
+  'import_profiles',
+  'exchange_rates',
+  'error_logs',
+];
+
+export class BackupRepository extends BaseRepository {
+  /**
+   * Read every backed-up table inside one read transaction so the snapshot
+   * is consistent even while gifts are being recorded. Reads the live
+   * database unless another one (an opened backup file) is given.
+   */
+  async readTables(db: Database.Database = this.getDb()): Promise<BackupTables> {
+    try {
+      const read = db.transaction(() => {
+        const tables: BackupTables = {};
+        BACKUP_TABLES.forEach(table => {
+          tables[table] = db.prepare(`SELECT * FROM ${table} ORDER BY rowid`).all() as Record<string, unknown>[];
+        });
+        return tables;
+      });
+
+      return read();
+
+    } catch (error) {
+      this.logError('READ_BACKUP_TABLES_ERROR', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the contents of every backed-up table with the given rows.
+   * Either the whole snapshot is restored or nothing changes.
+   */
+  async replaceTables(tables: BackupTables): Promise<Record<string, number>> {
+    const db = this.getDb();
+
+    try {
+      this.assertColumnsKnown(tables);
+
+      const transaction = db.transaction(() => {
+        db.pragma('defer_foreign_keys = ON');
+
+        // The guest_search / guest_suggest triggers refill the indexes row by row;
+        // emptying them first saves each guest delete from scanning them
+        db.prepare('DELETE FROM guest_search').run();
+        db.prepare('DELETE FROM guest_suggest').run();
+        [...BACKUP_TABLES].reverse().forEach(table => {
+          db.prepare(`DELETE FROM ${table}`).run();
+        });
+
+        const counts: Record<string, number> = {};
+        BACKUP_TABLES.forEach(table => {
+          const rows = tables[table];
+          rows.forEach(row => {
+            const columns = Object.keys(row);
+            db.prepare(`
+              INSERT INTO ${table} (${columns.join(', ')})
+              VALUES (${columns.map(() => '?').join(', ')})
+            `).run(...columns.map(column => row[column]));
+          });
+          counts[table] = rows.length;
+        });
+
+        const violations = db.pragma('foreign_key_check') as {table: string; rowid: number; parent: string}[];
+        if (violations.length > 0) {
+          throw new ValidationError('Snapshot has rows pointing at missing records', violations.slice(0, 20).map(violation => ({
+            field: `tables.${violation.table}`,
+            message: `Row ${violation.rowid} references a missing ${violation.parent} record`,
+            code: 'INVALID_VALUE',
+          })));
+        }
+
+        return counts;
+      });
+
+      return transaction();
+
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      this.logError('RESTORE_BACKUP_ERROR', error as Error);
+      throw error;
+    }
+  }
+
+  // Rows may leave out columns (their defaults apply) but not invent them
+  private assertColumnsKnown(tables: BackupTables): void {
+    const db = this.getDb();
+    const details: ValidationErrorDetail[] = [];
+
+    BACKUP_TABLES.forEach(table => {
+      const known = new Set(
+        (db.pragma(`table_info(${table})`) as {name: string}[]).map(column => column.name)
+      );
+      const unknown = new Set<string>();
+      tables[table].forEach(row => Object.keys(row).filter(column => !known.has(column)).forEach(column => unknown.add(column)));
+
+      unknown.forEach(column => details.push({
+        field: `tables.${table}`,
+        message: `Unknown column ${column}`,
+        value: column,
+        code: 'INVALID_VALUE',
+      }));
+    });
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import Database from 'better-sqlite3';
+import {DatabaseService} from '../../database/database.service';
+import {NotFoundError} from '../../errors/custom-errors';
+
+export class BaseRepository {
+  protected dbService: DatabaseService;
+
+  constructor() {
+    this.dbService = DatabaseService.getInstance();
+  }
+
+  protected getDb(): Database.Database {
+    return this.dbService.getConnection().getDatabase();
+  }
+
+  protected logError(errorType: string, error: Error, context?: any): void {
+    const db = this.getDb();
+
+    try {
+      const insertError = db.prepare(`
+        INSERT INTO error_logs (error_type, error_message, stack_trace, timestamp)
+        VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      `);
+
+      insertError.run(
+        errorType,
+        `${error.message} ${context ? `Context: ${JSON.stringify(context)}` : ''}`,
+        error.stack || ''
+      );
+    } catch (logError) {
+      console.error('Failed to log error to database:', logError);
+      console.error('Original error:', error);
+    }
+  }
+
+  // Existence checks shared by the repositories that hang records off a guest or an event
+  protected assertGuestExists(guestId: string): {guest_id: string; event_id: number | null} {
+    const guest = this.getDb()
+      .prepare('SELECT guest_id, event_id FROM guestlist WHERE guest_id = ?')
+      .get(guestId) as {guest_id: string; event_id: number | null} | undefined;
+    if (!guest) {
+      throw new NotFoundError('Guest', guestId);
+    }
+    return guest;
+  }
+
+  protected assertEventExists(eventId: number): void {
+    const event = this.getDb().prepare('SELECT id FROM events WHERE id = ?').get(eventId);
+    if (!event) {
+      throw new NotFoundError('Event', eventId);
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import {BaseRepository} from './base/base-repository';
+import {
+  BulkCheckInRequest,
+  BulkCheckInResult,
+  CheckIn,
+  CheckInFilters,
+  CheckInRequest,
+  UndoCheckInRequest,
+} from '../types/check-in.types';
+import {NotFoundError, ConflictError} from '../errors/custom-errors';
+
+const CHECK_IN_COLUMNS = `
+  id, guest_id, event_id, checked_in_at, device, is_undone, undone_at, undo_reason, created_at
+`;
+
+export class CheckInRepository extends BaseRepository {
+  /**
+   * Check a guest in at the door. A guest has at most one active check-in per event.
+   */
+  async checkIn(guestId: string, data: CheckInRequest): Promise<CheckIn> {
+    const db = this.getDb();
+
+    try {
+      const guest = this.assertGuestExists(guestId);
+      const eventId = this.resolveEventId(data.event_id, guest.event_id);
+
+      if (this.findActiveCheckIn(guestId, eventId)) {
+        throw new ConflictError(`Guest ${guestId} is already checked in`);
+      }
+
+      const checkedInAt = data.checked_in_at
+        ? new Date(data.checked_in_at).toISOString()
+        : new Date().toISOString();
+
+      const transaction = db.transaction(() => this.insertCheckIn(guestId, eventId, checkedInAt, data.device));
+      const checkInId = transaction();
+
+      return this.getCheckInById(checkInId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('CHECK_IN_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  /**
+   * Check in a batch of guests in one transaction. Unknown and already
+   * checked-in guests are reported back rather than failing the batch.
+   */
+  async bulkCheckIn(data: BulkCheckInRequest): Promise<BulkCheckInResult> {
+    const db = this.getDb();
+
+    try {
+      if (data.event_id !== undefined) {
+        this.assertEventExists(data.event_id);
+      }
+
+      const checkedInAt = data.checked_in_at
+        ? new Date(data.checked_in_at).toISOString()
+        : new Date().toISOString();
+
+      const findGuest = db.prepare('SELECT guest_id, event_id FROM guestlist WHERE guest_id = ?');
+
+      const transaction = db.transaction(() => {
+        const checkInIds: number[] = [];
+        const alreadyCheckedIn: string[] = [];
+        const notFound: string[] = [];
+
+        [...new Set(data.guest_ids)].forEach(guestId => {
+          const guest = findGuest.get(guestId) as {guest_id: string; event_id: number | null} | undefined;
+          if (!guest) {
+            notFound.push(guestId);
+            return;
+          }
+
+          const eventId = data.event_id ?? guest.event_id ?? null;
+          if (this.findActiveCheckIn(guestId, eventId)) {
+            alreadyCheckedIn.push(guestId);
+            return;
+          }
+
+          checkInIds.push(this.insertCheckIn(guestId, eventId, checkedInAt, data.device));
+        });
+
+        return {checkInIds, alreadyCheckedIn, notFound};
+      });
+
+      const result = transaction();
+
+      return {
+        checked_in: result.checkInIds.map(id => this.getCheckInById(id)),
+        already_checked_in: result.alreadyCheckedIn,
+        not_found: result.notFound,
+      };
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('BULK_CHECK_IN_ERROR', error as Error, {count: data.guest_ids.length});
+      throw error;
+    }
+  }
+
+  /**
+   * Undo a guest's active check-in (e.g. tapped the wrong name). The row is kept.
+   */
+  async undoCheckIn(guestId: string, data: UndoCheckInRequest): Promise<CheckIn> {
+    const db = this.getDb();
+
+    try {
+      const guest = this.assertGuestExists(guestId);
+      const eventId = this.resolveEventId(data.event_id, guest.event_id);
+
+      const active = this.findActiveCheckIn(guestId, eventId);
+      if (!active) {
+        throw new ConflictError(`Guest ${guestId} is not checked in`);
+      }
+
+      const transaction = db.transaction(() => {
+        db.prepare(`
+          UPDATE check_ins
+          SET is_undone = 1, undone_at = ?, undo_reason = ?
+          WHERE id = ?
+        `).run(new Date().toISOString(), data.reason ?? null, active.id);
+
+        db.prepare(`
+          INSERT INTO activity_logs (guest_id, action, details)
+          VALUES (?, ?, ?)
+        `).run(guestId, 'updated', `Check-in #${active.id} undone${data.reason ? `: ${data.reason}` : ''}`);
+      });
+
+      transaction();
+
+      return this.getCheckInById(active.id);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('UNDO_CHECK_IN_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  async getCheckInsByGuest(guestId: string, filters?: CheckInFilters): Promise<CheckIn[]> {
+    const db = this.getDb();
+
+    try {
+      this.assertGuestExists(guestId);
+
+      let query = `
+        SELECT ${CHECK_IN_COLUMNS}
+        FROM check_ins
+        WHERE guest_id = ?
+      `;
+
+      if (!filters?.include_undone) {
+        query += ' AND is_undone = 0';
+      }
+
+      query += ' ORDER BY checked_in_at DESC, id DESC';
+
+      const checkIns = db.prepare(query).all(guestId) as CheckIn[];
+
+      return checkIns.map(checkIn => ({
+        ...checkIn,
+        is_undone: Boolean(checkIn.is_undone),
+      }));
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('GET_CHECK_INS_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  private getCheckInById(checkInId: number): CheckIn {
+    const checkIn = this.getDb().prepare(`
+      SELECT ${CHECK_IN_COLUMNS}
+      FROM check_ins
+      WHERE id = ?
+    `).get(checkInId) as CheckIn | undefined;
+
+    if (!checkIn) {
+      throw new NotFoundError('Check-in', checkInId);
+    }
+
+    return {...checkIn, is_undone: Boolean(checkIn.is_undone)};
+  }
+
+  // Check-ins default to the ceremony the guest was registered for
+  private resolveEventId(requested: number | undefined, guestEventId: number | null): number | null {
+    const eventId = requested ?? guestEventId ?? null;
+    if (eventId !== null) {
+      this.assertEventExists(eventId);
+    }
+    return eventId;
+  }
+
+  private findActiveCheckIn(guestId: string, eventId: number | null): {id: number} | undefined {
+    return this.getDb().prepare(`
+      SELECT id FROM check_ins
+      WHERE guest_id = ? AND event_id IS ? AND is_undone = 0
+    `).get(guestId, eventId) as {id: number} | undefined;
+  }
+
+  // Must run inside a transaction
+  private insertCheckIn(guestId: string, eventId: number | null, checkedInAt: string, device?: string): number {
+    const db = this.getDb();
+    const deviceName = device?.trim() || null;
+
+    const result = db.prepare(`
+      INSERT INTO check_ins (guest_id, event_id, checked_in_at, device)
+      VALUES (?, ?, ?, ?)
+    `).run(guestId, eventId, checkedInAt, deviceName);
+
+    db.prepare(`
+      INSERT INTO activity_logs (guest_id, action, details)
+      VALUES (?, ?, ?)
+    `).run(guestId, 'updated', `Checked in #${result.lastInsertRowid}${deviceName ? ` on ${deviceName}` : ''}`);
+
+    return Number(result.lastInsertRowid);
+  }
+}
@@ -0,0 +1,183 @@
+import {BaseRepository} from './base/base-repository';
+import {
+  Contribution,
+  ContributionFilters,
+  CreateContributionRequest,
+} from '../types/contribution.types';
+import {NotFoundError, ConflictError} from '../errors/custom-errors';
+
+export class ContributionRepository extends BaseRepository {
+  /**
+   * Record a new gift for a guest
+   */
+  async createContribution(guestId: string, data: CreateContributionRequest): Promise<Contribution> {
+    const db = this.getDb();
+
+    try {
+      const guest = this.assertGuestExists(guestId);
+
+      // Gifts default to the ceremony the guest was registered for
+      const eventId = data.event_id ?? guest.event_id ?? null;
+      if (eventId !== null) {
+        this.assertEventExists(eventId);
+      }
+
+      const insertContribution = db.prepare(`
+        INSERT INTO contributions (guest_id, event_id, amount, currency, payment_method, received_at, note)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      const insertActivity = db.prepare(`
+        INSERT INTO activity_logs (guest_id, action, new_amount_khr, new_amount_usd, details)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+
+      const receivedAt = data.received_at
+        ? new Date(data.received_at).toISOString()
+        : new Date().toISOString();
+
+      const transaction = db.transaction(() => {
+        const result = insertContribution.run(
+          guestId,
+          eventId,
+          data.amount,
+          data.currency,
+          data.payment_method,
+          receivedAt,
+          data.note ?? null
+        );
+
+        insertActivity.run(
+          guestId,
+          'payment_received',
+          data.currency === 'KHR' ? data.amount : null,
+          data.currency === 'USD' ? data.amount : null,
+          `Contribution #${result.lastInsertRowid}: ${data.amount} ${data.currency} via ${data.payment_method}`
+        );
+
+        return Number(result.lastInsertRowid);
+      });
+
+      const contributionId = transaction();
+      return this.getContributionById(guestId, contributionId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('CREATE_CONTRIBUTION_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  async getContributionById(guestId: string, contributionId: number): Promise<Contribution> {
+    const db = this.getDb();
+
+    const contribution = db.prepare(`
+      SELECT id, guest_id, event_id, amount, currency, payment_method, received_at, note,
+             is_voided, voided_at, void_reason, created_at
+      FROM contributions
+      WHERE id = ? AND guest_id = ?
+    `).get(contributionId, guestId) as Contribution | undefined;
+
+    if (!contribution) {
+      throw new NotFoundError('Contribution', contributionId);
+    }
+
+    return {...contribution, is_voided: Boolean(contribution.is_voided)};
+  }
+
+  async getContributionsByGuest(guestId: string, filters?: ContributionFilters): Promise<Contribution[]> {
+    const db = this.getDb();
+
+    try {
+      this.assertGuestExists(guestId);
+
+      let query = `
+        SELECT id, guest_id, event_id, amount, currency, payment_method, received_at, note,
+               is_voided, voided_at, void_reason, created_at
+        FROM contributions
+        WHERE guest_id = ?
+      `;
+
+      const params: any[] = [guestId];
+
+      if (!filters?.include_voided) {
+        query += ' AND is_voided = 0';
+      }
+
+      if (filters?.event_id !== undefined) {
+        query += ' AND event_id = ?';
+        params.push(filters.event_id);
+      }
+
+      query += ' ORDER BY received_at DESC, id DESC';
+
+      const contributions = db.prepare(query).all(...params) as Contribution[];
+
+      return contributions.map(contribution => ({
+        ...contribution,
+        is_voided: Boolean(contribution.is_voided),
+      }));
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('GET_CONTRIBUTIONS_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  /**
+   * Void a contribution. Rows are never deleted so the ledger keeps its history.
+   */
+  async voidContribution(guestId: string, contributionId: number, reason?: string): Promise<Contribution> {
+    const db = this.getDb();
+
+    try {
+      const existing = await this.getContributionById(guestId, contributionId);
+      if (existing.is_voided) {
+        throw new ConflictError(`Contribution ${contributionId} is already voided`);
+      }
+
+      const voidContribution = db.prepare(`
+        UPDATE contributions
+        SET is_voided = 1, voided_at = ?, void_reason = ?
+        WHERE id = ? AND is_voided = 0
+      `);
+
+      const insertActivity = db.prepare(`
+        INSERT INTO activity_logs (guest_id, action, old_amount_khr, old_amount_usd, details)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+
+      const transaction = db.transaction(() => {
+        const result = voidContribution.run(new Date().toISOString(), reason ?? null, contributionId);
+
+        if (result.changes === 0) {
+          throw new ConflictError(`Contribution ${contributionId} is already voided`);
+        }
+
+        insertActivity.run(
+          guestId,
+          'updated',
+          existing.currency === 'KHR' ? existing.amount : null,
+          existing.currency === 'USD' ? existing.amount : null,
+          `Contribution #${contributionId} voided${reason ? `: ${reason}` : ''}`
+        );
+      });
+
+      transaction();
+
+      return this.getContributionById(guestId, contributionId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('VOID_CONTRIBUTION_ERROR', error as Error, {guest_id: guestId, contribution_id: contributionId});
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,203 @@
+import {BaseRepository} from './base/base-repository';
+import {
+  CreateCustomFieldRequest,
+  CustomField,
+  TagCount,
+  UpdateCustomFieldRequest,
+} from '../types/custom-field.types';
+import {ValidationError, NotFoundError, ConflictError} from '../errors/custom-errors';
+
+const CUSTOM_FIELD_COLUMNS = `
+  f.id, f.name, f.label, f.field_type, f.options,
+  (SELECT COUNT(*) FROM guest_field_values v WHERE v.field_id = f.id) AS guest_count,
+  f.created_at, f.updated_at
+`;
+
+type CustomFieldRow = Omit<CustomField, 'options'> & {options: string | null};
+
+export class CustomFieldRepository extends BaseRepository {
+  async createCustomField(data: CreateCustomFieldRequest): Promise<CustomField> {
+    const db = this.getDb();
+
+    try {
+      if (await this.findByName(data.name)) {
+        throw new ConflictError(`Custom field ${data.name} already exists`);
+      }
+
+      const result = db.prepare(`
+        INSERT INTO custom_fields (name, label, field_type, options)
+        VALUES (?, ?, ?, ?)
+      `).run(
+        data.name,
+        data.label.trim(),
+        data.field_type,
+        data.field_type === 'choice' ? JSON.stringify(data.options) : null
+      );
+
+      return this.getCustomFieldById(Number(result.lastInsertRowid));
+
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('CREATE_CUSTOM_FIELD_ERROR', error as Error, {name: data.name});
+      throw error;
+    }
+  }
+
+  async findByName(name: string): Promise<CustomField | null> {
+    const db = this.getDb();
+
+    const field = db.prepare(`
+      SELECT ${CUSTOM_FIELD_COLUMNS}
+      FROM custom_fields f
+      WHERE f.name = ?
+    `).get(name) as CustomFieldRow | undefined;
+
+    return field ? this.toCustomField(field) : null;
+  }
+
+  async getCustomFieldById(fieldId: number): Promise<CustomField> {
+    const db = this.getDb();
+
+    const field = db.prepare(`
+      SELECT ${CUSTOM_FIELD_COLUMNS}
+      FROM custom_fields f
+      WHERE f.id = ?
+    `).get(fieldId) as CustomFieldRow | undefined;
+
+    if (!field) {
+      throw new NotFoundError('Custom field', fieldId);
+    }
+
+    return this.toCustomField(field);
+  }
+
+  async getAllCustomFields(): Promise<CustomField[]> {
+    const db = this.getDb();
+
+    try {
+      const fields = db.prepare(`
+        SELECT ${CUSTOM_FIELD_COLUMNS}
+        FROM custom_fields f
+        ORDER BY f.id
+      `).all() as CustomFieldRow[];
+
+      return fields.map(field => this.toCustomField(field));
+
+    } catch (error) {
+      this.logError('GET_CUSTOM_FIELDS_ERROR', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Relabel a field or change the options of a choice field. An option cannot
+   * be dropped while guests still hold it.
+   */
+  async updateCustomField(fieldId: number, updates: UpdateCustomFieldRequest): Promise<CustomField> {
+    const db = this.getDb();
+
+    try {
+      const current = await this.getCustomFieldById(fieldId);
+
+      const updateFields: string[] = [];
+      const params: any[] = [];
+
+      if (updates.label !== undefined) {
+        updateFields.push('label = ?');
+        params.push(updates.label.trim());
+      }
+
+      if (updates.options !== undefined) {
+        if (current.field_type !== 'choice') {
+          throw new ValidationError('Validation failed', [
+            { field: 'options', message: 'Only choice fields have options', code: 'INVALID_VALUE' }
+          ]);
+        }
+
+        const inUse = db.prepare('SELECT DISTINCT value FROM guest_field_values WHERE field_id = ? ORDER BY value')
+          .all(fieldId) as {value: string}[];
+        const dropped = inUse.map(row => row.value).filter(value => !updates.options!.includes(value));
+        if (dropped.length > 0) {
+          throw new ConflictError(`Options still in use: ${dropped.join(', ')}`);
+        }
+
+        updateFields.push('options = ?');
+        params.push(JSON.stringify(updates.options));
+      }
+
+      if (updateFields.length === 0) {
+        throw new ValidationError('No valid fields provided for update');
+      }
+
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      params.push(fieldId);
+
+      db.prepare(`
+        UPDATE custom_fields
+        SET ${updateFields.join(', ')}
+        WHERE id = ?
+      `).run(...params);
+
+      return this.getCustomFieldById(fieldId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('UPDATE_CUSTOM_FIELD_ERROR', error as Error, {field_id: fieldId});
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a field definition together with every guest's value for it
+   */
+  async deleteCustomField(fieldId: number): Promise<boolean> {
+    const db = this.getDb();
+
+    try {
+      await this.getCustomFieldById(fieldId);
+
+      const transaction = db.transaction(() => {
+        db.prepare('DELETE FROM guest_field_values WHERE field_id = ?').run(fieldId);
+        db.prepare('DELETE FROM custom_fields WHERE id = ?').run(fieldId);
+      });
+
+      transaction();
+      return true;
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('DELETE_CUSTOM_FIELD_ERROR', error as Error, {field_id: fieldId});
+      throw error;
+    }
+  }
+
+  /**
+   * Every tag in use with the number of guests carrying it
+   */
+  async getTags(): Promise<TagCount[]> {
+    const db = this.getDb();
+
+    try {
+      return db.prepare(`
+        SELECT MIN(tag) AS tag, COUNT(*) AS guest_count
+        FROM guest_tags
+        GROUP BY tag
+        ORDER BY guest_count DESC, tag
+      `).all() as TagCount[];
+
+    } catch (error) {
+      this.logError('GET_TAGS_ERROR', error as Error);
+      throw error;
+    }
+  }
+
+  private toCustomField(row: CustomFieldRow): CustomField {
+    return {...row, options: row.options ? JSON.parse(row.options) : null};
+  }
+}
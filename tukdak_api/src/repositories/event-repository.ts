@@ -0,0 +1,137 @@
+import {BaseRepository} from './base/base-repository';
+import {CreateEventRequest, UpdateEventRequest, WeddingEvent} from '../types/event.types';
+import {ValidationError, NotFoundError, ConflictError} from '../errors/custom-errors';
+
+export class EventRepository extends BaseRepository {
+  async createEvent(data: CreateEventRequest): Promise<WeddingEvent> {
+    const db = this.getDb();
+
+    try {
+      const result = db.prepare(`
+        INSERT INTO events (name, event_type, event_date, venue, notes)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(
+        data.name.trim(),
+        data.event_type,
+        data.event_date ?? null,
+        data.venue ?? null,
+        data.notes ?? null
+      );
+
+      return this.getEventById(Number(result.lastInsertRowid));
+
+    } catch (error) {
+      this.logError('CREATE_EVENT_ERROR', error as Error, {name: data.name});
+      throw error;
+    }
+  }
+
+  async getEventById(eventId: number): Promise<WeddingEvent> {
+    const db = this.getDb();
+
+    const event = db.prepare(`
+      SELECT id, name, event_type, event_date, venue, notes, created_at, updated_at
+      FROM events
+      WHERE id = ?
+    `).get(eventId) as WeddingEvent | undefined;
+
+    if (!event) {
+      throw new NotFoundError('Event', eventId);
+    }
+
+    return event;
+  }
+
+  async getAllEvents(): Promise<WeddingEvent[]> {
+    const db = this.getDb();
+
+    try {
+      return db.prepare(`
+        SELECT id, name, event_type, event_date, venue, notes, created_at, updated_at
+        FROM events
+        ORDER BY COALESCE(event_date, created_at), id
+      `).all() as WeddingEvent[];
+
+    } catch (error) {
+      this.logError('GET_ALL_EVENTS_ERROR', error as Error);
+      throw error;
+    }
+  }
+
+  async updateEvent(eventId: number, updates: UpdateEventRequest): Promise<WeddingEvent> {
+    const db = this.getDb();
+
+    try {
+      await this.getEventById(eventId);
+
+      const allowedFields = ['name', 'event_type', 'event_date', 'venue', 'notes'];
+      const updateFields: string[] = [];
+      const params: any[] = [];
+
+      Object.keys(updates).forEach(key => {
+        const value = updates[key as keyof UpdateEventRequest];
+        if (allowedFields.includes(key) && value !== undefined) {
+          updateFields.push(`${key} = ?`);
+          params.push(typeof value === 'string' ? value.trim() : value);
+        }
+      });
+
+      if (updateFields.length === 0) {
+        throw new ValidationError('No valid fields provided for update');
+      }
+
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      params.push(eventId);
+
+      db.prepare(`
+        UPDATE events
+        SET ${updateFields.join(', ')}
+        WHERE id = ?
+      `).run(...params);
+
+      return this.getEventById(eventId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        throw error;
+      }
+      this.logError('UPDATE_EVENT_ERROR', error as Error, {event_id: eventId});
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an event. Events that already hold gifts cannot be deleted;
+   * guests registered to the event are detached (event_id set to NULL).
+   */
+  async deleteEvent(eventId: number): Promise<boolean> {
+    const db = this.getDb();
+
+    try {
+      await this.getEventById(eventId);
+
+      const giftCount = db.prepare(
+        'SELECT COUNT(*) as count FROM contributions WHERE event_id = ?'
+      ).get(eventId) as {count: number};
+
+      if (giftCount.count > 0) {
+        throw new ConflictError(`Event ${eventId} has ${giftCount.count} recorded contributions and cannot be deleted`);
+      }
+
+      const transaction = db.transaction(() => {
+        db.prepare('UPDATE guestlist SET event_id = NULL WHERE event_id = ?').run(eventId);
+        db.prepare('DELETE FROM events WHERE id = ?').run(eventId);
+      });
+
+      transaction();
+      return true;
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('DELETE_EVENT_ERROR', error as Error, {event_id: eventId});
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import {BaseRepository} from './base/base-repository';
+import {
+  CreateExchangeRateRequest,
+  DEFAULT_USD_TO_KHR,
+  ExchangeRate,
+} from '../types/exchange-rate.types';
+import {NotFoundError} from '../errors/custom-errors';
+
+const RATE_COLUMNS = 'id, usd_to_khr, effective_from, note, created_at';
+
+// SQL for the USD -> KHR rate in effect at the given timestamp expression. Times
+// before the first recorded rate use the earliest rate, then DEFAULT_USD_TO_KHR.
+export const rateAtSql = (timestamp: string) => `COALESCE(
+  (SELECT xr.usd_to_khr FROM exchange_rates xr
+   WHERE datetime(xr.effective_from) <= datetime(${timestamp})
+   ORDER BY datetime(xr.effective_from) DESC, xr.id DESC LIMIT 1),
+  (SELECT xr.usd_to_khr FROM exchange_rates xr
+   ORDER BY datetime(xr.effective_from) ASC, xr.id ASC LIMIT 1),
+  ${DEFAULT_USD_TO_KHR}
+)`;
+
+// SQL converting a money row (amount + currency columns on `alias`) to KHR / USD
+// at the rate in effect at its own timestamp column
+export const amountInKhrSql = (alias: string, timestampColumn: string) =>
+  `CASE WHEN ${alias}.currency = 'KHR' THEN ${alias}.amount ELSE ${alias}.amount * ${rateAtSql(`${alias}.${timestampColumn}`)} END`;
+
+export const amountInUsdSql = (alias: string, timestampColumn: string) =>
+  `CASE WHEN ${alias}.currency = 'USD' THEN ${alias}.amount ELSE ${alias}.amount / ${rateAtSql(`${alias}.${timestampColumn}`)} END`;
+
+export class ExchangeRateRepository extends BaseRepository {
+  async createRate(data: CreateExchangeRateRequest): Promise<ExchangeRate> {
+    const db = this.getDb();
+
+    try {
+      const effectiveFrom = data.effective_from
+        ? new Date(data.effective_from).toISOString()
+        : new Date().toISOString();
+
+      const result = db.prepare(`
+        INSERT INTO exchange_rates (usd_to_khr, effective_from, note)
+        VALUES (?, ?, ?)
+      `).run(data.usd_to_khr, effectiveFrom, data.note ?? null);
+
+      return this.getRateById(Number(result.lastInsertRowid));
+
+    } catch (error) {
+      this.logError('CREATE_EXCHANGE_RATE_ERROR', error as Error, {usd_to_khr: data.usd_to_khr});
+      throw error;
+    }
+  }
+
+  async getRateById(rateId: number): Promise<ExchangeRate> {
+    const db = this.getDb();
+
+    const rate = db.prepare(`
+      SELECT ${RATE_COLUMNS}
+      FROM exchange_rates
+      WHERE id = ?
+    `).get(rateId) as ExchangeRate | undefined;
+
+    if (!rate) {
+      throw new NotFoundError('Exchange rate', rateId);
+    }
+
+    return rate;
+  }
+
+  /**
+   * Rate history, most recent first
+   */
+  async getAllRates(): Promise<ExchangeRate[]> {
+    const db = this.getDb();
+
+    try {
+      return db.prepare(`
+        SELECT ${RATE_COLUMNS}
+        FROM exchange_rates
+        ORDER BY datetime(effective_from) DESC, id DESC
+      `).all() as ExchangeRate[];
+
+    } catch (error) {
+      this.logError('GET_EXCHANGE_RATES_ERROR', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * The rate in effect at the given time (defaults to now). Times before the
+   * first recorded rate fall back to the earliest one, then to DEFAULT_USD_TO_KHR.
+   */
+  async getRateAt(at?: string): Promise<{usd_to_khr: number; rate: ExchangeRate | null}> {
+    const db = this.getDb();
+
+    try {
+      const timestamp = at ? new Date(at).toISOString() : new Date().toISOString();
+
+      const rate = (db.prepare(`
+        SELECT ${RATE_COLUMNS}
+        FROM exchange_rates
+        WHERE datetime(effective_from) <= datetime(?)
+        ORDER BY datetime(effective_from) DESC, id DESC
+        LIMIT 1
+      `).get(timestamp) ?? db.prepare(`
+        SELECT ${RATE_COLUMNS}
+        FROM exchange_rates
+        ORDER BY datetime(effective_from) ASC, id ASC
+        LIMIT 1
+      `).get()) as ExchangeRate | undefined;
+
+      return {
+        usd_to_khr: rate ? rate.usd_to_khr : DEFAULT_USD_TO_KHR,
+        rate: rate ?? null,
+      };
+
+    } catch (error) {
+      this.logError('GET_EXCHANGE_RATE_ERROR', error as Error, {at});
+      throw error;
+    }
+  }
+}
@@ -1,19 +1,109 @@
-import {DatabaseService} from '../database/database.service';
+import {BaseRepository} from './base/base-repository';
 import {Guest, ActivityLog, SearchResult} from '../types/database.types';
-import {CreateGuestRequest, SearchType, UpdateGuestRequest} from '../types/guest.types';
+import {
+  CreateGuestRequest,
+  GuestFilters,
+  GuestSearchOptions,
+  GuestStatistics,
+  GuestSuggestion,
+  MatchRange,
+  SearchHighlight,
+  SearchType,
+  SideTotals,
+  UpdateGuestRequest,
+} from '../types/guest.types';
+import {EventTotals} from '../types/event.types';
+import {amountInKhrSql, amountInUsdSql} from './exchange-rate-repository';
+import {PaymentMethodTotals} from '../types/payment-method.types';
+import {CreateInKindGiftRequest, InKindGiftStatistics} from '../types/in-kind-gift.types';
+import {AttendanceStatistics} from '../types/check-in.types';
+import {CustomFieldValuesUpdate} from '../types/custom-field.types';
+import {isPhoneQuery, normalizeCambodianPhone, phoneSearchDigits} from '../utils/phone-number';
+import {normalizeKhmer} from '../utils/khmer-text';
+import {hasKhmer, keySimilarity, nameKey} from '../utils/transliteration';
+import {findKhmerMatchRanges, findMatchRanges} from '../utils/search-highlight';
+import {DEFAULT_MIN_SIMILARITY, nameSimilarity, normalizeForMatching, queryTrigrams} from '../utils/fuzzy-match';
 import {ValidationError, NotFoundError, ConflictError} from '../errors/custom-errors';
 
-export class GuestRepository {
-  private dbService: DatabaseService;
-
-  constructor() {
-    this.dbService = DatabaseService.getInstance();
-  }
-
-  private getDb() {
-    return this.dbService.getConnection().getDatabase();
-  }
-
+// Guest columns with the money fields derived from the contributions ledger.
+// payment_method reports the method of the most recent active gift. When the
+// query is event scoped only gifts of the @event_id ceremony are counted.
+export const guestColumns = (eventScoped = false) => {
+  const scope = eventScoped ? ' AND c.event_id = @event_id' : '';
+  return `
+  g.guest_id, g.english_name, g.khmer_name,
+  COALESCE((SELECT SUM(c.amount) FROM contributions c
+            WHERE c.guest_id = g.guest_id AND c.currency = 'KHR' AND c.is_voided = 0${scope}), 0) AS amount_khr,
+  COALESCE((SELECT SUM(c.amount) FROM contributions c
+            WHERE c.guest_id = g.guest_id AND c.currency = 'USD' AND c.is_voided = 0${scope}), 0) AS amount_usd,
+  (SELECT c.payment_method FROM contributions c
+   WHERE c.guest_id = g.guest_id AND c.is_voided = 0${scope}
+   ORDER BY c.received_at DESC, c.id DESC LIMIT 1) AS payment_method,
+  g.guest_of, g.is_duplicate, g.event_id,
+  g.household_id, (SELECT h.name FROM households h WHERE h.id = g.household_id) AS household_name,
+  (SELECT json_group_array(p.phone) FROM (
+     SELECT gp.phone FROM guest_phones gp WHERE gp.guest_id = g.guest_id ORDER BY gp.id
+   ) p) AS phones,
+  g.address, g.village, g.province,
+  (SELECT json_group_array(t.tag) FROM (
+     SELECT gt.tag FROM guest_tags gt WHERE gt.guest_id = g.guest_id ORDER BY gt.tag
+   ) t) AS tags,
+  (SELECT json_group_object(f.name, CASE WHEN f.field_type = 'number' THEN CAST(v.value AS NUMERIC) ELSE v.value END)
+   FROM guest_field_values v JOIN custom_fields f ON f.id = v.field_id
+   WHERE v.guest_id = g.guest_id) AS custom_fields,
+  g.created_at, g.updated_at
+`;
+};
+
+// Rows selected with guestColumns carry phones / tags / custom_fields as JSON text
+export const toGuest = (row: any): Guest => ({
+  ...row,
+  is_duplicate: Boolean(row.is_duplicate),
+  phones: row.phones ? JSON.parse(row.phones) : [],
+  tags: row.tags ? JSON.parse(row.tags) : [],
+  custom_fields: row.custom_fields ? JSON.parse(row.custom_fields) : {},
+});
+
+const GUEST_COLUMNS = guestColumns();
+
+// Each gift converted to KHR / USD at the rate in effect when it was received
+const AMOUNT_IN_KHR = amountInKhrSql('c', 'received_at');
+const AMOUNT_IN_USD = amountInUsdSql('c', 'received_at');
+
+const HAS_ACTIVE_CONTRIBUTION = `
+  EXISTS (SELECT 1 FROM contributions c WHERE c.guest_id = g.guest_id AND c.is_voided = 0)
+`;
+
+// A guest belongs to an event when registered for it or when they gave a gift at it
+const IN_EVENT_SCOPE = `
+  (g.event_id = @event_id OR EXISTS (
+    SELECT 1 FROM contributions c
+    WHERE c.guest_id = g.guest_id AND c.event_id = @event_id AND c.is_voided = 0
+  ))
+`;
+
+// One name field's score in an any_script search
+interface ScoredMatch {
+  matched_field: 'english_name' | 'khmer_name';
+  similarity: number;
+  same_script: boolean;
+}
+
+// Fields an all search looks in, in the order they rank when matches tie
+const ALL_SEARCH_FIELDS: SearchHighlight['field'][] = ['guest_id', 'phones', 'english_name', 'khmer_name', 'tags'];
+
+// A guest found by an all search, as read for scoring and highlighting
+interface AllFieldsCandidate {
+  guest_id: string;
+  english_name: string | null;
+  khmer_name: string | null;
+  khmer_name_normalized: string | null;
+  created_at: string;
+  phones: string;
+  tags: string;
+}
+
+export class GuestRepository extends BaseRepository {
   /**
    * Search for guests - Updated to match test expectations
    */
@@ -21,10 +111,15 @@ export class GuestRepository {
     query: string, 
     searchType: SearchType, 
     limit: number = 50, 
-    offset: number = 0
+    offset: number = 0,
+    options?: GuestSearchOptions
   ): Promise<SearchResult> {
     const db = this.getDb();
     const startTime = performance.now();
+    const eventScoped = options?.event_id !== undefined;
+    const columns = guestColumns(eventScoped);
+    const scopeClause = eventScoped ? `AND ${IN_EVENT_SCOPE}` : '';
+    const namedParams = eventScoped ? [{event_id: options!.event_id}] : [];
     
     try {
       // Sanitize and validate input
@@ -48,92 +143,105 @@ export class GuestRepository {
         case 'guest_id':
           // Exact match, case-insensitive for guest_id
           sqlQuery = `
-            SELECT guest_id, english_name, khmer_name, amount_khr, amount_usd, 
-                   payment_method, guest_of, is_duplicate, created_at, updated_at
-            FROM guestlist 
-            WHERE LOWER(guest_id) = LOWER(?) 
-              AND is_duplicate = 0
-            ORDER BY created_at DESC
+            SELECT ${columns}
+            FROM guestlist g
+            WHERE LOWER(g.guest_id) = LOWER(?) 
+              AND g.is_duplicate = 0
+              ${scopeClause}
+            ORDER BY g.created_at DESC
             LIMIT ? OFFSET ?
           `;
           params = [sanitizedQuery, limit, offset];
           
           countQuery = `
             SELECT COUNT(*) as count 
-            FROM guestlist 
-            WHERE LOWER(guest_id) = LOWER(?) 
-              AND is_duplicate = 0
+            FROM guestlist g
+            WHERE LOWER(g.guest_id) = LOWER(?) 
+              AND g.is_duplicate = 0
+              ${scopeClause}
           `;
           countParams = [sanitizedQuery];
           break;
 
         case 'english_name':
-          // Partial match, case-insensitive for English names
-          sqlQuery = `
-            SELECT guest_id, english_name, khmer_name, amount_khr, amount_usd, 
-                   payment_method, guest_of, is_duplicate, created_at, updated_at
-            FROM guestlist 
-            WHERE LOWER(english_name) LIKE LOWER(?)
-              AND is_duplicate = 0
-            ORDER BY 
-              CASE 
-                WHEN LOWER(english_name) = LOWER(?) THEN 1
-                WHEN LOWER(english_name) LIKE LOWER(?) THEN 2
-                ELSE 3
-              END,
-              created_at DESC
-            LIMIT ? OFFSET ?
-          `;
-          const likePattern = `%${sanitizedQuery}%`;
-          params = [likePattern, sanitizedQuery, likePattern, limit, offset];
-          
-          countQuery = `
-            SELECT COUNT(*) as count 
-            FROM guestlist 
-            WHERE (LOWER(english_name) LIKE LOWER(?))
-              AND is_duplicate = 0
-          `;
-          countParams = [likePattern];
+        case 'khmer_name':
+          if (searchType === 'english_name' && options?.fuzzy) {
+            ({sqlQuery, params, countQuery, countParams} = this.prepareFuzzyNameSearch(
+              sanitizedQuery, options.min_similarity ?? DEFAULT_MIN_SIMILARITY, columns, scopeClause, namedParams, limit, offset
+            ));
+            break;
+          }
+          ({sqlQuery, params, countQuery, countParams} = this.buildNameSearch(
+            searchType, sanitizedQuery, columns, scopeClause, limit, offset
+          ));
           break;
 
-        case 'khmer_name':
-          // Partial match for Khmer names
+        case 'any_script':
+          ({sqlQuery, params, countQuery, countParams} = this.prepareAnyScriptSearch(
+            sanitizedQuery, options?.min_similarity ?? DEFAULT_MIN_SIMILARITY, columns, scopeClause, namedParams, limit, offset
+          ));
+          break;
+
+        case 'all':
+          ({sqlQuery, params, countQuery, countParams} = this.prepareAllFieldsSearch(
+            sanitizedQuery, columns, scopeClause, namedParams, limit, offset
+          ));
+          break;
+
+        case 'phone': {
+          // Match on the digits of the national number, so "012 345 678",
+          // "+855 12 345 678" and a partial "345678" all find +85512345678
+          const digits = phoneSearchDigits(sanitizedQuery);
+          if (!digits) {
+            return {
+              guests: [],
+              total_count: 0,
+              search_time_ms: performance.now() - startTime,
+              query_used: sanitizedQuery,
+              search_type: searchType
+            };
+          }
+
+          const phoneMatch = `
+            EXISTS (SELECT 1 FROM guest_phones gp WHERE gp.guest_id = g.guest_id AND gp.phone LIKE ?)
+          `;
           sqlQuery = `
-            SELECT guest_id, english_name, khmer_name, amount_khr, amount_usd, 
-                   payment_method, guest_of, is_duplicate, created_at, updated_at
-            FROM guestlist 
-            WHERE (LOWER(khmer_name) LIKE LOWER(?))
-              AND is_duplicate = 0
-            ORDER BY 
-              CASE 
-                WHEN LOWER(khmer_name) = LOWER(?) THEN 1
-                WHEN LOWER(khmer_name) LIKE LOWER(?) THEN 2
-                ELSE 3
+            SELECT ${columns}
+            FROM guestlist g
+            WHERE ${phoneMatch}
+              AND g.is_duplicate = 0
+              ${scopeClause}
+            ORDER BY
+              CASE
+                WHEN EXISTS (SELECT 1 FROM guest_phones gp WHERE gp.guest_id = g.guest_id AND gp.phone = ?) THEN 1
+                ELSE 2
               END,
-              created_at DESC
+              g.created_at DESC
             LIMIT ? OFFSET ?
           `;
-          const khmerLikePattern = `%${sanitizedQuery}%`;
-           params = [khmerLikePattern, sanitizedQuery, khmerLikePattern, limit, offset];
-          
+          const phonePattern = `%${digits}%`;
+          params = [phonePattern, `+855${digits}`, limit, offset];
+
           countQuery = `
-            SELECT COUNT(*) as count 
-            FROM guestlist 
-            WHERE (LOWER(khmer_name) LIKE LOWER(?))
-              AND is_duplicate = 0
+            SELECT COUNT(*) as count
+            FROM guestlist g
+            WHERE ${phoneMatch}
+              AND g.is_duplicate = 0
+              ${scopeClause}
           `;
-          countParams = [khmerLikePattern];
+          countParams = [phonePattern];
           break;
+        }
 
         default:
           throw new ValidationError(`Invalid search type: ${searchType}`);
       }
 
       // Execute search query
-      const guests = db.prepare(sqlQuery).all(...params) as any[];
+      const guests = db.prepare(sqlQuery).all(...params, ...namedParams) as any[];
       
       // Get total count
-      const countResult = db.prepare(countQuery).get(...countParams) as { count: number };
+      const countResult = db.prepare(countQuery).get(...countParams, ...namedParams) as { count: number };
       const totalCount = countResult.count;
 
       // Convert and normalize the guests to match Guest type
@@ -146,8 +254,20 @@ export class GuestRepository {
         payment_method: guest.payment_method || null,
         guest_of: guest.guest_of,
         is_duplicate: Boolean(guest.is_duplicate),
+        event_id: guest.event_id ?? null,
+        household_id: guest.household_id ?? null,
+        household_name: guest.household_name ?? null,
+        phones: guest.phones ? JSON.parse(guest.phones) : [],
+        address: guest.address ?? null,
+        village: guest.village ?? null,
+        province: guest.province ?? null,
+        tags: guest.tags ? JSON.parse(guest.tags) : [],
+        custom_fields: guest.custom_fields ? JSON.parse(guest.custom_fields) : {},
         created_at: guest.created_at || new Date().toISOString(),
         updated_at: guest.updated_at || new Date().toISOString(),
+        ...(guest.similarity != null ? {similarity: guest.similarity} : {}),
+        ...(guest.matched_field != null ? {matched_field: guest.matched_field, matched_script: guest.matched_script} : {}),
+        ...(guest.highlights != null ? {highlights: JSON.parse(guest.highlights)} : {}),
       }));
 
       const searchTime = performance.now() - startTime;
@@ -160,7 +280,10 @@ export class GuestRepository {
         total_count: totalCount,
         search_time_ms: Math.round(searchTime * 100) / 100,
         query_used: sanitizedQuery,
-        search_type: searchType
+        search_type: searchType,
+        ...((searchType === 'english_name' && options?.fuzzy) || searchType === 'any_script'
+          ? {min_similarity: options?.min_similarity ?? DEFAULT_MIN_SIMILARITY}
+          : {}),
       };
       
     } catch (error) {
@@ -174,6 +297,440 @@ export class GuestRepository {
     }
   }
 
+  /**
+   * Typeahead suggestions from the guest_suggest prefix index: guests with a
+   * word of their ID or names starting with each word of the query. IDs and
+   * names starting with the whole query come first. Only the columns a
+   * dropdown shows are read, and no count is taken. With an eventId only
+   * that event's guests are suggested.
+   */
+  async suggestGuests(query: string, limit: number, eventId?: number): Promise<GuestSuggestion[]> {
+    try {
+      const prefix = normalizeKhmer(query);
+      // Each word as a quoted FTS5 prefix; words of punctuation alone have no tokens to match
+      const words = prefix.split(' ').filter(word => /[\p{L}\p{N}]/u.test(word));
+      if (words.length === 0) {
+        return [];
+      }
+      const match = words.map(word => `"${word.replace(/"/g, '""')}"*`).join(' ');
+      const startsWith = `${prefix.replace(/[\\%_]/g, '\\$&')}%`;
+      const eventScoped = eventId !== undefined;
+
+      return this.getDb().prepare(`
+        SELECT g.guest_id, g.english_name, g.khmer_name, g.guest_of
+        FROM guest_suggest s JOIN guestlist g ON g.rowid = s.rowid
+        WHERE guest_suggest MATCH ?
+          AND g.is_duplicate = 0${eventScoped ? ` AND ${IN_EVENT_SCOPE}` : ''}
+        ORDER BY
+          CASE
+            WHEN g.guest_id LIKE ? ESCAPE '\\'
+              OR g.english_name LIKE ? ESCAPE '\\'
+              OR g.khmer_name_normalized LIKE ? ESCAPE '\\' THEN 1
+            ELSE 2
+          END,
+          bm25(guest_suggest),
+          g.english_name
+        LIMIT ?
+      `).all(match, startsWith, startsWith, startsWith, limit, ...(eventScoped ? [{event_id: eventId}] : [])) as GuestSuggestion[];
+    } catch (error) {
+      this.logError('SUGGEST_GUESTS_ERROR', error as Error, {query, limit, event_id: eventId});
+      throw error;
+    }
+  }
+
+  /**
+   * Substring search on one name column through the guest_search FTS5 index.
+   * Exact matches come first, then names starting with the query, then the
+   * rest by bm25 relevance. The trigram index needs 3+ characters, so shorter
+   * queries fall back to a LIKE scan of the column. Khmer names are compared
+   * in their normalised form.
+   */
+  private buildNameSearch(
+    column: 'english_name' | 'khmer_name',
+    sanitizedQuery: string,
+    columns: string,
+    scopeClause: string,
+    limit: number,
+    offset: number
+  ): {sqlQuery: string; params: any[]; countQuery: string; countParams: any[]} {
+    // sanitizeSearchQuery escapes LIKE wildcards; equality and MATCH need them as typed
+    const rawQuery = sanitizedQuery.replace(/\\([%_])/g, '$1');
+    const useIndex = [...rawQuery].length >= 3;
+    const nameColumn = column === 'khmer_name' ? 'khmer_name_normalized' : column;
+
+    // Quoted as one FTS5 phrase; sanitizeSearchQuery has already removed double quotes
+    const match = useIndex
+      ? {
+          from: 'guest_search s JOIN guestlist g ON g.rowid = s.rowid',
+          where: 'guest_search MATCH ?',
+          param: `{${column}} : "${rawQuery}"`,
+          relevance: 'bm25(guest_search)',
+        }
+      : {
+          from: 'guestlist g',
+          where: `g.${nameColumn} LIKE ? ESCAPE '\\'`,
+          param: `%${sanitizedQuery}%`,
+          relevance: '0',
+        };
+
+    // Rank and page on the guest IDs alone so the per-guest money and contact
+    // subqueries only run for the rows returned
+    return {
+      sqlQuery: `
+        SELECT ${columns}
+        FROM (
+          SELECT
+            g.guest_id,
+            CASE
+              WHEN LOWER(g.${nameColumn}) = LOWER(?) THEN 1
+              WHEN LOWER(g.${nameColumn}) LIKE LOWER(?) ESCAPE '\\' THEN 2
+              ELSE 3
+            END AS exactness,
+            ${match.relevance} AS relevance,
+            g.created_at
+          FROM ${match.from}
+          WHERE ${match.where}
+            AND g.is_duplicate = 0
+            ${scopeClause}
+          ORDER BY exactness, relevance, g.created_at DESC
+          LIMIT ? OFFSET ?
+        ) page
+        JOIN guestlist g ON g.guest_id = page.guest_id
+        ORDER BY page.exactness, page.relevance, page.created_at DESC
+      `,
+      params: [rawQuery, `${sanitizedQuery}%`, match.param, limit, offset],
+      countQuery: `
+        SELECT COUNT(*) as count
+        FROM ${match.from}
+        WHERE ${match.where}
+          AND g.is_duplicate = 0
+          ${scopeClause}
+      `,
+      countParams: [match.param],
+    };
+  }
+
+  /**
+   * Typo-tolerant English name search. Candidates sharing at least one
+   * trigram with the query come from the guest_search index and are scored
+   * here by edit distance; exact and prefix matches rank first, then the
+   * closest names.
+   */
+  private prepareFuzzyNameSearch(
+    sanitizedQuery: string,
+    minSimilarity: number,
+    columns: string,
+    scopeClause: string,
+    namedParams: object[],
+    limit: number,
+    offset: number
+  ): {sqlQuery: string; params: any[]; countQuery: string; countParams: any[]} {
+    const rawQuery = sanitizedQuery.replace(/\\([%_])/g, '$1');
+    const trigrams = queryTrigrams(rawQuery);
+
+    // Queries too short for a trigram can only be found as substrings
+    const candidates = this.getDb().prepare(trigrams.length > 0
+      ? `
+        SELECT g.guest_id, g.english_name, g.created_at
+        FROM guest_search s JOIN guestlist g ON g.rowid = s.rowid
+        WHERE guest_search MATCH ?
+          AND g.is_duplicate = 0
+          ${scopeClause}
+      `
+      : `
+        SELECT g.guest_id, g.english_name, g.created_at
+        FROM guestlist g
+        WHERE g.english_name LIKE ? ESCAPE '\\'
+          AND g.is_duplicate = 0
+          ${scopeClause}
+      `
+    ).all(
+      trigrams.length > 0
+        ? `{english_name} : (${trigrams.map(trigram => `"${trigram}"`).join(' OR ')})`
+        : `%${sanitizedQuery}%`,
+      ...namedParams
+    ) as {guest_id: string; english_name: string | null; created_at: string}[];
+
+    const query = normalizeForMatching(rawQuery);
+    const matches = candidates
+      .map(candidate => {
+        const name = normalizeForMatching(candidate.english_name ?? '');
+        return {
+          guest_id: candidate.guest_id,
+          created_at: candidate.created_at,
+          exactness: name === query ? 1 : name.startsWith(query) ? 2 : 3,
+          similarity: nameSimilarity(rawQuery, candidate.english_name ?? ''),
+        };
+      })
+      .filter(match => match.similarity >= minSimilarity)
+      .sort((a, b) =>
+        a.exactness - b.exactness ||
+        b.similarity - a.similarity ||
+        b.created_at.localeCompare(a.created_at)
+      );
+
+    return this.scoredPage(columns, matches, limit, offset);
+  }
+
+  /**
+   * Search English and Khmer names at once, whichever script the query is
+   * typed in. Names in the query's script are compared directly; names in the
+   * other script through their stored consonant keys (see
+   * utils/transliteration), so "sokha chan" finds សុខា ច័ន្ទ and the other
+   * way round. Each hit reports the field that matched best and the script of
+   * its text.
+   */
+  private prepareAnyScriptSearch(
+    sanitizedQuery: string,
+    minSimilarity: number,
+    columns: string,
+    scopeClause: string,
+    namedParams: object[],
+    limit: number,
+    offset: number
+  ): {sqlQuery: string; params: any[]; countQuery: string; countParams: any[]} {
+    const rawQuery = sanitizedQuery.replace(/\\([%_])/g, '$1');
+    const khmerQuery = hasKhmer(rawQuery);
+    const sameField = khmerQuery ? 'khmer_name' : 'english_name';
+    const otherField = khmerQuery ? 'english_name' : 'khmer_name';
+    const queryKey = nameKey(rawQuery);
+    const compactKey = queryKey.replace(/ /g, '');
+    const trigrams = queryTrigrams(rawQuery);
+
+    // Candidates: names sharing a trigram with the query (or containing it,
+    // when too short for one) and names in the other script whose key holds
+    // the query's key or one of its words
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (trigrams.length > 0) {
+      conditions.push('g.rowid IN (SELECT rowid FROM guest_search WHERE guest_search MATCH ?)');
+      params.push(`{${sameField}} : (${trigrams.map(trigram => `"${trigram}"`).join(' OR ')})`);
+    } else {
+      conditions.push(`g.${sameField === 'khmer_name' ? 'khmer_name_normalized' : sameField} LIKE ? ESCAPE '\\'`);
+      params.push(`%${sanitizedQuery}%`);
+    }
+    if (compactKey.length >= 2) {
+      conditions.push(`instr(replace(g.${otherField}_key, ' ', ''), ?) > 0`);
+      params.push(compactKey);
+    }
+    queryKey.split(' ').filter(Boolean).forEach(word => {
+      conditions.push(`instr(' ' || g.${otherField}_key || ' ', ?) > 0`);
+      params.push(` ${word} `);
+    });
+
+    const guests = this.getDb().prepare(`
+      SELECT g.guest_id, g.english_name, g.khmer_name_normalized, g.english_name_key, g.khmer_name_key, g.created_at
+      FROM guestlist g
+      WHERE (${conditions.join(' OR ')})
+        AND g.is_duplicate = 0
+        ${scopeClause}
+    `).all(...params, ...namedParams) as {
+      guest_id: string;
+      english_name: string | null;
+      khmer_name_normalized: string | null;
+      english_name_key: string | null;
+      khmer_name_key: string | null;
+      created_at: string;
+    }[];
+
+    const matches = guests
+      .map(guest => {
+        const english = guest.english_name ?? '';
+        const khmer = guest.khmer_name_normalized ?? '';
+        const candidates: ScoredMatch[] = [
+          {
+            matched_field: 'english_name',
+            similarity: khmerQuery ? keySimilarity(queryKey, guest.english_name_key ?? '') : nameSimilarity(rawQuery, english),
+            same_script: !khmerQuery,
+          },
+          {
+            matched_field: 'khmer_name',
+            similarity: khmerQuery ? nameSimilarity(rawQuery, khmer) : keySimilarity(queryKey, guest.khmer_name_key ?? ''),
+            same_script: khmerQuery,
+          },
+        ];
+        // Prefer a match in the query's own script when the scores tie
+        const best = candidates.sort((a, b) => b.similarity - a.similarity || Number(b.same_script) - Number(a.same_script))[0];
+        const text = best.matched_field === 'english_name' ? english : khmer;
+
+        return {
+          guest_id: guest.guest_id,
+          created_at: guest.created_at,
+          similarity: best.similarity,
+          same_script: best.same_script,
+          matched_field: best.matched_field,
+          matched_script: hasKhmer(text) ? 'khmer' : 'latin',
+        };
+      })
+      .filter(match => match.similarity >= minSimilarity)
+      .sort((a, b) =>
+        b.similarity - a.similarity ||
+        Number(b.same_script) - Number(a.same_script) ||
+        b.created_at.localeCompare(a.created_at)
+      );
+
+    return this.scoredPage(columns, matches, limit, offset);
+  }
+
+  /**
+   * Search guest IDs, both names, phone numbers and tags at once. A guest
+   * matching in several places is listed once and ranked by its best match:
+   * exact before prefix before substring, then by field (ALL_SEARCH_FIELDS).
+   * Hits on the returned page carry the matched ranges of every field.
+   */
+  private prepareAllFieldsSearch(
+    sanitizedQuery: string,
+    columns: string,
+    scopeClause: string,
+    namedParams: object[],
+    limit: number,
+    offset: number
+  ): {sqlQuery: string; params: any[]; countQuery: string; countParams: any[]} {
+    const rawQuery = sanitizedQuery.replace(/\\([%_])/g, '$1');
+    const pattern = `%${sanitizedQuery}%`;
+    // Only queries written as a phone number are looked up as one, so "G012" does not match 012 numbers
+    const digits = isPhoneQuery(rawQuery) ? phoneSearchDigits(rawQuery) : '';
+
+    // Names through the trigram index when the query is long enough for it
+    const conditions = [
+      `g.guest_id LIKE ? ESCAPE '\\'`,
+      [...rawQuery].length >= 3
+        ? 'g.rowid IN (SELECT rowid FROM guest_search WHERE guest_search MATCH ?)'
+        : `(g.english_name LIKE ? ESCAPE '\\' OR g.khmer_name_normalized LIKE ? ESCAPE '\\')`,
+      `EXISTS (SELECT 1 FROM guest_tags gt WHERE gt.guest_id = g.guest_id AND gt.tag LIKE ? ESCAPE '\\')`,
+    ];
+    const params = [
+      pattern,
+      ...([...rawQuery].length >= 3 ? [`"${rawQuery}"`] : [pattern, pattern]),
+      pattern,
+    ];
+    if (digits) {
+      conditions.push('EXISTS (SELECT 1 FROM guest_phones gp WHERE gp.guest_id = g.guest_id AND gp.phone LIKE ?)');
+      params.push(`%${digits}%`);
+    }
+
+    const candidates = this.getDb().prepare(`
+      SELECT g.guest_id, g.english_name, g.khmer_name, g.khmer_name_normalized, g.created_at,
+        (SELECT json_group_array(gp.phone) FROM guest_phones gp WHERE gp.guest_id = g.guest_id) AS phones,
+        (SELECT json_group_array(gt.tag) FROM guest_tags gt WHERE gt.guest_id = g.guest_id) AS tags
+      FROM guestlist g
+      WHERE (${conditions.join(' OR ')})
+        AND g.is_duplicate = 0
+        ${scopeClause}
+    `).all(...params, ...namedParams) as AllFieldsCandidate[];
+
+    // 1 exact, 2 prefix, 3 substring, 0 no match
+    const query = rawQuery.toLowerCase();
+    const exactness = (value: string | null, target = query): number => {
+      const text = (value ?? '').toLowerCase();
+      return !target ? 0 : text === target ? 1 : text.startsWith(target) ? 2 : text.includes(target) ? 3 : 0;
+    };
+    const bestOf = (scores: number[]): number => {
+      const found = scores.filter(score => score > 0);
+      return found.length > 0 ? Math.min(...found) : 0;
+    };
+
+    const matches = candidates
+      .map(candidate => {
+        const scores: Record<SearchHighlight['field'], number> = {
+          guest_id: exactness(candidate.guest_id),
+          phones: bestOf((JSON.parse(candidate.phones) as string[]).map(phone => exactness(phone, digits && `+855${digits}`) || exactness(phone, digits))),
+          english_name: exactness(candidate.english_name),
+          khmer_name: exactness(candidate.khmer_name_normalized),
+          tags: bestOf((JSON.parse(candidate.tags) as string[]).map(tag => exactness(tag))),
+        };
+        const best = bestOf(Object.values(scores));
+        return {
+          candidate,
+          scores,
+          exactness: best,
+          field_rank: ALL_SEARCH_FIELDS.findIndex(field => scores[field] === best),
+        };
+      })
+      .filter(match => match.exactness > 0)
+      .sort((a, b) =>
+        a.exactness - b.exactness ||
+        a.field_rank - b.field_rank ||
+        b.candidate.created_at.localeCompare(a.candidate.created_at)
+      );
+
+    return this.scoredPage(
+      columns,
+      matches.map((match, index) => ({
+        guest_id: match.candidate.guest_id,
+        ...(index >= offset && index < offset + limit
+          ? {highlights: this.allFieldsHighlights(match.candidate, match.scores, rawQuery, digits)}
+          : {}),
+      })),
+      limit,
+      offset
+    );
+  }
+
+  /**
+   * The matched ranges of one all search hit, in the text returned to the
+   * client (the Khmer name as typed rather than its normalised form).
+   */
+  private allFieldsHighlights(
+    candidate: AllFieldsCandidate,
+    scores: Record<SearchHighlight['field'], number>,
+    rawQuery: string,
+    digits: string
+  ): SearchHighlight[] {
+    const highlights: SearchHighlight[] = [];
+    const add = (field: SearchHighlight['field'], value: string, ranges: MatchRange[]) => {
+      if (ranges.length > 0) {
+        highlights.push({field, value, ranges});
+      }
+    };
+
+    add('guest_id', candidate.guest_id, findMatchRanges(candidate.guest_id, rawQuery));
+    if (scores.phones > 0) {
+      (JSON.parse(candidate.phones) as string[]).forEach(phone => add('phones', phone, findMatchRanges(phone, digits)));
+    }
+    if (scores.english_name > 0) {
+      add('english_name', candidate.english_name!, findMatchRanges(candidate.english_name!, rawQuery));
+    }
+    if (scores.khmer_name > 0) {
+      add('khmer_name', candidate.khmer_name!, findKhmerMatchRanges(candidate.khmer_name!, rawQuery));
+    }
+    (JSON.parse(candidate.tags) as string[]).forEach(tag => add('tags', tag, findMatchRanges(tag, rawQuery)));
+
+    return highlights;
+  }
+
+  /**
+   * SQL reading one page of guests scored in code, in the order given. The
+   * scores travel to SQL as JSON so the usual guest columns are read only for
+   * the rows returned.
+   */
+  private scoredPage(
+    columns: string,
+    matches: {guest_id: string; similarity?: number; matched_field?: string; matched_script?: string; highlights?: SearchHighlight[]}[],
+    limit: number,
+    offset: number
+  ): {sqlQuery: string; params: any[]; countQuery: string; countParams: any[]} {
+    const page = matches
+      .slice(offset, offset + limit)
+      .map(({guest_id, similarity, matched_field, matched_script, highlights}) => ({guest_id, similarity, matched_field, matched_script, highlights}));
+
+    return {
+      sqlQuery: `
+        SELECT ${columns},
+          json_extract(page.value, '$.similarity') AS similarity,
+          json_extract(page.value, '$.matched_field') AS matched_field,
+          json_extract(page.value, '$.matched_script') AS matched_script,
+          json_extract(page.value, '$.highlights') AS highlights
+        FROM json_each(?) page
+        JOIN guestlist g ON g.guest_id = json_extract(page.value, '$.guest_id')
+        ORDER BY page.key
+      `,
+      params: [JSON.stringify(page)],
+      countQuery: 'SELECT ? AS count',
+      countParams: [matches.length],
+    };
+  }
+
   /**
    * Sanitize search query to prevent SQL injection and handle special characters
    */
@@ -182,9 +739,8 @@ export class GuestRepository {
       return '';
     }
 
-    // Remove dangerous characters and normalize
-    let sanitized = query
-      .trim()
+    // Remove dangerous characters and normalize (Khmer to the stored search form)
+    let sanitized = normalizeKhmer(query)
       .replace(/['"`;\\]/g, '') // Remove SQL injection characters
       .replace(/[%_]/g, '\\$&')  // Escape LIKE wildcards
       .substring(0, 100);        // Limit query length
@@ -232,90 +788,193 @@ export class GuestRepository {
         throw new ConflictError(`Guest with ID ${guestData.guest_id} already exists`);
       }
 
-      // Convert CreateGuestRequest to Guest format with defaults
-      const guestToInsert: Omit<Guest, 'created_at' | 'updated_at'> = {
-        guest_id: guestData.guest_id,
-        english_name: guestData.english_name,
-        khmer_name: guestData.khmer_name,
-        amount_khr: guestData.amount_khr || 0,
-        amount_usd: guestData.amount_usd || 0,
-        payment_method: guestData.payment_method || null,
-        guest_of: guestData.guest_of,
-        is_duplicate: false,
-      };
+      if (guestData.event_id !== null && guestData.event_id !== undefined) {
+        this.assertEventExists(guestData.event_id);
+      }
 
-      // Insert guest with timestamps
-      const insertGuest = db.prepare(`
-        INSERT INTO guestlist 
-        (guest_id, english_name, khmer_name, amount_khr, amount_usd, payment_method, guest_of, is_duplicate) 
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `);
+      const transaction = db.transaction(() => this.insertGuest(guestData, 'Guest created'));
+      transaction();
 
-      const insertActivity = db.prepare(`
-        INSERT INTO activity_logs (guest_id, action, details) 
-        VALUES (?, ?, ?)
-      `);
+      // Return the created guest
+      return this.getGuestById(guestData.guest_id);
+      
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('CREATE_GUEST_ERROR', error as Error, {guest_id: guestData.guest_id});
+      throw error;
+    }
+  }
 
-      const transaction = db.transaction(() => {
-        // Insert guest
-        const result = insertGuest.run(
-          guestToInsert.guest_id,
-          guestToInsert.english_name,
-          guestToInsert.khmer_name,
-          guestToInsert.amount_khr,
-          guestToInsert.amount_usd,
-          guestToInsert.payment_method,
-          guestToInsert.guest_of,
-          guestToInsert.is_duplicate ? 1 : 0
-        );
+  /**
+   * Insert a batch of new guests in a single transaction: either every guest
+   * is created or none is. Returns the number of guests created.
+   */
+  async importGuests(guests: CreateGuestRequest[]): Promise<number> {
+    const db = this.getDb();
 
-        // Log activity
-        insertActivity.run(
-          guestToInsert.guest_id,
-          'created',
-          `Guest created: ${guestToInsert.english_name} (${guestToInsert.guest_of})`
-        );
+    try {
+      const existing = await this.findExistingGuestIds(guests.map(guest => guest.guest_id));
+      if (existing.length > 0) {
+        throw new ConflictError(`Guests already exist: ${existing.join(', ')}`);
+      }
 
-        // If payment provided, log payment activity
-        if (guestToInsert.amount_khr > 0 || guestToInsert.amount_usd > 0) {
-          insertActivity.run(
-            guestToInsert.guest_id,
-            'payment_received',
-            `Initial payment: ${guestToInsert.amount_khr} KHR / ${guestToInsert.amount_usd} USD`
-          );
-        }
+      new Set(guests.map(guest => guest.event_id).filter((id): id is number => id !== undefined && id !== null))
+        .forEach(eventId => this.assertEventExists(eventId));
+
+      const transaction = db.transaction(() => {
+        guests.forEach(guest => this.insertGuest(guest, 'Guest imported'));
       });
 
       transaction();
+      return guests.length;
 
-      // Return the created guest
-      return this.getGuestById(guestToInsert.guest_id);
-      
     } catch (error) {
-      this.logError('CREATE_GUEST_ERROR', error as Error, {guest_id: guestData.guest_id});
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('IMPORT_GUESTS_ERROR', error as Error, {count: guests.length});
+      throw error;
+    }
+  }
+
+  /**
+   * The subset of the given guest IDs that are already registered
+   */
+  async findExistingGuestIds(guestIds: string[]): Promise<string[]> {
+    const db = this.getDb();
+    const findGuest = db.prepare('SELECT guest_id FROM guestlist WHERE guest_id = ?');
+
+    return [...new Set(guestIds)].filter(guestId => findGuest.get(guestId) !== undefined);
+  }
+
+  /**
+   * The highest number used after the given prefix in guest IDs (e.g. 12 for
+   * G012 with prefix G), or 0 when no guest ID has that form
+   */
+  async getHighestGuestNumber(prefix: string): Promise<number> {
+    const db = this.getDb();
+
+    try {
+      const rows = db.prepare(`
+        SELECT guest_id FROM guestlist
+        WHERE substr(guest_id, 1, length(?)) = ?
+      `).all(prefix, prefix) as {guest_id: string}[];
+
+      return rows.reduce((highest, row) => {
+        const suffix = row.guest_id.slice(prefix.length);
+        return /^\d+$/.test(suffix) ? Math.max(highest, Number(suffix)) : highest;
+      }, 0);
+
+    } catch (error) {
+      this.logError('GET_HIGHEST_GUEST_NUMBER_ERROR', error as Error, {prefix});
       throw error;
     }
   }
 
-  async getGuestById(guestId: string): Promise<Guest> {
+  /**
+   * Insert a new guest with their opening gifts, contact details and activity
+   * log. Must run inside a transaction.
+   */
+  private insertGuest(guestData: CreateGuestRequest, createdDetails: string): void {
+    const db = this.getDb();
+
+    // Convert CreateGuestRequest to Guest format with defaults
+    const guestToInsert: Omit<Guest, 'created_at' | 'updated_at'> = {
+      guest_id: guestData.guest_id,
+      english_name: guestData.english_name,
+      khmer_name: guestData.khmer_name,
+      amount_khr: guestData.amount_khr || 0,
+      amount_usd: guestData.amount_usd || 0,
+      payment_method: guestData.payment_method || null,
+      guest_of: guestData.guest_of,
+      is_duplicate: false,
+      event_id: guestData.event_id ?? null,
+    };
+
+    // Insert guest with timestamps - money goes to the contributions ledger
+    const insertGuest = db.prepare(`
+      INSERT INTO guestlist 
+      (guest_id, english_name, khmer_name, khmer_name_normalized, english_name_key, khmer_name_key, guest_of, is_duplicate, event_id, address, village, province) 
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertActivity = db.prepare(`
+      INSERT INTO activity_logs (guest_id, action, details) 
+      VALUES (?, ?, ?)
+    `);
+
+    // Insert guest
+    insertGuest.run(
+      guestToInsert.guest_id,
+      guestToInsert.english_name,
+      guestToInsert.khmer_name,
+      guestToInsert.khmer_name ? normalizeKhmer(guestToInsert.khmer_name) : null,
+      guestToInsert.english_name ? nameKey(guestToInsert.english_name) : null,
+      guestToInsert.khmer_name ? nameKey(guestToInsert.khmer_name) : null,
+      guestToInsert.guest_of,
+      guestToInsert.is_duplicate ? 1 : 0,
+      guestToInsert.event_id,
+      guestData.address?.trim() || null,
+      guestData.village?.trim() || null,
+      guestData.province?.trim() || null
+    );
+
+    if (guestData.phones?.length) {
+      this.replacePhones(guestToInsert.guest_id, [], guestData.phones);
+    }
+
+    // Log activity
+    insertActivity.run(
+      guestToInsert.guest_id,
+      'created',
+      `${createdDetails}: ${guestToInsert.english_name} (${guestToInsert.guest_of})`
+    );
+
+    // If payment provided, record it in the ledger and log payment activity
+    if (guestToInsert.amount_khr > 0 || guestToInsert.amount_usd > 0) {
+      this.insertContributions(
+        guestToInsert.guest_id,
+        guestToInsert.amount_khr,
+        guestToInsert.amount_usd,
+        guestToInsert.payment_method,
+        guestToInsert.event_id ?? null
+      );
+      insertActivity.run(
+        guestToInsert.guest_id,
+        'payment_received',
+        `Initial payment: ${guestToInsert.amount_khr} KHR / ${guestToInsert.amount_usd} USD`
+      );
+    }
+
+    // In-kind gifts handed over at registration
+    if (guestData.in_kind_gifts?.length) {
+      this.insertInKindGifts(guestToInsert.guest_id, guestData.in_kind_gifts, guestToInsert.event_id ?? null);
+      insertActivity.run(
+        guestToInsert.guest_id,
+        'payment_received',
+        `Initial in-kind gifts: ${guestData.in_kind_gifts.map(gift => gift.description.trim()).join(', ')}`
+      );
+    }
+  }
+
+  async getGuestById(guestId: string, eventId?: number): Promise<Guest> {
     const db = this.getDb();
     
     try {
+      const eventScoped = eventId !== undefined;
       const guest = db.prepare(`
-        SELECT guest_id, khmer_name, english_name, amount_khr, amount_usd, payment_method, 
-               guest_of, is_duplicate, created_at, updated_at
-        FROM guestlist 
-        WHERE guest_id = ?
-      `).get(guestId) as Guest | undefined;
+        SELECT ${guestColumns(eventScoped)}
+        FROM guestlist g
+        WHERE g.guest_id = ?
+      `).get(guestId, ...(eventScoped ? [{event_id: eventId}] : [])) as Guest | undefined;
 
       if (!guest) {
         throw new NotFoundError('Guest', guestId);
       }
 
-      // Convert integer back to boolean for is_duplicate
-      guest.is_duplicate = Boolean(guest.is_duplicate);
-
-      return guest;
+      return toGuest(guest);
       
     } catch (error) {
       if (error instanceof NotFoundError) {
@@ -326,56 +985,95 @@ export class GuestRepository {
     }
   }
 
-  async getAllGuests(filters?: {
-    guest_of?: string;
-    payment_method?: string;
-    has_payment?: boolean;
-    is_duplicate?: boolean;
-  }): Promise<Guest[]> {
+  async getAllGuests(filters?: GuestFilters): Promise<Guest[]> {
     const db = this.getDb();
     
     try {
+      const eventScoped = filters?.event_id !== undefined;
       let query = `
-        SELECT guest_id, khmer_name, english_name, amount_khr, amount_usd, payment_method, 
-               guest_of, is_duplicate, created_at, updated_at
-        FROM guestlist 
+        SELECT ${guestColumns(eventScoped)}
+        FROM guestlist g
         WHERE 1=1
       `;
       const params: any[] = [];
+      const contributionScope = eventScoped ? ' AND c.event_id = @event_id' : '';
+
+      if (eventScoped) {
+        query += ` AND ${IN_EVENT_SCOPE}`;
+      }
 
       // Apply filters
       if (filters?.guest_of) {
-        query += ' AND guest_of = ?';
+        query += ' AND g.guest_of = ?';
         params.push(filters.guest_of);
       }
 
       if (filters?.payment_method) {
-        query += ' AND payment_method = ?';
+        query += ` AND EXISTS (SELECT 1 FROM contributions c WHERE c.guest_id = g.guest_id AND c.is_voided = 0 AND c.payment_method = ?${contributionScope})`;
         params.push(filters.payment_method);
       }
 
       if (filters?.has_payment !== undefined) {
+        const hasPayment = eventScoped
+          ? `EXISTS (SELECT 1 FROM contributions c WHERE c.guest_id = g.guest_id AND c.is_voided = 0${contributionScope})`
+          : HAS_ACTIVE_CONTRIBUTION;
         if (filters.has_payment) {
-          query += ' AND (amount_khr > 0 OR amount_usd > 0)';
+          query += ` AND ${hasPayment}`;
         } else {
-          query += ' AND (amount_khr = 0 AND amount_usd = 0)';
+          query += ` AND NOT ${hasPayment}`;
         }
       }
 
       if (filters?.is_duplicate !== undefined) {
-        query += ' AND is_duplicate = ?';
+        query += ' AND g.is_duplicate = ?';
         params.push(filters.is_duplicate ? 1 : 0);
       }
 
-      query += ' ORDER BY created_at DESC';
+      if (filters?.household_id !== undefined) {
+        query += ' AND g.household_id = ?';
+        params.push(filters.household_id);
+      }
+
+      if (filters?.invited !== undefined) {
+        query += ` AND ${filters.invited ? '' : 'NOT '}EXISTS (SELECT 1 FROM invitations i WHERE i.guest_id = g.guest_id)`;
+      }
 
-      const guests = db.prepare(query).all(...params) as Guest[];
+      if (filters?.rsvp_status) {
+        query += ' AND EXISTS (SELECT 1 FROM invitations i WHERE i.guest_id = g.guest_id AND i.rsvp_status = ?)';
+        params.push(filters.rsvp_status);
+      }
 
-      // Convert integer back to boolean for is_duplicate
-      return guests.map(guest => ({
-        ...guest,
-        is_duplicate: Boolean(guest.is_duplicate)
-      }));
+      if (filters?.delivered_by) {
+        query += ' AND EXISTS (SELECT 1 FROM invitations i WHERE i.guest_id = g.guest_id AND i.delivered_by = ? COLLATE NOCASE)';
+        params.push(filters.delivered_by);
+      }
+
+      filters?.tags?.forEach(tag => {
+        query += ' AND EXISTS (SELECT 1 FROM guest_tags gt WHERE gt.guest_id = g.guest_id AND gt.tag = ?)';
+        params.push(tag);
+      });
+
+      // Number fields compare numerically, everything else case-insensitively
+      Object.entries(filters?.custom_fields ?? {}).forEach(([name, value]) => {
+        query += `
+          AND EXISTS (
+            SELECT 1 FROM guest_field_values v JOIN custom_fields f ON f.id = v.field_id
+            WHERE v.guest_id = g.guest_id AND f.name = ?
+              AND CASE WHEN f.field_type = 'number'
+                    THEN CAST(v.value AS NUMERIC) = CAST(? AS NUMERIC)
+                    ELSE v.value = ? COLLATE NOCASE END
+          )`;
+        params.push(name, value, value);
+      });
+
+      query += ' ORDER BY g.created_at DESC';
+
+      const guests = db.prepare(query).all(
+        ...params,
+        ...(eventScoped ? [{event_id: filters!.event_id}] : [])
+      );
+
+      return guests.map(toGuest);
       
     } catch (error) {
       this.logError('GET_ALL_GUESTS_ERROR', error as Error);
@@ -383,15 +1081,24 @@ export class GuestRepository {
     }
   }
 
-  async updateGuest(guestId: string, updates: UpdateGuestRequest): Promise<Guest> {
+  async updateGuest(guestId: string, updates: UpdateGuestRequest, eventId?: number): Promise<Guest> {
     const db = this.getDb();
     
     try {
-      // Get current guest data for logging
-      const currentGuest = await this.getGuestById(guestId);
+      // Get current guest data for logging (money fields scoped to the event, if any)
+      const currentGuest = await this.getGuestById(guestId, eventId);
 
-      // Build dynamic update query
-      const allowedFields = ['name', 'amount_khr', 'amount_usd', 'payment_method', 'is_duplicate'];
+      if (eventId !== undefined) {
+        this.assertEventExists(eventId);
+      }
+      if (updates.event_id !== undefined && updates.event_id !== null) {
+        this.assertEventExists(updates.event_id);
+      }
+
+      // Build dynamic update query - money fields are applied to the ledger below
+      const allowedFields = ['english_name', 'khmer_name', 'guest_of', 'is_duplicate', 'event_id', 'address', 'village', 'province'];
+      const contactFields = ['address', 'village', 'province'];
+      const moneyFields = ['amount_khr', 'amount_usd', 'payment_method'];
       const updateFields: string[] = [];
       const params: any[] = [];
 
@@ -404,12 +1111,32 @@ export class GuestRepository {
           if (key === 'is_duplicate' && typeof value === 'boolean') {
             value = value ? 1 : 0;
           }
+
+          // Blank contact details are stored as NULL
+          if (contactFields.includes(key) && typeof value === 'string') {
+            value = value.trim() || null;
+          }
           
           params.push(value);
+
+          // Keep the search forms of the names in step
+          if (key === 'khmer_name') {
+            updateFields.push('khmer_name_normalized = ?');
+            params.push(typeof value === 'string' ? normalizeKhmer(value) : null);
+          }
+          if (key === 'english_name' || key === 'khmer_name') {
+            updateFields.push(`${key}_key = ?`);
+            params.push(typeof value === 'string' ? nameKey(value) : null);
+          }
         }
       });
 
-      if (updateFields.length === 0) {
+      const hasMoneyUpdate = moneyFields.some(
+        key => updates[key as keyof UpdateGuestRequest] !== undefined
+      );
+      const hasAttributeUpdate = updates.tags !== undefined || updates.custom_fields !== undefined || updates.phones !== undefined;
+
+      if (updateFields.length === 0 && !hasMoneyUpdate && !hasAttributeUpdate) {
         throw new ValidationError('No valid fields provided for update');
       }
 
@@ -436,9 +1163,26 @@ export class GuestRepository {
           throw new NotFoundError('Guest', guestId);
         }
 
-        // Log the update activity with detailed changes
+        if (hasMoneyUpdate) {
+          this.applyMoneyUpdates(currentGuest, updates, eventId);
+        }
+
         const changedFields: string[] = [];
+        if (updates.phones !== undefined) {
+          changedFields.push(...this.replacePhones(guestId, currentGuest.phones ?? [], updates.phones));
+        }
+        if (updates.tags !== undefined) {
+          changedFields.push(...this.replaceTags(currentGuest, updates.tags));
+        }
+        if (updates.custom_fields !== undefined) {
+          changedFields.push(...this.applyCustomFieldValues(currentGuest, updates.custom_fields));
+        }
+
+        // Log the update activity with detailed changes
         Object.keys(updates).forEach(key => {
+          if (key === 'phones' || key === 'tags' || key === 'custom_fields') {
+            return;
+          }
           if (updates[key as keyof UpdateGuestRequest] !== currentGuest[key as keyof Guest]) {
             changedFields.push(`${key}: ${currentGuest[key as keyof Guest]} → ${updates[key as keyof UpdateGuestRequest]}`);
           }
@@ -458,7 +1202,7 @@ export class GuestRepository {
       transaction();
 
       // Return updated guest
-      return this.getGuestById(guestId);
+      return this.getGuestById(guestId, eventId);
       
     } catch (error) {
       if (error instanceof NotFoundError || error instanceof ValidationError) {
@@ -469,6 +1213,205 @@ export class GuestRepository {
     }
   }
 
+  /**
+   * Apply amount/payment_method edits from PATCH /guests to the contributions ledger.
+   * A changed total supersedes the active gifts in that currency with a single
+   * corrected entry, paid by the requested method or else by the method of the
+   * gift it replaces. A payment_method on its own corrects only the most recent
+   * gift (the one the guest's payment_method is read from), keeping its amount
+   * and date; earlier gifts keep the method they were given with.
+   * With an eventId only that ceremony's gifts are touched; without one a total
+   * spread over several ceremonies is rejected rather than moved into one.
+   * Must run inside a transaction.
+   */
+  private applyMoneyUpdates(currentGuest: Guest, updates: UpdateGuestRequest, eventId?: number): void {
+    const db = this.getDb();
+    const guestId = currentGuest.guest_id;
+    const scope = eventId !== undefined ? ' AND event_id = @event_id' : '';
+    const named = eventId !== undefined ? [{event_id: eventId}] : [];
+    const now = new Date().toISOString();
+
+    type ActiveGift = {
+      id: number;
+      event_id: number | null;
+      amount: number;
+      currency: 'KHR' | 'USD';
+      payment_method: string | null;
+      received_at: string;
+      note: string | null;
+    };
+    const latestGift = (currency?: 'KHR' | 'USD') => db.prepare(`
+      SELECT id, event_id, amount, currency, payment_method, received_at, note
+      FROM contributions
+      WHERE guest_id = ? AND is_voided = 0${currency ? ' AND currency = ?' : ''}${scope}
+      ORDER BY received_at DESC, id DESC
+      LIMIT 1
+    `).get(guestId, ...(currency ? [currency] : []), ...named) as ActiveGift | undefined;
+
+    const supersede = db.prepare(`
+      UPDATE contributions
+      SET is_voided = 1, voided_at = ?, void_reason = 'Superseded by guest update'
+      WHERE guest_id = ? AND currency = ? AND is_voided = 0${scope}
+    `);
+    const newGiftEvent = eventId ?? updates.event_id ?? currentGuest.event_id ?? null;
+
+    const changed = ([
+      ['KHR', updates.amount_khr, currentGuest.amount_khr],
+      ['USD', updates.amount_usd, currentGuest.amount_usd],
+    ] as const).filter(([, amount, current]) => amount !== undefined && amount !== current);
+
+    if (eventId === undefined && changed.length > 0) {
+      const currencies = changed.map(([currency]) => currency);
+      const {events} = db.prepare(`
+        SELECT COUNT(DISTINCT COALESCE(event_id, 0)) AS events
+        FROM contributions
+        WHERE guest_id = ? AND is_voided = 0 AND currency IN (${currencies.map(() => '?').join(', ')})
+      `).get(guestId, ...currencies) as {events: number};
+      if (events > 1) {
+        throw new ValidationError('Validation failed', [{
+          field: 'event_id',
+          message: 'Guest has gifts at more than one event; give event_id to choose the event whose total changes',
+          code: 'REQUIRED',
+        }]);
+      }
+    }
+
+    changed.forEach(([currency, amount]) => {
+      const replaced = latestGift(currency);
+      const paymentMethod = updates.payment_method !== undefined
+        ? updates.payment_method
+        : replaced?.payment_method ?? currentGuest.payment_method ?? null;
+
+      supersede.run(now, guestId, currency, ...named);
+      this.insertContributions(
+        guestId,
+        currency === 'KHR' ? amount! : 0,
+        currency === 'USD' ? amount! : 0,
+        paymentMethod,
+        // The corrected total stays at the event of the gifts it supersedes
+        replaced ? replaced.event_id : newGiftEvent
+      );
+    });
+
+    if (changed.length === 0 && updates.payment_method !== undefined) {
+      const latest = latestGift();
+      if (latest && latest.payment_method !== updates.payment_method) {
+        db.prepare(`
+          UPDATE contributions
+          SET is_voided = 1, voided_at = ?, void_reason = 'Superseded by guest update'
+          WHERE id = ?
+        `).run(now, latest.id);
+        db.prepare(`
+          INSERT INTO contributions (guest_id, event_id, amount, currency, payment_method, received_at, note)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(guestId, latest.event_id, latest.amount, latest.currency, updates.payment_method, latest.received_at, latest.note);
+      }
+    }
+  }
+
+  /**
+   * Replace a guest's phone numbers with the given ones, normalised to +855
+   * form and de-duplicated. Returns the change for the activity log. Must run
+   * inside a transaction.
+   */
+  private replacePhones(guestId: string, before: string[], phones: string[]): string[] {
+    const db = this.getDb();
+    const after = [...new Set(phones.map(phone => normalizeCambodianPhone(phone)))];
+
+    if (after.includes(null)) {
+      throw new ValidationError('Invalid Cambodian phone number');
+    }
+
+    db.prepare('DELETE FROM guest_phones WHERE guest_id = ?').run(guestId);
+    const insertPhone = db.prepare('INSERT INTO guest_phones (guest_id, phone) VALUES (?, ?)');
+    after.forEach(phone => insertPhone.run(guestId, phone));
+
+    return before.join(',') === after.join(',')
+      ? []
+      : [`phones: ${before.join(', ') || '(none)'} → ${after.join(', ') || '(none)'}`];
+  }
+
+  /**
+   * Replace a guest's tag set. Tags differing only in case are treated as the
+   * same tag. Returns the change for the activity log. Must run inside a transaction.
+   */
+  private replaceTags(currentGuest: Guest, tags: string[]): string[] {
+    const db = this.getDb();
+    const guestId = currentGuest.guest_id;
+    const before = currentGuest.tags ?? [];
+
+    db.prepare('DELETE FROM guest_tags WHERE guest_id = ?').run(guestId);
+    const insertTag = db.prepare('INSERT OR IGNORE INTO guest_tags (guest_id, tag) VALUES (?, ?)');
+    tags.forEach(tag => insertTag.run(guestId, tag.trim()));
+
+    const after = (db.prepare('SELECT tag FROM guest_tags WHERE guest_id = ? ORDER BY tag').all(guestId) as {tag: string}[])
+      .map(row => row.tag);
+
+    return before.join(',') === after.join(',')
+      ? []
+      : [`tags: ${before.join(', ') || '(none)'} → ${after.join(', ') || '(none)'}`];
+  }
+
+  /**
+   * Set or clear (null) custom field values, keyed by field name. Values are
+   * expected to be validated against the field definitions already. Returns the
+   * changes for the activity log. Must run inside a transaction.
+   */
+  private applyCustomFieldValues(currentGuest: Guest, values: CustomFieldValuesUpdate): string[] {
+    const db = this.getDb();
+    const guestId = currentGuest.guest_id;
+    const before = currentGuest.custom_fields ?? {};
+    const changes: string[] = [];
+
+    const upsertValue = db.prepare(`
+      INSERT INTO guest_field_values (guest_id, field_id, value)
+      SELECT ?, id, ? FROM custom_fields WHERE name = ?
+      ON CONFLICT(guest_id, field_id) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP
+    `);
+    const clearValue = db.prepare(`
+      DELETE FROM guest_field_values
+      WHERE guest_id = ? AND field_id = (SELECT id FROM custom_fields WHERE name = ?)
+    `);
+
+    Object.entries(values).forEach(([name, value]) => {
+      const stored = typeof value === 'string' ? value.trim() : value;
+      if (stored === null) {
+        clearValue.run(guestId, name);
+      } else {
+        upsertValue.run(guestId, String(stored), name);
+      }
+      if ((before[name] ?? null) !== stored) {
+        changes.push(`${name}: ${before[name] ?? '(none)'} → ${stored ?? '(none)'}`);
+      }
+    });
+
+    return changes;
+  }
+
+  /**
+   * Record one ledger entry per non-zero currency amount. Must run inside a transaction.
+   */
+  private insertContributions(
+    guestId: string,
+    amountKhr: number,
+    amountUsd: number,
+    paymentMethod: string | null,
+    eventId: number | null
+  ): void {
+    const insertContribution = this.getDb().prepare(`
+      INSERT INTO contributions (guest_id, event_id, amount, currency, payment_method, received_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const receivedAt = new Date().toISOString();
+
+    if (amountKhr > 0) {
+      insertContribution.run(guestId, eventId, amountKhr, 'KHR', paymentMethod, receivedAt);
+    }
+    if (amountUsd > 0) {
+      insertContribution.run(guestId, eventId, amountUsd, 'USD', paymentMethod, receivedAt);
+    }
+  }
+
   async deleteGuest(guestId: string, softDelete: boolean = true): Promise<boolean> {
     const db = this.getDb();
     
@@ -530,50 +1473,76 @@ export class GuestRepository {
     }
   }
 
-  async getGuestStatistics(): Promise<{
-    total_guests: number;
-    total_khr: number;
-    total_usd: number;
-    paid_guests: number;
-    pending_guests: number;
-    duplicates: number;
-    payment_methods: {qr_code: number; cash: number; pending: number};
-    guest_distribution: {bride: number; groom: number; bride_parents: number; groom_parents: number};
-  }> {
+  /**
+   * Guest and money statistics. With an eventId everything is limited to that
+   * ceremony; otherwise combined totals are returned with a per-event breakdown.
+   */
+  async getGuestStatistics(eventId?: number): Promise<GuestStatistics> {
     const db = this.getDb();
     
     try {
+      const eventScoped = eventId !== undefined;
+      if (eventScoped) {
+        this.assertEventExists(eventId);
+      }
+      const named = eventScoped ? [{event_id: eventId}] : [];
+
+      // Totals are derived from the active (non-voided) contributions ledger
       const stats = db.prepare(`
+        WITH ledger AS (
+          SELECT
+            c.guest_id,
+            SUM(CASE WHEN c.currency = 'KHR' THEN c.amount ELSE 0 END) AS khr,
+            SUM(CASE WHEN c.currency = 'USD' THEN c.amount ELSE 0 END) AS usd,
+            SUM(${AMOUNT_IN_KHR}) AS khr_equivalent,
+            SUM(${AMOUNT_IN_USD}) AS usd_equivalent,
+            COUNT(*) AS contributions
+          FROM contributions c
+          WHERE c.is_voided = 0${eventScoped ? ' AND c.event_id = @event_id' : ''}
+          GROUP BY c.guest_id
+        )
         SELECT 
           COUNT(*) as total_guests,
-          SUM(amount_khr) as total_khr,
-          SUM(amount_usd) as total_usd,
-          COUNT(CASE WHEN amount_khr > 0 OR amount_usd > 0 THEN 1 END) as paid_guests,
-          COUNT(CASE WHEN (amount_khr = 0 AND amount_usd = 0) OR (amount_khr IS NULL AND amount_usd IS NULL) THEN 1 END) as pending_guests,
-          COUNT(CASE WHEN is_duplicate = 1 THEN 1 END) as duplicates,
-          COUNT(CASE WHEN payment_method = 'QR_Code' THEN 1 END) as qr_code,
-          COUNT(CASE WHEN payment_method = 'Cash' THEN 1 END) as cash,
-          COUNT(CASE WHEN payment_method IS NULL THEN 1 END) as pending_payment,
-          COUNT(CASE WHEN guest_of = 'Bride' THEN 1 END) as bride,
-          COUNT(CASE WHEN guest_of = 'Groom' THEN 1 END) as groom,
-          COUNT(CASE WHEN guest_of = 'Bride_Parents' THEN 1 END) as bride_parents,
-          COUNT(CASE WHEN guest_of = 'Groom_Parents' THEN 1 END) as groom_parents
-        FROM guestlist
-        WHERE is_duplicate = 0
-      `).get() as any;
+          SUM(l.khr) as total_khr,
+          SUM(l.usd) as total_usd,
+          ROUND(SUM(l.khr_equivalent)) as grand_total_khr,
+          ROUND(SUM(l.usd_equivalent), 2) as grand_total_usd,
+          SUM(l.contributions) as total_contributions,
+          COUNT(l.guest_id) as paid_guests,
+          COUNT(CASE WHEN l.guest_id IS NULL THEN 1 END) as pending_guests,
+          COUNT(CASE WHEN g.is_duplicate = 1 THEN 1 END) as duplicates,
+          COUNT(CASE WHEN l.guest_id IS NULL THEN 1 END) as pending_payment,
+          COUNT(CASE WHEN g.guest_of = 'Bride' THEN 1 END) as bride,
+          COUNT(CASE WHEN g.guest_of = 'Groom' THEN 1 END) as groom,
+          COUNT(CASE WHEN g.guest_of = 'Bride_Parents' THEN 1 END) as bride_parents,
+          COUNT(CASE WHEN g.guest_of = 'Groom_Parents' THEN 1 END) as groom_parents
+        FROM guestlist g
+        LEFT JOIN ledger l ON l.guest_id = g.guest_id
+        WHERE g.is_duplicate = 0${eventScoped ? ` AND ${IN_EVENT_SCOPE}` : ''}
+      `).get(...named) as any;
+
+      // Method breakdown follows the registry, so new methods show up without code changes
+      const byPaymentMethod = this.getTotalsByPaymentMethod(eventId);
+      const paymentMethods: GuestStatistics['payment_methods'] = {pending: stats.pending_payment || 0};
+      byPaymentMethod.forEach(method => {
+        paymentMethods[method.code.toLowerCase()] = method.guests;
+      });
 
-      return {
+      const result: GuestStatistics = {
         total_guests: stats.total_guests || 0,
         total_khr: stats.total_khr || 0,
         total_usd: stats.total_usd || 0,
+        grand_total_khr: stats.grand_total_khr || 0,
+        grand_total_usd: stats.grand_total_usd || 0,
+        total_contributions: stats.total_contributions || 0,
         paid_guests: stats.paid_guests || 0,
         pending_guests: stats.pending_guests || 0,
         duplicates: stats.duplicates || 0,
-        payment_methods: {
-          qr_code: stats.qr_code || 0,
-          cash: stats.cash || 0,
-          pending: stats.pending_payment || 0,
-        },
+        payment_methods: paymentMethods,
+        by_payment_method: byPaymentMethod,
+        by_side: this.getTotalsBySide(eventId),
+        in_kind_gifts: this.getInKindStatistics(eventId),
+        attendance: this.getAttendanceStatistics(eventId),
         guest_distribution: {
           bride: stats.bride || 0,
           groom: stats.groom || 0,
@@ -581,30 +1550,202 @@ export class GuestRepository {
           groom_parents: stats.groom_parents || 0,
         },
       };
+
+      if (eventScoped) {
+        result.event_id = eventId;
+      } else {
+        result.by_event = this.getTotalsByEvent();
+      }
+
+      return result;
       
     } catch (error) {
-      this.logError('GET_STATISTICS_ERROR', error as Error);
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('GET_STATISTICS_ERROR', error as Error, {event_id: eventId});
       throw error;
     }
   }
 
-  private logError(errorType: string, error: Error, context?: any): void {
+  private insertInKindGifts(guestId: string, gifts: CreateInKindGiftRequest[], defaultEventId: number | null): void {
+    const insertGift = this.getDb().prepare(`
+      INSERT INTO in_kind_gifts
+      (guest_id, event_id, description, quantity, unit, estimated_value, estimated_currency,
+       must_return, return_by, received_at, note)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const now = new Date().toISOString();
+
+    gifts.forEach(gift => {
+      insertGift.run(
+        guestId,
+        gift.event_id ?? defaultEventId,
+        gift.description.trim(),
+        gift.quantity ?? 1,
+        gift.unit?.trim() || null,
+        gift.estimated_value ?? null,
+        gift.estimated_value !== undefined ? gift.estimated_currency : null,
+        gift.must_return ? 1 : 0,
+        gift.return_by ?? null,
+        gift.received_at ? new Date(gift.received_at).toISOString() : now,
+        gift.note ?? null
+      );
+    });
+  }
+
+  // Active in-kind gifts, reported apart from the money totals since their value is an estimate
+  private getInKindStatistics(eventId?: number): InKindGiftStatistics {
+    const eventScoped = eventId !== undefined;
+    const stats = this.getDb().prepare(`
+      SELECT
+        COUNT(*) AS total_gifts,
+        COUNT(DISTINCT k.guest_id) AS guests,
+        COALESCE(SUM(CASE WHEN k.estimated_currency = 'KHR' THEN k.estimated_value ELSE 0 END), 0) AS estimated_khr,
+        COALESCE(SUM(CASE WHEN k.estimated_currency = 'USD' THEN k.estimated_value ELSE 0 END), 0) AS estimated_usd,
+        COUNT(CASE WHEN k.estimated_value IS NULL THEN 1 END) AS unvalued_gifts,
+        COUNT(CASE WHEN k.must_return = 1 THEN 1 END) AS must_return
+      FROM in_kind_gifts k
+      JOIN guestlist g ON g.guest_id = k.guest_id AND g.is_duplicate = 0
+      WHERE k.is_voided = 0${eventScoped ? ' AND k.event_id = @event_id' : ''}
+    `).get(...(eventScoped ? [{event_id: eventId}] : [])) as InKindGiftStatistics;
+
+    return stats;
+  }
+
+  // Arrived vs. invited from the active (not undone) check-ins
+  private getAttendanceStatistics(eventId?: number): AttendanceStatistics {
     const db = this.getDb();
-    
-    try {
-      const insertError = db.prepare(`
-        INSERT INTO error_logs (error_type, error_message, stack_trace, timestamp) 
-        VALUES (?, ?, ?, CURRENT_TIMESTAMP)
-      `);
+    const eventScoped = eventId !== undefined;
+    const named = eventScoped ? [{event_id: eventId}] : [];
+    const checkInScope = eventScoped ? ' AND ci.event_id = @event_id' : '';
+
+    const arrivals = `
+      WITH arrivals AS (
+        SELECT ci.guest_id, MIN(ci.checked_in_at) AS first_arrival
+        FROM check_ins ci
+        WHERE ci.is_undone = 0${checkInScope}
+        GROUP BY ci.guest_id
+      )
+    `;
+
+    const bySide = db.prepare(`
+      ${arrivals}
+      SELECT
+        g.guest_of,
+        COUNT(*) AS invited,
+        COUNT(a.guest_id) AS arrived
+      FROM guestlist g
+      LEFT JOIN arrivals a ON a.guest_id = g.guest_id
+      WHERE g.is_duplicate = 0${eventScoped ? ` AND (${IN_EVENT_SCOPE} OR a.guest_id IS NOT NULL)` : ''}
+      GROUP BY g.guest_of
+      ORDER BY CASE g.guest_of
+        WHEN 'Bride' THEN 1 WHEN 'Groom' THEN 2 WHEN 'Bride_Parents' THEN 3 ELSE 4
+      END
+    `).all(...named) as AttendanceStatistics['by_side'];
+
+    const arrivalsPerHour = db.prepare(`
+      ${arrivals}
+      SELECT strftime('%Y-%m-%dT%H:00:00Z', a.first_arrival) AS hour, COUNT(*) AS arrivals
+      FROM arrivals a
+      JOIN guestlist g ON g.guest_id = a.guest_id AND g.is_duplicate = 0
+      GROUP BY hour
+      ORDER BY hour
+    `).all(...named) as AttendanceStatistics['arrivals_per_hour'];
+
+    const invited = bySide.reduce((sum, side) => sum + side.invited, 0);
+    const arrived = bySide.reduce((sum, side) => sum + side.arrived, 0);
+
+    return {
+      invited,
+      arrived,
+      not_arrived: invited - arrived,
+      arrival_rate: invited > 0 ? Math.round((arrived / invited) * 10000) / 10000 : 0,
+      by_side: bySide,
+      arrivals_per_hour: arrivalsPerHour,
+    };
+  }
 
-      insertError.run(
-        errorType,
-        `${error.message} ${context ? `Context: ${JSON.stringify(context)}` : ''}`,
-        error.stack || ''
-      );
-    } catch (logError) {
-      console.error('Failed to log error to database:', logError);
-      console.error('Original error:', error);
-    }
+  // Active gift totals per registry method; disabled methods are listed only while they still hold gifts
+  private getTotalsByPaymentMethod(eventId?: number): PaymentMethodTotals[] {
+    const eventScoped = eventId !== undefined;
+    const rows = this.getDb().prepare(`
+      SELECT
+        pm.code,
+        pm.label,
+        pm.is_active,
+        COUNT(DISTINCT c.guest_id) AS guests,
+        COUNT(c.id) AS contributions,
+        COALESCE(SUM(CASE WHEN c.currency = 'KHR' THEN c.amount ELSE 0 END), 0) AS total_khr,
+        COALESCE(SUM(CASE WHEN c.currency = 'USD' THEN c.amount ELSE 0 END), 0) AS total_usd
+      FROM payment_methods pm
+      LEFT JOIN contributions c
+        ON c.payment_method = pm.code
+        AND c.is_voided = 0${eventScoped ? ' AND c.event_id = @event_id' : ''}
+        AND EXISTS (SELECT 1 FROM guestlist g WHERE g.guest_id = c.guest_id AND g.is_duplicate = 0)
+      GROUP BY pm.code
+      HAVING pm.is_active = 1 OR COUNT(c.id) > 0
+      ORDER BY pm.sort_order, pm.code
+    `).all(...(eventScoped ? [{event_id: eventId}] : [])) as PaymentMethodTotals[];
+
+    return rows.map(row => ({...row, is_active: Boolean(row.is_active)}));
+  }
+
+  // Guests and active gift totals for each side, every side listed even when empty
+  private getTotalsBySide(eventId?: number): SideTotals[] {
+    const eventScoped = eventId !== undefined;
+    return this.getDb().prepare(`
+      WITH sides(guest_of, sort_order) AS (
+        VALUES ('Bride', 1), ('Groom', 2), ('Bride_Parents', 3), ('Groom_Parents', 4)
+      ),
+      ledger AS (
+        SELECT
+          c.guest_id,
+          SUM(CASE WHEN c.currency = 'KHR' THEN c.amount ELSE 0 END) AS khr,
+          SUM(CASE WHEN c.currency = 'USD' THEN c.amount ELSE 0 END) AS usd,
+          SUM(${AMOUNT_IN_KHR}) AS khr_equivalent,
+          SUM(${AMOUNT_IN_USD}) AS usd_equivalent,
+          COUNT(*) AS contributions
+        FROM contributions c
+        WHERE c.is_voided = 0${eventScoped ? ' AND c.event_id = @event_id' : ''}
+        GROUP BY c.guest_id
+      )
+      SELECT
+        s.guest_of,
+        COUNT(g.guest_id) AS guests,
+        COUNT(l.guest_id) AS paid_guests,
+        COALESCE(SUM(l.khr), 0) AS total_khr,
+        COALESCE(SUM(l.usd), 0) AS total_usd,
+        COALESCE(ROUND(SUM(l.khr_equivalent)), 0) AS grand_total_khr,
+        COALESCE(ROUND(SUM(l.usd_equivalent), 2), 0) AS grand_total_usd,
+        COALESCE(SUM(l.contributions), 0) AS total_contributions
+      FROM sides s
+      LEFT JOIN guestlist g
+        ON g.guest_of = s.guest_of
+        AND g.is_duplicate = 0${eventScoped ? ` AND ${IN_EVENT_SCOPE}` : ''}
+      LEFT JOIN ledger l ON l.guest_id = g.guest_id
+      GROUP BY s.guest_of
+      ORDER BY s.sort_order
+    `).all(...(eventScoped ? [{event_id: eventId}] : [])) as SideTotals[];
+  }
+
+  // Active gift totals per ceremony; gifts not tied to an event share a NULL bucket
+  private getTotalsByEvent(): EventTotals[] {
+    return this.getDb().prepare(`
+      SELECT
+        c.event_id,
+        e.name AS event_name,
+        COALESCE(SUM(CASE WHEN c.currency = 'KHR' THEN c.amount ELSE 0 END), 0) AS total_khr,
+        COALESCE(SUM(CASE WHEN c.currency = 'USD' THEN c.amount ELSE 0 END), 0) AS total_usd,
+        COALESCE(ROUND(SUM(${AMOUNT_IN_KHR})), 0) AS grand_total_khr,
+        COALESCE(ROUND(SUM(${AMOUNT_IN_USD}), 2), 0) AS grand_total_usd,
+        COUNT(*) AS total_contributions,
+        COUNT(DISTINCT c.guest_id) AS paid_guests
+      FROM contributions c
+      LEFT JOIN events e ON e.id = c.event_id
+      WHERE c.is_voided = 0
+      GROUP BY c.event_id
+      ORDER BY COALESCE(e.event_date, e.created_at) IS NULL, COALESCE(e.event_date, e.created_at), c.event_id
+    `).all() as EventTotals[];
   }
-}
\ No newline at end of file
+}
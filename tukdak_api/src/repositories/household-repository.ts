@@ -0,0 +1,341 @@
+import {BaseRepository} from './base/base-repository';
+import {amountInKhrSql} from './exchange-rate-repository';
+import {guestColumns, toGuest} from './guest-repository';
+import {Guest} from '../types/guest.types';
+import {
+  CreateHouseholdRequest,
+  HouseholdDetail,
+  HouseholdFilters,
+  HouseholdSummary,
+  UpdateHouseholdRequest,
+} from '../types/household.types';
+import {ValidationError, NotFoundError, ConflictError} from '../errors/custom-errors';
+
+// Households with their head's names and the money totals of their non-duplicate
+// members: gifts received, gifts given back, and what is still owed (both in KHR
+// at each gift's own rate)
+const SUMMARIES_CTE = `
+  WITH received AS (
+    SELECT
+      m.household_id,
+      SUM(CASE WHEN c.currency = 'KHR' THEN c.amount ELSE 0 END) AS khr,
+      SUM(CASE WHEN c.currency = 'USD' THEN c.amount ELSE 0 END) AS usd,
+      SUM(${amountInKhrSql('c', 'received_at')}) AS value_khr
+    FROM contributions c
+    JOIN guestlist m ON m.guest_id = c.guest_id
+    WHERE c.is_voided = 0 AND m.is_duplicate = 0 AND m.household_id IS NOT NULL
+    GROUP BY m.household_id
+  ),
+  given AS (
+    SELECT
+      m.household_id,
+      SUM(${amountInKhrSql('r', 'given_at')}) AS value_khr
+    FROM reciprocations r
+    JOIN guestlist m ON m.guest_id = r.guest_id
+    WHERE r.is_voided = 0 AND m.is_duplicate = 0 AND m.household_id IS NOT NULL
+    GROUP BY m.household_id
+  ),
+  summaries AS (
+    SELECT
+      h.id, h.name, h.head_guest_id, h.notes, h.created_at, h.updated_at,
+      hg.english_name AS head_english_name,
+      hg.khmer_name AS head_khmer_name,
+      (SELECT COUNT(*) FROM guestlist m WHERE m.household_id = h.id) AS member_count,
+      COALESCE(rc.khr, 0) AS total_khr,
+      COALESCE(rc.usd, 0) AS total_usd,
+      ROUND(COALESCE(rc.value_khr, 0)) AS grand_total_khr,
+      ROUND(COALESCE(gv.value_khr, 0)) AS given_value_khr,
+      ROUND(COALESCE(rc.value_khr, 0) - COALESCE(gv.value_khr, 0)) AS outstanding_khr
+    FROM households h
+    LEFT JOIN guestlist hg ON hg.guest_id = h.head_guest_id
+    LEFT JOIN received rc ON rc.household_id = h.id
+    LEFT JOIN given gv ON gv.household_id = h.id
+  )
+`;
+
+export class HouseholdRepository extends BaseRepository {
+  /**
+   * Create a household. The head, if given, is added as a member.
+   */
+  async createHousehold(data: CreateHouseholdRequest): Promise<HouseholdDetail> {
+    const db = this.getDb();
+
+    try {
+      const name = data.name.trim();
+      const memberIds = [...new Set([
+        ...(data.head_guest_id ? [data.head_guest_id] : []),
+        ...(data.member_ids ?? []),
+      ])];
+
+      const transaction = db.transaction(() => {
+        const result = db.prepare(`
+          INSERT INTO households (name, notes)
+          VALUES (?, ?)
+        `).run(name, data.notes ?? null);
+
+        const householdId = Number(result.lastInsertRowid);
+        memberIds.forEach(guestId => this.addMember(householdId, name, guestId));
+
+        if (data.head_guest_id) {
+          db.prepare('UPDATE households SET head_guest_id = ? WHERE id = ?').run(data.head_guest_id, householdId);
+        }
+
+        return householdId;
+      });
+
+      const householdId = transaction();
+      return this.getHouseholdById(householdId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('CREATE_HOUSEHOLD_ERROR', error as Error, {name: data.name});
+      throw error;
+    }
+  }
+
+  async getHouseholdById(householdId: number): Promise<HouseholdDetail> {
+    const db = this.getDb();
+
+    try {
+      const household = db.prepare(`
+        ${SUMMARIES_CTE}
+        SELECT * FROM summaries WHERE id = ?
+      `).get(householdId) as HouseholdSummary | undefined;
+
+      if (!household) {
+        throw new NotFoundError('Household', householdId);
+      }
+
+      // Head first, then members in the order they were registered
+      const members = db.prepare(`
+        SELECT ${guestColumns()}
+        FROM guestlist g
+        WHERE g.household_id = ?
+        ORDER BY CASE WHEN g.guest_id = ? THEN 0 ELSE 1 END, g.created_at, g.guest_id
+      `).all(householdId, household.head_guest_id ?? null);
+
+      return {
+        ...household,
+        members: members.map(member => toGuest(member) as Guest),
+      };
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('GET_HOUSEHOLD_ERROR', error as Error, {household_id: householdId});
+      throw error;
+    }
+  }
+
+  /**
+   * List households with their totals. With outstanding_only the households we
+   * still owe a gift are returned, largest obligation first.
+   */
+  async getAllHouseholds(filters: HouseholdFilters = {}): Promise<HouseholdSummary[]> {
+    const db = this.getDb();
+
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (filters.guest_of) {
+        conditions.push('EXISTS (SELECT 1 FROM guestlist m WHERE m.household_id = summaries.id AND m.guest_of = ?)');
+        params.push(filters.guest_of);
+      }
+
+      if (filters.outstanding_only) {
+        conditions.push('outstanding_khr > 0');
+      }
+
+      const orderBy = filters.outstanding_only
+        ? 'outstanding_khr DESC, name COLLATE NOCASE, id'
+        : 'name COLLATE NOCASE, id';
+
+      return db.prepare(`
+        ${SUMMARIES_CTE}
+        SELECT * FROM summaries
+        ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY ${orderBy}
+      `).all(...params) as HouseholdSummary[];
+
+    } catch (error) {
+      this.logError('GET_ALL_HOUSEHOLDS_ERROR', error as Error, filters);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a household. A new head who is not yet a member joins the household.
+   */
+  async updateHousehold(householdId: number, updates: UpdateHouseholdRequest): Promise<HouseholdDetail> {
+    const db = this.getDb();
+
+    try {
+      const current = await this.getHouseholdById(householdId);
+
+      const updateFields: string[] = [];
+      const params: any[] = [];
+
+      if (updates.name !== undefined) {
+        updateFields.push('name = ?');
+        params.push(updates.name.trim());
+      }
+      if (updates.notes !== undefined) {
+        updateFields.push('notes = ?');
+        params.push(updates.notes);
+      }
+      if (updates.head_guest_id !== undefined) {
+        updateFields.push('head_guest_id = ?');
+        params.push(updates.head_guest_id);
+      }
+
+      if (updateFields.length === 0) {
+        throw new ValidationError('No valid fields provided for update');
+      }
+
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      params.push(householdId);
+
+      const transaction = db.transaction(() => {
+        if (updates.head_guest_id) {
+          this.addMember(householdId, updates.name?.trim() ?? current.name, updates.head_guest_id);
+        }
+
+        db.prepare(`
+          UPDATE households
+          SET ${updateFields.join(', ')}
+          WHERE id = ?
+        `).run(...params);
+      });
+
+      transaction();
+      return this.getHouseholdById(householdId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('UPDATE_HOUSEHOLD_ERROR', error as Error, {household_id: householdId});
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a household. Its members are kept and simply leave the household.
+   */
+  async deleteHousehold(householdId: number): Promise<boolean> {
+    const db = this.getDb();
+
+    try {
+      const household = await this.getHouseholdById(householdId);
+
+      const transaction = db.transaction(() => {
+        household.members.forEach(member => this.logMembership(member.guest_id, `Left household #${householdId} (${household.name}): household deleted`));
+        db.prepare('UPDATE guestlist SET household_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE household_id = ?').run(householdId);
+        db.prepare('DELETE FROM households WHERE id = ?').run(householdId);
+      });
+
+      transaction();
+      return true;
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('DELETE_HOUSEHOLD_ERROR', error as Error, {household_id: householdId});
+      throw error;
+    }
+  }
+
+  async addMembers(householdId: number, guestIds: string[]): Promise<HouseholdDetail> {
+    const db = this.getDb();
+
+    try {
+      const household = await this.getHouseholdById(householdId);
+
+      const transaction = db.transaction(() => {
+        [...new Set(guestIds)].forEach(guestId => this.addMember(householdId, household.name, guestId));
+        db.prepare('UPDATE households SET updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(householdId);
+      });
+
+      transaction();
+      return this.getHouseholdById(householdId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('ADD_HOUSEHOLD_MEMBERS_ERROR', error as Error, {household_id: householdId, guest_ids: guestIds});
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a guest from a household. Removing the head leaves the household without one.
+   */
+  async removeMember(householdId: number, guestId: string): Promise<HouseholdDetail> {
+    const db = this.getDb();
+
+    try {
+      const household = await this.getHouseholdById(householdId);
+
+      if (!household.members.some(member => member.guest_id === guestId)) {
+        throw new NotFoundError('Household member', guestId);
+      }
+
+      const transaction = db.transaction(() => {
+        db.prepare('UPDATE guestlist SET household_id = NULL, updated_at = CURRENT_TIMESTAMP WHERE guest_id = ?').run(guestId);
+        db.prepare(`
+          UPDATE households
+          SET head_guest_id = CASE WHEN head_guest_id = ? THEN NULL ELSE head_guest_id END,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(guestId, householdId);
+        this.logMembership(guestId, `Left household #${householdId} (${household.name})`);
+      });
+
+      transaction();
+      return this.getHouseholdById(householdId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('REMOVE_HOUSEHOLD_MEMBER_ERROR', error as Error, {household_id: householdId, guest_id: guestId});
+      throw error;
+    }
+  }
+
+  // Must run inside a transaction. A guest belongs to at most one household;
+  // moving them requires removing them from the old one first.
+  private addMember(householdId: number, householdName: string, guestId: string): void {
+    const db = this.getDb();
+
+    const guest = db.prepare(
+      'SELECT guest_id, household_id FROM guestlist WHERE guest_id = ?'
+    ).get(guestId) as {guest_id: string; household_id: number | null} | undefined;
+
+    if (!guest) {
+      throw new NotFoundError('Guest', guestId);
+    }
+    if (guest.household_id === householdId) {
+      return;
+    }
+    if (guest.household_id !== null) {
+      throw new ConflictError(`Guest ${guestId} already belongs to household ${guest.household_id}`);
+    }
+
+    db.prepare('UPDATE guestlist SET household_id = ?, updated_at = CURRENT_TIMESTAMP WHERE guest_id = ?').run(householdId, guestId);
+    this.logMembership(guestId, `Joined household #${householdId} (${householdName})`);
+  }
+
+  private logMembership(guestId: string, details: string): void {
+    this.getDb().prepare(`
+      INSERT INTO activity_logs (guest_id, action, details)
+      VALUES (?, ?, ?)
+    `).run(guestId, 'updated', details);
+  }
+}
@@ -0,0 +1,160 @@
+import {BaseRepository} from './base/base-repository';
+import {
+  CreateImportProfileRequest,
+  ImportProfile,
+  UpdateImportProfileRequest,
+} from '../types/guest-import.types';
+import {ValidationError, NotFoundError, ConflictError} from '../errors/custom-errors';
+
+const IMPORT_PROFILE_COLUMNS = 'id, name, column_map, value_map, id_prefix, created_at, updated_at';
+
+type ImportProfileRow = Omit<ImportProfile, 'column_map' | 'value_map'> & {column_map: string; value_map: string};
+
+export class ImportProfileRepository extends BaseRepository {
+  async createProfile(data: CreateImportProfileRequest): Promise<ImportProfile> {
+    const db = this.getDb();
+
+    try {
+      this.assertNameFree(data.name);
+
+      const result = db.prepare(`
+        INSERT INTO import_profiles (name, column_map, value_map, id_prefix)
+        VALUES (?, ?, ?, ?)
+      `).run(
+        data.name.trim(),
+        JSON.stringify(data.column_map),
+        JSON.stringify(data.value_map ?? {}),
+        data.id_prefix?.trim() || null
+      );
+
+      return this.getProfileById(Number(result.lastInsertRowid));
+
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('CREATE_IMPORT_PROFILE_ERROR', error as Error, {name: data.name});
+      throw error;
+    }
+  }
+
+  async getProfileById(profileId: number): Promise<ImportProfile> {
+    const db = this.getDb();
+
+    const profile = db.prepare(`
+      SELECT ${IMPORT_PROFILE_COLUMNS}
+      FROM import_profiles
+      WHERE id = ?
+    `).get(profileId) as ImportProfileRow | undefined;
+
+    if (!profile) {
+      throw new NotFoundError('Import profile', profileId);
+    }
+
+    return this.toProfile(profile);
+  }
+
+  async getAllProfiles(): Promise<ImportProfile[]> {
+    const db = this.getDb();
+
+    try {
+      const profiles = db.prepare(`
+        SELECT ${IMPORT_PROFILE_COLUMNS}
+        FROM import_profiles
+        ORDER BY name
+      `).all() as ImportProfileRow[];
+
+      return profiles.map(profile => this.toProfile(profile));
+
+    } catch (error) {
+      this.logError('GET_IMPORT_PROFILES_ERROR', error as Error);
+      throw error;
+    }
+  }
+
+  async updateProfile(profileId: number, updates: UpdateImportProfileRequest): Promise<ImportProfile> {
+    const db = this.getDb();
+
+    try {
+      const current = await this.getProfileById(profileId);
+
+      if (updates.name !== undefined && updates.name.trim().toLowerCase() !== current.name.toLowerCase()) {
+        this.assertNameFree(updates.name);
+      }
+
+      const updateFields: string[] = [];
+      const params: any[] = [];
+
+      if (updates.name !== undefined) {
+        updateFields.push('name = ?');
+        params.push(updates.name.trim());
+      }
+      if (updates.column_map !== undefined) {
+        updateFields.push('column_map = ?');
+        params.push(JSON.stringify(updates.column_map));
+      }
+      if (updates.value_map !== undefined) {
+        updateFields.push('value_map = ?');
+        params.push(JSON.stringify(updates.value_map));
+      }
+      if (updates.id_prefix !== undefined) {
+        updateFields.push('id_prefix = ?');
+        params.push(updates.id_prefix?.trim() || null);
+      }
+
+      if (updateFields.length === 0) {
+        throw new ValidationError('No valid fields provided for update');
+      }
+
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      params.push(profileId);
+
+      db.prepare(`
+        UPDATE import_profiles
+        SET ${updateFields.join(', ')}
+        WHERE id = ?
+      `).run(...params);
+
+      return this.getProfileById(profileId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('UPDATE_IMPORT_PROFILE_ERROR', error as Error, {profile_id: profileId});
+      throw error;
+    }
+  }
+
+  async deleteProfile(profileId: number): Promise<boolean> {
+    const db = this.getDb();
+
+    try {
+      await this.getProfileById(profileId);
+      db.prepare('DELETE FROM import_profiles WHERE id = ?').run(profileId);
+      return true;
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('DELETE_IMPORT_PROFILE_ERROR', error as Error, {profile_id: profileId});
+      throw error;
+    }
+  }
+
+  private assertNameFree(name: string): void {
+    const existing = this.getDb().prepare('SELECT id FROM import_profiles WHERE name = ?').get(name.trim());
+    if (existing) {
+      throw new ConflictError(`Import profile ${name.trim()} already exists`);
+    }
+  }
+
+  private toProfile(row: ImportProfileRow): ImportProfile {
+    return {
+      ...row,
+      column_map: JSON.parse(row.column_map),
+      value_map: JSON.parse(row.value_map),
+    };
+  }
+}
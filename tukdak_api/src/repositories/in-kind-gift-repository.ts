@@ -0,0 +1,180 @@
+import {BaseRepository} from './base/base-repository';
+import {
+  CreateInKindGiftRequest,
+  InKindGift,
+  InKindGiftFilters,
+} from '../types/in-kind-gift.types';
+import {NotFoundError, ConflictError} from '../errors/custom-errors';
+
+const IN_KIND_GIFT_COLUMNS = `
+  id, guest_id, event_id, description, quantity, unit, estimated_value, estimated_currency,
+  must_return, return_by, received_at, note, is_voided, voided_at, void_reason, created_at
+`;
+
+const toInKindGift = (row: InKindGift): InKindGift => ({
+  ...row,
+  must_return: Boolean(row.must_return),
+  is_voided: Boolean(row.is_voided),
+});
+
+export class InKindGiftRepository extends BaseRepository {
+  /**
+   * Record an in-kind gift for a guest
+   */
+  async createInKindGift(guestId: string, data: CreateInKindGiftRequest): Promise<InKindGift> {
+    const db = this.getDb();
+
+    try {
+      const guest = this.assertGuestExists(guestId);
+
+      // Gifts default to the ceremony the guest was registered for
+      const eventId = data.event_id ?? guest.event_id ?? null;
+      if (eventId !== null) {
+        this.assertEventExists(eventId);
+      }
+
+      const insertGift = db.prepare(`
+        INSERT INTO in_kind_gifts
+        (guest_id, event_id, description, quantity, unit, estimated_value, estimated_currency,
+         must_return, return_by, received_at, note)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      const insertActivity = db.prepare(`
+        INSERT INTO activity_logs (guest_id, action, details)
+        VALUES (?, ?, ?)
+      `);
+
+      const receivedAt = data.received_at
+        ? new Date(data.received_at).toISOString()
+        : new Date().toISOString();
+
+      const transaction = db.transaction(() => {
+        const result = insertGift.run(
+          guestId,
+          eventId,
+          data.description.trim(),
+          data.quantity ?? 1,
+          data.unit?.trim() || null,
+          data.estimated_value ?? null,
+          data.estimated_value !== undefined ? data.estimated_currency : null,
+          data.must_return ? 1 : 0,
+          data.return_by ?? null,
+          receivedAt,
+          data.note ?? null
+        );
+
+        insertActivity.run(
+          guestId,
+          'payment_received',
+          `In-kind gift #${result.lastInsertRowid}: ${data.quantity ?? 1}${data.unit ? ` ${data.unit}` : ''} ${data.description.trim()}`
+        );
+
+        return Number(result.lastInsertRowid);
+      });
+
+      const giftId = transaction();
+      return this.getInKindGiftById(guestId, giftId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('CREATE_IN_KIND_GIFT_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  async getInKindGiftById(guestId: string, giftId: number): Promise<InKindGift> {
+    const db = this.getDb();
+
+    const gift = db.prepare(`
+      SELECT ${IN_KIND_GIFT_COLUMNS}
+      FROM in_kind_gifts
+      WHERE id = ? AND guest_id = ?
+    `).get(giftId, guestId) as InKindGift | undefined;
+
+    if (!gift) {
+      throw new NotFoundError('In-kind gift', giftId);
+    }
+
+    return toInKindGift(gift);
+  }
+
+  async getInKindGiftsByGuest(guestId: string, filters?: InKindGiftFilters): Promise<InKindGift[]> {
+    const db = this.getDb();
+
+    try {
+      this.assertGuestExists(guestId);
+
+      let query = `
+        SELECT ${IN_KIND_GIFT_COLUMNS}
+        FROM in_kind_gifts
+        WHERE guest_id = ?
+      `;
+      const params: any[] = [guestId];
+
+      if (!filters?.include_voided) {
+        query += ' AND is_voided = 0';
+      }
+
+      if (filters?.event_id !== undefined) {
+        query += ' AND event_id = ?';
+        params.push(filters.event_id);
+      }
+
+      query += ' ORDER BY received_at DESC, id DESC';
+
+      return (db.prepare(query).all(...params) as InKindGift[]).map(toInKindGift);
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('GET_IN_KIND_GIFTS_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  /**
+   * Void an in-kind gift. Like contributions, rows are kept for history.
+   */
+  async voidInKindGift(guestId: string, giftId: number, reason?: string): Promise<InKindGift> {
+    const db = this.getDb();
+
+    try {
+      const existing = await this.getInKindGiftById(guestId, giftId);
+      if (existing.is_voided) {
+        throw new ConflictError(`In-kind gift ${giftId} is already voided`);
+      }
+
+      const transaction = db.transaction(() => {
+        const result = db.prepare(`
+          UPDATE in_kind_gifts
+          SET is_voided = 1, voided_at = ?, void_reason = ?
+          WHERE id = ? AND is_voided = 0
+        `).run(new Date().toISOString(), reason ?? null, giftId);
+
+        if (result.changes === 0) {
+          throw new ConflictError(`In-kind gift ${giftId} is already voided`);
+        }
+
+        db.prepare(`
+          INSERT INTO activity_logs (guest_id, action, details)
+          VALUES (?, ?, ?)
+        `).run(guestId, 'updated', `In-kind gift #${giftId} voided${reason ? `: ${reason}` : ''}`);
+      });
+
+      transaction();
+
+      return this.getInKindGiftById(guestId, giftId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('VOID_IN_KIND_GIFT_ERROR', error as Error, {guest_id: guestId, gift_id: giftId});
+      throw error;
+    }
+  }
+}
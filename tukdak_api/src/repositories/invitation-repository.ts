@@ -0,0 +1,263 @@
+import {BaseRepository} from './base/base-repository';
+import {
+  CreateInvitationRequest,
+  Invitation,
+  InvitationReport,
+  InvitationReportEntry,
+  InvitationReportFilters,
+  RsvpStatus,
+  UpdateInvitationRequest,
+} from '../types/invitation.types';
+import {ValidationError, NotFoundError, ConflictError} from '../errors/custom-errors';
+
+const INVITATION_COLUMNS = `
+  id, guest_id, delivered_by, delivered_at, rsvp_status, party_size, rsvp_at, note, created_at, updated_at
+`;
+
+// Non-duplicate guests with their invitation (if any) and active gift totals
+const REPORT_CTE = `
+  WITH gifts AS (
+    SELECT
+      c.guest_id,
+      SUM(CASE WHEN c.currency = 'KHR' THEN c.amount ELSE 0 END) AS khr,
+      SUM(CASE WHEN c.currency = 'USD' THEN c.amount ELSE 0 END) AS usd
+    FROM contributions c
+    WHERE c.is_voided = 0
+    GROUP BY c.guest_id
+  ),
+  report AS (
+    SELECT
+      g.guest_id, g.english_name, g.khmer_name, g.guest_of,
+      i.id AS invitation_id, i.delivered_by, i.delivered_at, i.rsvp_status, i.party_size,
+      gf.guest_id IS NOT NULL AS has_gift,
+      COALESCE(gf.khr, 0) AS amount_khr,
+      COALESCE(gf.usd, 0) AS amount_usd,
+      g.created_at
+    FROM guestlist g
+    LEFT JOIN invitations i ON i.guest_id = g.guest_id
+    LEFT JOIN gifts gf ON gf.guest_id = g.guest_id
+    WHERE g.is_duplicate = 0
+  )
+`;
+
+const REPORT_ENTRY_COLUMNS = `
+  guest_id, english_name, khmer_name, guest_of, delivered_by, rsvp_status, amount_khr, amount_usd
+`;
+
+export class InvitationRepository extends BaseRepository {
+  async createInvitation(guestId: string, data: CreateInvitationRequest): Promise<Invitation> {
+    const db = this.getDb();
+
+    try {
+      this.assertGuestExists(guestId);
+
+      const existing = db.prepare('SELECT id FROM invitations WHERE guest_id = ?').get(guestId);
+      if (existing) {
+        throw new ConflictError(`Guest ${guestId} already has an invitation`);
+      }
+
+      const rsvpStatus = data.rsvp_status ?? 'pending';
+
+      const transaction = db.transaction(() => {
+        db.prepare(`
+          INSERT INTO invitations (guest_id, delivered_by, delivered_at, rsvp_status, party_size, rsvp_at, note)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          guestId,
+          data.delivered_by?.trim() || null,
+          data.delivered_at ?? null,
+          rsvpStatus,
+          data.party_size ?? 1,
+          rsvpStatus !== 'pending' ? new Date().toISOString() : null,
+          data.note ?? null
+        );
+
+        this.logInvitation(
+          guestId,
+          `Invitation recorded${data.delivered_by ? ` (delivered by ${data.delivered_by.trim()})` : ''}, RSVP ${rsvpStatus}`
+        );
+      });
+
+      transaction();
+      return this.getInvitation(guestId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('CREATE_INVITATION_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  async getInvitation(guestId: string): Promise<Invitation> {
+    const db = this.getDb();
+
+    const invitation = db.prepare(`
+      SELECT ${INVITATION_COLUMNS}
+      FROM invitations
+      WHERE guest_id = ?
+    `).get(guestId) as Invitation | undefined;
+
+    if (!invitation) {
+      throw new NotFoundError('Invitation for guest', guestId);
+    }
+
+    return invitation;
+  }
+
+  /**
+   * Update delivery details or record the RSVP. rsvp_at tracks when the
+   * status last changed; going back to pending clears it.
+   */
+  async updateInvitation(guestId: string, updates: UpdateInvitationRequest): Promise<Invitation> {
+    const db = this.getDb();
+
+    try {
+      const current = await this.getInvitation(guestId);
+
+      const allowedFields = ['delivered_by', 'delivered_at', 'rsvp_status', 'party_size', 'note'];
+      const updateFields: string[] = [];
+      const params: any[] = [];
+
+      Object.keys(updates).forEach(key => {
+        const value = updates[key as keyof UpdateInvitationRequest];
+        if (allowedFields.includes(key) && value !== undefined) {
+          updateFields.push(`${key} = ?`);
+          params.push(typeof value === 'string' ? value.trim() || null : value);
+        }
+      });
+
+      if (updateFields.length === 0) {
+        throw new ValidationError('No valid fields provided for update');
+      }
+
+      const rsvpChanged = updates.rsvp_status !== undefined && updates.rsvp_status !== current.rsvp_status;
+      if (rsvpChanged) {
+        updateFields.push('rsvp_at = ?');
+        params.push(updates.rsvp_status === 'pending' ? null : new Date().toISOString());
+      }
+
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      params.push(guestId);
+
+      const transaction = db.transaction(() => {
+        db.prepare(`
+          UPDATE invitations
+          SET ${updateFields.join(', ')}
+          WHERE guest_id = ?
+        `).run(...params);
+
+        if (rsvpChanged) {
+          const partySize = updates.party_size ?? current.party_size;
+          this.logInvitation(guestId, `RSVP changed from ${current.rsvp_status} to ${updates.rsvp_status} (party of ${partySize})`);
+        }
+      });
+
+      transaction();
+      return this.getInvitation(guestId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        throw error;
+      }
+      this.logError('UPDATE_INVITATION_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  async deleteInvitation(guestId: string): Promise<boolean> {
+    const db = this.getDb();
+
+    try {
+      await this.getInvitation(guestId);
+
+      const transaction = db.transaction(() => {
+        db.prepare('DELETE FROM invitations WHERE guest_id = ?').run(guestId);
+        this.logInvitation(guestId, 'Invitation removed');
+      });
+
+      transaction();
+      return true;
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('DELETE_INVITATION_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  /**
+   * RSVP summary plus the two follow-up lists: invited guests with no active
+   * gift, and guests who gave a gift without having been invited
+   */
+  async getReport(filters: InvitationReportFilters = {}): Promise<InvitationReport> {
+    const db = this.getDb();
+
+    try {
+      const sideClause = filters.guest_of ? 'AND guest_of = ?' : '';
+      const params = filters.guest_of ? [filters.guest_of] : [];
+
+      const summary = db.prepare(`
+        ${REPORT_CTE}
+        SELECT
+          COUNT(invitation_id) AS invited,
+          COUNT(CASE WHEN invitation_id IS NOT NULL AND delivered_at IS NOT NULL THEN 1 END) AS delivered,
+          COUNT(CASE WHEN rsvp_status = 'pending' THEN 1 END) AS pending,
+          COUNT(CASE WHEN rsvp_status = 'attending' THEN 1 END) AS attending,
+          COUNT(CASE WHEN rsvp_status = 'declined' THEN 1 END) AS declined,
+          COUNT(CASE WHEN rsvp_status = 'maybe' THEN 1 END) AS maybe,
+          COALESCE(SUM(CASE WHEN rsvp_status = 'attending' THEN party_size ELSE 0 END), 0) AS expected_attendees
+        FROM report
+        WHERE 1=1 ${sideClause}
+      `).get(...params) as Record<RsvpStatus | 'invited' | 'delivered' | 'expected_attendees', number>;
+
+      const invitedWithoutGift = db.prepare(`
+        ${REPORT_CTE}
+        SELECT ${REPORT_ENTRY_COLUMNS}
+        FROM report
+        WHERE invitation_id IS NOT NULL AND NOT has_gift ${sideClause}
+        ORDER BY guest_of, english_name COLLATE NOCASE, guest_id
+      `).all(...params) as InvitationReportEntry[];
+
+      const giftWithoutInvitation = db.prepare(`
+        ${REPORT_CTE}
+        SELECT ${REPORT_ENTRY_COLUMNS}
+        FROM report
+        WHERE invitation_id IS NULL AND has_gift ${sideClause}
+        ORDER BY guest_of, english_name COLLATE NOCASE, guest_id
+      `).all(...params) as InvitationReportEntry[];
+
+      return {
+        summary: {
+          invited: summary.invited,
+          delivered: summary.delivered,
+          rsvp: {
+            pending: summary.pending,
+            attending: summary.attending,
+            declined: summary.declined,
+            maybe: summary.maybe,
+          },
+          expected_attendees: summary.expected_attendees,
+          invited_without_gift: invitedWithoutGift.length,
+          gift_without_invitation: giftWithoutInvitation.length,
+        },
+        invited_without_gift: invitedWithoutGift,
+        gift_without_invitation: giftWithoutInvitation,
+      };
+
+    } catch (error) {
+      this.logError('GET_INVITATION_REPORT_ERROR', error as Error, filters);
+      throw error;
+    }
+  }
+
+  private logInvitation(guestId: string, details: string): void {
+    this.getDb().prepare(`
+      INSERT INTO activity_logs (guest_id, action, details)
+      VALUES (?, ?, ?)
+    `).run(guestId, 'updated', details);
+  }
+}
@@ -0,0 +1,125 @@
+import {BaseRepository} from './base/base-repository';
+import {
+  CreatePaymentMethodRequest,
+  PaymentMethod,
+  UpdatePaymentMethodRequest,
+} from '../types/payment-method.types';
+import {ValidationError, NotFoundError, ConflictError} from '../errors/custom-errors';
+
+const PAYMENT_METHOD_COLUMNS = 'code, label, is_active, sort_order, created_at, updated_at';
+
+export class PaymentMethodRepository extends BaseRepository {
+  async createPaymentMethod(data: CreatePaymentMethodRequest): Promise<PaymentMethod> {
+    const db = this.getDb();
+
+    try {
+      if (await this.findByCode(data.code)) {
+        throw new ConflictError(`Payment method ${data.code} already exists`);
+      }
+
+      // New methods go to the end of the list unless an explicit position is given
+      const sortOrder = data.sort_order ?? ((db.prepare(
+        'SELECT COALESCE(MAX(sort_order), 0) + 10 AS next FROM payment_methods'
+      ).get() as {next: number}).next);
+
+      db.prepare(`
+        INSERT INTO payment_methods (code, label, sort_order)
+        VALUES (?, ?, ?)
+      `).run(data.code, data.label.trim(), sortOrder);
+
+      return this.getPaymentMethod(data.code);
+
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('CREATE_PAYMENT_METHOD_ERROR', error as Error, {code: data.code});
+      throw error;
+    }
+  }
+
+  async findByCode(code: string): Promise<PaymentMethod | null> {
+    const db = this.getDb();
+
+    const method = db.prepare(`
+      SELECT ${PAYMENT_METHOD_COLUMNS}
+      FROM payment_methods
+      WHERE code = ?
+    `).get(code) as PaymentMethod | undefined;
+
+    return method ? {...method, is_active: Boolean(method.is_active)} : null;
+  }
+
+  async getPaymentMethod(code: string): Promise<PaymentMethod> {
+    const method = await this.findByCode(code);
+    if (!method) {
+      throw new NotFoundError('Payment method', code);
+    }
+    return method;
+  }
+
+  async getAllPaymentMethods(includeInactive = false): Promise<PaymentMethod[]> {
+    const db = this.getDb();
+
+    try {
+      const methods = db.prepare(`
+        SELECT ${PAYMENT_METHOD_COLUMNS}
+        FROM payment_methods
+        ${includeInactive ? '' : 'WHERE is_active = 1'}
+        ORDER BY sort_order, code
+      `).all() as PaymentMethod[];
+
+      return methods.map(method => ({...method, is_active: Boolean(method.is_active)}));
+
+    } catch (error) {
+      this.logError('GET_PAYMENT_METHODS_ERROR', error as Error);
+      throw error;
+    }
+  }
+
+  async updatePaymentMethod(code: string, updates: UpdatePaymentMethodRequest): Promise<PaymentMethod> {
+    const db = this.getDb();
+
+    try {
+      await this.getPaymentMethod(code);
+
+      const allowedFields = ['label', 'is_active', 'sort_order'];
+      const updateFields: string[] = [];
+      const params: any[] = [];
+
+      Object.keys(updates).forEach(key => {
+        const value = updates[key as keyof UpdatePaymentMethodRequest];
+        if (allowedFields.includes(key) && value !== undefined) {
+          updateFields.push(`${key} = ?`);
+          if (key === 'is_active') {
+            params.push(value ? 1 : 0);
+          } else {
+            params.push(typeof value === 'string' ? value.trim() : value);
+          }
+        }
+      });
+
+      if (updateFields.length === 0) {
+        throw new ValidationError('No valid fields provided for update');
+      }
+
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      params.push(code);
+
+      db.prepare(`
+        UPDATE payment_methods
+        SET ${updateFields.join(', ')}
+        WHERE code = ?
+      `).run(...params);
+
+      return this.getPaymentMethod(code);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        throw error;
+      }
+      this.logError('UPDATE_PAYMENT_METHOD_ERROR', error as Error, {code});
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,264 @@
+import {BaseRepository} from './base/base-repository';
+import {amountInKhrSql} from './exchange-rate-repository';
+import {
+  CreateReciprocationRequest,
+  GuestReciprocityBalance,
+  Reciprocation,
+  ReciprocationFilters,
+  ReciprocityBalanceFilters,
+  ReciprocityReport,
+  SideReciprocityBalance,
+} from '../types/reciprocation.types';
+import {NotFoundError, ConflictError} from '../errors/custom-errors';
+
+const RECIPROCATION_COLUMNS = `
+  id, guest_id, amount, currency, payment_method, occasion, given_at, note,
+  is_voided, voided_at, void_reason, created_at
+`;
+
+// Per-guest received vs. given back, both sides valued in KHR at each gift's own rate
+const BALANCES_CTE = `
+  WITH received AS (
+    SELECT
+      c.guest_id,
+      SUM(CASE WHEN c.currency = 'KHR' THEN c.amount ELSE 0 END) AS khr,
+      SUM(CASE WHEN c.currency = 'USD' THEN c.amount ELSE 0 END) AS usd,
+      SUM(${amountInKhrSql('c', 'received_at')}) AS value_khr
+    FROM contributions c
+    WHERE c.is_voided = 0
+    GROUP BY c.guest_id
+  ),
+  given AS (
+    SELECT
+      r.guest_id,
+      SUM(CASE WHEN r.currency = 'KHR' THEN r.amount ELSE 0 END) AS khr,
+      SUM(CASE WHEN r.currency = 'USD' THEN r.amount ELSE 0 END) AS usd,
+      SUM(${amountInKhrSql('r', 'given_at')}) AS value_khr
+    FROM reciprocations r
+    WHERE r.is_voided = 0
+    GROUP BY r.guest_id
+  ),
+  balances AS (
+    SELECT
+      g.guest_id, g.english_name, g.khmer_name, g.guest_of,
+      COALESCE(rc.khr, 0) AS received_khr,
+      COALESCE(rc.usd, 0) AS received_usd,
+      COALESCE(gv.khr, 0) AS given_khr,
+      COALESCE(gv.usd, 0) AS given_usd,
+      ROUND(COALESCE(rc.value_khr, 0)) AS received_value_khr,
+      ROUND(COALESCE(gv.value_khr, 0)) AS given_value_khr,
+      ROUND(COALESCE(rc.value_khr, 0) - COALESCE(gv.value_khr, 0)) AS outstanding_khr
+    FROM guestlist g
+    LEFT JOIN received rc ON rc.guest_id = g.guest_id
+    LEFT JOIN given gv ON gv.guest_id = g.guest_id
+    WHERE g.is_duplicate = 0
+      AND (rc.guest_id IS NOT NULL OR gv.guest_id IS NOT NULL)
+  )
+`;
+
+export class ReciprocationRepository extends BaseRepository {
+  /**
+   * Record a gift given back to a guest's family
+   */
+  async createReciprocation(guestId: string, data: CreateReciprocationRequest): Promise<Reciprocation> {
+    const db = this.getDb();
+
+    try {
+      this.assertGuestExists(guestId);
+
+      const insertReciprocation = db.prepare(`
+        INSERT INTO reciprocations (guest_id, amount, currency, payment_method, occasion, given_at, note)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `);
+
+      const insertActivity = db.prepare(`
+        INSERT INTO activity_logs (guest_id, action, details)
+        VALUES (?, ?, ?)
+      `);
+
+      const givenAt = data.given_at
+        ? new Date(data.given_at).toISOString()
+        : new Date().toISOString();
+
+      const transaction = db.transaction(() => {
+        const result = insertReciprocation.run(
+          guestId,
+          data.amount,
+          data.currency,
+          data.payment_method ?? null,
+          data.occasion?.trim() || null,
+          givenAt,
+          data.note ?? null
+        );
+
+        insertActivity.run(
+          guestId,
+          'updated',
+          `Reciprocation #${result.lastInsertRowid}: gave ${data.amount} ${data.currency}${data.occasion ? ` at ${data.occasion.trim()}` : ''}`
+        );
+
+        return Number(result.lastInsertRowid);
+      });
+
+      const reciprocationId = transaction();
+      return this.getReciprocationById(guestId, reciprocationId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('CREATE_RECIPROCATION_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  async getReciprocationById(guestId: string, reciprocationId: number): Promise<Reciprocation> {
+    const db = this.getDb();
+
+    const reciprocation = db.prepare(`
+      SELECT ${RECIPROCATION_COLUMNS}
+      FROM reciprocations
+      WHERE id = ? AND guest_id = ?
+    `).get(reciprocationId, guestId) as Reciprocation | undefined;
+
+    if (!reciprocation) {
+      throw new NotFoundError('Reciprocation', reciprocationId);
+    }
+
+    return {...reciprocation, is_voided: Boolean(reciprocation.is_voided)};
+  }
+
+  async getReciprocationsByGuest(guestId: string, filters?: ReciprocationFilters): Promise<Reciprocation[]> {
+    const db = this.getDb();
+
+    try {
+      this.assertGuestExists(guestId);
+
+      let query = `
+        SELECT ${RECIPROCATION_COLUMNS}
+        FROM reciprocations
+        WHERE guest_id = ?
+      `;
+
+      if (!filters?.include_voided) {
+        query += ' AND is_voided = 0';
+      }
+
+      query += ' ORDER BY given_at DESC, id DESC';
+
+      const reciprocations = db.prepare(query).all(guestId) as Reciprocation[];
+
+      return reciprocations.map(reciprocation => ({
+        ...reciprocation,
+        is_voided: Boolean(reciprocation.is_voided),
+      }));
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('GET_RECIPROCATIONS_ERROR', error as Error, {guest_id: guestId});
+      throw error;
+    }
+  }
+
+  async voidReciprocation(guestId: string, reciprocationId: number, reason?: string): Promise<Reciprocation> {
+    const db = this.getDb();
+
+    try {
+      const existing = await this.getReciprocationById(guestId, reciprocationId);
+      if (existing.is_voided) {
+        throw new ConflictError(`Reciprocation ${reciprocationId} is already voided`);
+      }
+
+      const transaction = db.transaction(() => {
+        const result = db.prepare(`
+          UPDATE reciprocations
+          SET is_voided = 1, voided_at = ?, void_reason = ?
+          WHERE id = ? AND is_voided = 0
+        `).run(new Date().toISOString(), reason ?? null, reciprocationId);
+
+        if (result.changes === 0) {
+          throw new ConflictError(`Reciprocation ${reciprocationId} is already voided`);
+        }
+
+        db.prepare(`
+          INSERT INTO activity_logs (guest_id, action, details)
+          VALUES (?, ?, ?)
+        `).run(guestId, 'updated', `Reciprocation #${reciprocationId} voided${reason ? `: ${reason}` : ''}`);
+      });
+
+      transaction();
+
+      return this.getReciprocationById(guestId, reciprocationId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('VOID_RECIPROCATION_ERROR', error as Error, {guest_id: guestId, reciprocation_id: reciprocationId});
+      throw error;
+    }
+  }
+
+  /**
+   * Received vs. given back per guest_of side and per guest. Guests are sorted
+   * by what we still owe them, largest obligation first.
+   */
+  async getBalances(filters: ReciprocityBalanceFilters = {}): Promise<ReciprocityReport> {
+    const db = this.getDb();
+
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (filters.guest_of) {
+        conditions.push('guest_of = ?');
+        params.push(filters.guest_of);
+      }
+
+      const sides = db.prepare(`
+        ${BALANCES_CTE}
+        SELECT
+          guest_of,
+          COUNT(*) AS guests,
+          COUNT(CASE WHEN outstanding_khr > 0 THEN 1 END) AS guests_outstanding,
+          SUM(received_value_khr) AS received_value_khr,
+          SUM(given_value_khr) AS given_value_khr,
+          SUM(CASE WHEN outstanding_khr > 0 THEN outstanding_khr ELSE 0 END) AS outstanding_khr
+        FROM balances
+        ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+        GROUP BY guest_of
+        ORDER BY outstanding_khr DESC, guest_of
+      `).all(...params) as SideReciprocityBalance[];
+
+      if (filters.outstanding_only) {
+        conditions.push('outstanding_khr > 0');
+      }
+      const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const countResult = db.prepare(`
+        ${BALANCES_CTE}
+        SELECT COUNT(*) AS count FROM balances ${where}
+      `).get(...params) as {count: number};
+
+      const guests = db.prepare(`
+        ${BALANCES_CTE}
+        SELECT * FROM balances
+        ${where}
+        ORDER BY outstanding_khr DESC, guest_id
+        LIMIT ? OFFSET ?
+      `).all(...params, filters.limit ?? 100, filters.offset ?? 0) as GuestReciprocityBalance[];
+
+      return {
+        sides,
+        guests,
+        total_count: countResult.count,
+      };
+
+    } catch (error) {
+      this.logError('GET_RECIPROCITY_BALANCES_ERROR', error as Error, filters);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,327 @@
+import {BaseRepository} from './base/base-repository';
+import {
+  CreateSeatingTableRequest,
+  SeatAssignmentRequest,
+  SeatedGuest,
+  SeatingTable,
+  TableRoster,
+  UpdateSeatingTableRequest,
+} from '../types/seating.types';
+import {ValidationError, NotFoundError, ConflictError} from '../errors/custom-errors';
+
+const TABLE_COLUMNS = `
+  t.id, t.table_number, t.label, t.capacity, t.notes,
+  (SELECT COUNT(*) FROM seat_assignments sa WHERE sa.table_id = t.id) AS seated,
+  t.capacity - (SELECT COUNT(*) FROM seat_assignments sa WHERE sa.table_id = t.id) AS available,
+  t.created_at, t.updated_at
+`;
+
+export class SeatingRepository extends BaseRepository {
+  async createTable(data: CreateSeatingTableRequest): Promise<SeatingTable> {
+    const db = this.getDb();
+
+    try {
+      this.assertTableNumberFree(data.table_number);
+
+      const result = db.prepare(`
+        INSERT INTO seating_tables (table_number, label, capacity, notes)
+        VALUES (?, ?, ?, ?)
+      `).run(
+        data.table_number,
+        data.label?.trim() || null,
+        data.capacity ?? 10,
+        data.notes ?? null
+      );
+
+      return this.getTableById(Number(result.lastInsertRowid));
+
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('CREATE_TABLE_ERROR', error as Error, {table_number: data.table_number});
+      throw error;
+    }
+  }
+
+  async getTableById(tableId: number): Promise<SeatingTable> {
+    const db = this.getDb();
+
+    const table = db.prepare(`
+      SELECT ${TABLE_COLUMNS}
+      FROM seating_tables t
+      WHERE t.id = ?
+    `).get(tableId) as SeatingTable | undefined;
+
+    if (!table) {
+      throw new NotFoundError('Table', tableId);
+    }
+
+    return table;
+  }
+
+  async getAllTables(): Promise<SeatingTable[]> {
+    const db = this.getDb();
+
+    try {
+      return db.prepare(`
+        SELECT ${TABLE_COLUMNS}
+        FROM seating_tables t
+        ORDER BY t.table_number
+      `).all() as SeatingTable[];
+
+    } catch (error) {
+      this.logError('GET_ALL_TABLES_ERROR', error as Error);
+      throw error;
+    }
+  }
+
+  async updateTable(tableId: number, updates: UpdateSeatingTableRequest): Promise<SeatingTable> {
+    const db = this.getDb();
+
+    try {
+      const current = await this.getTableById(tableId);
+
+      if (updates.table_number !== undefined && updates.table_number !== current.table_number) {
+        this.assertTableNumberFree(updates.table_number);
+      }
+      if (updates.capacity !== undefined && updates.capacity < current.seated) {
+        throw new ConflictError(`Table ${current.table_number} already seats ${current.seated} guests`);
+      }
+
+      const allowedFields = ['table_number', 'label', 'capacity', 'notes'];
+      const updateFields: string[] = [];
+      const params: any[] = [];
+
+      Object.keys(updates).forEach(key => {
+        const value = updates[key as keyof UpdateSeatingTableRequest];
+        if (allowedFields.includes(key) && value !== undefined) {
+          updateFields.push(`${key} = ?`);
+          params.push(typeof value === 'string' ? value.trim() : value);
+        }
+      });
+
+      if (updateFields.length === 0) {
+        throw new ValidationError('No valid fields provided for update');
+      }
+
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      params.push(tableId);
+
+      db.prepare(`
+        UPDATE seating_tables
+        SET ${updateFields.join(', ')}
+        WHERE id = ?
+      `).run(...params);
+
+      return this.getTableById(tableId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('UPDATE_TABLE_ERROR', error as Error, {table_id: tableId});
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a table. Guests seated at it become unseated.
+   */
+  async deleteTable(tableId: number): Promise<boolean> {
+    const db = this.getDb();
+
+    try {
+      const table = await this.getTableById(tableId);
+
+      const transaction = db.transaction(() => {
+        const seated = db.prepare('SELECT guest_id FROM seat_assignments WHERE table_id = ?').all(tableId) as {guest_id: string}[];
+        seated.forEach(seat => this.logSeating(seat.guest_id, `Unseated from table ${table.table_number}: table deleted`));
+        db.prepare('DELETE FROM seat_assignments WHERE table_id = ?').run(tableId);
+        db.prepare('DELETE FROM seating_tables WHERE id = ?').run(tableId);
+      });
+
+      transaction();
+      return true;
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('DELETE_TABLE_ERROR', error as Error, {table_id: tableId});
+      throw error;
+    }
+  }
+
+  /**
+   * Seat guests (and/or a whole household) at a table. Guests seated elsewhere
+   * are moved. Either every guest fits within the capacity or nobody is seated.
+   */
+  async assignSeats(tableId: number, request: SeatAssignmentRequest): Promise<TableRoster> {
+    const db = this.getDb();
+
+    try {
+      const table = await this.getTableById(tableId);
+      const guestIds = this.resolveGuestIds(request);
+
+      const current = db.prepare(`
+        SELECT sa.guest_id, t.id AS table_id, t.table_number
+        FROM seat_assignments sa
+        JOIN seating_tables t ON t.id = sa.table_id
+        WHERE sa.guest_id = ?
+      `);
+
+      const transaction = db.transaction(() => {
+        const toSeat = guestIds
+          .map(guestId => ({guestId, seat: current.get(guestId) as {table_id: number; table_number: number} | undefined}))
+          .filter(({seat}) => seat?.table_id !== tableId);
+
+        if (toSeat.length > table.available) {
+          throw new ConflictError(
+            `Table ${table.table_number} has ${table.available} free seats, ${toSeat.length} guests requested`
+          );
+        }
+
+        const upsertSeat = db.prepare(`
+          INSERT INTO seat_assignments (guest_id, table_id, assigned_at)
+          VALUES (?, ?, CURRENT_TIMESTAMP)
+          ON CONFLICT(guest_id) DO UPDATE SET table_id = excluded.table_id, assigned_at = excluded.assigned_at
+        `);
+
+        toSeat.forEach(({guestId, seat}) => {
+          upsertSeat.run(guestId, tableId);
+          this.logSeating(
+            guestId,
+            seat
+              ? `Moved from table ${seat.table_number} to table ${table.table_number}`
+              : `Seated at table ${table.table_number}`
+          );
+        });
+      });
+
+      transaction();
+      return this.getRoster(tableId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof ConflictError) {
+        throw error;
+      }
+      this.logError('ASSIGN_SEATS_ERROR', error as Error, {table_id: tableId, ...request});
+      throw error;
+    }
+  }
+
+  /**
+   * Unseat guests (and/or a household) from a table. Guests not seated at
+   * this table are left untouched.
+   */
+  async unassignSeats(tableId: number, request: SeatAssignmentRequest): Promise<TableRoster> {
+    const db = this.getDb();
+
+    try {
+      const table = await this.getTableById(tableId);
+      const guestIds = this.resolveGuestIds(request);
+
+      const transaction = db.transaction(() => {
+        const removeSeat = db.prepare('DELETE FROM seat_assignments WHERE guest_id = ? AND table_id = ?');
+
+        guestIds.forEach(guestId => {
+          if (removeSeat.run(guestId, tableId).changes > 0) {
+            this.logSeating(guestId, `Unseated from table ${table.table_number}`);
+          }
+        });
+      });
+
+      transaction();
+      return this.getRoster(tableId);
+
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        throw error;
+      }
+      this.logError('UNASSIGN_SEATS_ERROR', error as Error, {table_id: tableId, ...request});
+      throw error;
+    }
+  }
+
+  async getRoster(tableId: number): Promise<TableRoster> {
+    const db = this.getDb();
+
+    try {
+      const table = await this.getTableById(tableId);
+
+      const guests = db.prepare(`
+        SELECT
+          g.guest_id, g.english_name, g.khmer_name, g.guest_of,
+          g.household_id, h.name AS household_name, sa.assigned_at
+        FROM seat_assignments sa
+        JOIN guestlist g ON g.guest_id = sa.guest_id
+        LEFT JOIN households h ON h.id = g.household_id
+        WHERE sa.table_id = ?
+        ORDER BY g.guest_of, g.household_id IS NULL, g.household_id, g.english_name COLLATE NOCASE, g.guest_id
+      `).all(tableId) as SeatedGuest[];
+
+      const count = (side: SeatedGuest['guest_of']) => guests.filter(guest => guest.guest_of === side).length;
+
+      return {
+        table,
+        guests,
+        by_side: {
+          bride: count('Bride'),
+          groom: count('Groom'),
+          bride_parents: count('Bride_Parents'),
+          groom_parents: count('Groom_Parents'),
+        },
+      };
+
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      this.logError('GET_TABLE_ROSTER_ERROR', error as Error, {table_id: tableId});
+      throw error;
+    }
+  }
+
+  // Explicit guests plus the members of the given household, de-duplicated
+  private resolveGuestIds(request: SeatAssignmentRequest): string[] {
+    const db = this.getDb();
+    const guestIds = new Set<string>();
+
+    (request.guest_ids ?? []).forEach(guestId => {
+      this.assertGuestExists(guestId);
+      guestIds.add(guestId);
+    });
+
+    if (request.household_id !== undefined) {
+      const household = db.prepare('SELECT id FROM households WHERE id = ?').get(request.household_id);
+      if (!household) {
+        throw new NotFoundError('Household', request.household_id);
+      }
+
+      const members = db.prepare('SELECT guest_id FROM guestlist WHERE household_id = ? ORDER BY created_at, guest_id')
+        .all(request.household_id) as {guest_id: string}[];
+      members.forEach(member => guestIds.add(member.guest_id));
+    }
+
+    if (guestIds.size === 0) {
+      throw new ValidationError(`Household ${request.household_id} has no members`);
+    }
+
+    return [...guestIds];
+  }
+
+  private assertTableNumberFree(tableNumber: number): void {
+    const existing = this.getDb().prepare('SELECT id FROM seating_tables WHERE table_number = ?').get(tableNumber);
+    if (existing) {
+      throw new ConflictError(`Table number ${tableNumber} already exists`);
+    }
+  }
+
+  private logSeating(guestId: string, details: string): void {
+    this.getDb().prepare(`
+      INSERT INTO activity_logs (guest_id, action, details)
+      VALUES (?, ?, ?)
+    `).run(guestId, 'updated', details);
+  }
+}
@@ -1,20 +1,85 @@
 export const DATABASE_SCHEMA = {
+  // Events table - one row per ceremony in the wedding series
+  EVENTS_TABLE: `
+    CREATE TABLE IF NOT EXISTS events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      event_type TEXT NOT NULL CHECK(event_type IN ('engagement', 'hair_cutting', 'blessing', 'reception', 'other')),
+      event_date DATE,
+      venue TEXT,
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
+  // Households - a couple or family whose envelopes are thanked and reciprocated together
+  HOUSEHOLDS_TABLE: `
+    CREATE TABLE IF NOT EXISTS households (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      head_guest_id TEXT REFERENCES guestlist(guest_id) ON DELETE SET NULL,
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
   // Guest list table - Updated for gift/money tracking and search optimization
   GUESTLIST_TABLE: `
     CREATE TABLE IF NOT EXISTS guestlist (
       guest_id TEXT PRIMARY KEY,
       english_name TEXT COLLATE NOCASE,
       khmer_name TEXT,
+      khmer_name_normalized TEXT,
+      english_name_key TEXT,
+      khmer_name_key TEXT,
       amount_khr DECIMAL(12,2) DEFAULT 0,
       amount_usd DECIMAL(10,2) DEFAULT 0,
-      payment_method TEXT CHECK(payment_method IN ('QR_Code', 'Cash')),
       guest_of TEXT CHECK(guest_of IN ('Bride', 'Groom', 'Bride_Parents', 'Groom_Parents')) NOT NULL,
       is_duplicate BOOLEAN DEFAULT FALSE,
+      event_id INTEGER REFERENCES events(id) ON DELETE SET NULL,
+      household_id INTEGER REFERENCES households(id) ON DELETE SET NULL,
+      address TEXT,
+      village TEXT,
+      province TEXT,
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     )
   `,
 
+  // Full-text index over guest names, kept in sync by the guest_search_* triggers.
+  // The trigram tokenizer matches any substring of 3+ characters, so Khmer names
+  // (no spaces between words) are searchable the same way as English ones. The
+  // khmer_name column holds the normalised form (khmer_name_normalized). Each
+  // row shares the rowid of its guestlist row, so the triggers find it directly.
+  // Migrations 017, 018 and 021 index the guests already in guestlist.
+  GUEST_SEARCH_TABLE: `
+    CREATE VIRTUAL TABLE IF NOT EXISTS guest_search USING fts5(
+      english_name,
+      khmer_name,
+      tokenize = 'trigram'
+    )
+  `,
+
+  // Word-prefix index behind the typeahead (GET /guests/suggest), kept in sync
+  // by the guest_suggest_* triggers. Khmer marks count as letters so a Khmer
+  // word stays one token, and prefixes of up to 3 characters are indexed ahead
+  // so the first keystrokes are as cheap as the later ones. The Khmer name is
+  // indexed as typed (one token per word) and normalised (one token per name).
+  // Rows are keyed by guestlist rowid, as in guest_search. Migrations 020 and
+  // 022 index the guests already in guestlist.
+  GUEST_SUGGEST_TABLE: `
+    CREATE VIRTUAL TABLE IF NOT EXISTS guest_suggest USING fts5(
+      guest_id,
+      english_name,
+      khmer_name,
+      khmer_name_normalized,
+      tokenize = "unicode61 categories 'L* N* Co M*'",
+      prefix = '1 2 3'
+    )
+  `,
+
   // Activity logs table - Updated for gift tracking actions
   ACTIVITY_LOGS_TABLE: `
     CREATE TABLE IF NOT EXISTS activity_logs (
@@ -31,6 +96,221 @@ export const DATABASE_SCHEMA = {
     )
   `,
 
+  // Payment method registry - methods are disabled rather than deleted
+  PAYMENT_METHODS_TABLE: `
+    CREATE TABLE IF NOT EXISTS payment_methods (
+      code TEXT PRIMARY KEY,
+      label TEXT NOT NULL,
+      is_active BOOLEAN DEFAULT TRUE,
+      sort_order INTEGER DEFAULT 0,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
+  // Built-in payment methods, seeded once
+  PAYMENT_METHODS_SEED: `
+    INSERT OR IGNORE INTO payment_methods (code, label, sort_order) VALUES
+      ('QR_Code', 'QR Code', 10),
+      ('Cash', 'Cash', 20),
+      ('ABA', 'ABA Bank', 30),
+      ('ACLEDA', 'ACLEDA Bank', 40),
+      ('Wing', 'Wing', 50),
+      ('Bank_Transfer', 'Bank Transfer', 60),
+      ('Gold', 'Gold', 70)
+  `,
+
+  // Contributions ledger - one row per gift, guest totals are derived from it
+  CONTRIBUTIONS_TABLE: `
+    CREATE TABLE IF NOT EXISTS contributions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guest_id TEXT NOT NULL,
+      event_id INTEGER REFERENCES events(id),
+      amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+      currency TEXT NOT NULL CHECK (currency IN ('KHR', 'USD')),
+      payment_method TEXT REFERENCES payment_methods(code),
+      received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      note TEXT,
+      is_voided BOOLEAN DEFAULT FALSE,
+      voided_at TIMESTAMP,
+      void_reason TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+    )
+  `,
+
+  // In-kind gifts (gold, jewellery, goods) - kept apart from the money ledger
+  IN_KIND_GIFTS_TABLE: `
+    CREATE TABLE IF NOT EXISTS in_kind_gifts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guest_id TEXT NOT NULL,
+      event_id INTEGER REFERENCES events(id),
+      description TEXT NOT NULL,
+      quantity DECIMAL(10,3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+      unit TEXT,
+      estimated_value DECIMAL(12,2) CHECK (estimated_value IS NULL OR estimated_value >= 0),
+      estimated_currency TEXT CHECK (estimated_currency IN ('KHR', 'USD')),
+      must_return BOOLEAN DEFAULT FALSE,
+      return_by DATE,
+      received_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      note TEXT,
+      is_voided BOOLEAN DEFAULT FALSE,
+      voided_at TIMESTAMP,
+      void_reason TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+    )
+  `,
+
+  // Reciprocations - gifts we give back at the guest's family weddings
+  RECIPROCATIONS_TABLE: `
+    CREATE TABLE IF NOT EXISTS reciprocations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guest_id TEXT NOT NULL,
+      amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+      currency TEXT NOT NULL CHECK (currency IN ('KHR', 'USD')),
+      payment_method TEXT REFERENCES payment_methods(code),
+      occasion TEXT,
+      given_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      note TEXT,
+      is_voided BOOLEAN DEFAULT FALSE,
+      voided_at TIMESTAMP,
+      void_reason TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+    )
+  `,
+
+  // Door check-ins - undone check-ins are kept for the audit trail
+  CHECK_INS_TABLE: `
+    CREATE TABLE IF NOT EXISTS check_ins (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guest_id TEXT NOT NULL,
+      event_id INTEGER REFERENCES events(id),
+      checked_in_at TIMESTAMP NOT NULL,
+      device TEXT,
+      is_undone BOOLEAN DEFAULT FALSE,
+      undone_at TIMESTAMP,
+      undo_reason TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+    )
+  `,
+
+  // Invitation cards - at most one per guest, with the guest's RSVP
+  INVITATIONS_TABLE: `
+    CREATE TABLE IF NOT EXISTS invitations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guest_id TEXT NOT NULL UNIQUE,
+      delivered_by TEXT,
+      delivered_at DATE,
+      rsvp_status TEXT NOT NULL DEFAULT 'pending' CHECK (rsvp_status IN ('pending', 'attending', 'declined', 'maybe')),
+      party_size INTEGER NOT NULL DEFAULT 1 CHECK (party_size >= 1),
+      rsvp_at TIMESTAMP,
+      note TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+    )
+  `,
+
+  // Reception tables - numbered, with a seat capacity (ten by default)
+  SEATING_TABLES_TABLE: `
+    CREATE TABLE IF NOT EXISTS seating_tables (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      table_number INTEGER NOT NULL UNIQUE CHECK (table_number > 0),
+      label TEXT,
+      capacity INTEGER NOT NULL DEFAULT 10 CHECK (capacity > 0),
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
+  // One seat per guest; deleting a table unseats its guests
+  SEAT_ASSIGNMENTS_TABLE: `
+    CREATE TABLE IF NOT EXISTS seat_assignments (
+      guest_id TEXT PRIMARY KEY,
+      table_id INTEGER NOT NULL,
+      assigned_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE,
+      FOREIGN KEY (table_id) REFERENCES seating_tables(id) ON DELETE CASCADE
+    )
+  `,
+
+  // Guest phone numbers, normalised to +855 form and kept in the order given
+  GUEST_PHONES_TABLE: `
+    CREATE TABLE IF NOT EXISTS guest_phones (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      guest_id TEXT NOT NULL,
+      phone TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (guest_id, phone),
+      FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+    )
+  `,
+
+  // Free-form guest tags ("coworker", "village", "VIP"), matched case-insensitively
+  GUEST_TAGS_TABLE: `
+    CREATE TABLE IF NOT EXISTS guest_tags (
+      guest_id TEXT NOT NULL,
+      tag TEXT NOT NULL COLLATE NOCASE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (guest_id, tag),
+      FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE
+    )
+  `,
+
+  // Admin-defined guest fields; choice fields list their allowed options as a JSON array
+  CUSTOM_FIELDS_TABLE: `
+    CREATE TABLE IF NOT EXISTS custom_fields (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      label TEXT NOT NULL,
+      field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'choice')),
+      options TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
+  // A guest's value for a custom field, stored as text (dates as YYYY-MM-DD)
+  GUEST_FIELD_VALUES_TABLE: `
+    CREATE TABLE IF NOT EXISTS guest_field_values (
+      guest_id TEXT NOT NULL,
+      field_id INTEGER NOT NULL,
+      value TEXT NOT NULL,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (guest_id, field_id),
+      FOREIGN KEY (guest_id) REFERENCES guestlist(guest_id) ON DELETE CASCADE,
+      FOREIGN KEY (field_id) REFERENCES custom_fields(id) ON DELETE CASCADE
+    )
+  `,
+
+  // Saved column mappings for importing spreadsheets with their own headers (JSON maps)
+  IMPORT_PROFILES_TABLE: `
+    CREATE TABLE IF NOT EXISTS import_profiles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      column_map TEXT NOT NULL,
+      value_map TEXT NOT NULL DEFAULT '{}',
+      id_prefix TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
+  // Exchange rates - a rate applies from effective_from until the next one takes over
+  EXCHANGE_RATES_TABLE: `
+    CREATE TABLE IF NOT EXISTS exchange_rates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      usd_to_khr DECIMAL(10,2) NOT NULL CHECK (usd_to_khr > 0),
+      effective_from TIMESTAMP NOT NULL,
+      note TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `,
+
   // Error logs table - Keep as is
   ERROR_LOGS_TABLE: `
     CREATE TABLE IF NOT EXISTS error_logs (
@@ -53,7 +333,6 @@ export const DATABASE_SCHEMA = {
     'CREATE INDEX IF NOT EXISTS idx_guestlist_english_name ON guestlist(english_name)',
     'CREATE INDEX IF NOT EXISTS idx_guestlist_khmer_name ON guestlist(khmer_name)',
     'CREATE INDEX IF NOT EXISTS idx_guestlist_guest_of ON guestlist(guest_of)',
-    'CREATE INDEX IF NOT EXISTS idx_guestlist_payment_method ON guestlist(payment_method)',
     'CREATE INDEX IF NOT EXISTS idx_guestlist_is_duplicate ON guestlist(is_duplicate)',
     'CREATE INDEX IF NOT EXISTS idx_guestlist_amount_khr ON guestlist(amount_khr)',
     'CREATE INDEX IF NOT EXISTS idx_guestlist_amount_usd ON guestlist(amount_usd)',
@@ -64,11 +343,31 @@ export const DATABASE_SCHEMA = {
     'CREATE INDEX IF NOT EXISTS idx_guestlist_name_lower ON guestlist(LOWER(name))',
     'CREATE INDEX IF NOT EXISTS idx_guestlist_english_name_lower ON guestlist(LOWER(english_name))',
     'CREATE INDEX IF NOT EXISTS idx_guestlist_khmer_name_lower ON guestlist(LOWER(khmer_name))',
+    'CREATE INDEX IF NOT EXISTS idx_guestlist_khmer_name_normalized ON guestlist(khmer_name_normalized)',
     
     // Composite indexes for common search patterns
     'CREATE INDEX IF NOT EXISTS idx_guestlist_search_active ON guestlist(is_duplicate, created_at) WHERE is_duplicate = 0',
     'CREATE INDEX IF NOT EXISTS idx_guestlist_guest_of_active ON guestlist(guest_of, is_duplicate) WHERE is_duplicate = 0',
     
+    // Contribution ledger indexes
+    'CREATE INDEX IF NOT EXISTS idx_contributions_guest_active ON contributions(guest_id, is_voided)',
+    'CREATE INDEX IF NOT EXISTS idx_contributions_received_at ON contributions(received_at)',
+    'CREATE INDEX IF NOT EXISTS idx_contributions_payment_method ON contributions(payment_method)',
+    'CREATE INDEX IF NOT EXISTS idx_contributions_event_id ON contributions(event_id)',
+    'CREATE INDEX IF NOT EXISTS idx_guestlist_event_id ON guestlist(event_id)',
+    'CREATE INDEX IF NOT EXISTS idx_in_kind_gifts_guest_active ON in_kind_gifts(guest_id, is_voided)',
+    'CREATE INDEX IF NOT EXISTS idx_in_kind_gifts_event_id ON in_kind_gifts(event_id)',
+    'CREATE INDEX IF NOT EXISTS idx_reciprocations_guest_active ON reciprocations(guest_id, is_voided)',
+    'CREATE INDEX IF NOT EXISTS idx_guestlist_household_id ON guestlist(household_id)',
+    'CREATE INDEX IF NOT EXISTS idx_check_ins_guest_active ON check_ins(guest_id, is_undone)',
+    'CREATE INDEX IF NOT EXISTS idx_check_ins_event_id ON check_ins(event_id)',
+    'CREATE INDEX IF NOT EXISTS idx_invitations_rsvp_status ON invitations(rsvp_status)',
+    'CREATE INDEX IF NOT EXISTS idx_seat_assignments_table_id ON seat_assignments(table_id)',
+    'CREATE INDEX IF NOT EXISTS idx_guest_phones_phone ON guest_phones(phone)',
+    'CREATE INDEX IF NOT EXISTS idx_guest_tags_tag ON guest_tags(tag)',
+    'CREATE INDEX IF NOT EXISTS idx_guest_field_values_field ON guest_field_values(field_id, value)',
+    'CREATE INDEX IF NOT EXISTS idx_exchange_rates_effective_from ON exchange_rates(effective_from)',
+
     // Activity and error log indexes
     'CREATE INDEX IF NOT EXISTS idx_activity_logs_guest_id ON activity_logs(guest_id)',
     'CREATE INDEX IF NOT EXISTS idx_activity_logs_timestamp ON activity_logs(timestamp)',
@@ -77,7 +376,7 @@ export const DATABASE_SCHEMA = {
     'CREATE INDEX IF NOT EXISTS idx_error_logs_error_type ON error_logs(error_type)',
   ],
 
-  // Triggers for updated_at and activity logging
+  // Triggers for updated_at, activity logging and the search index
   TRIGGERS: [
     `CREATE TRIGGER IF NOT EXISTS update_guestlist_timestamp 
      AFTER UPDATE ON guestlist
@@ -96,5 +395,54 @@ export const DATABASE_SCHEMA = {
        VALUES (NEW.guest_id, 'updated', OLD.amount_khr, NEW.amount_khr, OLD.amount_usd, NEW.amount_usd, 
                'Guest information updated');
      END`,
+
+    `CREATE TRIGGER IF NOT EXISTS guest_search_insert
+     AFTER INSERT ON guestlist
+     FOR EACH ROW
+     BEGIN
+       INSERT INTO guest_search (rowid, english_name, khmer_name)
+       VALUES (NEW.rowid, NEW.english_name, COALESCE(NEW.khmer_name_normalized, NEW.khmer_name));
+     END`,
+
+    `CREATE TRIGGER IF NOT EXISTS guest_search_update
+     AFTER UPDATE OF english_name, khmer_name, khmer_name_normalized ON guestlist
+     FOR EACH ROW
+     BEGIN
+       UPDATE guest_search
+       SET english_name = NEW.english_name, khmer_name = COALESCE(NEW.khmer_name_normalized, NEW.khmer_name)
+       WHERE rowid = NEW.rowid;
+     END`,
+
+    `CREATE TRIGGER IF NOT EXISTS guest_search_delete
+     AFTER DELETE ON guestlist
+     FOR EACH ROW
+     BEGIN
+       DELETE FROM guest_search WHERE rowid = OLD.rowid;
+     END`,
+
+    `CREATE TRIGGER IF NOT EXISTS guest_suggest_insert
+     AFTER INSERT ON guestlist
+     FOR EACH ROW
+     BEGIN
+       INSERT INTO guest_suggest (rowid, guest_id, english_name, khmer_name, khmer_name_normalized)
+       VALUES (NEW.rowid, NEW.guest_id, NEW.english_name, NEW.khmer_name, NEW.khmer_name_normalized);
+     END`,
+
+    `CREATE TRIGGER IF NOT EXISTS guest_suggest_update
+     AFTER UPDATE OF guest_id, english_name, khmer_name, khmer_name_normalized ON guestlist
+     FOR EACH ROW
+     BEGIN
+       UPDATE guest_suggest
+       SET guest_id = NEW.guest_id, english_name = NEW.english_name,
+           khmer_name = NEW.khmer_name, khmer_name_normalized = NEW.khmer_name_normalized
+       WHERE rowid = NEW.rowid;
+     END`,
+
+    `CREATE TRIGGER IF NOT EXISTS guest_suggest_delete
+     AFTER DELETE ON guestlist
+     FOR EACH ROW
+     BEGIN
+       DELETE FROM guest_suggest WHERE rowid = OLD.rowid;
+     END`,
   ],
 };
\ No newline at end of file
@@ -0,0 +1,30 @@
+import {DatabaseService} from '../database/database.service';
+
+// Consistent copy of the live database through the SQLite backup API,
+// written to data/backups/manual_<timestamp>.db
+async function backupDatabase() {
+  try {
+    const dbService = DatabaseService.getInstance();
+    await dbService.initialize();
+
+    const backupPath = await dbService.createBackup();
+    console.log(`✅ Backup written to ${backupPath}`);
+
+    await dbService.close();
+    process.exit(0);
+
+  } catch (error) {
+    console.error('❌ Database backup failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  backupDatabase().catch(err => {
+    console.error('❌ Database backup failed:', err);
+    process.exit(1);
+  });
+}
+
+export {backupDatabase};
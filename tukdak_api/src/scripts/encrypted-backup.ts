@@ -0,0 +1,82 @@
+import * as readline from 'readline';
+import {DatabaseService} from '../database/database.service';
+import {BackupService} from '../services/backup-service';
+
+// readline's internal echo hook, replaced to hide the passphrase as it is typed
+type MutableInterface = readline.Interface & {_writeToOutput: (text: string) => void};
+
+// Ask without echoing. BACKUP_PASSPHRASE skips the prompt for unattended use.
+async function readPassphrase(prompt: string): Promise<string> {
+  if (process.env.BACKUP_PASSPHRASE) {
+    return process.env.BACKUP_PASSPHRASE;
+  }
+
+  const rl = readline.createInterface({input: process.stdin, output: process.stdout, terminal: process.stdin.isTTY});
+  let muted = false;
+  (rl as MutableInterface)._writeToOutput = (text: string) => {
+    if (!muted || text.includes('\n')) {
+      process.stdout.write(muted ? '\n' : text);
+    }
+  };
+
+  return new Promise(resolve => {
+    rl.question(prompt, answer => {
+      rl.close();
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+async function main() {
+  const [command, target] = process.argv.slice(2);
+
+  if (!['export', 'restore'].includes(command) || !target) {
+    console.log('Usage: npm run db:backup:encrypted -- <file or directory>');
+    console.log('       npm run db:restore:encrypted -- <file>');
+    console.log('  export  - Write a passphrase-encrypted copy of the database, e.g. onto a USB stick');
+    console.log('  restore - Decrypt such a copy and replace all data with it (a pre-restore backup is kept)');
+    process.exit(1);
+  }
+
+  const dbService = DatabaseService.getInstance();
+
+  try {
+    await dbService.initialize();
+    const backupService = new BackupService();
+
+    if (command === 'export') {
+      const passphrase = await readPassphrase('Passphrase: ');
+      if (!process.env.BACKUP_PASSPHRASE && passphrase !== await readPassphrase('Repeat passphrase: ')) {
+        throw new Error('Passphrases do not match');
+      }
+
+      const result = await backupService.createEncryptedBackup(target, passphrase);
+      console.log(`🔒 Encrypted backup written to ${result.file_path} (${Math.round(result.size_bytes / 1024)} KB)`);
+    } else {
+      const passphrase = await readPassphrase('Passphrase: ');
+      const result = await backupService.restoreEncryptedBackup(target, passphrase);
+
+      console.log(`💾 Previous data saved to ${result.pre_restore_backup}`);
+      console.log(`✅ Restored backup from ${result.snapshot_created_at}:`);
+      Object.entries(result.tables)
+        .filter(([, rows]) => rows > 0)
+        .forEach(([table, rows]) => console.log(`   ${table}: ${rows}`));
+    }
+
+    await dbService.close();
+    process.exit(0);
+
+  } catch (error) {
+    console.error(`❌ Encrypted backup ${command} failed:`, (error as Error).message);
+    await dbService.close();
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main().catch(err => {
+    console.error('❌ Encrypted backup failed:', err);
+    process.exit(1);
+  });
+}
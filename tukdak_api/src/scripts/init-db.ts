@@ -48,8 +48,13 @@ async function initializeDatabase() {
 async function insertSampleData(db: any) {
   const insertGuest = db.prepare(`
     INSERT INTO guestlist 
-    (guest_id, name, english_name, khmer_name, amount_khr, amount_usd, payment_method, guest_of, is_duplicate) 
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (guest_id, english_name, khmer_name, guest_of, is_duplicate) 
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  const insertContribution = db.prepare(`
+    INSERT INTO contributions (guest_id, amount, currency, payment_method)
+    VALUES (?, ?, ?, ?)
   `);
 
   const insertActivity = db.prepare(`
@@ -74,8 +79,8 @@ async function insertSampleData(db: any) {
   const transaction = db.transaction(() => {
     sampleGuests.forEach((guest) => {
       try {
-        const result = insertGuest.run(...guest);
         const guestId = guest[0] as string;
+        insertGuest.run(guestId, guest[2], guest[3], guest[7], guest[8]);
         
         // Log the creation
         insertActivity.run(guestId, 'created', 'Sample guest created during initialization');
@@ -86,6 +91,13 @@ async function insertSampleData(db: any) {
         const isDuplicate = guest[8] as number;
         const paymentMethod = guest[6] as string | null;
         
+        if (amountKhr > 0) {
+          insertContribution.run(guestId, amountKhr, 'KHR', paymentMethod);
+        }
+        if (amountUsd > 0) {
+          insertContribution.run(guestId, amountUsd, 'USD', paymentMethod);
+        }
+
         if (amountKhr > 0 || amountUsd > 0) {
           insertActivity.run(
             guestId, 
@@ -115,14 +127,15 @@ async function insertSampleData(db: any) {
   // Display summary
   const summary = db.prepare(`
     SELECT 
-      COUNT(*) as total_guests,
-      SUM(amount_khr) as total_khr,
-      SUM(amount_usd) as total_usd,
-      COUNT(CASE WHEN amount_khr > 0 OR amount_usd > 0 THEN 1 END) as paid_guests,
+      (SELECT COUNT(*) FROM guestlist) as total_guests,
+      SUM(CASE WHEN currency = 'KHR' THEN amount ELSE 0 END) as total_khr,
+      SUM(CASE WHEN currency = 'USD' THEN amount ELSE 0 END) as total_usd,
+      COUNT(DISTINCT guest_id) as paid_guests,
       COUNT(CASE WHEN payment_method = 'QR_Code' THEN 1 END) as qr_payments,
       COUNT(CASE WHEN payment_method = 'Cash' THEN 1 END) as cash_payments,
-      COUNT(CASE WHEN is_duplicate = 1 THEN 1 END) as duplicates
-    FROM guestlist
+      (SELECT COUNT(*) FROM guestlist WHERE is_duplicate = 1) as duplicates
+    FROM contributions
+    WHERE is_voided = 0
   `).get();
   
   console.log('📊 Sample data summary:', summary);
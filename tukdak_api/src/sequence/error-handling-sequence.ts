@@ -29,7 +29,11 @@ export class ErrorHandlingSequence implements SequenceHandler {
       const args = await this.parseParams(request, route);
       const result = await this.invoke(route, args);
 
-      // Wrap successful responses in standard format
+      // Wrap successful responses in standard format. Downloads write the
+      // response themselves and return it.
+      if (result === response) {
+        return;
+      }
       if (result && typeof result === 'object' && !result.success) {
         const wrappedResult = {
           success: true,
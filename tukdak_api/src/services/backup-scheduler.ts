@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DatabaseService } from '../database/database.service';
+import { BackupScheduleConfig, BackupScheduleStatus } from '../types/backup.types';
+import { backupFileName, backupsToPrune, parseBackupFileName } from '../utils/backup-files';
+
+const DEFAULT_CONFIG: BackupScheduleConfig = {
+  interval_minutes: 60,
+  every_writes: 25,
+  keep_hourly: 24,
+  keep_daily: 7,
+};
+
+const ENV_VARIABLES: Record<keyof BackupScheduleConfig, string> = {
+  interval_minutes: 'BACKUP_INTERVAL_MINUTES',
+  every_writes: 'BACKUP_EVERY_WRITES',
+  keep_hourly: 'BACKUP_KEEP_HOURLY',
+  keep_daily: 'BACKUP_KEEP_DAILY',
+};
+
+/**
+ * Writes automatic SQLite backups to data/backups on a fixed interval and
+ * after every N money-changing writes, then prunes them down to the rotation.
+ * Services report their writes through recordMoneyWrites; nothing happens
+ * until the application has started the scheduler.
+ */
+export class BackupScheduler {
+  private static instance: BackupScheduler;
+  private config: BackupScheduleConfig = { ...DEFAULT_CONFIG };
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private writesSinceLastBackup = 0;
+  private lastBackupAt: Date | null = null;
+  private inFlight: Promise<string | null> | null = null;
+
+  static getInstance(): BackupScheduler {
+    if (!BackupScheduler.instance) {
+      BackupScheduler.instance = new BackupScheduler();
+    }
+    return BackupScheduler.instance;
+  }
+
+  // Read BACKUP_INTERVAL_MINUTES, BACKUP_EVERY_WRITES, BACKUP_KEEP_HOURLY and BACKUP_KEEP_DAILY
+  static configFromEnv(env: NodeJS.ProcessEnv = process.env): BackupScheduleConfig {
+    const config = { ...DEFAULT_CONFIG };
+
+    (Object.keys(ENV_VARIABLES) as (keyof BackupScheduleConfig)[]).forEach(key => {
+      const raw = env[ENV_VARIABLES[key]];
+      if (raw === undefined || raw.trim() === '') {
+        return;
+      }
+
+      const value = Number(raw);
+      if (Number.isInteger(value) && value >= 0) {
+        config[key] = value;
+      } else {
+        console.warn(`⚠️  Ignoring ${ENV_VARIABLES[key]}=${raw}, expected a whole number`);
+      }
+    });
+
+    return config;
+  }
+
+  start(config: BackupScheduleConfig = BackupScheduler.configFromEnv()): void {
+    this.stopTimer();
+    this.config = { ...config };
+    this.running = true;
+    this.writesSinceLastBackup = 0;
+
+    if (this.config.interval_minutes > 0) {
+      this.timer = setInterval(() => {
+        this.runBackup().catch(error => console.error('Automatic backup failed:', error));
+      }, this.config.interval_minutes * 60 * 1000);
+      this.timer.unref();
+    }
+
+    console.log(
+      `💾 Automatic backups: every ${this.config.interval_minutes || '-'} min / ${this.config.every_writes || '-'} money writes, ` +
+      `keeping ${this.config.keep_hourly} hourly and ${this.config.keep_daily} daily`
+    );
+  }
+
+  // Stop scheduling and let a backup that is already being written finish
+  async stop(): Promise<void> {
+    this.stopTimer();
+    this.running = false;
+    if (this.inFlight) {
+      await this.inFlight;
+    }
+  }
+
+  /**
+   * Count money-changing writes (gifts recorded or voided, amounts corrected,
+   * imports) and start a backup once every_writes have accumulated.
+   */
+  recordMoneyWrites(count: number = 1): void {
+    if (!this.running || count <= 0) {
+      return;
+    }
+
+    this.writesSinceLastBackup += count;
+    if (this.config.every_writes > 0 && this.writesSinceLastBackup >= this.config.every_writes) {
+      this.runBackup().catch(error => console.error('Automatic backup failed:', error));
+    }
+  }
+
+  /**
+   * Write one automatic backup and prune the old ones. Failures are logged,
+   * never thrown: a backup problem must not fail the request that triggered it.
+   * Resolves to the new file, or null if none was written.
+   */
+  async runBackup(): Promise<string | null> {
+    if (this.inFlight) {
+      return this.inFlight;
+    }
+
+    this.inFlight = (async () => {
+      try {
+        const dbService = DatabaseService.getInstance();
+        const backupPath = await dbService.createBackup(
+          path.join(dbService.getBackupDirectory(), backupFileName('automatic'))
+        );
+
+        this.writesSinceLastBackup = 0;
+        this.lastBackupAt = new Date();
+        this.prune(dbService.getBackupDirectory());
+        return backupPath;
+
+      } catch (error) {
+        console.error('Automatic backup failed:', error);
+        return null;
+
+      } finally {
+        this.inFlight = null;
+      }
+    })();
+
+    return this.inFlight;
+  }
+
+  getStatus(): BackupScheduleStatus {
+    return {
+      ...this.config,
+      running: this.running,
+      writes_since_last_backup: this.writesSinceLastBackup,
+      last_backup_at: this.lastBackupAt ? this.lastBackupAt.toISOString() : null,
+    };
+  }
+
+  // Only automatic backups rotate; pre-restore and manual copies are kept until removed by hand
+  private prune(backupDir: string): void {
+    const automatic = fs.readdirSync(backupDir)
+      .map(parseBackupFileName)
+      .filter(backup => backup?.kind === 'automatic')
+      .map(backup => backup!);
+
+    backupsToPrune(automatic, this.config.keep_hourly, this.config.keep_daily).forEach(backup => {
+      fs.unlinkSync(path.join(backupDir, backup.file_name));
+    });
+  }
+
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
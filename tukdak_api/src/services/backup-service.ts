@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { DatabaseService } from '../database/database.service';
+import { BACKUP_TABLES, BackupRepository } from '../repositories/backup-repository';
+import { BackupScheduler } from './backup-scheduler';
+import {
+  BackupFile,
+  BackupListing,
+  BackupSnapshot,
+  EncryptedBackupResult,
+  RestoreResult
+} from '../types/backup.types';
+import { ValidationError } from '../errors/custom-errors';
+import { backupFileName, parseBackupFileName } from '../utils/backup-files';
+import { decryptBackup, encryptBackup, MIN_PASSPHRASE_LENGTH, readBackupHeader } from '../utils/backup-crypto';
+
+// Version of the backed-up tables' layout, named after the migration that last
+// changed one of them (023). Bump it with any such migration so older
+// snapshots are refused rather than restored into the wrong columns.
+export const BACKUP_SCHEMA_VERSION = 23;
+export const BACKUP_FORMAT = 'tukdak-backup';
+
+type ValidationDetail = { field: string; message: string; value?: any; code?: string };
+
+export class BackupService {
+  private backupRepository: BackupRepository;
+
+  constructor() {
+    this.backupRepository = new BackupRepository();
+  }
+
+  async createSnapshot(): Promise<BackupSnapshot> {
+    const tables = await this.backupRepository.readTables();
+
+    return {
+      format: BACKUP_FORMAT,
+      schema_version: BACKUP_SCHEMA_VERSION,
+      created_at: new Date().toISOString(),
+      tables,
+    };
+  }
+
+  /**
+   * Copy the database file with the SQLite backup API into a temporary file.
+   * The caller removes it once it has been sent.
+   */
+  async createSqliteBackup(): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    return DatabaseService.getInstance().createBackup(path.join(os.tmpdir(), `tukdak-backup_${timestamp}.db`));
+  }
+
+  /**
+   * Replace all data with a JSON snapshot. The current database is first
+   * copied to data/backups/pre-restore_<timestamp>.db, then every table is
+   * emptied and refilled in one transaction.
+   */
+  async restoreSnapshot(snapshot: unknown): Promise<RestoreResult> {
+    const validated = this.validateSnapshot(snapshot);
+
+    const dbService = DatabaseService.getInstance();
+    const preRestoreBackup = await dbService.createBackup(
+      path.join(dbService.getBackupDirectory(), backupFileName('pre-restore'))
+    );
+
+    const tables = await this.backupRepository.replaceTables(validated.tables);
+
+    return {
+      schema_version: validated.schema_version,
+      snapshot_created_at: validated.created_at,
+      restored_at: new Date().toISOString(),
+      pre_restore_backup: preRestoreBackup,
+      tables,
+    };
+  }
+
+  /**
+   * Write a passphrase-encrypted copy of the database, taken with the SQLite
+   * backup API. outputPath may be a directory, in which case the file is
+   * named tukdak-backup_<timestamp>.db.enc. The plain copy never leaves the
+   * temp directory and is removed straight away.
+   */
+  async createEncryptedBackup(outputPath: string, passphrase: string): Promise<EncryptedBackupResult> {
+    this.validatePassphrase(passphrase);
+
+    const createdAt = new Date();
+    const filePath = fs.existsSync(outputPath) && fs.statSync(outputPath).isDirectory()
+      ? path.join(outputPath, `tukdak-backup_${createdAt.toISOString().replace(/[:.]/g, '-')}.db.enc`)
+      : outputPath;
+
+    const plainPath = await this.createSqliteBackup();
+    try {
+      const encrypted = await encryptBackup(fs.readFileSync(plainPath), passphrase, {
+        schema_version: BACKUP_SCHEMA_VERSION,
+        created_at: createdAt.toISOString(),
+      });
+      fs.writeFileSync(filePath, encrypted, { mode: 0o600 });
+
+      return {
+        file_path: filePath,
+        size_bytes: encrypted.length,
+        schema_version: BACKUP_SCHEMA_VERSION,
+        created_at: createdAt.toISOString(),
+      };
+    } finally {
+      fs.rmSync(plainPath, { force: true });
+    }
+  }
+
+  /**
+   * Decrypt a file from createEncryptedBackup and restore it exactly like a
+   * JSON snapshot: schema version check, pre-restore backup, one transaction.
+   */
+  async restoreEncryptedBackup(filePath: string, passphrase: string): Promise<RestoreResult> {
+    if (!fs.existsSync(filePath)) {
+      throw new ValidationError(`Backup file ${filePath} does not exist`);
+    }
+
+    const file = fs.readFileSync(filePath);
+    const { header } = readBackupHeader(file);
+    if (header.schema_version !== BACKUP_SCHEMA_VERSION) {
+      throw new ValidationError(
+        `Backup was taken under schema version ${header.schema_version}, this server is at ${BACKUP_SCHEMA_VERSION}`
+      );
+    }
+
+    const { payload } = await decryptBackup(file, passphrase);
+    const plainPath = path.join(os.tmpdir(), `tukdak-restore_${Date.now()}_${process.pid}.db`);
+    let backup: Database.Database | null = null;
+
+    try {
+      fs.writeFileSync(plainPath, payload, { mode: 0o600 });
+      backup = new Database(plainPath, { readonly: true, fileMustExist: true });
+      const tables = await this.backupRepository.readTables(backup);
+
+      return await this.restoreSnapshot({
+        format: BACKUP_FORMAT,
+        schema_version: header.schema_version,
+        created_at: header.created_at,
+        tables,
+      });
+    } finally {
+      backup?.close();
+      fs.rmSync(plainPath, { force: true });
+    }
+  }
+
+  /**
+   * Backup files in data/backups, newest first, with the number of guests
+   * each one holds, plus the state of the automatic schedule.
+   */
+  async listBackups(): Promise<BackupListing> {
+    const backupDir = DatabaseService.getInstance().getBackupDirectory();
+
+    const backups: BackupFile[] = fs.readdirSync(backupDir)
+      .map(parseBackupFileName)
+      .filter(backup => backup !== null)
+      .map(backup => {
+        const filePath = path.join(backupDir, backup!.file_name);
+        return {
+          file_name: backup!.file_name,
+          kind: backup!.kind,
+          created_at: backup!.created_at.toISOString(),
+          size_bytes: fs.statSync(filePath).size,
+          guest_count: this.countGuests(filePath),
+        };
+      })
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+    return {
+      schedule: BackupScheduler.getInstance().getStatus(),
+      backups,
+    };
+  }
+
+  private countGuests(filePath: string): number | null {
+    let backup: Database.Database | null = null;
+
+    try {
+      backup = new Database(filePath, { readonly: true, fileMustExist: true });
+      const result = backup.prepare('SELECT COUNT(*) AS count FROM guestlist').get() as { count: number };
+      return result.count;
+    } catch (error) {
+      return null;
+    } finally {
+      backup?.close();
+    }
+  }
+
+  private validatePassphrase(passphrase: string): void {
+    if (typeof passphrase !== 'string' || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new ValidationError('Validation failed', [{
+        field: 'passphrase',
+        message: `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+        code: 'INVALID_VALUE'
+      }]);
+    }
+  }
+
+  private validateSnapshot(snapshot: unknown): BackupSnapshot {
+    if (!this.isObject(snapshot)) {
+      throw new ValidationError('Validation failed', [
+        { field: 'snapshot', message: 'Snapshot must be a JSON object', code: 'INVALID_TYPE' }
+      ]);
+    }
+
+    const details: ValidationDetail[] = [];
+
+    if (snapshot.format !== BACKUP_FORMAT) {
+      details.push({ field: 'format', message: `Format must be ${BACKUP_FORMAT}`, value: snapshot.format, code: 'INVALID_VALUE' });
+    }
+
+    if (snapshot.schema_version === undefined) {
+      details.push({ field: 'schema_version', message: 'Schema version is required', code: 'REQUIRED' });
+    } else if (!Number.isInteger(snapshot.schema_version)) {
+      details.push({ field: 'schema_version', message: 'Schema version must be an integer', value: snapshot.schema_version, code: 'INVALID_TYPE' });
+    } else if (snapshot.schema_version !== BACKUP_SCHEMA_VERSION) {
+      details.push({
+        field: 'schema_version',
+        message: `Snapshot was taken under schema version ${snapshot.schema_version}, this server is at ${BACKUP_SCHEMA_VERSION}`,
+        value: snapshot.schema_version,
+        code: 'INVALID_VALUE'
+      });
+    }
+
+    if (typeof snapshot.created_at !== 'string' || isNaN(Date.parse(snapshot.created_at))) {
+      details.push({ field: 'created_at', message: 'Created at must be an ISO timestamp', value: snapshot.created_at, code: 'INVALID_VALUE' });
+    }
+
+    if (!this.isObject(snapshot.tables)) {
+      details.push({ field: 'tables', message: 'Tables must be an object of row arrays', code: 'INVALID_TYPE' });
+    } else {
+      details.push(...this.validateTables(snapshot.tables));
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return snapshot as unknown as BackupSnapshot;
+  }
+
+  private validateTables(tables: Record<string, unknown>): ValidationDetail[] {
+    const details: ValidationDetail[] = [];
+
+    Object.keys(tables)
+      .filter(table => !BACKUP_TABLES.includes(table))
+      .forEach(table => details.push({ field: 'tables', message: `Unknown table ${table}`, value: table, code: 'INVALID_VALUE' }));
+
+    BACKUP_TABLES.forEach(table => {
+      const rows = tables[table];
+
+      if (rows === undefined) {
+        details.push({ field: `tables.${table}`, message: `Table ${table} is missing`, code: 'REQUIRED' });
+        return;
+      }
+      if (!Array.isArray(rows)) {
+        details.push({ field: `tables.${table}`, message: 'Rows must be an array', code: 'INVALID_TYPE' });
+        return;
+      }
+
+      // SQLite columns only hold text, numbers and NULL
+      const badRow = rows.findIndex(row =>
+        !this.isObject(row) ||
+        Object.values(row).some(value => value !== null && typeof value !== 'string' && typeof value !== 'number')
+      );
+      if (badRow !== -1) {
+        details.push({
+          field: `tables.${table}[${badRow}]`,
+          message: 'Rows must be objects of text, number or null values',
+          code: 'INVALID_TYPE'
+        });
+      }
+    });
+
+    return details;
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
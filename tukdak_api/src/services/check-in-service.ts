@@ -0,0 +1,93 @@
+import { CheckInRepository } from '../repositories/check-in-repository';
+import {
+  BulkCheckInRequest,
+  BulkCheckInResult,
+  CheckIn,
+  CheckInFilters,
+  CheckInRequest,
+  UndoCheckInRequest
+} from '../types/check-in.types';
+import { ValidationError } from '../errors/custom-errors';
+
+const MAX_BULK_CHECK_INS = 500;
+
+export class CheckInService {
+  private checkInRepository: CheckInRepository;
+
+  constructor() {
+    this.checkInRepository = new CheckInRepository();
+  }
+
+  async checkIn(guestId: string, data: CheckInRequest = {}): Promise<CheckIn> {
+    this.validateGuestId(guestId);
+    this.validateCheckInData(data);
+    return this.checkInRepository.checkIn(guestId, data);
+  }
+
+  async bulkCheckIn(data: BulkCheckInRequest): Promise<BulkCheckInResult> {
+    const details = this.collectCheckInErrors(data);
+
+    if (!Array.isArray(data.guest_ids) || data.guest_ids.length === 0) {
+      details.push({ field: 'guest_ids', message: 'At least one guest ID is required', code: 'REQUIRED' });
+    } else if (data.guest_ids.length > MAX_BULK_CHECK_INS) {
+      details.push({ field: 'guest_ids', message: `At most ${MAX_BULK_CHECK_INS} guests can be checked in at once`, value: data.guest_ids.length, code: 'INVALID_VALUE' });
+    } else {
+      data.guest_ids.forEach((guestId, index) => {
+        if (typeof guestId !== 'string' || guestId.trim().length === 0) {
+          details.push({ field: `guest_ids[${index}]`, message: 'Guest ID must be a non-empty string', value: guestId, code: 'INVALID_TYPE' });
+        }
+      });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.checkInRepository.bulkCheckIn(data);
+  }
+
+  async undoCheckIn(guestId: string, data: UndoCheckInRequest = {}): Promise<CheckIn> {
+    this.validateGuestId(guestId);
+    if (data.event_id !== undefined && (!Number.isInteger(data.event_id) || data.event_id < 1)) {
+      throw new ValidationError('Valid event ID is required');
+    }
+    return this.checkInRepository.undoCheckIn(guestId, {
+      ...data,
+      ...(data.reason !== undefined ? { reason: data.reason.trim() || undefined } : {})
+    });
+  }
+
+  async getCheckIns(guestId: string, filters?: CheckInFilters): Promise<CheckIn[]> {
+    this.validateGuestId(guestId);
+    return this.checkInRepository.getCheckInsByGuest(guestId, filters);
+  }
+
+  private validateGuestId(guestId: string): void {
+    if (!guestId || typeof guestId !== 'string' || guestId.trim().length === 0) {
+      throw new ValidationError('Valid guest ID is required');
+    }
+  }
+
+  private validateCheckInData(data: CheckInRequest): void {
+    const details = this.collectCheckInErrors(data);
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+  }
+
+  private collectCheckInErrors(data: CheckInRequest): { field: string; message: string; value?: any; code?: string }[] {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+
+    if (data.checked_in_at !== undefined && Number.isNaN(Date.parse(data.checked_in_at))) {
+      details.push({ field: 'checked_in_at', message: 'checked_in_at must be a valid date', value: data.checked_in_at, code: 'INVALID_DATE' });
+    }
+    if (data.device !== undefined && typeof data.device !== 'string') {
+      details.push({ field: 'device', message: 'device must be a string', value: data.device, code: 'INVALID_TYPE' });
+    }
+    if (data.event_id !== undefined && (!Number.isInteger(data.event_id) || data.event_id < 1)) {
+      details.push({ field: 'event_id', message: 'event_id must be a positive integer', value: data.event_id, code: 'INVALID_VALUE' });
+    }
+
+    return details;
+  }
+}
@@ -0,0 +1,89 @@
+import { ContributionRepository } from '../repositories/contribution-repository';
+import { PaymentMethodService } from './payment-method-service';
+import { BackupScheduler } from './backup-scheduler';
+import {
+  Contribution,
+  ContributionFilters,
+  CreateContributionRequest
+} from '../types/contribution.types';
+import { ValidationError } from '../errors/custom-errors';
+
+export class ContributionService {
+  private contributionRepository: ContributionRepository;
+  private paymentMethodService: PaymentMethodService;
+  private backupScheduler: BackupScheduler;
+
+  constructor() {
+    this.contributionRepository = new ContributionRepository();
+    this.paymentMethodService = new PaymentMethodService();
+    this.backupScheduler = BackupScheduler.getInstance();
+  }
+
+  async createContribution(guestId: string, data: CreateContributionRequest): Promise<Contribution> {
+    this.validateGuestId(guestId);
+    this.validateCreateContributionData(data);
+    await this.paymentMethodService.assertUsable(data.payment_method);
+    const contribution = await this.contributionRepository.createContribution(guestId, data);
+    this.backupScheduler.recordMoneyWrites();
+    return contribution;
+  }
+
+  async getContributions(guestId: string, filters?: ContributionFilters): Promise<Contribution[]> {
+    this.validateGuestId(guestId);
+    if (filters?.event_id !== undefined && (!Number.isInteger(filters.event_id) || filters.event_id < 1)) {
+      throw new ValidationError('Valid event ID is required');
+    }
+    return this.contributionRepository.getContributionsByGuest(guestId, filters);
+  }
+
+  async voidContribution(guestId: string, contributionId: number, reason?: string): Promise<Contribution> {
+    this.validateGuestId(guestId);
+    if (!Number.isInteger(contributionId) || contributionId < 1) {
+      throw new ValidationError('Valid contribution ID is required');
+    }
+    if (reason !== undefined && typeof reason !== 'string') {
+      throw new ValidationError('Validation failed');
+    }
+    const contribution = await this.contributionRepository.voidContribution(guestId, contributionId, reason?.trim() || undefined);
+    this.backupScheduler.recordMoneyWrites();
+    return contribution;
+  }
+
+  private validateGuestId(guestId: string): void {
+    if (!guestId || typeof guestId !== 'string' || guestId.trim().length === 0) {
+      throw new ValidationError('Valid guest ID is required');
+    }
+  }
+
+  private validateCreateContributionData(data: CreateContributionRequest): void {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+
+    if (typeof data.amount !== 'number' || Number.isNaN(data.amount)) {
+      details.push({ field: 'amount', message: 'Amount must be a number', code: 'INVALID_TYPE' });
+    } else if (data.amount <= 0) {
+      details.push({ field: 'amount', message: 'Amount must be greater than zero', value: data.amount, code: 'INVALID_VALUE' });
+    }
+
+    if (!['KHR', 'USD'].includes(data.currency)) {
+      details.push({ field: 'currency', message: 'Currency must be KHR or USD', value: data.currency, code: 'INVALID_VALUE' });
+    }
+
+    if (!data.payment_method) {
+      details.push({ field: 'payment_method', message: 'Payment method is required', code: 'REQUIRED' });
+    } else if (typeof data.payment_method !== 'string') {
+      details.push({ field: 'payment_method', message: 'Payment method must be a string', value: data.payment_method, code: 'INVALID_TYPE' });
+    }
+
+    if (data.received_at !== undefined && Number.isNaN(Date.parse(data.received_at))) {
+      details.push({ field: 'received_at', message: 'received_at must be a valid date', value: data.received_at, code: 'INVALID_DATE' });
+    }
+
+    if (data.event_id !== undefined && (!Number.isInteger(data.event_id) || data.event_id < 1)) {
+      details.push({ field: 'event_id', message: 'event_id must be a positive integer', value: data.event_id, code: 'INVALID_VALUE' });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+  }
+}
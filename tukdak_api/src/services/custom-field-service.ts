@@ -0,0 +1,178 @@
+import { CustomFieldRepository } from '../repositories/custom-field-repository';
+import {
+  CreateCustomFieldRequest,
+  CustomField,
+  CustomFieldType,
+  CustomFieldValuesUpdate,
+  TagCount,
+  UpdateCustomFieldRequest
+} from '../types/custom-field.types';
+import { ValidationError } from '../errors/custom-errors';
+
+// Field names are the keys of a guest's custom_fields, so keep them short identifiers
+const NAME_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'choice'];
+const MAX_TEXT_LENGTH = 500;
+
+type ValidationDetail = { field: string; message: string; value?: any; code?: string };
+
+export class CustomFieldService {
+  private customFieldRepository: CustomFieldRepository;
+
+  constructor() {
+    this.customFieldRepository = new CustomFieldRepository();
+  }
+
+  async createCustomField(data: CreateCustomFieldRequest): Promise<CustomField> {
+    const details: ValidationDetail[] = [];
+
+    if (typeof data.name !== 'string' || !NAME_PATTERN.test(data.name)) {
+      details.push({ field: 'name', message: 'Name must start with a lower-case letter and contain only lower-case letters, digits and underscores', value: data.name, code: 'INVALID_VALUE' });
+    }
+    if (typeof data.label !== 'string' || data.label.trim().length === 0) {
+      details.push({ field: 'label', message: 'Label is required', code: 'REQUIRED' });
+    }
+    if (!FIELD_TYPES.includes(data.field_type)) {
+      details.push({ field: 'field_type', message: `field_type must be one of ${FIELD_TYPES.join(', ')}`, value: data.field_type, code: 'INVALID_VALUE' });
+    } else if (data.field_type === 'choice') {
+      details.push(...this.validateOptions(data.options));
+    } else if (data.options !== undefined) {
+      details.push({ field: 'options', message: 'Only choice fields have options', code: 'INVALID_VALUE' });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.customFieldRepository.createCustomField(data);
+  }
+
+  async getCustomFields(): Promise<CustomField[]> {
+    return this.customFieldRepository.getAllCustomFields();
+  }
+
+  async updateCustomField(fieldId: number, updates: UpdateCustomFieldRequest): Promise<CustomField> {
+    this.validateFieldId(fieldId);
+
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError('At least one field must be provided for update');
+    }
+
+    const details: ValidationDetail[] = [];
+    if (updates.label !== undefined && (typeof updates.label !== 'string' || updates.label.trim().length === 0)) {
+      details.push({ field: 'label', message: 'Label must be a non-empty string', code: 'INVALID_TYPE' });
+    }
+    if (updates.options !== undefined) {
+      details.push(...this.validateOptions(updates.options));
+    }
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.customFieldRepository.updateCustomField(fieldId, updates);
+  }
+
+  async deleteCustomField(fieldId: number): Promise<boolean> {
+    this.validateFieldId(fieldId);
+    return this.customFieldRepository.deleteCustomField(fieldId);
+  }
+
+  async getTags(): Promise<TagCount[]> {
+    return this.customFieldRepository.getTags();
+  }
+
+  /**
+   * Check guest values against the field definitions. Numbers must be numeric,
+   * dates YYYY-MM-DD and choices one of the field's options; null clears a value.
+   */
+  async validateGuestValues(values: CustomFieldValuesUpdate): Promise<void> {
+    if (values === null || typeof values !== 'object' || Array.isArray(values)) {
+      throw new ValidationError('Validation failed', [
+        { field: 'custom_fields', message: 'custom_fields must be an object keyed by field name', code: 'INVALID_TYPE' }
+      ]);
+    }
+
+    const details: ValidationDetail[] = [];
+
+    for (const [name, value] of Object.entries(values)) {
+      const field = await this.customFieldRepository.findByName(name);
+      const path = `custom_fields.${name}`;
+
+      if (!field) {
+        details.push({ field: path, message: 'Unknown custom field', code: 'INVALID_VALUE' });
+        continue;
+      }
+      if (value === null) {
+        continue;
+      }
+
+      const message = this.checkValue(field, value);
+      if (message) {
+        details.push({ field: path, message, value, code: 'INVALID_VALUE' });
+      }
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+  }
+
+  /**
+   * Ensure every field used as a GET /guests filter is defined
+   */
+  async assertFieldsExist(names: string[]): Promise<void> {
+    const details: ValidationDetail[] = [];
+
+    for (const name of names) {
+      if (!(await this.customFieldRepository.findByName(name))) {
+        details.push({ field: `custom_fields.${name}`, message: 'Unknown custom field', code: 'INVALID_VALUE' });
+      }
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+  }
+
+  private checkValue(field: CustomField, value: unknown): string | null {
+    switch (field.field_type) {
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value) ? null : 'Must be a number';
+      case 'date':
+        return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+          ? null
+          : 'Must be a date in YYYY-MM-DD format';
+      case 'choice':
+        return typeof value === 'string' && field.options!.includes(value)
+          ? null
+          : `Must be one of ${field.options!.join(', ')}`;
+      default:
+        return typeof value === 'string' && value.trim().length > 0 && value.length <= MAX_TEXT_LENGTH
+          ? null
+          : `Must be a non-empty string of at most ${MAX_TEXT_LENGTH} characters`;
+    }
+  }
+
+  private validateOptions(options: unknown): ValidationDetail[] {
+    if (!Array.isArray(options) || options.length === 0) {
+      return [{ field: 'options', message: 'Choice fields need at least one option', code: 'REQUIRED' }];
+    }
+
+    const details: ValidationDetail[] = [];
+    options.forEach((option, index) => {
+      if (typeof option !== 'string' || option.trim().length === 0) {
+        details.push({ field: `options[${index}]`, message: 'Option must be a non-empty string', value: option, code: 'INVALID_TYPE' });
+      } else if (options.indexOf(option) !== index) {
+        details.push({ field: `options[${index}]`, message: 'Duplicate option', value: option, code: 'INVALID_VALUE' });
+      }
+    });
+    return details;
+  }
+
+  private validateFieldId(fieldId: number): void {
+    if (!Number.isInteger(fieldId) || fieldId < 1) {
+      throw new ValidationError('Valid custom field ID is required');
+    }
+  }
+}
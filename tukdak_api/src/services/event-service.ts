@@ -0,0 +1,77 @@
+import { EventRepository } from '../repositories/event-repository';
+import {
+  CreateEventRequest,
+  EventType,
+  UpdateEventRequest,
+  WeddingEvent
+} from '../types/event.types';
+import { ValidationError } from '../errors/custom-errors';
+
+const EVENT_TYPES: EventType[] = ['engagement', 'hair_cutting', 'blessing', 'reception', 'other'];
+
+export class EventService {
+  private eventRepository: EventRepository;
+
+  constructor() {
+    this.eventRepository = new EventRepository();
+  }
+
+  async createEvent(data: CreateEventRequest): Promise<WeddingEvent> {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+
+    if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+      details.push({ field: 'name', message: 'Event name is required', code: 'REQUIRED' });
+    }
+    if (!EVENT_TYPES.includes(data.event_type)) {
+      details.push({ field: 'event_type', message: `event_type must be one of ${EVENT_TYPES.join(', ')}`, value: data.event_type, code: 'INVALID_VALUE' });
+    }
+    if (data.event_date !== undefined && Number.isNaN(Date.parse(data.event_date))) {
+      details.push({ field: 'event_date', message: 'event_date must be a valid date', value: data.event_date, code: 'INVALID_DATE' });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.eventRepository.createEvent(data);
+  }
+
+  async getEventById(eventId: number): Promise<WeddingEvent> {
+    this.validateEventId(eventId);
+    return this.eventRepository.getEventById(eventId);
+  }
+
+  async getAllEvents(): Promise<WeddingEvent[]> {
+    return this.eventRepository.getAllEvents();
+  }
+
+  async updateEvent(eventId: number, updates: UpdateEventRequest): Promise<WeddingEvent> {
+    this.validateEventId(eventId);
+
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError('At least one field must be provided for update');
+    }
+    if (updates.name !== undefined && (typeof updates.name !== 'string' || updates.name.trim().length === 0)) {
+      throw new ValidationError('Validation failed', [{ field: 'name', message: 'Event name must be a non-empty string', code: 'INVALID_TYPE' }]);
+    }
+    if (updates.event_type !== undefined && !EVENT_TYPES.includes(updates.event_type)) {
+      throw new ValidationError('Validation failed', [{ field: 'event_type', message: `event_type must be one of ${EVENT_TYPES.join(', ')}`, value: updates.event_type, code: 'INVALID_VALUE' }]);
+    }
+    if (updates.event_date && Number.isNaN(Date.parse(updates.event_date))) {
+      throw new ValidationError('Validation failed', [{ field: 'event_date', message: 'event_date must be a valid date', value: updates.event_date, code: 'INVALID_DATE' }]);
+    }
+
+    return this.eventRepository.updateEvent(eventId, updates);
+  }
+
+  async deleteEvent(eventId: number): Promise<boolean> {
+    this.validateEventId(eventId);
+    return this.eventRepository.deleteEvent(eventId);
+  }
+
+  private validateEventId(eventId: number): void {
+    if (!Number.isInteger(eventId) || eventId < 1) {
+      throw new ValidationError('Valid event ID is required');
+    }
+  }
+}
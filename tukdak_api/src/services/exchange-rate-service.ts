@@ -0,0 +1,47 @@
+import { ExchangeRateRepository } from '../repositories/exchange-rate-repository';
+import { CreateExchangeRateRequest, ExchangeRate } from '../types/exchange-rate.types';
+import { ValidationError } from '../errors/custom-errors';
+
+export class ExchangeRateService {
+  private exchangeRateRepository: ExchangeRateRepository;
+
+  constructor() {
+    this.exchangeRateRepository = new ExchangeRateRepository();
+  }
+
+  async setRate(data: CreateExchangeRateRequest): Promise<ExchangeRate> {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+
+    if (typeof data.usd_to_khr !== 'number' || Number.isNaN(data.usd_to_khr)) {
+      details.push({ field: 'usd_to_khr', message: 'Rate must be a number', code: 'INVALID_TYPE' });
+    } else if (data.usd_to_khr <= 0) {
+      details.push({ field: 'usd_to_khr', message: 'Rate must be greater than zero', value: data.usd_to_khr, code: 'INVALID_VALUE' });
+    }
+
+    if (data.effective_from !== undefined && Number.isNaN(Date.parse(data.effective_from))) {
+      details.push({ field: 'effective_from', message: 'effective_from must be a valid date', value: data.effective_from, code: 'INVALID_DATE' });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.exchangeRateRepository.createRate({
+      ...data,
+      note: data.note?.trim() || undefined,
+    });
+  }
+
+  async getRates(): Promise<ExchangeRate[]> {
+    return this.exchangeRateRepository.getAllRates();
+  }
+
+  async getRateAt(at?: string) {
+    if (at !== undefined && Number.isNaN(Date.parse(at))) {
+      throw new ValidationError('Validation failed', [
+        { field: 'at', message: 'at must be a valid date', value: at, code: 'INVALID_DATE' }
+      ]);
+    }
+    return this.exchangeRateRepository.getRateAt(at);
+  }
+}
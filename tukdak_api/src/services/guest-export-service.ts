@@ -0,0 +1,117 @@
+import { GuestService } from './guest-service';
+import { CustomFieldService } from './custom-field-service';
+import { GuestFilters, GuestStatistics } from '../types/guest.types';
+import { CellValue, Worksheet, createWorkbook } from '../utils/xlsx';
+
+const SIDE_LABELS: Record<string, string> = {
+  Bride: 'Bride',
+  Groom: 'Groom',
+  Bride_Parents: "Bride's parents",
+  Groom_Parents: "Groom's parents",
+};
+
+export class GuestExportService {
+  private guestService: GuestService;
+  private customFieldService: CustomFieldService;
+
+  constructor() {
+    this.guestService = new GuestService();
+    this.customFieldService = new CustomFieldService();
+  }
+
+  /**
+   * The guest ledger as an Excel workbook: the guests matching the GET /guests
+   * filters, then the per-side and payment-method summaries from the guest
+   * statistics (scoped by event_id only, like GET /guests-stats).
+   */
+  async exportWorkbook(filters: GuestFilters = {}): Promise<Buffer> {
+    const guests = await this.guestService.getAllGuests(filters);
+    const stats = await this.guestService.getStatistics(filters.event_id);
+    const customFields = await this.customFieldService.getCustomFields();
+
+    const guestSheet: Worksheet = {
+      name: 'Guests',
+      rows: [
+        [
+          'Guest ID', 'English name', 'Khmer name', 'Side', 'Amount (KHR)', 'Amount (USD)', 'Payment method',
+          'Duplicate', 'Event ID', 'Household ID', 'Household', 'Phones', 'Address', 'Village', 'Province', 'Tags',
+          ...customFields.map(field => field.label),
+          'Created', 'Updated',
+        ],
+        ...guests.map(guest => [
+          guest.guest_id,
+          guest.english_name,
+          guest.khmer_name,
+          guest.guest_of,
+          guest.amount_khr,
+          guest.amount_usd,
+          guest.payment_method,
+          guest.is_duplicate,
+          guest.event_id,
+          guest.household_id,
+          guest.household_name,
+          guest.phones?.join('; '),
+          guest.address,
+          guest.village,
+          guest.province,
+          guest.tags?.join(', '),
+          ...customFields.map(field => guest.custom_fields?.[field.name] as CellValue),
+          guest.created_at,
+          guest.updated_at,
+        ]),
+      ],
+    };
+
+    return createWorkbook([guestSheet, this.sideSheet(stats), this.paymentMethodSheet(stats)]);
+  }
+
+  private sideSheet(stats: GuestStatistics): Worksheet {
+    return {
+      name: 'By side',
+      rows: [
+        ['Side', 'Guests', 'Paid guests', 'Gifts', 'Total (KHR)', 'Total (USD)', 'Grand total (KHR)', 'Grand total (USD)'],
+        ...stats.by_side.map(side => [
+          SIDE_LABELS[side.guest_of] ?? side.guest_of,
+          side.guests,
+          side.paid_guests,
+          side.total_contributions,
+          side.total_khr,
+          side.total_usd,
+          side.grand_total_khr,
+          side.grand_total_usd,
+        ]),
+        [
+          'Total',
+          stats.total_guests,
+          stats.paid_guests,
+          stats.total_contributions,
+          stats.total_khr,
+          stats.total_usd,
+          stats.grand_total_khr,
+          stats.grand_total_usd,
+        ],
+      ],
+    };
+  }
+
+  private paymentMethodSheet(stats: GuestStatistics): Worksheet {
+    return {
+      name: 'By payment method',
+      rows: [
+        ['Code', 'Payment method', 'Active', 'Guests', 'Gifts', 'Total (KHR)', 'Total (USD)'],
+        ...stats.by_payment_method.map(method => [
+          method.code,
+          method.label,
+          method.is_active,
+          method.guests,
+          method.contributions,
+          method.total_khr,
+          method.total_usd,
+        ]),
+        // A guest who paid by several methods is counted once here
+        ['', 'Total', null, stats.paid_guests, stats.total_contributions, stats.total_khr, stats.total_usd],
+        ['', 'No gift yet', null, stats.payment_methods.pending],
+      ],
+    };
+  }
+}
@@ -0,0 +1,245 @@
+import { GuestRepository } from '../repositories/guest-repository';
+import { GuestService } from './guest-service';
+import { ImportProfileService, IMPORT_FIELDS } from './import-profile-service';
+import { BackupScheduler } from './backup-scheduler';
+import { CreateGuestRequest } from '../types/guest.types';
+import { GuestImportReport, GuestImportRowError, ImportField, ImportProfile } from '../types/guest-import.types';
+import { ValidationError } from '../errors/custom-errors';
+import { parseCsv } from '../utils/csv';
+
+// CSV columns, named after the guest fields they fill
+const REQUIRED_COLUMNS: ImportField[] = ['guest_id', 'english_name', 'khmer_name', 'guest_of'];
+const MAX_IMPORT_ROWS = 5000;
+// Width of the number in generated guest IDs (G001)
+const GENERATED_ID_DIGITS = 3;
+
+type ImportRecord = { row: number; values: Record<string, string> };
+
+export class GuestImportService {
+  private guestRepository: GuestRepository;
+  private guestService: GuestService;
+  private importProfileService: ImportProfileService;
+  private backupScheduler: BackupScheduler;
+
+  constructor() {
+    this.guestRepository = new GuestRepository();
+    this.guestService = new GuestService();
+    this.importProfileService = new ImportProfileService();
+    this.backupScheduler = BackupScheduler.getInstance();
+  }
+
+  /**
+   * Import guests from CSV. Every row is validated first (required fields,
+   * guest_of, amounts and payment method, guest IDs repeated in the file or
+   * already registered). A dry run only reports; otherwise the rows are
+   * inserted in one transaction, and nothing is imported if any row is invalid.
+   *
+   * Without a profile the columns must be named after the guest fields. A
+   * profile maps the file's own headers and values onto guest fields, and
+   * with an id_prefix fills blank guest IDs with the next free numbers.
+   */
+  async importGuests(csv: string, dryRun = false, profileId?: number): Promise<GuestImportReport> {
+    const profile = profileId !== undefined ? await this.importProfileService.getProfile(profileId) : null;
+    const { header, rows } = this.parse(csv);
+    const fields = this.mapColumns(header, profile);
+
+    const missing = REQUIRED_COLUMNS.filter(column =>
+      !fields.includes(column) && !(column === 'guest_id' && profile?.id_prefix)
+    );
+    if (missing.length > 0) {
+      throw new ValidationError('Validation failed', missing.map(column => (
+        { field: column, message: `Missing required column ${column}`, code: 'REQUIRED' }
+      )));
+    }
+
+    const records = this.toRecords(rows, fields, profile);
+    if (profile?.id_prefix) {
+      await this.assignGuestIds(records, profile.id_prefix);
+    }
+
+    const errors: GuestImportRowError[] = [];
+    const guests: CreateGuestRequest[] = [];
+    const firstSeen = new Map<string, number>();
+    const existing = new Set(await this.guestRepository.findExistingGuestIds(
+      records.map(record => record.values.guest_id).filter(Boolean)
+    ));
+
+    for (const { row, values } of records) {
+      const result = await this.validateRow(row, values, firstSeen, existing);
+      if (result.errors.length > 0) {
+        errors.push(...result.errors);
+      } else {
+        guests.push(result.guest);
+      }
+    }
+
+    const report: GuestImportReport = {
+      dry_run: dryRun,
+      total_rows: records.length,
+      valid_rows: guests.length,
+      invalid_rows: records.length - guests.length,
+      imported: 0,
+      ignored_columns: header.filter((column, position) => column && fields[position] === null),
+      errors,
+    };
+
+    if (dryRun) {
+      return report;
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError(
+        `Import has ${report.invalid_rows} invalid rows; nothing was imported`,
+        errors.map(error => ({
+          field: `rows[${error.row}]${error.field ? `.${error.field}` : ''}`,
+          message: error.message,
+          value: error.value,
+          code: 'INVALID_VALUE',
+        }))
+      );
+    }
+
+    report.imported = guests.length === 0 ? 0 : await this.guestRepository.importGuests(guests);
+    this.backupScheduler.recordMoneyWrites(
+      guests.filter(guest => (guest.amount_khr ?? 0) > 0 || (guest.amount_usd ?? 0) > 0).length
+    );
+    return report;
+  }
+
+  private parse(csv: string): { header: string[]; rows: string[][] } {
+    if (typeof csv !== 'string' || csv.trim().length === 0) {
+      throw new ValidationError('CSV body is required');
+    }
+
+    let rows: string[][];
+    try {
+      rows = parseCsv(csv);
+    } catch (error) {
+      throw new ValidationError('Validation failed', [
+        { field: 'csv', message: (error as Error).message, code: 'INVALID_VALUE' }
+      ]);
+    }
+
+    if (rows.length - 1 > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`At most ${MAX_IMPORT_ROWS} guests can be imported at once`);
+    }
+
+    return { header: rows[0].map(column => column.trim()), rows: rows.slice(1) };
+  }
+
+  // The guest field each header column fills, or null when it is ignored.
+  // Headers match case-insensitively.
+  private mapColumns(header: string[], profile: ImportProfile | null): (ImportField | null)[] {
+    const columnMap = new Map<string, ImportField>(
+      profile
+        ? Object.entries(profile.column_map).map(([source, field]) => [source.trim().toLowerCase(), field])
+        : IMPORT_FIELDS.map(field => [field, field])
+    );
+
+    const seen = new Set<ImportField>();
+    return header.map(column => {
+      const field = columnMap.get(column.toLowerCase()) ?? null;
+      if (field === null || seen.has(field)) {
+        return null;
+      }
+      seen.add(field);
+      return field;
+    });
+  }
+
+  // Key each row by guest field, translating values through the profile's value_map
+  private toRecords(rows: string[][], fields: (ImportField | null)[], profile: ImportProfile | null): ImportRecord[] {
+    const valueMaps = new Map(
+      Object.entries(profile?.value_map ?? {}).map(([field, mapping]) => [
+        field,
+        new Map(Object.entries(mapping ?? {}).map(([from, to]) => [from.trim().toLowerCase(), to])),
+      ])
+    );
+
+    return rows.map((cells, index) => ({
+      row: index + 2,
+      values: fields.reduce<Record<string, string>>((values, field, position) => {
+        if (field !== null) {
+          const value = (cells[position] ?? '').trim();
+          values[field] = valueMaps.get(field)?.get(value.toLowerCase()) ?? value;
+        }
+        return values;
+      }, {}),
+    }));
+  }
+
+  // Rows without a guest ID get the prefix and the next unused number (G013, G014, ...)
+  private async assignGuestIds(records: ImportRecord[], prefix: string): Promise<void> {
+    let next = await this.guestRepository.getHighestGuestNumber(prefix) + 1;
+
+    records
+      .filter(record => !record.values.guest_id)
+      .forEach(record => {
+        record.values.guest_id = `${prefix}${String(next++).padStart(GENERATED_ID_DIGITS, '0')}`;
+      });
+  }
+
+  private async validateRow(
+    row: number,
+    values: Record<string, string>,
+    firstSeen: Map<string, number>,
+    existing: Set<string>
+  ): Promise<{ guest: CreateGuestRequest; errors: GuestImportRowError[] }> {
+    const guestId = values.guest_id || null;
+    const errors: GuestImportRowError[] = [];
+    const rowError = (field: string | null, message: string, value?: string) =>
+      errors.push({ row, guest_id: guestId, field, message, ...(value !== undefined ? { value } : {}) });
+
+    const guest: CreateGuestRequest = {
+      guest_id: values.guest_id,
+      english_name: values.english_name,
+      khmer_name: values.khmer_name,
+      guest_of: values.guest_of as CreateGuestRequest['guest_of'],
+    };
+
+    (['amount_khr', 'amount_usd'] as const).forEach(column => {
+      const raw = values[column];
+      if (!raw) {
+        return;
+      }
+      const amount = Number(raw.replace(/[,\s]/g, ''));
+      if (Number.isFinite(amount)) {
+        guest[column] = amount;
+      } else {
+        rowError(column, 'Amount must be a number', raw);
+      }
+    });
+
+    if (values.payment_method) guest.payment_method = values.payment_method;
+    if (values.phones) guest.phones = values.phones.split(/[;/]/).map(phone => phone.trim()).filter(Boolean);
+    if (values.address) guest.address = values.address;
+    if (values.village) guest.village = values.village;
+    if (values.province) guest.province = values.province;
+
+    try {
+      await this.guestService.validateNewGuest(guest);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error;
+      }
+      if (error.details.length > 0) {
+        error.details.forEach(detail => rowError(detail.field, detail.message, detail.value));
+      } else {
+        rowError(null, error.message);
+      }
+    }
+
+    if (guestId) {
+      if (firstSeen.has(guestId)) {
+        rowError('guest_id', `Duplicate guest_id, first used on row ${firstSeen.get(guestId)}`, guestId);
+      } else {
+        firstSeen.set(guestId, row);
+        if (existing.has(guestId)) {
+          rowError('guest_id', 'Guest ID already exists', guestId);
+        }
+      }
+    }
+
+    return { guest, errors };
+  }
+}
@@ -0,0 +1,112 @@
+import { HouseholdRepository } from '../repositories/household-repository';
+import {
+  CreateHouseholdRequest,
+  HouseholdDetail,
+  HouseholdFilters,
+  HouseholdSummary,
+  UpdateHouseholdRequest
+} from '../types/household.types';
+import { ValidationError } from '../errors/custom-errors';
+
+const GUEST_OF_VALUES = ['Bride', 'Groom', 'Bride_Parents', 'Groom_Parents'];
+
+export class HouseholdService {
+  private householdRepository: HouseholdRepository;
+
+  constructor() {
+    this.householdRepository = new HouseholdRepository();
+  }
+
+  async createHousehold(data: CreateHouseholdRequest): Promise<HouseholdDetail> {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+
+    if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+      details.push({ field: 'name', message: 'Household name is required', code: 'REQUIRED' });
+    }
+    if (data.head_guest_id !== undefined && !this.isGuestId(data.head_guest_id)) {
+      details.push({ field: 'head_guest_id', message: 'head_guest_id must be a non-empty string', value: data.head_guest_id, code: 'INVALID_TYPE' });
+    }
+    if (data.member_ids !== undefined) {
+      if (!Array.isArray(data.member_ids)) {
+        details.push({ field: 'member_ids', message: 'member_ids must be an array of guest IDs', code: 'INVALID_TYPE' });
+      } else {
+        data.member_ids.forEach((guestId, index) => {
+          if (!this.isGuestId(guestId)) {
+            details.push({ field: `member_ids[${index}]`, message: 'Guest ID must be a non-empty string', value: guestId, code: 'INVALID_TYPE' });
+          }
+        });
+      }
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.householdRepository.createHousehold(data);
+  }
+
+  async getHouseholdById(householdId: number): Promise<HouseholdDetail> {
+    this.validateHouseholdId(householdId);
+    return this.householdRepository.getHouseholdById(householdId);
+  }
+
+  async getAllHouseholds(filters: HouseholdFilters = {}): Promise<HouseholdSummary[]> {
+    if (filters.guest_of !== undefined && !GUEST_OF_VALUES.includes(filters.guest_of)) {
+      throw new ValidationError('Validation failed', [{ field: 'guest_of', message: 'Invalid guest_of value', value: filters.guest_of, code: 'INVALID_VALUE' }]);
+    }
+    return this.householdRepository.getAllHouseholds(filters);
+  }
+
+  async updateHousehold(householdId: number, updates: UpdateHouseholdRequest): Promise<HouseholdDetail> {
+    this.validateHouseholdId(householdId);
+
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError('At least one field must be provided for update');
+    }
+    if (updates.name !== undefined && (typeof updates.name !== 'string' || updates.name.trim().length === 0)) {
+      throw new ValidationError('Validation failed', [{ field: 'name', message: 'Household name must be a non-empty string', code: 'INVALID_TYPE' }]);
+    }
+    if (updates.head_guest_id !== undefined && updates.head_guest_id !== null && !this.isGuestId(updates.head_guest_id)) {
+      throw new ValidationError('Validation failed', [{ field: 'head_guest_id', message: 'head_guest_id must be a guest ID or null', value: updates.head_guest_id, code: 'INVALID_TYPE' }]);
+    }
+
+    return this.householdRepository.updateHousehold(householdId, updates);
+  }
+
+  async deleteHousehold(householdId: number): Promise<boolean> {
+    this.validateHouseholdId(householdId);
+    return this.householdRepository.deleteHousehold(householdId);
+  }
+
+  async addMembers(householdId: number, guestIds: string[]): Promise<HouseholdDetail> {
+    this.validateHouseholdId(householdId);
+
+    if (!Array.isArray(guestIds) || guestIds.length === 0) {
+      throw new ValidationError('Validation failed', [{ field: 'guest_ids', message: 'At least one guest ID is required', code: 'REQUIRED' }]);
+    }
+    const invalid = guestIds.findIndex(guestId => !this.isGuestId(guestId));
+    if (invalid !== -1) {
+      throw new ValidationError('Validation failed', [{ field: `guest_ids[${invalid}]`, message: 'Guest ID must be a non-empty string', value: guestIds[invalid], code: 'INVALID_TYPE' }]);
+    }
+
+    return this.householdRepository.addMembers(householdId, guestIds);
+  }
+
+  async removeMember(householdId: number, guestId: string): Promise<HouseholdDetail> {
+    this.validateHouseholdId(householdId);
+    if (!this.isGuestId(guestId)) {
+      throw new ValidationError('Valid guest ID is required');
+    }
+    return this.householdRepository.removeMember(householdId, guestId);
+  }
+
+  private isGuestId(guestId: unknown): guestId is string {
+    return typeof guestId === 'string' && guestId.trim().length > 0;
+  }
+
+  private validateHouseholdId(householdId: number): void {
+    if (!Number.isInteger(householdId) || householdId < 1) {
+      throw new ValidationError('Valid household ID is required');
+    }
+  }
+}
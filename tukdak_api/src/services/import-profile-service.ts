@@ -0,0 +1,161 @@
+import { ImportProfileRepository } from '../repositories/import-profile-repository';
+import {
+  CreateImportProfileRequest,
+  ImportField,
+  ImportProfile,
+  UpdateImportProfileRequest
+} from '../types/guest-import.types';
+import { ValidationError } from '../errors/custom-errors';
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'guest_id', 'english_name', 'khmer_name', 'guest_of',
+  'amount_khr', 'amount_usd', 'payment_method',
+  'phones', 'address', 'village', 'province'
+];
+// Generated IDs are the prefix followed by a number, so keep it ID-safe
+const ID_PREFIX_PATTERN = /^[A-Za-z0-9_-]{1,20}$/;
+
+type ValidationDetail = { field: string; message: string; value?: any; code?: string };
+
+export class ImportProfileService {
+  private importProfileRepository: ImportProfileRepository;
+
+  constructor() {
+    this.importProfileRepository = new ImportProfileRepository();
+  }
+
+  async createProfile(data: CreateImportProfileRequest): Promise<ImportProfile> {
+    const details: ValidationDetail[] = [];
+
+    if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+      details.push({ field: 'name', message: 'Name is required', code: 'REQUIRED' });
+    }
+    details.push(...this.validateColumnMap(data.column_map));
+    if (data.value_map !== undefined) {
+      details.push(...this.validateValueMap(data.value_map));
+    }
+    if (data.id_prefix !== undefined) {
+      details.push(...this.validateIdPrefix(data.id_prefix));
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.importProfileRepository.createProfile(data);
+  }
+
+  async getProfiles(): Promise<ImportProfile[]> {
+    return this.importProfileRepository.getAllProfiles();
+  }
+
+  async getProfile(profileId: number): Promise<ImportProfile> {
+    this.validateProfileId(profileId);
+    return this.importProfileRepository.getProfileById(profileId);
+  }
+
+  async updateProfile(profileId: number, updates: UpdateImportProfileRequest): Promise<ImportProfile> {
+    this.validateProfileId(profileId);
+
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError('At least one field must be provided for update');
+    }
+
+    const details: ValidationDetail[] = [];
+    if (updates.name !== undefined && (typeof updates.name !== 'string' || updates.name.trim().length === 0)) {
+      details.push({ field: 'name', message: 'Name must be a non-empty string', code: 'INVALID_TYPE' });
+    }
+    if (updates.column_map !== undefined) {
+      details.push(...this.validateColumnMap(updates.column_map));
+    }
+    if (updates.value_map !== undefined) {
+      details.push(...this.validateValueMap(updates.value_map));
+    }
+    if (updates.id_prefix !== undefined && updates.id_prefix !== null) {
+      details.push(...this.validateIdPrefix(updates.id_prefix));
+    }
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.importProfileRepository.updateProfile(profileId, updates);
+  }
+
+  async deleteProfile(profileId: number): Promise<boolean> {
+    this.validateProfileId(profileId);
+    return this.importProfileRepository.deleteProfile(profileId);
+  }
+
+  // Source headers map to guest fields; two headers may not fill the same field
+  private validateColumnMap(columnMap: unknown): ValidationDetail[] {
+    if (columnMap === null || typeof columnMap !== 'object' || Array.isArray(columnMap) || Object.keys(columnMap).length === 0) {
+      return [{ field: 'column_map', message: 'column_map must map at least one source column to a guest field', code: 'REQUIRED' }];
+    }
+
+    const details: ValidationDetail[] = [];
+    const mappedFrom = new Map<string, string>();
+    const headers = new Set<string>();
+
+    Object.entries(columnMap as Record<string, unknown>).forEach(([header, target]) => {
+      const path = `column_map.${header}`;
+      const key = header.trim().toLowerCase();
+
+      if (key.length === 0) {
+        details.push({ field: path, message: 'Source column name must not be blank', code: 'INVALID_VALUE' });
+      } else if (headers.has(key)) {
+        details.push({ field: path, message: 'Source column is mapped more than once', code: 'INVALID_VALUE' });
+      }
+      headers.add(key);
+
+      if (!IMPORT_FIELDS.includes(target as ImportField)) {
+        details.push({ field: path, message: `Must be one of ${IMPORT_FIELDS.join(', ')}`, value: target, code: 'INVALID_VALUE' });
+      } else if (mappedFrom.has(target as string)) {
+        details.push({ field: path, message: `${target} is already filled by ${mappedFrom.get(target as string)}`, value: target, code: 'INVALID_VALUE' });
+      } else {
+        mappedFrom.set(target as string, header);
+      }
+    });
+
+    return details;
+  }
+
+  // Per guest field, source value → stored value
+  private validateValueMap(valueMap: unknown): ValidationDetail[] {
+    if (valueMap === null || typeof valueMap !== 'object' || Array.isArray(valueMap)) {
+      return [{ field: 'value_map', message: 'value_map must be an object keyed by guest field', code: 'INVALID_TYPE' }];
+    }
+
+    const details: ValidationDetail[] = [];
+
+    Object.entries(valueMap as Record<string, unknown>).forEach(([field, mapping]) => {
+      const path = `value_map.${field}`;
+
+      if (!IMPORT_FIELDS.includes(field as ImportField)) {
+        details.push({ field: path, message: 'Unknown guest field', code: 'INVALID_VALUE' });
+      } else if (mapping === null || typeof mapping !== 'object' || Array.isArray(mapping)) {
+        details.push({ field: path, message: 'Must be an object of source value to guest value', code: 'INVALID_TYPE' });
+      } else {
+        Object.entries(mapping as Record<string, unknown>).forEach(([from, to]) => {
+          if (from.trim().length === 0 || typeof to !== 'string') {
+            details.push({ field: `${path}.${from}`, message: 'Source and target values must be strings', value: to, code: 'INVALID_TYPE' });
+          }
+        });
+      }
+    });
+
+    return details;
+  }
+
+  private validateIdPrefix(idPrefix: unknown): ValidationDetail[] {
+    if (typeof idPrefix !== 'string' || !ID_PREFIX_PATTERN.test(idPrefix.trim())) {
+      return [{ field: 'id_prefix', message: 'id_prefix must be 1-20 letters, digits, hyphens or underscores', value: idPrefix, code: 'INVALID_VALUE' }];
+    }
+    return [];
+  }
+
+  private validateProfileId(profileId: number): void {
+    if (!Number.isInteger(profileId) || profileId < 1) {
+      throw new ValidationError('Valid import profile ID is required');
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { InKindGiftRepository } from '../repositories/in-kind-gift-repository';
+import {
+  CreateInKindGiftRequest,
+  InKindGift,
+  InKindGiftFilters
+} from '../types/in-kind-gift.types';
+import { ValidationError } from '../errors/custom-errors';
+
+type ValidationDetail = { field: string; message: string; value?: any; code?: string };
+
+export class InKindGiftService {
+  private inKindGiftRepository: InKindGiftRepository;
+
+  constructor() {
+    this.inKindGiftRepository = new InKindGiftRepository();
+  }
+
+  async createInKindGift(guestId: string, data: CreateInKindGiftRequest): Promise<InKindGift> {
+    this.validateGuestId(guestId);
+
+    const details = this.validateGift(data);
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.inKindGiftRepository.createInKindGift(guestId, data);
+  }
+
+  async getInKindGifts(guestId: string, filters?: InKindGiftFilters): Promise<InKindGift[]> {
+    this.validateGuestId(guestId);
+    if (filters?.event_id !== undefined && (!Number.isInteger(filters.event_id) || filters.event_id < 1)) {
+      throw new ValidationError('Valid event ID is required');
+    }
+    return this.inKindGiftRepository.getInKindGiftsByGuest(guestId, filters);
+  }
+
+  async voidInKindGift(guestId: string, giftId: number, reason?: string): Promise<InKindGift> {
+    this.validateGuestId(guestId);
+    if (!Number.isInteger(giftId) || giftId < 1) {
+      throw new ValidationError('Valid gift ID is required');
+    }
+    return this.inKindGiftRepository.voidInKindGift(guestId, giftId, reason?.trim() || undefined);
+  }
+
+  /**
+   * Validate one in-kind gift. Field names are prefixed so the same checks can
+   * report errors for gifts nested in a guest create request.
+   */
+  validateGift(data: CreateInKindGiftRequest, prefix = ''): ValidationDetail[] {
+    const details: ValidationDetail[] = [];
+
+    if (typeof data.description !== 'string' || data.description.trim().length === 0) {
+      details.push({ field: `${prefix}description`, message: 'Description is required', code: 'REQUIRED' });
+    }
+
+    if (data.quantity !== undefined && (typeof data.quantity !== 'number' || !(data.quantity > 0))) {
+      details.push({ field: `${prefix}quantity`, message: 'Quantity must be greater than zero', value: data.quantity, code: 'INVALID_VALUE' });
+    }
+
+    if (data.estimated_value !== undefined) {
+      if (typeof data.estimated_value !== 'number' || data.estimated_value < 0) {
+        details.push({ field: `${prefix}estimated_value`, message: 'Estimated value must be a non-negative number', value: data.estimated_value, code: 'INVALID_VALUE' });
+      }
+      if (!data.estimated_currency) {
+        details.push({ field: `${prefix}estimated_currency`, message: 'Currency is required when an estimated value is given', code: 'REQUIRED' });
+      }
+    }
+
+    if (data.estimated_currency !== undefined && !['KHR', 'USD'].includes(data.estimated_currency)) {
+      details.push({ field: `${prefix}estimated_currency`, message: 'Currency must be KHR or USD', value: data.estimated_currency, code: 'INVALID_VALUE' });
+    }
+
+    if (data.return_by !== undefined) {
+      if (Number.isNaN(Date.parse(data.return_by))) {
+        details.push({ field: `${prefix}return_by`, message: 'return_by must be a valid date', value: data.return_by, code: 'INVALID_DATE' });
+      } else if (!data.must_return) {
+        details.push({ field: `${prefix}return_by`, message: 'return_by requires must_return', value: data.return_by, code: 'INVALID_VALUE' });
+      }
+    }
+
+    if (data.received_at !== undefined && Number.isNaN(Date.parse(data.received_at))) {
+      details.push({ field: `${prefix}received_at`, message: 'received_at must be a valid date', value: data.received_at, code: 'INVALID_DATE' });
+    }
+
+    if (data.event_id !== undefined && (!Number.isInteger(data.event_id) || data.event_id < 1)) {
+      details.push({ field: `${prefix}event_id`, message: 'event_id must be a positive integer', value: data.event_id, code: 'INVALID_VALUE' });
+    }
+
+    return details;
+  }
+
+  private validateGuestId(guestId: string): void {
+    if (!guestId || typeof guestId !== 'string' || guestId.trim().length === 0) {
+      throw new ValidationError('Valid guest ID is required');
+    }
+  }
+}
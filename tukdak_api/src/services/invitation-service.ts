@@ -0,0 +1,79 @@
+import { InvitationRepository } from '../repositories/invitation-repository';
+import {
+  CreateInvitationRequest,
+  Invitation,
+  InvitationReport,
+  InvitationReportFilters,
+  RsvpStatus,
+  UpdateInvitationRequest
+} from '../types/invitation.types';
+import { ValidationError } from '../errors/custom-errors';
+
+const RSVP_STATUSES: RsvpStatus[] = ['pending', 'attending', 'declined', 'maybe'];
+const GUEST_OF_VALUES = ['Bride', 'Groom', 'Bride_Parents', 'Groom_Parents'];
+
+export class InvitationService {
+  private invitationRepository: InvitationRepository;
+
+  constructor() {
+    this.invitationRepository = new InvitationRepository();
+  }
+
+  async createInvitation(guestId: string, data: CreateInvitationRequest = {}): Promise<Invitation> {
+    this.validateGuestId(guestId);
+    this.validateInvitationData(data);
+    return this.invitationRepository.createInvitation(guestId, data);
+  }
+
+  async getInvitation(guestId: string): Promise<Invitation> {
+    this.validateGuestId(guestId);
+    return this.invitationRepository.getInvitation(guestId);
+  }
+
+  async updateInvitation(guestId: string, updates: UpdateInvitationRequest): Promise<Invitation> {
+    this.validateGuestId(guestId);
+
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError('At least one field must be provided for update');
+    }
+    this.validateInvitationData(updates);
+
+    return this.invitationRepository.updateInvitation(guestId, updates);
+  }
+
+  async deleteInvitation(guestId: string): Promise<boolean> {
+    this.validateGuestId(guestId);
+    return this.invitationRepository.deleteInvitation(guestId);
+  }
+
+  async getReport(filters: InvitationReportFilters = {}): Promise<InvitationReport> {
+    if (filters.guest_of !== undefined && !GUEST_OF_VALUES.includes(filters.guest_of)) {
+      throw new ValidationError('Validation failed', [{ field: 'guest_of', message: 'Invalid guest_of value', value: filters.guest_of, code: 'INVALID_VALUE' }]);
+    }
+    return this.invitationRepository.getReport(filters);
+  }
+
+  private validateGuestId(guestId: string): void {
+    if (!guestId || typeof guestId !== 'string' || guestId.trim().length === 0) {
+      throw new ValidationError('Valid guest ID is required');
+    }
+  }
+
+  private validateInvitationData(data: CreateInvitationRequest | UpdateInvitationRequest): void {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+
+    if (data.rsvp_status !== undefined && !RSVP_STATUSES.includes(data.rsvp_status)) {
+      details.push({ field: 'rsvp_status', message: `rsvp_status must be one of ${RSVP_STATUSES.join(', ')}`, value: data.rsvp_status, code: 'INVALID_VALUE' });
+    }
+    if (data.party_size !== undefined && (!Number.isInteger(data.party_size) || data.party_size < 1)) {
+      details.push({ field: 'party_size', message: 'party_size must be a positive integer', value: data.party_size, code: 'INVALID_VALUE' });
+    }
+    if (data.delivered_at && Number.isNaN(Date.parse(data.delivered_at))) {
+      details.push({ field: 'delivered_at', message: 'delivered_at must be a valid date', value: data.delivered_at, code: 'INVALID_DATE' });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+  }
+}
@@ -0,0 +1,316 @@
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { GuestService } from './guest-service';
+import { EventService } from './event-service';
+import { Guest } from '../types/guest.types';
+import { LedgerEntry, LedgerReport, LedgerSection } from '../types/report.types';
+
+// Battambang also covers basic Latin, so one family sets the whole report.
+// The package only exports its LICENSE, so the font files are found next to it.
+const FONT_DIR = path.join(path.dirname(require.resolve('@fontsource/battambang/LICENSE')), 'files');
+const FONT_REGULAR = path.join(FONT_DIR, 'battambang-khmer-400-normal.woff');
+const FONT_BOLD = path.join(FONT_DIR, 'battambang-khmer-700-normal.woff');
+
+const SIDES: Guest['guest_of'][] = ['Bride', 'Groom', 'Bride_Parents', 'Groom_Parents'];
+const SIDE_LABELS: Record<Guest['guest_of'], string> = {
+  Bride: "Bride's side (ខាងកូនក្រមុំ)",
+  Groom: "Groom's side (ខាងកូនកំលោះ)",
+  Bride_Parents: "Bride's parents (ខាងឪពុកម្ដាយកូនក្រមុំ)",
+  Groom_Parents: "Groom's parents (ខាងឪពុកម្ដាយកូនកំលោះ)",
+};
+
+const TITLE = 'បញ្ជីចំណងដៃ / Wedding gift ledger';
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 19;
+const FONT_SIZE = 8.5;
+
+type Column = { header: string; width: number; align?: 'left' | 'right' };
+
+// 515pt fits the A4 page between the margins
+const LEDGER_COLUMNS: Column[] = [
+  { header: '#', width: 20, align: 'right' },
+  { header: 'Guest ID', width: 46 },
+  { header: 'Name', width: 89 },
+  { header: 'ឈ្មោះ', width: 88 },
+  { header: 'Method', width: 52 },
+  { header: 'KHR', width: 58, align: 'right' },
+  { header: 'USD', width: 40, align: 'right' },
+  { header: 'Running KHR', width: 62, align: 'right' },
+  { header: 'Running USD', width: 60, align: 'right' },
+];
+
+const SUMMARY_COLUMNS: Column[] = [
+  { header: '', width: 195 },
+  { header: 'Givers', width: 60, align: 'right' },
+  { header: 'Gifts', width: 60, align: 'right' },
+  { header: 'KHR', width: 110, align: 'right' },
+  { header: 'USD', width: 90, align: 'right' },
+];
+
+const SIGN_OFF = ['Prepared by / រៀបចំដោយ', 'Checked by / ពិនិត្យដោយ', 'Approved by / ឯកភាពដោយ'];
+
+const formatKhr = (amount: number): string => amount.toLocaleString('en-US', { maximumFractionDigits: 0 });
+const formatUsd = (amount: number): string =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export class LedgerReportService {
+  private guestService: GuestService;
+  private eventService: EventService;
+
+  constructor() {
+    this.guestService = new GuestService();
+    this.eventService = new EventService();
+  }
+
+  /**
+   * Every guest with an active gift, grouped by side in guest ID order with
+   * running totals, plus the statistics for the summary page. With an
+   * eventId only that ceremony's gifts are counted.
+   */
+  async getLedger(eventId?: number): Promise<LedgerReport> {
+    const event = eventId !== undefined ? await this.eventService.getEventById(eventId) : undefined;
+    const guests = await this.guestService.getAllGuests({ has_payment: true, is_duplicate: false, event_id: eventId });
+    const stats = await this.guestService.getStatistics(eventId);
+
+    const methodLabels = new Map(stats.by_payment_method.map(method => [method.code as string, method.label]));
+
+    const sections = SIDES
+      .map(side => this.buildSection(side, guests.filter(guest => guest.guest_of === side), methodLabels))
+      .filter(section => section.entries.length > 0);
+
+    return {
+      ...(event ? { event_id: event.id, event_name: event.name } : {}),
+      generated_at: new Date().toISOString(),
+      sections,
+      summary: {
+        total_khr: stats.total_khr,
+        total_usd: stats.total_usd,
+        grand_total_khr: stats.grand_total_khr,
+        grand_total_usd: stats.grand_total_usd,
+        total_contributions: stats.total_contributions,
+        paid_guests: stats.paid_guests,
+        by_side: stats.by_side,
+        by_payment_method: stats.by_payment_method,
+      },
+    };
+  }
+
+  async generateLedgerPdf(eventId?: number): Promise<Buffer> {
+    return this.renderPdf(await this.getLedger(eventId));
+  }
+
+  private buildSection(side: Guest['guest_of'], guests: Guest[], methodLabels: Map<string, string>): LedgerSection {
+    let runningKhr = 0;
+    let runningUsd = 0;
+
+    const entries = [...guests]
+      .sort((a, b) => a.guest_id.localeCompare(b.guest_id, 'en', { numeric: true }))
+      .map((guest): LedgerEntry => {
+        runningKhr += guest.amount_khr;
+        runningUsd = Math.round((runningUsd + guest.amount_usd) * 100) / 100;
+        return {
+          guest_id: guest.guest_id,
+          english_name: guest.english_name,
+          khmer_name: guest.khmer_name,
+          payment_method: guest.payment_method ? methodLabels.get(guest.payment_method) ?? guest.payment_method : null,
+          amount_khr: guest.amount_khr,
+          amount_usd: guest.amount_usd,
+          running_khr: runningKhr,
+          running_usd: runningUsd,
+        };
+      });
+
+    return { guest_of: side, entries, total_khr: runningKhr, total_usd: runningUsd };
+  }
+
+  /**
+   * A4 book: title, one block per side (each starting on a new page, the
+   * running totals brought forward when a side spans pages), then the
+   * summary page with sign-off lines. Pages are numbered "Page n of N".
+   */
+  private renderPdf(ledger: LedgerReport): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: 'Wedding gift ledger', Subject: ledger.event_name ?? 'All ceremonies' },
+    });
+    doc.registerFont('Regular', FONT_REGULAR);
+    doc.registerFont('Bold', FONT_BOLD);
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    doc.font('Bold').fontSize(18).text(TITLE, { align: 'center' });
+    doc.font('Regular').fontSize(10)
+      .text(ledger.event_name ?? 'All ceremonies', { align: 'center' })
+      .text(`Generated ${ledger.generated_at.slice(0, 16).replace('T', ' ')} UTC`, { align: 'center' });
+    doc.moveDown();
+
+    if (ledger.sections.length === 0) {
+      doc.text('No gifts have been recorded yet.', { align: 'center' });
+    }
+
+    ledger.sections.forEach((section, index) => {
+      if (index > 0) {
+        doc.addPage();
+      }
+      this.renderSection(doc, section);
+    });
+
+    doc.addPage();
+    this.renderSummary(doc, ledger);
+    this.numberPages(doc, ledger);
+
+    doc.end();
+    return done;
+  }
+
+  private renderSection(doc: PDFKit.PDFDocument, section: LedgerSection): void {
+    const pageBottom = () => doc.page.height - PAGE_MARGIN - ROW_HEIGHT;
+
+    const heading = (continued: boolean) => {
+      doc.font('Bold').fontSize(13).text(`${SIDE_LABELS[section.guest_of]}${continued ? ' (continued)' : ''}`, PAGE_MARGIN);
+      doc.moveDown(0.3);
+      this.renderRow(doc, LEDGER_COLUMNS, LEDGER_COLUMNS.map(column => column.header), true);
+    };
+
+    heading(false);
+
+    section.entries.forEach((entry, index) => {
+      if (doc.y > pageBottom()) {
+        const previous = section.entries[index - 1];
+        doc.addPage();
+        heading(true);
+        this.renderRow(doc, LEDGER_COLUMNS,
+          ['', '', 'Brought forward', '', '', '', '', formatKhr(previous.running_khr), formatUsd(previous.running_usd)]);
+      }
+
+      this.renderRow(doc, LEDGER_COLUMNS, [
+        String(index + 1),
+        entry.guest_id,
+        entry.english_name ?? '',
+        entry.khmer_name ?? '',
+        entry.payment_method ?? '',
+        formatKhr(entry.amount_khr),
+        formatUsd(entry.amount_usd),
+        formatKhr(entry.running_khr),
+        formatUsd(entry.running_usd),
+      ]);
+    });
+
+    this.rule(doc);
+    this.renderRow(doc, LEDGER_COLUMNS,
+      ['', '', `Subtotal (${section.entries.length})`, '', '', formatKhr(section.total_khr), formatUsd(section.total_usd), '', ''], true);
+  }
+
+  private renderSummary(doc: PDFKit.PDFDocument, ledger: LedgerReport): void {
+    const { summary } = ledger;
+
+    doc.font('Bold').fontSize(15).text('Summary / សេចក្ដីសង្ខេប', PAGE_MARGIN);
+    doc.moveDown(0.5);
+
+    this.renderRow(doc, SUMMARY_COLUMNS, ['By side', 'Givers', 'Gifts', 'KHR', 'USD'], true);
+    summary.by_side.forEach(side => {
+      this.renderRow(doc, SUMMARY_COLUMNS, [
+        SIDE_LABELS[side.guest_of],
+        String(side.paid_guests),
+        String(side.total_contributions),
+        formatKhr(side.total_khr),
+        formatUsd(side.total_usd),
+      ]);
+    });
+    this.rule(doc);
+    this.renderRow(doc, SUMMARY_COLUMNS, [
+      'Total / សរុប',
+      String(summary.paid_guests),
+      String(summary.total_contributions),
+      formatKhr(summary.total_khr),
+      formatUsd(summary.total_usd),
+    ], true);
+
+    doc.moveDown();
+    doc.font('Regular').fontSize(FONT_SIZE).text(
+      `Both currencies combined, each gift at the exchange rate of the day it was received: ` +
+      `${formatKhr(summary.grand_total_khr)} KHR, or ${formatUsd(summary.grand_total_usd)} USD.`,
+      PAGE_MARGIN, doc.y, { width: doc.page.width - 2 * PAGE_MARGIN }
+    );
+    doc.moveDown();
+
+    this.renderRow(doc, SUMMARY_COLUMNS, ['By payment method', 'Givers', 'Gifts', 'KHR', 'USD'], true);
+    summary.by_payment_method
+      .filter(method => method.contributions > 0)
+      .forEach(method => {
+        this.renderRow(doc, SUMMARY_COLUMNS, [
+          method.label,
+          String(method.guests),
+          String(method.contributions),
+          formatKhr(method.total_khr),
+          formatUsd(method.total_usd),
+        ]);
+      });
+
+    doc.moveDown(3);
+    const lineWidth = (doc.page.width - 2 * PAGE_MARGIN - 40) / SIGN_OFF.length;
+    const lineY = doc.y + 30;
+    SIGN_OFF.forEach((label, index) => {
+      const x = PAGE_MARGIN + index * (lineWidth + 20);
+      doc.moveTo(x, lineY).lineTo(x + lineWidth, lineY).lineWidth(0.5).stroke();
+      doc.font('Regular').fontSize(FONT_SIZE)
+        .text(label, x, lineY + 4, { width: lineWidth, align: 'center' })
+        .text('Date / កាលបរិច្ឆេទ ........................', x, lineY + 20, { width: lineWidth, align: 'center' });
+    });
+  }
+
+  // One table row at the current position; long text is cut to the column width
+  private renderRow(doc: PDFKit.PDFDocument, columns: Column[], values: string[], bold = false): void {
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+
+    doc.font(bold ? 'Bold' : 'Regular').fontSize(FONT_SIZE);
+    columns.forEach((column, index) => {
+      doc.text(values[index] ?? '', x + 2, y + 3, {
+        width: column.width - 4,
+        height: ROW_HEIGHT - 3,
+        align: column.align ?? 'left',
+        // The font has no … glyph
+        ellipsis: '...',
+      });
+      x += column.width;
+    });
+
+    doc.x = PAGE_MARGIN;
+    doc.y = y + ROW_HEIGHT;
+  }
+
+  private rule(doc: PDFKit.PDFDocument): void {
+    doc.moveTo(PAGE_MARGIN, doc.y).lineTo(doc.page.width - PAGE_MARGIN, doc.y).lineWidth(0.5).stroke();
+  }
+
+  // Footers are drawn once every page exists, inside the bottom margin
+  private numberPages(doc: PDFKit.PDFDocument, ledger: LedgerReport): void {
+    const range = doc.bufferedPageRange();
+
+    for (let index = range.start; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+
+      doc.font('Regular').fontSize(7.5).text(
+        `${TITLE}${ledger.event_name ? ` / ${ledger.event_name}` : ''}`,
+        PAGE_MARGIN, doc.page.height - PAGE_MARGIN + 12, { lineBreak: false }
+      );
+      doc.text(
+        `Page ${index + 1} of ${range.count}`,
+        PAGE_MARGIN, doc.page.height - PAGE_MARGIN + 12,
+        { width: doc.page.width - 2 * PAGE_MARGIN, align: 'right', lineBreak: false }
+      );
+
+      doc.page.margins.bottom = bottomMargin;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import { PaymentMethodRepository } from '../repositories/payment-method-repository';
+import {
+  CreatePaymentMethodRequest,
+  PaymentMethod,
+  UpdatePaymentMethodRequest
+} from '../types/payment-method.types';
+import { ValidationError } from '../errors/custom-errors';
+
+// Codes are stored on every gift, so keep them short identifiers (e.g. 'ABA', 'Bank_Transfer')
+const CODE_PATTERN = /^[A-Za-z][A-Za-z0-9_]{1,49}$/;
+
+export class PaymentMethodService {
+  private paymentMethodRepository: PaymentMethodRepository;
+
+  constructor() {
+    this.paymentMethodRepository = new PaymentMethodRepository();
+  }
+
+  async createPaymentMethod(data: CreatePaymentMethodRequest): Promise<PaymentMethod> {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+
+    if (typeof data.code !== 'string' || !CODE_PATTERN.test(data.code)) {
+      details.push({ field: 'code', message: 'Code must start with a letter and contain only letters, digits and underscores', value: data.code, code: 'INVALID_VALUE' });
+    }
+    if (typeof data.label !== 'string' || data.label.trim().length === 0) {
+      details.push({ field: 'label', message: 'Label is required', code: 'REQUIRED' });
+    }
+    if (data.sort_order !== undefined && !Number.isInteger(data.sort_order)) {
+      details.push({ field: 'sort_order', message: 'sort_order must be an integer', value: data.sort_order, code: 'INVALID_TYPE' });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.paymentMethodRepository.createPaymentMethod(data);
+  }
+
+  async getPaymentMethods(includeInactive = false): Promise<PaymentMethod[]> {
+    return this.paymentMethodRepository.getAllPaymentMethods(includeInactive);
+  }
+
+  async updatePaymentMethod(code: string, updates: UpdatePaymentMethodRequest): Promise<PaymentMethod> {
+    if (!code || typeof code !== 'string') {
+      throw new ValidationError('Valid payment method code is required');
+    }
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError('At least one field must be provided for update');
+    }
+    if (updates.label !== undefined && (typeof updates.label !== 'string' || updates.label.trim().length === 0)) {
+      throw new ValidationError('Validation failed', [{ field: 'label', message: 'Label must be a non-empty string', code: 'INVALID_TYPE' }]);
+    }
+    if (updates.is_active !== undefined && typeof updates.is_active !== 'boolean') {
+      throw new ValidationError('Validation failed', [{ field: 'is_active', message: 'is_active must be a boolean', code: 'INVALID_TYPE' }]);
+    }
+    if (updates.sort_order !== undefined && !Number.isInteger(updates.sort_order)) {
+      throw new ValidationError('Validation failed', [{ field: 'sort_order', message: 'sort_order must be an integer', code: 'INVALID_TYPE' }]);
+    }
+
+    return this.paymentMethodRepository.updatePaymentMethod(code, updates);
+  }
+
+  /**
+   * Ensure a payment method exists in the registry and is enabled for new gifts
+   */
+  async assertUsable(code: string): Promise<void> {
+    const method = await this.paymentMethodRepository.findByCode(code);
+
+    if (!method) {
+      throw new ValidationError('Validation failed', [
+        { field: 'payment_method', message: 'Unknown payment method', value: code, code: 'INVALID_VALUE' }
+      ]);
+    }
+    if (!method.is_active) {
+      throw new ValidationError('Validation failed', [
+        { field: 'payment_method', message: `Payment method ${code} is disabled`, value: code, code: 'INVALID_VALUE' }
+      ]);
+    }
+  }
+}
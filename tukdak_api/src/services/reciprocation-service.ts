@@ -0,0 +1,99 @@
+import { ReciprocationRepository } from '../repositories/reciprocation-repository';
+import { PaymentMethodService } from './payment-method-service';
+import { BackupScheduler } from './backup-scheduler';
+import {
+  CreateReciprocationRequest,
+  Reciprocation,
+  ReciprocationFilters,
+  ReciprocityBalanceFilters,
+  ReciprocityReport
+} from '../types/reciprocation.types';
+import { ValidationError } from '../errors/custom-errors';
+
+const GUEST_OF_VALUES = ['Bride', 'Groom', 'Bride_Parents', 'Groom_Parents'];
+
+export class ReciprocationService {
+  private reciprocationRepository: ReciprocationRepository;
+  private paymentMethodService: PaymentMethodService;
+  private backupScheduler: BackupScheduler;
+
+  constructor() {
+    this.reciprocationRepository = new ReciprocationRepository();
+    this.paymentMethodService = new PaymentMethodService();
+    this.backupScheduler = BackupScheduler.getInstance();
+  }
+
+  async createReciprocation(guestId: string, data: CreateReciprocationRequest): Promise<Reciprocation> {
+    this.validateGuestId(guestId);
+    this.validateCreateReciprocationData(data);
+    if (data.payment_method) {
+      await this.paymentMethodService.assertUsable(data.payment_method);
+    }
+    const reciprocation = await this.reciprocationRepository.createReciprocation(guestId, data);
+    this.backupScheduler.recordMoneyWrites();
+    return reciprocation;
+  }
+
+  async getReciprocations(guestId: string, filters?: ReciprocationFilters): Promise<Reciprocation[]> {
+    this.validateGuestId(guestId);
+    return this.reciprocationRepository.getReciprocationsByGuest(guestId, filters);
+  }
+
+  async voidReciprocation(guestId: string, reciprocationId: number, reason?: string): Promise<Reciprocation> {
+    this.validateGuestId(guestId);
+    if (!Number.isInteger(reciprocationId) || reciprocationId < 1) {
+      throw new ValidationError('Valid reciprocation ID is required');
+    }
+    const reciprocation = await this.reciprocationRepository.voidReciprocation(guestId, reciprocationId, reason?.trim() || undefined);
+    this.backupScheduler.recordMoneyWrites();
+    return reciprocation;
+  }
+
+  async getBalances(filters: ReciprocityBalanceFilters = {}): Promise<ReciprocityReport> {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+
+    if (filters.guest_of !== undefined && !GUEST_OF_VALUES.includes(filters.guest_of)) {
+      details.push({ field: 'guest_of', message: 'Invalid guest_of value', value: filters.guest_of, code: 'INVALID_VALUE' });
+    }
+    if (filters.limit !== undefined && (!Number.isInteger(filters.limit) || filters.limit < 1 || filters.limit > 500)) {
+      details.push({ field: 'limit', message: 'Limit must be between 1 and 500', value: filters.limit, code: 'INVALID_VALUE' });
+    }
+    if (filters.offset !== undefined && (!Number.isInteger(filters.offset) || filters.offset < 0)) {
+      details.push({ field: 'offset', message: 'Offset must be a non-negative integer', value: filters.offset, code: 'INVALID_VALUE' });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.reciprocationRepository.getBalances(filters);
+  }
+
+  private validateGuestId(guestId: string): void {
+    if (!guestId || typeof guestId !== 'string' || guestId.trim().length === 0) {
+      throw new ValidationError('Valid guest ID is required');
+    }
+  }
+
+  private validateCreateReciprocationData(data: CreateReciprocationRequest): void {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+
+    if (typeof data.amount !== 'number' || Number.isNaN(data.amount)) {
+      details.push({ field: 'amount', message: 'Amount must be a number', code: 'INVALID_TYPE' });
+    } else if (data.amount <= 0) {
+      details.push({ field: 'amount', message: 'Amount must be greater than zero', value: data.amount, code: 'INVALID_VALUE' });
+    }
+
+    if (!['KHR', 'USD'].includes(data.currency)) {
+      details.push({ field: 'currency', message: 'Currency must be KHR or USD', value: data.currency, code: 'INVALID_VALUE' });
+    }
+
+    if (data.given_at !== undefined && Number.isNaN(Date.parse(data.given_at))) {
+      details.push({ field: 'given_at', message: 'given_at must be a valid date', value: data.given_at, code: 'INVALID_DATE' });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+  }
+}
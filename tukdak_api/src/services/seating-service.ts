@@ -0,0 +1,114 @@
+import { SeatingRepository } from '../repositories/seating-repository';
+import {
+  CreateSeatingTableRequest,
+  SeatAssignmentRequest,
+  SeatingTable,
+  TableRoster,
+  UpdateSeatingTableRequest
+} from '../types/seating.types';
+import { ValidationError } from '../errors/custom-errors';
+
+export class SeatingService {
+  private seatingRepository: SeatingRepository;
+
+  constructor() {
+    this.seatingRepository = new SeatingRepository();
+  }
+
+  async createTable(data: CreateSeatingTableRequest): Promise<SeatingTable> {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+
+    if (data.table_number === undefined || data.table_number === null) {
+      details.push({ field: 'table_number', message: 'Table number is required', code: 'REQUIRED' });
+    } else if (!this.isPositiveInteger(data.table_number)) {
+      details.push({ field: 'table_number', message: 'Table number must be a positive integer', value: data.table_number, code: 'INVALID_VALUE' });
+    }
+    if (data.capacity !== undefined && !this.isPositiveInteger(data.capacity)) {
+      details.push({ field: 'capacity', message: 'Capacity must be a positive integer', value: data.capacity, code: 'INVALID_VALUE' });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+
+    return this.seatingRepository.createTable(data);
+  }
+
+  async getTableById(tableId: number): Promise<SeatingTable> {
+    this.validateTableId(tableId);
+    return this.seatingRepository.getTableById(tableId);
+  }
+
+  async getAllTables(): Promise<SeatingTable[]> {
+    return this.seatingRepository.getAllTables();
+  }
+
+  async updateTable(tableId: number, updates: UpdateSeatingTableRequest): Promise<SeatingTable> {
+    this.validateTableId(tableId);
+
+    if (Object.keys(updates).length === 0) {
+      throw new ValidationError('At least one field must be provided for update');
+    }
+    if (updates.table_number !== undefined && !this.isPositiveInteger(updates.table_number)) {
+      throw new ValidationError('Validation failed', [{ field: 'table_number', message: 'Table number must be a positive integer', value: updates.table_number, code: 'INVALID_VALUE' }]);
+    }
+    if (updates.capacity !== undefined && !this.isPositiveInteger(updates.capacity)) {
+      throw new ValidationError('Validation failed', [{ field: 'capacity', message: 'Capacity must be a positive integer', value: updates.capacity, code: 'INVALID_VALUE' }]);
+    }
+
+    return this.seatingRepository.updateTable(tableId, updates);
+  }
+
+  async deleteTable(tableId: number): Promise<boolean> {
+    this.validateTableId(tableId);
+    return this.seatingRepository.deleteTable(tableId);
+  }
+
+  async assignSeats(tableId: number, request: SeatAssignmentRequest): Promise<TableRoster> {
+    this.validateTableId(tableId);
+    this.validateAssignment(request);
+    return this.seatingRepository.assignSeats(tableId, request);
+  }
+
+  async unassignSeats(tableId: number, request: SeatAssignmentRequest): Promise<TableRoster> {
+    this.validateTableId(tableId);
+    this.validateAssignment(request);
+    return this.seatingRepository.unassignSeats(tableId, request);
+  }
+
+  async getRoster(tableId: number): Promise<TableRoster> {
+    this.validateTableId(tableId);
+    return this.seatingRepository.getRoster(tableId);
+  }
+
+  private validateAssignment(request: SeatAssignmentRequest): void {
+    const details: { field: string; message: string; value?: any; code?: string }[] = [];
+    const guestIds = request.guest_ids ?? [];
+
+    if (guestIds.length === 0 && request.household_id === undefined) {
+      details.push({ field: 'guest_ids', message: 'Provide guest_ids and/or household_id', code: 'REQUIRED' });
+    }
+    guestIds.forEach((guestId, index) => {
+      if (typeof guestId !== 'string' || guestId.trim().length === 0) {
+        details.push({ field: `guest_ids[${index}]`, message: 'Guest ID must be a non-empty string', value: guestId, code: 'INVALID_TYPE' });
+      }
+    });
+    if (request.household_id !== undefined && !this.isPositiveInteger(request.household_id)) {
+      details.push({ field: 'household_id', message: 'household_id must be a positive integer', value: request.household_id, code: 'INVALID_VALUE' });
+    }
+
+    if (details.length > 0) {
+      throw new ValidationError('Validation failed', details);
+    }
+  }
+
+  private isPositiveInteger(value: unknown): boolean {
+    return Number.isInteger(value) && (value as number) > 0;
+  }
+
+  private validateTableId(tableId: number): void {
+    if (!this.isPositiveInteger(tableId)) {
+      throw new ValidationError('Valid table ID is required');
+    }
+  }
+}
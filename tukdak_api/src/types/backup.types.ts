@@ -0,0 +1,62 @@
+// Tables in a snapshot, keyed by table name, each row as stored
+export type BackupTables = Record<string, Record<string, unknown>[]>;
+
+// A full JSON snapshot of the database. schema_version identifies the layout of
+// the backed-up tables; a restore only accepts its own.
+export interface BackupSnapshot {
+  format: 'tukdak-backup';
+  schema_version: number;
+  created_at: string;
+  tables: BackupTables;
+}
+
+export type BackupFormat = 'json' | 'sqlite';
+
+export interface RestoreResult {
+  schema_version: number;
+  snapshot_created_at: string;
+  restored_at: string;
+  // SQLite copy of the database taken just before the restore
+  pre_restore_backup: string;
+  // Rows restored per table
+  tables: Record<string, number>;
+}
+
+// Why a backup file was written: by the scheduler, before a restore, or by `npm run db:backup`
+export type BackupKind = 'automatic' | 'pre-restore' | 'manual';
+
+export interface BackupFile {
+  file_name: string;
+  kind: BackupKind;
+  created_at: string;
+  size_bytes: number;
+  // null when the file cannot be opened as a database
+  guest_count: number | null;
+}
+
+// A zero interval or write count turns that trigger off
+export interface BackupScheduleConfig {
+  interval_minutes: number;
+  every_writes: number;
+  keep_hourly: number;
+  keep_daily: number;
+}
+
+export interface BackupScheduleStatus extends BackupScheduleConfig {
+  running: boolean;
+  writes_since_last_backup: number;
+  last_backup_at: string | null;
+}
+
+export interface BackupListing {
+  schedule: BackupScheduleStatus;
+  backups: BackupFile[];
+}
+
+// A passphrase-encrypted copy of the database, for carrying on removable media
+export interface EncryptedBackupResult {
+  file_path: string;
+  size_bytes: number;
+  schema_version: number;
+  created_at: string;
+}
@@ -0,0 +1,59 @@
+// One arrival at the door. Undone check-ins are kept with is_undone = true.
+export interface CheckIn {
+  id: number;
+  guest_id: string;
+  event_id?: number | null;
+  checked_in_at: string;
+  device?: string | null;
+  is_undone: boolean;
+  undone_at?: string | null;
+  undo_reason?: string | null;
+  created_at: string;
+}
+
+// Request interfaces
+export interface CheckInRequest {
+  device?: string;
+  checked_in_at?: string;
+  event_id?: number;
+}
+
+export interface UndoCheckInRequest {
+  event_id?: number;
+  reason?: string;
+}
+
+export interface BulkCheckInRequest extends CheckInRequest {
+  guest_ids: string[];
+}
+
+// Guests that could not be checked in are reported instead of failing the batch
+export interface BulkCheckInResult {
+  checked_in: CheckIn[];
+  already_checked_in: string[];
+  not_found: string[];
+}
+
+// Filter interface
+export interface CheckInFilters {
+  include_undone?: boolean;
+}
+
+// Attendance reported in the guest statistics. invited counts the (non-duplicate)
+// guests on the list; arrival_rate is arrived / invited.
+export interface AttendanceStatistics {
+  invited: number;
+  arrived: number;
+  not_arrived: number;
+  arrival_rate: number;
+  by_side: {
+    guest_of: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+    invited: number;
+    arrived: number;
+  }[];
+  // First arrival per guest, bucketed by the UTC hour it falls in
+  arrivals_per_hour: {
+    hour: string;
+    arrivals: number;
+  }[];
+}
@@ -0,0 +1,39 @@
+import { PaymentMethodCode } from './payment-method.types';
+
+// A single gift received from a guest. Guest totals are derived from these rows.
+export type ContributionCurrency = 'KHR' | 'USD';
+
+export interface Contribution {
+  id: number;
+  guest_id: string;
+  event_id?: number | null;
+  amount: number;
+  currency: ContributionCurrency;
+  payment_method: PaymentMethodCode | null;
+  received_at: string;
+  note?: string | null;
+  is_voided: boolean;
+  voided_at?: string | null;
+  void_reason?: string | null;
+  created_at: string;
+}
+
+// Request interfaces
+export interface CreateContributionRequest {
+  amount: number;
+  currency: ContributionCurrency;
+  payment_method: PaymentMethodCode;
+  received_at?: string;
+  note?: string;
+  event_id?: number;
+}
+
+export interface VoidContributionRequest {
+  reason?: string;
+}
+
+// Filter interface
+export interface ContributionFilters {
+  include_voided?: boolean;
+  event_id?: number;
+}
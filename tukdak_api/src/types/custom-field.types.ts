@@ -0,0 +1,37 @@
+export type CustomFieldType = 'text' | 'number' | 'date' | 'choice';
+
+// Numbers for number fields, strings otherwise (dates as YYYY-MM-DD)
+export type CustomFieldValue = string | number;
+
+// An admin-defined guest field. options lists the allowed values of a choice field.
+export interface CustomField {
+  id: number;
+  name: string;
+  label: string;
+  field_type: CustomFieldType;
+  options: string[] | null;
+  guest_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Request interfaces
+export interface CreateCustomFieldRequest {
+  name: string;
+  label: string;
+  field_type: CustomFieldType;
+  options?: string[];
+}
+
+export interface UpdateCustomFieldRequest {
+  label?: string;
+  options?: string[];
+}
+
+// Per-guest edits sent with PATCH /guests, keyed by field name; null clears the value
+export type CustomFieldValuesUpdate = Record<string, CustomFieldValue | null>;
+
+export interface TagCount {
+  tag: string;
+  guest_count: number;
+}
@@ -1,14 +1,32 @@
+import { PaymentMethodCode } from './payment-method.types';
+import { CustomFieldValue } from './custom-field.types';
+import { SearchHighlight } from './guest.types';
+
 export interface Guest {
   guest_id: string;
   english_name?: string;  // Added for English name search
   khmer_name?: string;    // Added for Khmer name search
   amount_khr: number;
   amount_usd: number;
-  payment_method: 'QR_Code' | 'Cash' | null;
+  payment_method: PaymentMethodCode | null;
   guest_of: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
   is_duplicate: boolean;
+  event_id?: number | null;
+  household_id?: number | null;
+  household_name?: string | null;
+  // Normalised to +855 form
+  phones?: string[];
+  address?: string | null;
+  village?: string | null;
+  province?: string | null;
+  tags?: string[];
+  custom_fields?: Record<string, CustomFieldValue>;
   created_at?: string;
   updated_at?: string;
+  similarity?: number;
+  matched_field?: 'english_name' | 'khmer_name';
+  matched_script?: 'latin' | 'khmer';
+  highlights?: SearchHighlight[];
 }
 
 export interface ActivityLog {
@@ -54,7 +72,8 @@ export interface SearchResult {
   total_count: number;
   search_time_ms: number;
   query_used: string;
-  search_type: 'guest_id' | 'english_name' | 'khmer_name';
+  search_type: SearchType;
+  min_similarity?: number;
 }
 
-export type SearchType = 'guest_id' | 'english_name' | 'khmer_name';
\ No newline at end of file
+export type SearchType = 'guest_id' | 'english_name' | 'khmer_name' | 'phone' | 'any_script' | 'all';
\ No newline at end of file
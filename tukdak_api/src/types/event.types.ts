@@ -0,0 +1,42 @@
+// One ceremony in the wedding series (engagement, hair-cutting, reception, ...)
+export type EventType = 'engagement' | 'hair_cutting' | 'blessing' | 'reception' | 'other';
+
+export interface WeddingEvent {
+  id: number;
+  name: string;
+  event_type: EventType;
+  event_date?: string | null;
+  venue?: string | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Request interfaces
+export interface CreateEventRequest {
+  name: string;
+  event_type: EventType;
+  event_date?: string;
+  venue?: string;
+  notes?: string;
+}
+
+export interface UpdateEventRequest {
+  name?: string;
+  event_type?: EventType;
+  event_date?: string | null;
+  venue?: string | null;
+  notes?: string | null;
+}
+
+// Per-event money totals reported alongside the combined statistics
+export interface EventTotals {
+  event_id: number | null;
+  event_name: string | null;
+  total_khr: number;
+  total_usd: number;
+  grand_total_khr: number;
+  grand_total_usd: number;
+  total_contributions: number;
+  paid_guests: number;
+}
@@ -0,0 +1,19 @@
+// USD -> KHR rate that applies to gifts received from effective_from onwards
+export interface ExchangeRate {
+  id: number;
+  usd_to_khr: number;
+  effective_from: string;
+  note?: string | null;
+  created_at: string;
+}
+
+// Request interfaces
+export interface CreateExchangeRateRequest {
+  usd_to_khr: number;
+  effective_from?: string;
+  note?: string;
+}
+
+// Fallback used for gifts recorded before any rate was set (the rate the
+// import sheets were prepared with)
+export const DEFAULT_USD_TO_KHR = 4000;
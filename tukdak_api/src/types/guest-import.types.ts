@@ -0,0 +1,53 @@
+// A problem with one CSV row. row is the 1-based line of the record, the header being row 1.
+export interface GuestImportRowError {
+  row: number;
+  guest_id: string | null;
+  field: string | null;
+  message: string;
+  value?: string;
+}
+
+export interface GuestImportReport {
+  dry_run: boolean;
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  imported: number;
+  // Header columns that do not map to a guest field
+  ignored_columns: string[];
+  errors: GuestImportRowError[];
+}
+
+// Guest fields a CSV column can fill
+export type ImportField =
+  | 'guest_id' | 'english_name' | 'khmer_name' | 'guest_of'
+  | 'amount_khr' | 'amount_usd' | 'payment_method'
+  | 'phones' | 'address' | 'village' | 'province';
+
+// A saved layout for a recurring spreadsheet: which source header fills which
+// guest field, and how source values translate (e.g. "ខាងស្រី" → "Bride").
+// Without a guest_id column, IDs are generated as id_prefix + a running number.
+export interface ImportProfile {
+  id: number;
+  name: string;
+  column_map: Record<string, ImportField>;
+  value_map: Partial<Record<ImportField, Record<string, string>>>;
+  id_prefix: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Request interfaces
+export interface CreateImportProfileRequest {
+  name: string;
+  column_map: Record<string, ImportField>;
+  value_map?: Partial<Record<ImportField, Record<string, string>>>;
+  id_prefix?: string;
+}
+
+export interface UpdateImportProfileRequest {
+  name?: string;
+  column_map?: Record<string, ImportField>;
+  value_map?: Partial<Record<ImportField, Record<string, string>>>;
+  id_prefix?: string | null;
+}
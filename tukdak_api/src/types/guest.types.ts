@@ -1,3 +1,10 @@
+import { EventTotals } from './event.types';
+import { PaymentMethodCode, PaymentMethodTotals } from './payment-method.types';
+import { CreateInKindGiftRequest, InKindGiftStatistics } from './in-kind-gift.types';
+import { AttendanceStatistics } from './check-in.types';
+import { RsvpStatus } from './invitation.types';
+import { CustomFieldValue, CustomFieldValuesUpdate } from './custom-field.types';
+
 // Base Guest interface - make sure this matches the database schema
 export interface Guest {
   guest_id: string;
@@ -5,11 +12,28 @@ export interface Guest {
   khmer_name?: string | null;
   amount_khr: number;
   amount_usd: number;
-  payment_method?: 'QR_Code' | 'Cash' | null;
+  payment_method?: PaymentMethodCode | null;
   guest_of: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
   is_duplicate: boolean;
+  event_id?: number | null;
+  household_id?: number | null;
+  household_name?: string | null;
+  // Normalised to +855 form
+  phones?: string[];
+  address?: string | null;
+  village?: string | null;
+  province?: string | null;
+  tags?: string[];
+  custom_fields?: Record<string, CustomFieldValue>;
   created_at: string;  // Make this required and always string
   updated_at: string;  // Make this required and always string
+  // Fuzzy and any_script searches only: how closely the name matched the query, 0-1
+  similarity?: number;
+  // any_script searches only: the name that matched and the script it is written in
+  matched_field?: 'english_name' | 'khmer_name';
+  matched_script?: 'latin' | 'khmer';
+  // all searches only: where the query matched, for bolding in the UI
+  highlights?: SearchHighlight[];
 }
 
 // Request interfaces
@@ -19,8 +43,15 @@ export interface CreateGuestRequest {
   khmer_name?: string;
   amount_khr?: number;
   amount_usd?: number;
-  payment_method?: 'QR_Code' | 'Cash';
+  payment_method?: PaymentMethodCode;
   guest_of: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+  event_id?: number;
+  in_kind_gifts?: CreateInKindGiftRequest[];
+  // Cambodian mobile numbers in any common format; stored as +855
+  phones?: string[];
+  address?: string;
+  village?: string;
+  province?: string;
 }
 
 export interface UpdateGuestRequest {
@@ -28,13 +59,36 @@ export interface UpdateGuestRequest {
   khmer_name?: string;
   amount_khr?: number;
   amount_usd?: number;
-  payment_method?: 'QR_Code' | 'Cash' | null;
+  payment_method?: PaymentMethodCode | null;
   guest_of?: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
   is_duplicate?: boolean;
+  event_id?: number | null;
+  // Replaces the guest's phone numbers
+  phones?: string[];
+  address?: string | null;
+  village?: string | null;
+  province?: string | null;
+  // Replaces the guest's tag set
+  tags?: string[];
+  // Merged into the guest's custom field values
+  custom_fields?: CustomFieldValuesUpdate;
 }
 
 // Search related types
-export type SearchType = 'guest_id' | 'english_name' | 'khmer_name';
+export type SearchType = 'guest_id' | 'english_name' | 'khmer_name' | 'phone' | 'any_script' | 'all';
+
+// A matched stretch of text: start inclusive, end exclusive, in UTF-16 code units
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+// The matches in one field of a hit; phones and tags give one entry per matching value
+export interface SearchHighlight {
+  field: 'guest_id' | 'english_name' | 'khmer_name' | 'phones' | 'tags';
+  value: string;
+  ranges: MatchRange[];
+}
 
 export interface SearchGuestsRequest {
   query: string;
@@ -42,14 +96,35 @@ export interface SearchGuestsRequest {
   limit?: number;
   offset?: number;
   includeDuplicates?: boolean;
+  event_id?: number;
+  // english_name only: also match misspellings, scored by similarity
+  fuzzy?: boolean;
+  // Lowest similarity (0-1) a fuzzy or any_script match needs; defaults to FUZZY_MIN_SIMILARITY or 0.7
+  min_similarity?: number;
+}
+
+// Optional search scoping and matching mode passed down to the repository
+export interface GuestSearchOptions {
+  event_id?: number;
+  fuzzy?: boolean;
+  min_similarity?: number;
 }
 
 // Filter interface
 export interface GuestFilters {
   guest_of?: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
-  payment_method?: 'QR_Code' | 'Cash';
+  payment_method?: PaymentMethodCode;
   has_payment?: boolean;
   is_duplicate?: boolean;
+  event_id?: number;
+  household_id?: number;
+  invited?: boolean;
+  rsvp_status?: RsvpStatus;
+  delivered_by?: string;
+  // Guests carrying every one of these tags
+  tags?: string[];
+  // Guests whose custom field equals the given value, keyed by field name
+  custom_fields?: Record<string, string>;
 }
 
 // Statistics interface
@@ -57,20 +132,44 @@ export interface GuestStatistics {
   total_guests: number;
   total_khr: number;
   total_usd: number;
+  // Both currencies combined, each gift converted at the rate in effect when it was received
+  grand_total_khr: number;
+  grand_total_usd: number;
+  total_contributions: number;
   paid_guests: number;
   pending_guests: number;
   duplicates: number;
+  // Paid guests per registry method, keyed by lower-cased code (qr_code, cash, aba, ...)
   payment_methods: {
-    qr_code: number;
-    cash: number;
+    [code: string]: number;
     pending: number;
   };
+  by_payment_method: PaymentMethodTotals[];
+  // Always lists the four sides, in Bride, Groom, Bride_Parents, Groom_Parents order
+  by_side: SideTotals[];
+  // Estimated only, so never added into total_khr / total_usd
+  in_kind_gifts: InKindGiftStatistics;
+  attendance: AttendanceStatistics;
   guest_distribution: {
     bride: number;
     groom: number;
     bride_parents: number;
     groom_parents: number;
   };
+  event_id?: number;
+  by_event?: EventTotals[];
+}
+
+// Guests of one side with their active gift totals
+export interface SideTotals {
+  guest_of: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+  guests: number;
+  paid_guests: number;
+  total_khr: number;
+  total_usd: number;
+  grand_total_khr: number;
+  grand_total_usd: number;
+  total_contributions: number;
 }
 
 // Response interfaces
@@ -80,6 +179,22 @@ export interface SearchResult {
   search_time_ms: number;
   query_used: string;
   search_type: SearchType;
+  // Set on fuzzy and any_script searches: the similarity threshold that was applied
+  min_similarity?: number;
+}
+
+// A typeahead suggestion: just enough to show the guest in a dropdown
+export interface GuestSuggestion {
+  guest_id: string;
+  english_name: string | null;
+  khmer_name: string | null;
+  guest_of: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+}
+
+export interface SuggestResult {
+  suggestions: GuestSuggestion[];
+  query_used: string;
+  search_time_ms: number;
 }
 
 // API Response wrapper
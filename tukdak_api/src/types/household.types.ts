@@ -0,0 +1,53 @@
+import { Guest } from './guest.types';
+
+// A couple or family whose envelopes are thanked and reciprocated together
+export interface Household {
+  id: number;
+  name: string;
+  head_guest_id?: string | null;
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Household with its head's names and the totals of its (non-duplicate) members.
+// grand_total_khr / given_value_khr convert each gift at the rate on its own date;
+// outstanding_khr > 0 means the household is still owed a gift back.
+export interface HouseholdSummary extends Household {
+  head_english_name?: string | null;
+  head_khmer_name?: string | null;
+  member_count: number;
+  total_khr: number;
+  total_usd: number;
+  grand_total_khr: number;
+  given_value_khr: number;
+  outstanding_khr: number;
+}
+
+export interface HouseholdDetail extends HouseholdSummary {
+  members: Guest[];
+}
+
+// Request interfaces
+export interface CreateHouseholdRequest {
+  name: string;
+  head_guest_id?: string;
+  member_ids?: string[];
+  notes?: string;
+}
+
+export interface UpdateHouseholdRequest {
+  name?: string;
+  head_guest_id?: string | null;
+  notes?: string | null;
+}
+
+export interface AddHouseholdMembersRequest {
+  guest_ids: string[];
+}
+
+// Filter interface
+export interface HouseholdFilters {
+  guest_of?: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+  outstanding_only?: boolean;
+}
@@ -0,0 +1,56 @@
+import { ContributionCurrency } from './contribution.types';
+
+// A non-money gift (gold, jewellery, goods). Its value is only an estimate, so it
+// is reported separately from the contributions ledger.
+export interface InKindGift {
+  id: number;
+  guest_id: string;
+  event_id?: number | null;
+  description: string;
+  quantity: number;
+  unit?: string | null;          // e.g. 'chi' for gold, 'piece', 'box'
+  estimated_value?: number | null;
+  estimated_currency?: ContributionCurrency | null;
+  must_return: boolean;          // gift is expected to be given back
+  return_by?: string | null;
+  received_at: string;
+  note?: string | null;
+  is_voided: boolean;
+  voided_at?: string | null;
+  void_reason?: string | null;
+  created_at: string;
+}
+
+// Request interfaces
+export interface CreateInKindGiftRequest {
+  description: string;
+  quantity?: number;
+  unit?: string;
+  estimated_value?: number;
+  estimated_currency?: ContributionCurrency;
+  must_return?: boolean;
+  return_by?: string;
+  received_at?: string;
+  note?: string;
+  event_id?: number;
+}
+
+export interface VoidInKindGiftRequest {
+  reason?: string;
+}
+
+// Filter interface
+export interface InKindGiftFilters {
+  include_voided?: boolean;
+  event_id?: number;
+}
+
+// In-kind summary reported in the guest statistics, apart from the money totals
+export interface InKindGiftStatistics {
+  total_gifts: number;
+  guests: number;
+  estimated_khr: number;
+  estimated_usd: number;
+  unvalued_gifts: number;
+  must_return: number;
+}
@@ -0,0 +1,62 @@
+export type RsvpStatus = 'pending' | 'attending' | 'declined' | 'maybe';
+
+// The invitation card sent to a guest, with their RSVP
+export interface Invitation {
+  id: number;
+  guest_id: string;
+  delivered_by?: string | null;
+  delivered_at?: string | null;
+  rsvp_status: RsvpStatus;
+  party_size: number;
+  rsvp_at?: string | null;
+  note?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Request interfaces
+export interface CreateInvitationRequest {
+  delivered_by?: string;
+  delivered_at?: string;
+  rsvp_status?: RsvpStatus;
+  party_size?: number;
+  note?: string;
+}
+
+export interface UpdateInvitationRequest {
+  delivered_by?: string | null;
+  delivered_at?: string | null;
+  rsvp_status?: RsvpStatus;
+  party_size?: number;
+  note?: string | null;
+}
+
+// Filter interface
+export interface InvitationReportFilters {
+  guest_of?: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+}
+
+export interface InvitationReportEntry {
+  guest_id: string;
+  english_name?: string | null;
+  khmer_name?: string | null;
+  guest_of: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+  delivered_by?: string | null;
+  rsvp_status?: RsvpStatus | null;
+  amount_khr: number;
+  amount_usd: number;
+}
+
+// Invited guests with no active gift, and guests who gave without being invited
+export interface InvitationReport {
+  summary: {
+    invited: number;
+    delivered: number;
+    rsvp: Record<RsvpStatus, number>;
+    expected_attendees: number;
+    invited_without_gift: number;
+    gift_without_invitation: number;
+  };
+  invited_without_gift: InvitationReportEntry[];
+  gift_without_invitation: InvitationReportEntry[];
+}
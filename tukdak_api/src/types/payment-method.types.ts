@@ -0,0 +1,36 @@
+// Payment methods live in the payment_methods registry, so codes are plain strings
+// (e.g. 'QR_Code', 'Cash', 'ABA', 'ACLEDA', 'Wing', 'Bank_Transfer', 'Gold')
+export type PaymentMethodCode = string;
+
+export interface PaymentMethod {
+  code: PaymentMethodCode;
+  label: string;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Request interfaces
+export interface CreatePaymentMethodRequest {
+  code: PaymentMethodCode;
+  label: string;
+  sort_order?: number;
+}
+
+export interface UpdatePaymentMethodRequest {
+  label?: string;
+  is_active?: boolean;
+  sort_order?: number;
+}
+
+// Per-method breakdown reported in the guest statistics
+export interface PaymentMethodTotals {
+  code: PaymentMethodCode;
+  label: string;
+  is_active: boolean;
+  guests: number;
+  contributions: number;
+  total_khr: number;
+  total_usd: number;
+}
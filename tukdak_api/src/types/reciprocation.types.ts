@@ -0,0 +1,75 @@
+import { ContributionCurrency } from './contribution.types';
+import { PaymentMethodCode } from './payment-method.types';
+
+// A gift we gave back at the guest's (or their family's) own wedding
+export interface Reciprocation {
+  id: number;
+  guest_id: string;
+  amount: number;
+  currency: ContributionCurrency;
+  payment_method?: PaymentMethodCode | null;
+  occasion?: string | null;
+  given_at: string;
+  note?: string | null;
+  is_voided: boolean;
+  voided_at?: string | null;
+  void_reason?: string | null;
+  created_at: string;
+}
+
+// Request interfaces
+export interface CreateReciprocationRequest {
+  amount: number;
+  currency: ContributionCurrency;
+  payment_method?: PaymentMethodCode;
+  occasion?: string;
+  given_at?: string;
+  note?: string;
+}
+
+export interface VoidReciprocationRequest {
+  reason?: string;
+}
+
+// Filter interfaces
+export interface ReciprocationFilters {
+  include_voided?: boolean;
+}
+
+export interface ReciprocityBalanceFilters {
+  guest_of?: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+  outstanding_only?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+// Received vs. given back for one guest. *_value_khr converts each gift at the
+// rate in effect on its own date; outstanding_khr > 0 means we still owe a gift.
+export interface GuestReciprocityBalance {
+  guest_id: string;
+  english_name?: string | null;
+  khmer_name?: string | null;
+  guest_of: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+  received_khr: number;
+  received_usd: number;
+  given_khr: number;
+  given_usd: number;
+  received_value_khr: number;
+  given_value_khr: number;
+  outstanding_khr: number;
+}
+
+export interface SideReciprocityBalance {
+  guest_of: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+  guests: number;
+  guests_outstanding: number;
+  received_value_khr: number;
+  given_value_khr: number;
+  outstanding_khr: number;
+}
+
+export interface ReciprocityReport {
+  sides: SideReciprocityBalance[];
+  guests: GuestReciprocityBalance[];
+  total_count: number;
+}
@@ -0,0 +1,33 @@
+import { Guest, GuestStatistics } from './guest.types';
+
+// One giver in the ledger, with the side's running totals up to and including them
+export interface LedgerEntry {
+  guest_id: string;
+  english_name?: string | null;
+  khmer_name?: string | null;
+  // Label of the method of the most recent gift
+  payment_method?: string | null;
+  amount_khr: number;
+  amount_usd: number;
+  running_khr: number;
+  running_usd: number;
+}
+
+export interface LedgerSection {
+  guest_of: Guest['guest_of'];
+  entries: LedgerEntry[];
+  total_khr: number;
+  total_usd: number;
+}
+
+// Who gave what, by side, plus the statistics for the summary page
+export interface LedgerReport {
+  event_id?: number;
+  event_name?: string;
+  generated_at: string;
+  sections: LedgerSection[];
+  summary: Pick<
+    GuestStatistics,
+    'total_khr' | 'total_usd' | 'grand_total_khr' | 'grand_total_usd' | 'total_contributions' | 'paid_guests' | 'by_side' | 'by_payment_method'
+  >;
+}
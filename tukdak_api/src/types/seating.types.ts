@@ -0,0 +1,54 @@
+// A numbered reception table. seated / available are derived from the seat assignments.
+export interface SeatingTable {
+  id: number;
+  table_number: number;
+  label?: string | null;
+  capacity: number;
+  notes?: string | null;
+  seated: number;
+  available: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Request interfaces
+export interface CreateSeatingTableRequest {
+  table_number: number;
+  label?: string;
+  capacity?: number;
+  notes?: string;
+}
+
+export interface UpdateSeatingTableRequest {
+  table_number?: number;
+  label?: string | null;
+  capacity?: number;
+  notes?: string | null;
+}
+
+// Guests to (un)seat, given individually and/or as a whole household
+export interface SeatAssignmentRequest {
+  guest_ids?: string[];
+  household_id?: number;
+}
+
+export interface SeatedGuest {
+  guest_id: string;
+  english_name?: string | null;
+  khmer_name?: string | null;
+  guest_of: 'Bride' | 'Groom' | 'Bride_Parents' | 'Groom_Parents';
+  household_id?: number | null;
+  household_name?: string | null;
+  assigned_at: string;
+}
+
+export interface TableRoster {
+  table: SeatingTable;
+  guests: SeatedGuest[];
+  by_side: {
+    bride: number;
+    groom: number;
+    bride_parents: number;
+    groom_parents: number;
+  };
+}
@@ -0,0 +1,124 @@
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import {ValidationError} from '../errors/custom-errors';
+
+// File layout: MAGIC | header length (uint32 BE) | header JSON | ciphertext | GCM tag.
+// Everything before the ciphertext is authenticated too, so the KDF parameters
+// and schema version cannot be altered without the passphrase.
+const MAGIC = Buffer.from('TUKDAK-ENC1', 'ascii');
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+// scrypt cost: ~32 MB and a fraction of a second per attempt
+const DEFAULT_KDF = {N: 2 ** 15, r: 8, p: 1};
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedBackupHeader {
+  cipher: 'aes-256-gcm';
+  kdf: 'scrypt';
+  N: number;
+  r: number;
+  p: number;
+  salt: string;
+  iv: string;
+  compression: 'gzip';
+  schema_version: number;
+  created_at: string;
+}
+
+const deriveKey = (passphrase: string, salt: Buffer, {N, r, p}: {N: number; r: number; p: number}): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase.normalize('NFC'), salt, KEY_LENGTH, {N, r, p, maxmem: 256 * N * r}, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+
+/**
+ * Compress and encrypt a backup with a key derived from the passphrase
+ */
+export const encryptBackup = async (
+  payload: Buffer,
+  passphrase: string,
+  meta: {schema_version: number; created_at: string},
+  kdf: {N: number; r: number; p: number} = DEFAULT_KDF
+): Promise<Buffer> => {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = await deriveKey(passphrase, salt, kdf);
+
+  const header: EncryptedBackupHeader = {
+    cipher: 'aes-256-gcm',
+    kdf: 'scrypt',
+    ...kdf,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    compression: 'gzip',
+    ...meta,
+  };
+  const headerBytes = Buffer.from(JSON.stringify(header), 'utf8');
+  const headerLength = Buffer.alloc(4);
+  headerLength.writeUInt32BE(headerBytes.length);
+  const prefix = Buffer.concat([MAGIC, headerLength, headerBytes]);
+
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(prefix);
+  const ciphertext = Buffer.concat([cipher.update(zlib.gzipSync(payload)), cipher.final()]);
+
+  return Buffer.concat([prefix, ciphertext, cipher.getAuthTag()]);
+};
+
+// Read the header without the passphrase, e.g. to check the schema version first
+export const readBackupHeader = (file: Buffer): {header: EncryptedBackupHeader; prefixLength: number} => {
+  if (file.length < MAGIC.length + 4 || !file.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new ValidationError('Not an encrypted TukDak backup');
+  }
+
+  const headerLength = file.readUInt32BE(MAGIC.length);
+  const prefixLength = MAGIC.length + 4 + headerLength;
+  if (file.length < prefixLength + TAG_LENGTH) {
+    throw new ValidationError('Encrypted backup is truncated');
+  }
+
+  try {
+    const header = JSON.parse(file.subarray(MAGIC.length + 4, prefixLength).toString('utf8')) as EncryptedBackupHeader;
+    if (header.cipher !== 'aes-256-gcm' || header.kdf !== 'scrypt' || header.compression !== 'gzip') {
+      throw new ValidationError('Unsupported encrypted backup format');
+    }
+    // A forged header must not make key derivation eat all memory
+    if (!(header.N >= 2 && header.N <= 2 ** 20 && header.r >= 1 && header.r <= 16 && header.p >= 1 && header.p <= 4)) {
+      throw new ValidationError('Unsupported key derivation parameters');
+    }
+    return {header, prefixLength};
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      throw error;
+    }
+    throw new ValidationError('Encrypted backup header is damaged');
+  }
+};
+
+/**
+ * Decrypt and decompress a backup. A wrong passphrase and a modified file
+ * are indistinguishable: both fail authentication.
+ */
+export const decryptBackup = async (
+  file: Buffer,
+  passphrase: string
+): Promise<{header: EncryptedBackupHeader; payload: Buffer}> => {
+  const {header, prefixLength} = readBackupHeader(file);
+  const key = await deriveKey(passphrase, Buffer.from(header.salt, 'base64'), header);
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(header.iv, 'base64'));
+  decipher.setAAD(file.subarray(0, prefixLength));
+  decipher.setAuthTag(file.subarray(file.length - TAG_LENGTH));
+
+  let compressed: Buffer;
+  try {
+    compressed = Buffer.concat([decipher.update(file.subarray(prefixLength, file.length - TAG_LENGTH)), decipher.final()]);
+  } catch (error) {
+    throw new ValidationError('Wrong passphrase or the backup file has been modified');
+  }
+
+  return {header, payload: zlib.gunzipSync(compressed)};
+};
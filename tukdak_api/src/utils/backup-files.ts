@@ -0,0 +1,65 @@
+import {BackupKind} from '../types/backup.types';
+
+const PREFIXES: Record<BackupKind, string> = {
+  automatic: 'auto',
+  'pre-restore': 'pre-restore',
+  manual: 'manual',
+};
+
+// e.g. auto_2025-11-02T08-00-00-000Z.db
+const FILE_NAME_PATTERN = /^(auto|pre-restore|manual)_(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.db$/;
+
+export interface NamedBackup {
+  file_name: string;
+  kind: BackupKind;
+  created_at: Date;
+}
+
+export const backupFileName = (kind: BackupKind, date: Date = new Date()): string =>
+  `${PREFIXES[kind]}_${date.toISOString().replace(/[:.]/g, '-')}.db`;
+
+// null for files in the backup directory that were not written by us
+export const parseBackupFileName = (fileName: string): NamedBackup | null => {
+  const match = FILE_NAME_PATTERN.exec(fileName);
+  if (!match) {
+    return null;
+  }
+
+  const [, prefix, day, hours, minutes, seconds, millis] = match;
+  const kind = (Object.keys(PREFIXES) as BackupKind[]).find(key => PREFIXES[key] === prefix)!;
+
+  return {
+    file_name: fileName,
+    kind,
+    created_at: new Date(`${day}T${hours}:${minutes}:${seconds}.${millis}Z`),
+  };
+};
+
+/**
+ * Pick the backups that fall out of the rotation: the newest backup of each of
+ * the last keepHourly hours and of each of the last keepDaily days (server
+ * local time) is kept, as is the newest backup overall.
+ */
+export const backupsToPrune = (backups: NamedBackup[], keepHourly: number, keepDaily: number): NamedBackup[] => {
+  const newestFirst = [...backups].sort((a, b) => b.created_at.getTime() - a.created_at.getTime());
+  const hours = new Set<string>();
+  const days = new Set<string>();
+
+  return newestFirst.filter((backup, index) => {
+    const date = backup.created_at;
+    const day = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+    const hour = `${day} ${date.getHours()}`;
+    let keep = index === 0;
+
+    if (!hours.has(hour) && hours.size < keepHourly) {
+      hours.add(hour);
+      keep = true;
+    }
+    if (!days.has(day) && days.size < keepDaily) {
+      days.add(day);
+      keep = true;
+    }
+
+    return !keep;
+  });
+};
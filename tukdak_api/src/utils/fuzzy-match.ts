@@ -0,0 +1,79 @@
+// Romanised Khmer names are spelt by ear ("Sokha", "Sokhar", "Sokah"), so fuzzy
+// search scores names by edit distance instead of requiring an exact substring.
+
+// Names scoring below this are left out of fuzzy results unless a search asks otherwise
+export const DEFAULT_MIN_SIMILARITY = 0.7;
+
+// Lower-case, drop punctuation and collapse whitespace ("Sok-Dara  " → "sokdara")
+export const normalizeForMatching = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Edits needed to turn one string into the other, counting a swap of two
+ * neighbouring letters ("Sokah" / "Sokha") as a single edit.
+ */
+export const editDistance = (a: string, b: string): number => {
+  const s = [...a];
+  const t = [...b];
+  // Three rolling rows: two back (for swaps), previous and current
+  let beforePrevious: number[] = [];
+  let previous = Array.from({length: t.length + 1}, (_, j) => j);
+
+  for (let i = 1; i <= s.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && s[i - 1] === t[j - 2] && s[i - 2] === t[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[t.length];
+};
+
+/**
+ * How closely a name matches the query, from 0 to 1. The query is compared
+ * with the whole name and with every run of as many words, so "sokah" scores
+ * well against "Chea Sokha". A name containing the query scores 1.
+ */
+export const nameSimilarity = (query: string, name: string): number => {
+  const q = normalizeForMatching(query);
+  const n = normalizeForMatching(name);
+  if (!q || !n) {
+    return 0;
+  }
+  if (n.includes(q)) {
+    return 1;
+  }
+
+  const words = n.split(' ');
+  const span = q.split(' ').length;
+  const candidates = [n];
+  for (let start = 0; start + span <= words.length; start++) {
+    candidates.push(words.slice(start, start + span).join(' '));
+  }
+
+  const qLength = [...q].length;
+  const best = Math.max(...candidates.map(candidate =>
+    1 - editDistance(q, candidate) / Math.max(qLength, [...candidate].length)
+  ));
+  return Math.round(best * 100) / 100;
+};
+
+// Distinct three-character pieces of the query, for finding candidate names in the trigram index
+export const queryTrigrams = (query: string): string[] => {
+  const chars = [...normalizeForMatching(query)];
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= chars.length; i++) {
+    trigrams.add(chars.slice(i, i + 3).join(''));
+  }
+  return [...trigrams];
+};
@@ -0,0 +1,121 @@
+// Khmer text that looks identical on screen can be stored many ways depending
+// on the keyboard and the order the typist pressed the keys: zero-width or
+// ordinary spaces between words (Khmer needs neither), a vowel typed before the
+// subscript consonant, two-part
+// vowels entered as their halves, or coeng DA where coeng TA was meant.
+// normalizeKhmer maps all of these to one form so they compare equal.
+
+const COENG = '\u17D2';
+const RO = '\u179A';
+const DA = '\u178A';
+const TA = '\u178F';
+const ROBAT = '\u17CC';
+
+// Zero-width space / non-joiner / joiner, word joiner, BOM and soft hyphen
+const INVISIBLE = /[\u200B-\u200D\u2060\uFEFF\u00AD]/g;
+
+// Two-part vowels typed as their visible halves, in either order
+const SPLIT_VOWELS: [string[], string][] = [
+  [['\u17C1\u17B8', '\u17B8\u17C1'], '\u17BE'], // េ + ី → ើ
+  [['\u17C1\u17B6', '\u17B6\u17C1'], '\u17C4'], // េ + ា → ោ
+];
+
+// Deprecated characters Unicode advises against, with their replacements
+const DEPRECATED: [RegExp, string][] = [
+  [/[\u17B4\u17B5]/g, ''],      // invisible inherent vowels
+  [/\u17A3/g, '\u17A2'],        // ឣ → អ
+  [/\u17A4/g, '\u17A2\u17B6'],  // ឤ → អា
+];
+
+const isConsonant = (char: string): boolean => char >= '\u1780' && char <= '\u17A2';
+const isIndependentVowel = (char: string): boolean => char >= '\u17A3' && char <= '\u17B3';
+const isRegisterShifter = (char: string): boolean => char === '\u17C9' || char === '\u17CA';
+const isDependentVowel = (char: string): boolean => char >= '\u17B6' && char <= '\u17C5';
+const isSign = (char: string): boolean =>
+  (char >= '\u17C6' && char <= '\u17D1' && !isRegisterShifter(char) && char !== ROBAT) ||
+  char === '\u17D3' || char === '\u17DD';
+const isMark = (char: string): boolean =>
+  char === COENG || char === ROBAT || isRegisterShifter(char) || isDependentVowel(char) || isSign(char);
+
+/**
+ * Put the marks of one syllable in Unicode's recommended order: base, robat,
+ * subscript consonants (coeng RO last), register shifter, vowel, then signs.
+ * A mark typed twice in a row is kept once.
+ */
+const orderSyllable = (base: string, marks: string[]): string => {
+  const robat: string[] = [];
+  const subscripts: string[] = [];
+  const subscriptRo: string[] = [];
+  const shifters: string[] = [];
+  const vowels: string[] = [];
+  const signs: string[] = [];
+
+  for (let i = 0; i < marks.length; i++) {
+    const mark = marks[i];
+    if (mark === COENG && isConsonant(marks[i + 1] ?? '')) {
+      const consonant = marks[++i] === DA ? TA : marks[i];
+      (consonant === RO ? subscriptRo : subscripts).push(COENG + consonant);
+    } else if (mark === ROBAT) {
+      robat.push(mark);
+    } else if (isRegisterShifter(mark)) {
+      shifters.push(mark);
+    } else if (isDependentVowel(mark)) {
+      vowels.push(mark);
+    } else {
+      signs.push(mark);
+    }
+  }
+
+  const once = (parts: string[]) => parts.filter((part, index) => part !== parts[index - 1]).join('');
+  let vowel = once(vowels);
+  SPLIT_VOWELS.forEach(([halves, whole]) => {
+    halves.forEach(pair => {
+      vowel = vowel.split(pair).join(whole);
+    });
+  });
+
+  return base + once(robat) + once(subscripts) + once(subscriptRo) + once(shifters) + vowel + once(signs);
+};
+
+/**
+ * Normalise Khmer text for the search columns and for search queries. Spaces
+ * between Khmer words are dropped; text without Khmer only loses invisible
+ * characters and surplus whitespace.
+ */
+export const normalizeKhmer = (text: string): string => {
+  let cleaned = text.normalize('NFC').replace(INVISIBLE, '');
+  DEPRECATED.forEach(([pattern, replacement]) => {
+    cleaned = cleaned.replace(pattern, replacement);
+  });
+
+  // A syllable starts at a consonant or independent vowel and collects the
+  // marks up to the next one; a subscript takes its consonant along
+  const chars = [...cleaned];
+  let result = '';
+  let base = '';
+  let marks: string[] = [];
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    if (isMark(char)) {
+      marks.push(char);
+      if (char === COENG && isConsonant(chars[i + 1] ?? '')) {
+        marks.push(chars[++i]);
+      }
+      continue;
+    }
+
+    result += orderSyllable(base, marks);
+    marks = [];
+    base = isConsonant(char) || isIndependentVowel(char) ? char : '';
+    if (!base) {
+      result += char;
+    }
+  }
+  result += orderSyllable(base, marks);
+
+  return result
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/([\u1780-\u17FF]) (?=[\u1780-\u17FF])/g, '$1');
+};
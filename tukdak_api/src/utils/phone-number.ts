@@ -0,0 +1,65 @@
+// Cambodian mobile numbers: trunk 0, a two-digit carrier prefix, then a six or
+// seven digit subscriber number (e.g. 012 345 678, 097 123 4567).
+export const CARRIER_PREFIXES: Record<string, string[]> = {
+  Cellcard: ['11', '12', '14', '17', '61', '76', '77', '78', '79', '85', '89', '92', '95', '99'],
+  Smart: ['10', '15', '16', '69', '70', '81', '86', '87', '93', '96', '98'],
+  Metfone: ['31', '60', '66', '67', '68', '71', '88', '90', '97'],
+  Seatel: ['18'],
+  Cootel: ['38'],
+};
+
+const COUNTRY_CODE = '855';
+const KNOWN_PREFIXES = new Set(Object.values(CARRIER_PREFIXES).flat());
+const SEPARATORS = /[\s\-.()]/g;
+
+// Khmer digits ០-៩ are common in hand-written lists
+const toAsciiDigits = (value: string): string =>
+  value.replace(/[០-៩]/g, digit => String(digit.charCodeAt(0) - 0x17E0));
+
+// The national number without trunk 0 or country code, or null if the input is not all digits
+const nationalNumber = (input: string): string | null => {
+  let digits = toAsciiDigits(input.trim()).replace(SEPARATORS, '');
+
+  if (digits.startsWith('+')) {
+    digits = digits.slice(1);
+  } else if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (digits.startsWith('0')) {
+    return /^\d+$/.test(digits) ? digits.slice(1) : null;
+  }
+
+  if (!/^\d+$/.test(digits) || !digits.startsWith(COUNTRY_CODE)) {
+    return null;
+  }
+  return digits.slice(COUNTRY_CODE.length).replace(/^0/, '');
+};
+
+/**
+ * Normalise a Cambodian mobile number to +855 form (e.g. "012 345 678" → "+85512345678").
+ * Returns null when the number is malformed or its carrier prefix is unknown.
+ */
+export const normalizeCambodianPhone = (input: string): string | null => {
+  if (typeof input !== 'string') {
+    return null;
+  }
+
+  const national = nationalNumber(input);
+  if (!national || !/^\d{8,9}$/.test(national) || !KNOWN_PREFIXES.has(national.slice(0, 2))) {
+    return null;
+  }
+
+  return `+${COUNTRY_CODE}${national}`;
+};
+
+// Whether a search query is written as a (possibly partial) phone number: digits and separators only
+export const isPhoneQuery = (query: string): boolean =>
+  /^\+?[\d០-៩\s\-.()]+$/.test(query.trim()) && /[\d០-៩]/.test(query);
+
+/**
+ * The digits of a (possibly partial) phone number to look for in stored +855
+ * numbers: separators, a leading + / 00 / 855 and the trunk 0 are dropped.
+ */
+export const phoneSearchDigits = (query: string): string => {
+  const digits = toAsciiDigits(query).replace(/\D/g, '');
+  return digits.replace(/^(00)?855/, '').replace(/^0/, '');
+};
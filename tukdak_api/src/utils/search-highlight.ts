@@ -0,0 +1,52 @@
+// Where a search query occurs in the text returned to the client, so the UI can
+// bold the matched part. Ranges index the text exactly as returned.
+
+import {MatchRange} from '../types/guest.types';
+import {normalizeKhmer} from './khmer-text';
+
+/**
+ * Every non-overlapping occurrence of the query in the text, ignoring case.
+ */
+export const findMatchRanges = (text: string, query: string): MatchRange[] => {
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  const ranges: MatchRange[] = [];
+  if (!needle || haystack.length !== text.length) {
+    return ranges;
+  }
+
+  for (let start = haystack.indexOf(needle); start !== -1; start = haystack.indexOf(needle, start + needle.length)) {
+    ranges.push({start, end: start + needle.length});
+  }
+  return ranges;
+};
+
+/**
+ * Occurrences of a normalised Khmer query in a Khmer name as it was typed.
+ * Names are searched in their normalised form (see utils/khmer-text), which
+ * may order marks differently or lack the spaces of the stored text, so each
+ * stretch of the stored name is normalised and compared in turn. Each match
+ * is the shortest one from its start.
+ */
+export const findKhmerMatchRanges = (text: string, normalizedQuery: string): MatchRange[] => {
+  const direct = findMatchRanges(text, normalizedQuery);
+  if (direct.length > 0 || !normalizedQuery) {
+    return direct;
+  }
+
+  const ranges: MatchRange[] = [];
+  for (let start = 0; start < text.length; start++) {
+    // A match starts at visible text, not at a space normalisation would drop
+    if (!normalizeKhmer(text[start])) {
+      continue;
+    }
+    for (let end = start + 1; end <= text.length; end++) {
+      if (normalizeKhmer(text.slice(start, end)) === normalizedQuery) {
+        ranges.push({start, end});
+        start = end - 1;
+        break;
+      }
+    }
+  }
+  return ranges;
+};
@@ -0,0 +1,129 @@
+// Cross-script matching of guest names. Romanised Khmer names have no fixed
+// spelling (ស៊ុន is Sun, Soun or Son), so instead of romanising Khmer in full,
+// both scripts are reduced to a key of the consonants a name is heard with:
+// "Sokha Chan" and សុខា ច័ន្ទ both become "sk cn". Vowels, whose romanisation
+// varies most, are left out.
+
+import {normalizeKhmer} from './khmer-text';
+
+const KHMER = /[\u1780-\u17FF]/;
+const COENG = '\u17D2';
+const NIKAHIT = '\u17C6';
+const TRAILING_SIGNS = /[\u17CB-\u17D3]+$/;
+const RO = 'r';
+const YO = 'y';
+
+// Khmer consonants by the letter they are usually romanised with. "q" stands
+// for ng; ហ and អ carry no consonant of their own.
+const KHMER_CONSONANTS: Record<string, string> = {
+  'ក': 'k', 'ខ': 'k', 'គ': 'k', 'ឃ': 'k', 'ង': 'q',
+  'ច': 'c', 'ឆ': 'c', 'ជ': 'c', 'ឈ': 'c', 'ញ': 'n',
+  'ដ': 'd', 'ឋ': 't', 'ឌ': 'd', 'ឍ': 't', 'ណ': 'n',
+  'ត': 't', 'ថ': 't', 'ទ': 't', 'ធ': 't', 'ន': 'n',
+  'ប': 'b', 'ផ': 'p', 'ព': 'p', 'ភ': 'p', 'ម': 'm',
+  'យ': 'y', 'រ': 'r', 'ល': 'l', 'វ': 'v', 'ឝ': 's',
+  'ឞ': 's', 'ស': 's', 'ហ': '', 'ឡ': 'l', 'អ': '',
+};
+
+// Latin spellings folded onto the same letters, longest first
+const LATIN_FOLDS: [RegExp, string][] = [
+  [/chh|ch|j/g, 'c'],
+  [/kh|gh|g/g, 'k'],
+  [/ph|f/g, 'p'],
+  [/th|dh/g, 't'],
+  [/bh/g, 'b'],
+  [/sh|z|x/g, 's'],
+  [/nh|ny/g, 'n'],
+  [/w/g, 'v'],
+];
+
+const collapse = (letters: string): string => letters.replace(/(.)\1+/g, '$1');
+
+export const hasKhmer = (text: string): boolean => KHMER.test(text);
+
+const latinWordKey = (word: string): string => {
+  // "ng" is folded before a lone g turns into k
+  let letters = word.toLowerCase().replace(/[^a-z]/g, '').replace(/ng/g, 'q');
+  LATIN_FOLDS.forEach(([pattern, letter]) => {
+    letters = letters.replace(pattern, letter);
+  });
+
+  // A final r is an English spelling habit ("Sokhar"); Khmer does not sound it
+  if (letters.endsWith(RO)) {
+    letters = letters.slice(0, -1);
+  }
+  const initialY = letters.startsWith(YO) ? YO : '';
+  return collapse(initialY + letters.slice(initialY.length).replace(/[aeiouyh]/g, ''));
+};
+
+const khmerWordKey = (word: string): string => {
+  // Silent-letter signs such as ់ and ៍ do not count towards how a word ends
+  const chars = [...normalizeKhmer(word).replace(TRAILING_SIGNS, '')];
+  const letters: {letter: string; subscript: boolean; final: boolean}[] = [];
+
+  chars.forEach((char, index) => {
+    if (char in KHMER_CONSONANTS) {
+      letters.push({
+        letter: KHMER_CONSONANTS[char],
+        subscript: chars[index - 1] === COENG,
+        final: index === chars.length - 1,
+      });
+    } else if (char === NIKAHIT) {
+      letters.push({letter: 'm', subscript: false, final: false});
+    }
+  });
+
+  // A subscript closing the word after a sounded consonant is silent (ចន្ទ is
+  // "chan"), and so is a final រ
+  const last = letters[letters.length - 1];
+  if (letters.length > 1 && last.final && last.subscript && letters[letters.length - 2].letter) {
+    letters.pop();
+  } else if (letters.length > 1 && last.final && last.letter === RO) {
+    letters.pop();
+  }
+
+  return collapse(letters
+    .map(({letter}, index) => (letter === YO && index > 0 ? '' : letter))
+    .join(''));
+};
+
+/**
+ * Consonant key of a name in either script, one key per word. Khmer words
+ * may be separated by ordinary or zero-width spaces.
+ */
+export const nameKey = (name: string): string =>
+  name
+    .split(/[\s\u200B]+/)
+    .map(word => (hasKhmer(word) ? khmerWordKey(word) : latinWordKey(word)))
+    .filter(key => key.length > 0)
+    .join(' ');
+
+/**
+ * How closely a query key matches a name's key, from 0 to 1. Every query word
+ * found among the name's words scores 1. Khmer is often written without
+ * spaces, so keys are also compared with their spaces removed: equal scores 1,
+ * contained 0.9. Otherwise the share of query words found.
+ */
+export const keySimilarity = (queryKey: string, key: string): number => {
+  if (!queryKey || !key) {
+    return 0;
+  }
+
+  const words = key.split(' ');
+  const queryWords = queryKey.split(' ');
+  const found = queryWords.filter(word => words.includes(word)).length;
+  if (found === queryWords.length) {
+    return 1;
+  }
+
+  const compactQuery = queryKey.replace(/ /g, '');
+  const compact = key.replace(/ /g, '');
+  if (compact === compactQuery) {
+    return 1;
+  }
+  // A single consonant would be found in nearly every name
+  if (compactQuery.length >= 2 && compact.includes(compactQuery)) {
+    return 0.9;
+  }
+  return Math.round((found / queryWords.length) * 100) / 100;
+};